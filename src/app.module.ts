@@ -1,9 +1,18 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditModule } from './core/audit/audit.module';
 import { AuthModule } from './core/auth/auth.module';
 import { DatabaseModule } from './core/database/database.module';
+import { EventsModule } from './core/events/events.module';
 import { HealthModule } from './core/health/health.module';
+import { HistoryModule } from './core/history/history.module';
+import { IdempotencyModule } from './core/idempotency/idempotency.module';
+import { MailModule } from './core/mail/mail.module';
+import { RetentionModule } from './core/retention/retention.module';
+import { TenancyModule } from './core/tenancy/tenancy.module';
+import { WebhooksModule } from './core/webhooks/webhooks.module';
+import { RequestContextMiddleware } from './common/middleware/request-context.middleware';
 import { databaseConfig } from './config/database.config';
 import { jwtConfig } from './config/jwt.config';
 import { swaggerConfig } from './config/swagger.config';
@@ -27,8 +36,16 @@ import { configuration } from './config/configuration';
 
     // Core Modules
     HealthModule,
-    AuthModule,
+    AuthModule.forRoot({ global: true }),
+    MailModule.forRoot(),
     DatabaseModule,
+    RetentionModule.forRoot(),
+    AuditModule.forRoot(),
+    HistoryModule.forRoot(),
+    TenancyModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    EventsModule.forRoot(),
+    WebhooksModule.forRoot(),
 
     // Feature modules will be dynamically imported here
     // Example: UsersModule,
@@ -36,4 +53,8 @@ import { configuration } from './config/configuration';
   controllers: [],
   providers: [],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestContextMiddleware).forRoutes('*path');
+  }
+}
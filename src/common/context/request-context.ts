@@ -0,0 +1,164 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request } from 'express';
+
+/**
+ * Request Context
+ *
+ * Carries the current HTTP request through asynchronous calls, so services
+ * deep in the call stack (auditing, tenancy, transactions) can read the
+ * caller's identity without it being passed through every method.
+ * Populated by RequestContextMiddleware; empty outside of HTTP requests
+ * (scheduled jobs, CLI scripts).
+ */
+
+/**
+ * Values stored for the current request
+ */
+export interface RequestContextStore {
+  /**
+   * Current HTTP request
+   */
+  request?: Request;
+
+  /**
+   * Tenant (merchant) the request acts on, set by TenantGuard
+   */
+  tenantId?: string;
+
+  /**
+   * Additional values attached during the request
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * Authenticated caller
+ */
+export interface RequestActor {
+  /**
+   * User identifier (JWT subject)
+   */
+  id?: string;
+
+  /**
+   * User email
+   */
+  email?: string;
+
+  /**
+   * User role
+   */
+  role?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+export class RequestContext {
+  /**
+   * Runs a function within a new request context
+   *
+   * @param store Values available to the function and everything it calls
+   * @param callback Function to run
+   * @returns Result of the function
+   */
+  static run<R>(store: RequestContextStore, callback: () => R): R {
+    return storage.run(store, callback);
+  }
+
+  /**
+   * Gets the current context store
+   *
+   * @returns Context store, or undefined outside of a request
+   */
+  static current(): RequestContextStore | undefined {
+    return storage.getStore();
+  }
+
+  /**
+   * Gets the current HTTP request
+   *
+   * @returns Request, or undefined outside of a request
+   */
+  static getRequest(): Request | undefined {
+    return storage.getStore()?.request;
+  }
+
+  /**
+   * Gets the authenticated caller of the current request
+   *
+   * @returns Actor, or undefined for anonymous requests and background work
+   */
+  static getActor(): RequestActor | undefined {
+    const request = RequestContext.getRequest() as
+      | (Request & { user?: Record<string, unknown> })
+      | undefined;
+    const user = request?.user;
+    if (!user) {
+      return undefined;
+    }
+
+    const id = user.sub ?? user.id;
+    return {
+      id:
+        typeof id === 'string' || typeof id === 'number'
+          ? String(id)
+          : undefined,
+      email: typeof user.email === 'string' ? user.email : undefined,
+      role: typeof user.role === 'string' ? user.role : undefined,
+    };
+  }
+
+  /**
+   * Gets the correlation ID of the current request
+   *
+   * @returns Correlation ID assigned by LoggingInterceptor or sent by the client
+   */
+  static getCorrelationId(): string | undefined {
+    const request = RequestContext.getRequest() as
+      | (Request & { correlationId?: string })
+      | undefined;
+    if (!request) {
+      return undefined;
+    }
+
+    const header = request.headers['x-correlation-id'];
+    return (
+      request.correlationId ?? (Array.isArray(header) ? header[0] : header)
+    );
+  }
+
+  /**
+   * Gets the tenant the current request acts on
+   *
+   * @returns Tenant ID, or undefined if no tenant was resolved
+   */
+  static getTenantId(): string | undefined {
+    return storage.getStore()?.tenantId;
+  }
+
+  /**
+   * Sets the tenant the current request acts on
+   *
+   * Has no effect outside of a request context.
+   *
+   * @param tenantId Tenant ID
+   */
+  static setTenantId(tenantId: string | undefined): void {
+    const store = storage.getStore();
+    if (store) {
+      store.tenantId = tenantId;
+    }
+  }
+
+  /**
+   * Gets the client IP address of the current request
+   *
+   * Honors X-Forwarded-For only when Express is configured to trust proxies.
+   *
+   * @returns IP address, or undefined outside of a request
+   */
+  static getIp(): string | undefined {
+    const request = RequestContext.getRequest();
+    return request?.ip ?? request?.socket?.remoteAddress;
+  }
+}
@@ -0,0 +1,40 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Natural key metadata key
+ */
+export const NATURAL_KEY_KEY = 'naturalKey';
+
+/**
+ * Natural Key Decorator
+ *
+ * Declares the fields identifying an entity outside of its generated ID,
+ * such as the phone number of a customer within a merchant. BaseService
+ * upserts match existing rows on these fields, so imports from external
+ * systems can be re-run without creating duplicates. Back the key with a
+ * unique index.
+ *
+ * Usage:
+ * ```typescript
+ * @NaturalKey('merchantId', 'phone')
+ * @Entity('customers')
+ * @Index(['merchantId', 'phone'], { unique: true })
+ * export class Customer extends BaseEntity {}
+ * ```
+ *
+ * @param fields Entity properties forming the key
+ * @returns Decorator function
+ */
+export const NaturalKey = (...fields: string[]) =>
+  SetMetadata(NATURAL_KEY_KEY, fields);
+
+/**
+ * Reads the natural key declared on an entity
+ *
+ * @param entity Entity class
+ * @returns Natural key fields, or null if the entity declares none
+ */
+export const getNaturalKey = (entity: unknown): string[] | null =>
+  (typeof entity === 'function' &&
+    (Reflect.getMetadata(NATURAL_KEY_KEY, entity) as string[] | undefined)) ||
+  null;
@@ -0,0 +1,44 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Outbound webhook metadata key
+ */
+export const OUTBOUND_WEBHOOK_KEY = 'outboundWebhook';
+
+/**
+ * Outbound Webhook Decorator
+ *
+ * Outbound counterpart of `@PublicWebhook()`: opts an entity into webhook
+ * delivery, so the domain events raised by its BaseService mutations are
+ * sent to the webhook subscriptions of the merchant owning the row.
+ * Requires the EventsModule and WebhooksModule to be loaded, and the entity
+ * to be tenant scoped.
+ *
+ * Usage:
+ * ```typescript
+ * @OutboundWebhook('created', 'updated')
+ * @TenantScoped()
+ * @Entity('customers')
+ * export class Customer extends BaseEntity {}
+ * ```
+ *
+ * @param events Event names to deliver, e.g. created, updated, deleted,
+ *               restored or purged (default: every event)
+ * @returns Decorator function
+ */
+export const OutboundWebhook = (...events: string[]) =>
+  SetMetadata(OUTBOUND_WEBHOOK_KEY, events.length > 0 ? events : ['*']);
+
+/**
+ * Reads the webhook events declared on an entity
+ *
+ * @param entity Entity class
+ * @returns Delivered event names ('*' for every event), or null if the
+ *          entity is not delivered to webhooks
+ */
+export const getOutboundWebhookEvents = (entity: unknown): string[] | null =>
+  (typeof entity === 'function' &&
+    (Reflect.getMetadata(OUTBOUND_WEBHOOK_KEY, entity) as
+      | string[]
+      | undefined)) ||
+  null;
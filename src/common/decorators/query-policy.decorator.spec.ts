@@ -0,0 +1,79 @@
+import { Get } from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import { DECORATORS } from '@nestjs/swagger/dist/constants';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import {
+  ApiQueryPolicy,
+  QueryPolicy,
+  getQueryPolicy,
+} from './query-policy.decorator';
+
+@QueryPolicy({ sortable: ['name'], expandable: ['orders'] })
+class Customer {}
+
+class ReadController {
+  @Get()
+  @ApiQuery({ name: 'sortBy', required: false, type: String })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  findMany(): string {
+    return 'list';
+  }
+}
+
+@ApiQueryPolicy(Customer)
+class CustomersController extends ReadController {}
+
+const handlerOf = (controller: { prototype: object }): unknown =>
+  Object.getOwnPropertyDescriptor(controller.prototype, 'findMany')?.value;
+
+const queryParameters = (handler: unknown) =>
+  (
+    Reflect.getMetadata(DECORATORS.API_PARAMETERS, handler as object) as {
+      name: string;
+      schema?: { enum?: string[] };
+      description?: string;
+    }[]
+  ).map((parameter) => ({
+    name: parameter.name,
+    enum: parameter.schema?.enum,
+    description: parameter.description,
+  }));
+
+describe('QueryPolicy', () => {
+  it('reads the policy declared on an entity', () => {
+    expect(getQueryPolicy(Customer)).toEqual({
+      sortable: ['name'],
+      expandable: ['orders'],
+    });
+    expect(getQueryPolicy(class {})).toEqual({});
+  });
+
+  it('documents inherited routes from the policy', () => {
+    const handler = handlerOf(CustomersController);
+    const parameters = queryParameters(handler);
+
+    expect(handler).not.toBe(handlerOf(ReadController));
+    expect(new CustomersController().findMany()).toBe('list');
+    expect(Reflect.getMetadata(PATH_METADATA, handler as object)).toBe('/');
+    expect(parameters.map((parameter) => parameter.name).sort()).toEqual([
+      'expand',
+      'fields',
+      'page',
+      'sortBy',
+    ]);
+    expect(parameters.find((p) => p.name === 'sortBy')?.enum).toEqual(['name']);
+    expect(parameters.find((p) => p.name === 'expand')?.description).toContain(
+      'orders',
+    );
+  });
+
+  it('leaves the base route documentation untouched', () => {
+    const parameters = queryParameters(handlerOf(ReadController));
+
+    expect(parameters.map((parameter) => parameter.name).sort()).toEqual([
+      'page',
+      'sortBy',
+    ]);
+    expect(parameters.find((p) => p.name === 'sortBy')?.enum).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import { ApiQuery, ApiQueryOptions } from '@nestjs/swagger';
+import { DECORATORS } from '@nestjs/swagger/dist/constants';
+
+/**
+ * Query policy metadata key
+ */
+export const QUERY_POLICY_KEY = 'queryPolicy';
+
+/**
+ * Relations an expand path may traverse unless the policy sets a limit
+ */
+export const DEFAULT_MAX_EXPAND_DEPTH = 2;
+
+/**
+ * Query Policy Options
+ *
+ * Fields clients may reference in query strings. An omitted list allows
+ * every mapped column; relations can only be expanded when listed.
+ * Nested relations are listed as dotted paths, e.g. `game_sessions.game`.
+ */
+export interface QueryPolicyOptions {
+  /**
+   * Fields clients may sort by
+   */
+  sortable?: string[];
+
+  /**
+   * Fields clients may filter on
+   */
+  filterable?: string[];
+
+  /**
+   * Fields clients may select
+   */
+  selectable?: string[];
+
+  /**
+   * Fields clients may aggregate, group by or bucket by date
+   */
+  aggregatable?: string[];
+
+  /**
+   * Relations clients may expand; listing a nested path also allows
+   * expanding each of its parents
+   * Default: none
+   */
+  expandable?: string[];
+
+  /**
+   * Maximum number of relations an expand path may traverse
+   * Default: DEFAULT_MAX_EXPAND_DEPTH
+   */
+  maxExpandDepth?: number;
+}
+
+/**
+ * Documented query parameter
+ */
+type QueryParameter = ApiQueryOptions & { name: string };
+
+/**
+ * Query Policy Decorator
+ *
+ * Declares which fields of an entity clients may sort, filter, select and
+ * expand. Enforced by BaseService for every entity it manages.
+ *
+ * Usage:
+ * ```typescript
+ * @QueryPolicy({
+ *   sortable: ['createdAt', 'name'],
+ *   filterable: ['createdAt', 'status'],
+ *   selectable: ['id', 'name', 'status'],
+ *   expandable: ['game_sessions.game', 'leaderboards'],
+ * })
+ * @Entity('customers')
+ * export class Customer extends BaseEntity {}
+ * ```
+ *
+ * @param policy Allowed fields per query feature
+ * @returns Decorator function
+ */
+export const QueryPolicy = (policy: QueryPolicyOptions) =>
+  SetMetadata(QUERY_POLICY_KEY, policy);
+
+/**
+ * Reads the query policy declared on an entity
+ *
+ * @param entity Entity class
+ * @returns Query policy, or an empty policy if none is declared
+ */
+export const getQueryPolicy = (entity: unknown): QueryPolicyOptions =>
+  (typeof entity === 'function' &&
+    (Reflect.getMetadata(QUERY_POLICY_KEY, entity) as
+      | QueryPolicyOptions
+      | undefined)) ||
+  {};
+
+/**
+ * Query Policy Documentation Decorator
+ *
+ * Documents the query parameters of the inherited BaseController read
+ * routes from the entity's query policy, so Swagger lists the allowed
+ * sort, select and expand fields of this controller only.
+ *
+ * Usage:
+ * ```typescript
+ * @ApiQueryPolicy(Customer)
+ * @Controller('customers')
+ * export class CustomersController extends BaseController<Customer> {}
+ * ```
+ *
+ * @param entity Entity class carrying the query policy
+ * @returns Decorator function
+ */
+export const ApiQueryPolicy =
+  (entity: Type<unknown>): ClassDecorator =>
+  (target) => {
+    const policy = getQueryPolicy(entity);
+    const expandable = policy.expandable ?? [];
+
+    const sortBy: QueryParameter = {
+      name: 'sortBy',
+      required: false,
+      description: 'Field to sort by (default: createdAt)',
+      ...(policy.sortable
+        ? { enum: policy.sortable }
+        : { type: String, example: 'createdAt' }),
+    };
+    const fields: QueryParameter = {
+      name: 'fields',
+      required: false,
+      type: String,
+      description: policy.selectable
+        ? `Comma separated fields to return, prefixed with the relation path for expanded relations. Allowed: ${policy.selectable.join(', ')}`
+        : 'Comma separated fields to return, prefixed with the relation path for expanded relations (default: all fields)',
+    };
+    const expand: QueryParameter = {
+      name: 'expand',
+      required: false,
+      type: String,
+      description:
+        expandable.length > 0
+          ? `Comma separated relations to include, nested with dots. Allowed: ${expandable.join(', ')}`
+          : 'Comma separated relations to include (none are expandable)',
+    };
+
+    const routes: Record<string, QueryParameter[]> = {
+      findMany: [sortBy, fields, expand],
+      findDeleted: [sortBy, fields, expand],
+      findManyByCursor: [sortBy],
+      findById: [fields, expand],
+    };
+
+    for (const [method, parameters] of Object.entries(routes)) {
+      documentRoute(target, method, parameters);
+    }
+  };
+
+/**
+ * Replaces the documented query parameters of an inherited route
+ *
+ * The route handler is redefined on the controller itself, carrying over
+ * the inherited route metadata, so the base class documentation shared by
+ * all controllers is left untouched.
+ *
+ * @param target Controller class
+ * @param method Route handler name
+ * @param parameters Query parameters to document
+ */
+const documentRoute = (
+  target: { prototype: unknown },
+  method: string,
+  parameters: QueryParameter[],
+): void => {
+  const prototype = target.prototype as Record<string, unknown>;
+  const inherited = prototype[method];
+  if (typeof inherited !== 'function') {
+    return;
+  }
+
+  const handler = Object.prototype.hasOwnProperty.call(prototype, method)
+    ? inherited
+    : {
+        [method](this: unknown, ...args: unknown[]): unknown {
+          return (inherited as (...args: unknown[]) => unknown).apply(
+            this,
+            args,
+          );
+        },
+      }[method];
+
+  if (handler !== inherited) {
+    for (const key of Reflect.getMetadataKeys(inherited) as unknown[]) {
+      Reflect.defineMetadata(key, Reflect.getMetadata(key, inherited), handler);
+    }
+    Object.defineProperty(prototype, method, {
+      value: handler,
+      writable: true,
+      configurable: true,
+    });
+  }
+
+  const names = parameters.map((parameter) => parameter.name);
+  const existing = (
+    (Reflect.getMetadata(DECORATORS.API_PARAMETERS, handler) as
+      | { name?: string; in?: string }[]
+      | undefined) ?? []
+  ).filter(
+    (parameter) =>
+      parameter.in !== 'query' || !names.includes(parameter.name ?? ''),
+  );
+
+  Reflect.defineMetadata(DECORATORS.API_PARAMETERS, existing, handler);
+
+  for (const parameter of parameters) {
+    ApiQuery(parameter)(prototype, method, { value: handler });
+  }
+};
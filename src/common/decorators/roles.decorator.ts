@@ -262,10 +262,17 @@ export const FeatureFlag = (flagName: string) => {
   return SetMetadata(key, flagName);
 };
 
+/**
+ * Tenant required metadata key
+ */
+export const TENANT_REQUIRED_KEY = 'tenantRequired';
+
 /**
  * Multi-tenant decorator
  *
- * Marks routes that require tenant context
+ * Marks routes that require tenant context. Enforced by TenantGuard, which
+ * rejects requests whose tenant cannot be resolved from the JWT, the tenant
+ * header or the subdomain.
  *
  * Usage:
  * ```typescript
@@ -278,10 +285,7 @@ export const FeatureFlag = (flagName: string) => {
  *
  * @returns Decorator function
  */
-export const TenantRequired = () => {
-  const key = 'tenantRequired';
-  return SetMetadata(key, true);
-};
+export const TenantRequired = () => SetMetadata(TENANT_REQUIRED_KEY, true);
 
 /**
  * API key authentication decorator
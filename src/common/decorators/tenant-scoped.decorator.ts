@@ -0,0 +1,40 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Tenant scope metadata key
+ */
+export const TENANT_SCOPED_KEY = 'tenantScoped';
+
+/**
+ * Tenant Scoped Decorator
+ *
+ * Marks an entity as owned by a tenant (merchant). BaseService then limits
+ * every read and write to the tenant of the current request and stamps the
+ * tenant on created rows.
+ *
+ * Usage:
+ * ```typescript
+ * @TenantScoped('merchantId')
+ * @Entity('customers')
+ * export class Customer extends BaseEntity {
+ *   @Column()
+ *   merchantId: string;
+ * }
+ * ```
+ *
+ * @param field Entity property holding the tenant ID (default: merchantId)
+ * @returns Decorator function
+ */
+export const TenantScoped = (field = 'merchantId') =>
+  SetMetadata(TENANT_SCOPED_KEY, field);
+
+/**
+ * Reads the tenant field declared on an entity
+ *
+ * @param entity Entity class
+ * @returns Tenant property name, or null if the entity is not tenant scoped
+ */
+export const getTenantField = (entity: unknown): string | null =>
+  (typeof entity === 'function' &&
+    (Reflect.getMetadata(TENANT_SCOPED_KEY, entity) as string | undefined)) ||
+  null;
@@ -0,0 +1,35 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Entity history metadata key
+ */
+export const TRACK_HISTORY_KEY = 'trackHistory';
+
+/**
+ * Track History Decorator
+ *
+ * Opts an entity into versioned history. BaseService then stores a snapshot
+ * of the previous state on every update and soft delete, which backs the
+ * `GET :id/history`, `GET :id?asOf=` and revert routes of BaseController.
+ * Requires the HistoryModule to be loaded.
+ *
+ * Usage:
+ * ```typescript
+ * @TrackHistory()
+ * @Entity('loyalty_rules')
+ * export class LoyaltyRule extends BaseEntity {}
+ * ```
+ *
+ * @returns Decorator function
+ */
+export const TrackHistory = () => SetMetadata(TRACK_HISTORY_KEY, true);
+
+/**
+ * Checks whether an entity opted into versioned history
+ *
+ * @param entity Entity class
+ * @returns True if the entity is decorated with `@TrackHistory()`
+ */
+export const isHistoryTracked = (entity: unknown): boolean =>
+  typeof entity === 'function' &&
+  Reflect.getMetadata(TRACK_HISTORY_KEY, entity) === true;
@@ -44,6 +44,9 @@ export class LoggingInterceptor implements NestInterceptor {
     const startTime = Date.now();
     const correlationId = this.getCorrelationId(request);
 
+    // Keep the ID on the request so nested interceptors and the audit trail reuse it
+    request['correlationId'] = correlationId;
+
     // Set correlation ID in response header
     response.setHeader('X-Correlation-ID', correlationId);
 
@@ -191,6 +194,13 @@ export class LoggingInterceptor implements NestInterceptor {
    * @returns Correlation ID string
    */
   private getCorrelationId(request: Request): string {
+    // Reuse the ID assigned earlier in this request
+    const assignedId = (request as Request & { correlationId?: string })
+      .correlationId;
+    if (assignedId) {
+      return assignedId;
+    }
+
     // Check if correlation ID is provided in headers
     const existingId = request.headers['x-correlation-id'] as string;
     if (existingId) {
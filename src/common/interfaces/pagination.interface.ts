@@ -41,12 +41,13 @@ export interface PaginationOptions {
   where?: any;
 
   /**
-   * Relations to include in the query
+   * Relations to include in the query, as dotted paths for nested relations
    */
   relations?: string[];
 
   /**
-   * Fields to select (null for all fields)
+   * Fields to select (null for all fields), prefixed with the relation path
+   * for fields of included relations
    */
   select?: string[];
 
@@ -70,6 +71,11 @@ export interface PaginationOptions {
    */
   includeDeleted?: boolean;
 
+  /**
+   * Return only soft-deleted records (trash view)
+   */
+  onlyDeleted?: boolean;
+
   /**
    * Enable eager loading of relations
    */
@@ -301,6 +307,11 @@ export interface CursorPaginationOptions {
    */
   where?: any;
 
+  /**
+   * Filters to apply
+   */
+  filters?: FilterOptions;
+
   /**
    * Relations to include
    */
@@ -405,6 +416,27 @@ export interface SearchOptions {
   sortByRelevance?: boolean;
 }
 
+/**
+ * Search Hit Interface
+ * A single search result with its relevance
+ */
+export interface SearchHit<T = any> {
+  /**
+   * Matched item
+   */
+  item: T;
+
+  /**
+   * Relevance score (0..1 for the built-in scorer, engine specific otherwise)
+   */
+  score: number;
+
+  /**
+   * Highlight snippets per field (if requested)
+   */
+  highlights?: Record<string, string[]>;
+}
+
 /**
  * Sort Options Interface
  * Options for sorting results
@@ -532,6 +564,47 @@ export interface BulkOperationsOptions {
   batchDelay?: number;
 }
 
+/**
+ * Bulk Request Options
+ * Bulk operation options accepted in request bodies
+ */
+export type BulkRequestOptions = Pick<
+  BulkOperationsOptions,
+  | 'batchSize'
+  | 'transactional'
+  | 'continueOnError'
+  | 'maxRetries'
+  | 'batchDelay'
+>;
+
+/**
+ * Bulk Items Request Interface
+ * Request body of the bulk create, update and upsert endpoints
+ */
+export interface BulkItemsRequest<D = Record<string, unknown>>
+  extends BulkRequestOptions {
+  /**
+   * Rows to process
+   */
+  items: D[];
+}
+
+/**
+ * Bulk Delete Request Interface
+ * Request body of the bulk delete endpoint
+ */
+export interface BulkDeleteRequest extends BulkRequestOptions {
+  /**
+   * IDs of the entities to delete
+   */
+  ids?: string[];
+
+  /**
+   * Equality conditions on filterable fields, used when no IDs are given
+   */
+  where?: Record<string, string | number | boolean | null>;
+}
+
 /**
  * Bulk Operation Result Interface
  * Result of bulk operations
@@ -552,6 +625,11 @@ export interface BulkOperationResult {
    */
   failed: number;
 
+  /**
+   * Number of items not processed because the operation stopped early
+   */
+  skipped?: number;
+
   /**
    * Array of errors (if any)
    */
@@ -568,6 +646,22 @@ export interface BulkOperationResult {
   timestamp: string;
 }
 
+/**
+ * Upsert Result Interface
+ * Entity stored by an upsert
+ */
+export interface UpsertResult<T = any> {
+  /**
+   * Created or updated entity
+   */
+  entity: T;
+
+  /**
+   * True if the entity was created, false if an existing one was updated
+   */
+  created: boolean;
+}
+
 /**
  * Bulk Operation Error Interface
  * Error information for bulk operations
@@ -597,4 +691,142 @@ export interface BulkOperationError {
    * Error timestamp
    */
   timestamp: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Aggregate Function Type
+ * Functions available to aggregate queries
+ */
+export type AggregateFunction =
+  | 'count'
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max'
+  | 'countDistinct';
+
+/**
+ * Date Bucket Interval Type
+ * Granularity of date buckets in aggregate queries
+ */
+export type AggregateInterval = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Aggregate Metric Interface
+ * A value computed per group
+ */
+export interface AggregateMetric {
+  /**
+   * Aggregate function
+   */
+  fn: AggregateFunction;
+
+  /**
+   * Field to aggregate; required for every function except count, which
+   * counts rows when omitted and non-null values otherwise
+   */
+  field?: string;
+}
+
+/**
+ * Aggregate Options Interface
+ * Options for aggregate and group-by queries
+ */
+export interface AggregateOptions {
+  /**
+   * Metrics to compute (default: count)
+   */
+  metrics?: AggregateMetric[];
+
+  /**
+   * Fields to group by
+   */
+  groupBy?: string[];
+
+  /**
+   * Date bucket interval, groups rows by `dateField`
+   */
+  interval?: AggregateInterval;
+
+  /**
+   * Date field bucketed by `interval` (default: createdAt)
+   */
+  dateField?: string;
+
+  /**
+   * Base where conditions
+   */
+  where?: any;
+
+  /**
+   * Advanced filters, as accepted by findMany
+   */
+  filters?: FilterOptions;
+
+  /**
+   * Search term, as accepted by findMany
+   */
+  search?: string;
+
+  /**
+   * Fields to search in
+   */
+  searchFields?: string[];
+
+  /**
+   * Include soft-deleted entities
+   */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Aggregate Result Interface
+ * Series of aggregated values, ordered by bucket and group
+ */
+export interface AggregateResult {
+  /**
+   * Computed metrics, keyed in each row by their `key`
+   */
+  metrics: (AggregateMetric & { key: string })[];
+
+  /**
+   * Fields the rows are grouped by
+   */
+  groupBy: string[];
+
+  /**
+   * Date bucket interval, if rows are bucketed
+   */
+  interval?: AggregateInterval;
+
+  /**
+   * Aggregated rows
+   */
+  rows: AggregateRow[];
+
+  /**
+   * Query timestamp
+   */
+  timestamp: string;
+}
+
+/**
+ * Aggregate Row Interface
+ * Aggregated values of one group
+ */
+export interface AggregateRow {
+  /**
+   * Start of the date bucket as an ISO timestamp, if rows are bucketed
+   */
+  bucket?: string;
+
+  /**
+   * Values of the group-by fields
+   */
+  group: Record<string, unknown>;
+
+  /**
+   * Metric values by metric key, e.g. `count` or `sum_points`
+   */
+  values: Record<string, number | string | null>;
+}
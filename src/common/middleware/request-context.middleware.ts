@@ -0,0 +1,23 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { RequestContext } from '../context/request-context';
+
+/**
+ * Request Context Middleware
+ *
+ * Opens a RequestContext for every incoming request so the rest of the
+ * request pipeline can read it through `RequestContext`.
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  /**
+   * Runs the remaining request pipeline inside a new request context
+   *
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param next Next middleware
+   */
+  use(req: Request, res: Response, next: NextFunction): void {
+    RequestContext.run({ request: req }, next);
+  }
+}
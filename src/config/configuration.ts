@@ -16,6 +16,58 @@ export default () => ({
     connectionLimit: parseInt(process.env.DB_CONNECTION_LIMIT, 10) || 50,
     acquireTimeout: parseInt(process.env.DB_ACQUIRE_TIMEOUT, 10) || 60000,
     timeout: parseInt(process.env.DB_TIMEOUT, 10) || 60000,
+    autoRunMigrations: process.env.DB_AUTO_RUN_MIGRATIONS === 'true',
+    replicas: (process.env.DB_REPLICA_HOSTS ?? '')
+      .split(',')
+      .map((host) => host.trim())
+      .filter(Boolean),
+    replicaUsername: process.env.DB_REPLICA_USERNAME,
+    replicaPassword: process.env.DB_REPLICA_PASSWORD,
+    replicaMaxLag: parseInt(process.env.DB_REPLICA_MAX_LAG ?? '30', 10),
+  },
+
+  retention: {
+    softDeleteRetentionDays: parseInt(
+      process.env.SOFT_DELETE_RETENTION_DAYS ?? '30',
+      10,
+    ),
+    purgeInterval: parseInt(
+      process.env.SOFT_DELETE_PURGE_INTERVAL ?? '86400000',
+      10,
+    ),
+  },
+
+  audit: {
+    retentionDays: parseInt(process.env.AUDIT_RETENTION_DAYS ?? '365', 10),
+    purgeInterval: parseInt(process.env.AUDIT_PURGE_INTERVAL ?? '86400000', 10),
+  },
+
+  history: {
+    maxVersions: parseInt(process.env.HISTORY_MAX_VERSIONS ?? '0', 10),
+  },
+
+  tenancy: {
+    headerName: process.env.TENANT_HEADER || 'x-tenant-id',
+    claim: process.env.TENANT_JWT_CLAIM || 'merchantId',
+    baseDomain: process.env.TENANT_BASE_DOMAIN || undefined,
+  },
+
+  idempotency: {
+    ttl: parseInt(process.env.IDEMPOTENCY_TTL ?? '86400', 10),
+    purgeInterval: parseInt(
+      process.env.IDEMPOTENCY_PURGE_INTERVAL ?? '3600000',
+      10,
+    ),
+  },
+  webhooks: {
+    relayInterval: parseInt(process.env.WEBHOOK_RELAY_INTERVAL ?? '5000', 10),
+    batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE ?? '100', 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '8', 10),
+    backoffBase: parseInt(process.env.WEBHOOK_BACKOFF_BASE ?? '30000', 10),
+    backoffMax: parseInt(process.env.WEBHOOK_BACKOFF_MAX ?? '21600000', 10),
+    timeout: parseInt(process.env.WEBHOOK_TIMEOUT ?? '10000', 10),
+    allowHttp: process.env.WEBHOOK_ALLOW_HTTP === 'true',
+    allowPrivateNetworks: process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true',
   },
 
   jwt: {
@@ -25,6 +77,44 @@ export default () => ({
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
+  auth: {
+    refreshTokenStore:
+      process.env.JWT_REFRESH_TOKEN_STORE === 'redis' ? 'redis' : 'database',
+    refreshTokenRotation: process.env.JWT_REFRESH_TOKEN_ROTATION !== 'false',
+    maxActiveTokens: parseInt(process.env.JWT_MAX_ACTIVE_TOKENS ?? '10', 10),
+    enableBlacklist: process.env.AUTH_ENABLE_BLACKLIST === 'true',
+    blacklistStore: process.env.AUTH_BLACKLIST_STORE || 'memory',
+    passwordResetUrl:
+      process.env.AUTH_PASSWORD_RESET_URL ||
+      'http://localhost:3000/reset-password',
+    passwordResetTtl: parseInt(
+      process.env.AUTH_PASSWORD_RESET_TTL ?? '3600',
+      10,
+    ),
+    emailVerificationUrl:
+      process.env.AUTH_EMAIL_VERIFICATION_URL ||
+      'http://localhost:3000/verify-email',
+    emailVerificationTtl: parseInt(
+      process.env.AUTH_EMAIL_VERIFICATION_TTL ?? '86400',
+      10,
+    ),
+    mfaRequiredRoles: (process.env.AUTH_MFA_REQUIRED_ROLES ?? '')
+      .split(',')
+      .map((role) => role.trim())
+      .filter(Boolean),
+    mfaIssuer:
+      process.env.AUTH_MFA_ISSUER || process.env.APP_NAME || 'NestJS API',
+    mfaChallengeTtl: parseInt(process.env.AUTH_MFA_CHALLENGE_TTL ?? '300', 10),
+  },
+
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console',
+    from: process.env.MAIL_FROM || 'no-reply@example.com',
+    outputDir: process.env.MAIL_OUTPUT_DIR || './mail',
+    relayInterval: parseInt(process.env.MAIL_RELAY_INTERVAL ?? '5000', 10),
+    maxAttempts: parseInt(process.env.MAIL_MAX_ATTEMPTS ?? '5', 10),
+  },
+
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT, 10) || 6379,
@@ -32,6 +122,13 @@ export default () => ({
     db: parseInt(process.env.REDIS_DB, 10) || 0,
   },
 
+  cache: {
+    enabled: process.env.CACHE_ENABLED !== 'false',
+    store: process.env.CACHE_STORE === 'redis' ? 'redis' : 'memory',
+    ttl: parseInt(process.env.CACHE_TTL ?? '60', 10),
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES ?? '1000', 10),
+  },
+
   swagger: {
     title: process.env.SWAGGER_TITLE || 'API Documentation',
     description: process.env.SWAGGER_DESCRIPTION || 'API documentation',
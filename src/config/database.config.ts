@@ -2,6 +2,47 @@ import { ConfigService } from '@nestjs/config';
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
 import { join } from 'path';
 
+/**
+ * Builds the primary/replica setup from DB_REPLICA_HOSTS
+ *
+ * TypeORM then sends SELECT queries to the replicas and all other queries
+ * to the primary. Replicas share the primary's database and, unless set,
+ * its credentials.
+ */
+const replicationConfig = (configService: ConfigService) => {
+  const replicas = configService.get<string[]>('database.replicas', []);
+  if (replicas.length === 0) {
+    return {};
+  }
+
+  const primary = {
+    host: configService.get<string>('database.host'),
+    port: configService.get<number>('database.port'),
+    username: configService.get<string>('database.username'),
+    password: configService.get<string>('database.password'),
+    database: configService.get<string>('database.database'),
+  };
+  return {
+    replication: {
+      master: primary,
+      slaves: replicas.map((replica) => {
+        const [host, port] = replica.split(':');
+        return {
+          ...primary,
+          host,
+          port: port ? parseInt(port, 10) : primary.port,
+          username:
+            configService.get<string>('database.replicaUsername') ||
+            primary.username,
+          password:
+            configService.get<string>('database.replicaPassword') ||
+            primary.password,
+        };
+      }),
+    },
+  };
+};
+
 export const databaseConfig = (configService: ConfigService): TypeOrmModuleOptions => ({
   type: configService.get<string>('database.type') as any,
   host: configService.get<string>('database.host'),
@@ -10,6 +51,9 @@ export const databaseConfig = (configService: ConfigService): TypeOrmModuleOptio
   password: configService.get<string>('database.password'),
   database: configService.get<string>('database.database'),
 
+  // Read replicas, when configured
+  ...replicationConfig(configService),
+
   // Entity loading - auto-discover all entities
   entities: [
     join(__dirname, '**', '*.entity{.ts,.js}'),
@@ -17,9 +61,9 @@ export const databaseConfig = (configService: ConfigService): TypeOrmModuleOptio
   ],
 
   // Migration settings
-  migrations: [join(__dirname, 'migrations', '*{.ts,.js}')],
+  migrations: [join(__dirname, '..', 'migrations', '*{.ts,.js}')],
   cli: {
-    migrationsDir: join(__dirname, 'migrations'),
+    migrationsDir: join(__dirname, '..', 'migrations'),
   },
 
   // Performance settings
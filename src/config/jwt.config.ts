@@ -40,6 +40,18 @@ export const jwtConfig = registerAs('jwt', (): JwtModuleOptions => {
   };
 });
 
+/**
+ * Converts a JWT lifetime ('7d', '12h', '30m', '45s' or seconds) to seconds
+ */
+export const parseExpiresIn = (value: string | number): number => {
+  const match = /^(\d+)\s*([smhdw]?)$/.exec(String(value).trim());
+  if (!match) {
+    throw new Error(`Invalid token lifetime: ${value}`);
+  }
+  const units = { '': 1, s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  return Number(match[1]) * units[match[2] as keyof typeof units];
+};
+
 /**
  * JWT Payload Interface
  */
@@ -47,6 +59,11 @@ export interface JwtPayload {
   sub: string;
   email: string;
   role: string;
+  merchantId?: string;
+  /** Session (refresh token family) the token was issued for */
+  sid?: string;
+  /** Token ID, the key of the revocation list */
+  jti?: string;
   iat?: number;
   exp?: number;
   iss?: string;
@@ -64,6 +81,17 @@ export interface RefreshTokenPayload {
   exp?: number;
 }
 
+/**
+ * MFA Challenge Token Payload Interface
+ */
+export interface MfaChallengePayload {
+  sub: string;
+  type: 'mfa';
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
 /**
  * Token Pair Interface
  */
@@ -0,0 +1,124 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Change of a single field between two entity states
+ */
+export interface AuditFieldChange {
+  /**
+   * Value before the operation
+   */
+  from: unknown;
+
+  /**
+   * Value after the operation
+   */
+  to: unknown;
+}
+
+/**
+ * Audit Log Entity
+ *
+ * Append-only record of a mutation performed through a BaseService:
+ * who changed what, when, from where, and how the entity changed.
+ */
+@Entity('audit_logs')
+@Index(['entityType', 'entityId', 'createdAt'])
+@Index(['actorId', 'createdAt'])
+export class AuditLog {
+  @ApiProperty({
+    description: 'Unique identifier for the audit entry',
+    format: 'uuid',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'Operation performed',
+    example: 'UPDATE',
+  })
+  @Column({ length: 64 })
+  operation: string;
+
+  @ApiProperty({
+    description: 'Entity table affected by the operation',
+    example: 'customers',
+  })
+  @Column({ length: 128 })
+  entityType: string;
+
+  @ApiProperty({
+    description: 'ID of the affected entity (empty for bulk operations)',
+    required: false,
+  })
+  @Column({ length: 64, nullable: true })
+  entityId?: string | null;
+
+  @ApiProperty({
+    description: 'ID of the user who performed the operation',
+    required: false,
+  })
+  @Column({ length: 128, nullable: true })
+  actorId?: string | null;
+
+  @ApiProperty({
+    description: 'Email of the user who performed the operation',
+    required: false,
+  })
+  @Column({ length: 255, nullable: true })
+  actorEmail?: string | null;
+
+  @ApiProperty({
+    description: 'Role of the user who performed the operation',
+    required: false,
+  })
+  @Column({ length: 64, nullable: true })
+  actorRole?: string | null;
+
+  @ApiProperty({
+    description: 'Correlation ID of the request',
+    required: false,
+  })
+  @Index()
+  @Column({ length: 128, nullable: true })
+  correlationId?: string | null;
+
+  @ApiProperty({
+    description: 'Client IP address',
+    required: false,
+  })
+  @Column({ length: 64, nullable: true })
+  ipAddress?: string | null;
+
+  @ApiProperty({
+    description: 'Changed fields with their previous and new values',
+    required: false,
+  })
+  @Column({ type: 'simple-json', nullable: true })
+  changes?: Record<string, AuditFieldChange> | null;
+
+  @ApiProperty({
+    description: 'Additional operation data (bulk counts, conditions)',
+    required: false,
+  })
+  @Column({ type: 'simple-json', nullable: true })
+  metadata?: Record<string, unknown> | null;
+
+  @ApiProperty({
+    description: 'Timestamp of the operation',
+    format: 'date-time',
+  })
+  @Index()
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
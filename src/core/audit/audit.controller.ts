@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminOnly } from '../../common/decorators/roles.decorator';
+import { PaginatedResult } from '../../common/interfaces/pagination.interface';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { AuditLog } from './audit-log.entity';
+import { AuditService } from './audit.service';
+import type { AuditQuery } from './audit.module';
+
+/**
+ * Audit Controller
+ *
+ * Admin-only read access to the audit trail.
+ *
+ * Endpoints:
+ * - GET /admin/audit-logs - Search audit entries
+ * - GET /admin/audit-logs/entities/:entityType/:entityId - History of one entity
+ * - GET /admin/audit-logs/actors/:actorId - Operations of one user
+ */
+@ApiTags('audit')
+@ApiBearerAuth()
+@Controller('admin/audit-logs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@AdminOnly()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Searches audit entries
+   *
+   * @param query Raw query parameters
+   * @returns Promise resolving to paginated audit entries
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Search audit entries',
+    description:
+      'Lists audit entries matching the given criteria, newest first',
+  })
+  @ApiQuery({ name: 'entityType', required: false, type: String })
+  @ApiQuery({ name: 'entityId', required: false, type: String })
+  @ApiQuery({ name: 'actorId', required: false, type: String })
+  @ApiQuery({ name: 'operation', required: false, type: String })
+  @ApiQuery({ name: 'correlationId', required: false, type: String })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Earliest entry date (ISO 8601)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Latest entry date (ISO 8601)',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Entries per page (default: 20, max: 100)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Audit entries retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin role required',
+  })
+  async findMany(
+    @Query() query: Record<string, any>,
+  ): Promise<PaginatedResult<AuditLog>> {
+    const criteria: AuditQuery = {
+      entityType: this.parseString(query.entityType),
+      entityId: this.parseString(query.entityId),
+      actorId: this.parseString(query.actorId),
+      operation: this.parseString(query.operation)?.toUpperCase(),
+      correlationId: this.parseString(query.correlationId),
+      from: this.parseDate(query.from, 'from'),
+      to: this.parseDate(query.to, 'to'),
+    };
+
+    return this.auditService.findMany(criteria, ...this.parsePage(query));
+  }
+
+  /**
+   * Lists the audit history of one entity
+   *
+   * @param entityType Entity table name
+   * @param entityId Entity ID
+   * @param query Raw query parameters
+   * @returns Promise resolving to paginated audit entries
+   */
+  @Get('entities/:entityType/:entityId')
+  @ApiOperation({
+    summary: 'Audit history of an entity',
+    description: 'Lists every recorded operation on a single entity',
+  })
+  @ApiParam({ name: 'entityType', description: 'Entity table name' })
+  @ApiParam({ name: 'entityId', description: 'Entity ID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Audit entries retrieved successfully',
+  })
+  async findByEntity(
+    @Param('entityType') entityType: string,
+    @Param('entityId') entityId: string,
+    @Query() query: Record<string, any>,
+  ): Promise<PaginatedResult<AuditLog>> {
+    return this.auditService.findMany(
+      { entityType, entityId },
+      ...this.parsePage(query),
+    );
+  }
+
+  /**
+   * Lists the operations performed by one user
+   *
+   * @param actorId User ID
+   * @param query Raw query parameters
+   * @returns Promise resolving to paginated audit entries
+   */
+  @Get('actors/:actorId')
+  @ApiOperation({
+    summary: 'Audit history of a user',
+    description: 'Lists every recorded operation performed by a single user',
+  })
+  @ApiParam({ name: 'actorId', description: 'User ID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Audit entries retrieved successfully',
+  })
+  async findByActor(
+    @Param('actorId') actorId: string,
+    @Query() query: Record<string, any>,
+  ): Promise<PaginatedResult<AuditLog>> {
+    return this.auditService.findMany({ actorId }, ...this.parsePage(query));
+  }
+
+  /**
+   * Parses page and limit query parameters
+   *
+   * @param query Raw query parameters
+   * @returns Page number and page size
+   * @throws BadRequestException if either value is not a positive integer
+   */
+  private parsePage(query: Record<string, any>): [number, number] {
+    const page = Number(query.page ?? 1);
+    const limit = Number(query.limit ?? 20);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new BadRequestException('limit must be a positive integer');
+    }
+    return [page, limit];
+  }
+
+  /**
+   * Parses an optional string query parameter
+   *
+   * @param value Raw query value
+   * @returns Trimmed value, or undefined if empty
+   */
+  private parseString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() !== ''
+      ? value.trim()
+      : undefined;
+  }
+
+  /**
+   * Parses an optional date query parameter
+   *
+   * @param value Raw query value
+   * @param name Parameter name used in error messages
+   * @returns Parsed date, or undefined if absent
+   * @throws BadRequestException if the value is not a valid date
+   */
+  private parseDate(value: unknown, name: string): Date | undefined {
+    const text = this.parseString(value);
+    if (text === undefined) {
+      return undefined;
+    }
+
+    const date = new Date(text);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be a valid date`);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,94 @@
+import type { AuditFieldChange } from './audit-log.entity';
+
+/**
+ * Audit Diff
+ *
+ * Computes field-level differences between two entity states for the
+ * audit trail. Values are normalized to JSON-compatible form so the diff
+ * can be stored as is, and sensitive fields are masked.
+ */
+
+/**
+ * Placeholder stored instead of sensitive values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names masked in audit records unless configured otherwise
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'passwordHash',
+  'secret',
+  'token',
+  'refreshToken',
+  'apiKey',
+  'twoFactorSecret',
+];
+
+/**
+ * Builds the changed fields between two entity states
+ *
+ * A missing `before` describes a creation, a missing `after` a deletion.
+ * Nested objects and arrays are compared by value.
+ *
+ * @param before State before the operation
+ * @param after State after the operation
+ * @param redactedFields Fields whose values are masked
+ * @returns Changed fields with their previous and new values
+ */
+export const diffEntities = (
+  before: object | null | undefined,
+  after: object | null | undefined,
+  redactedFields: string[] = DEFAULT_REDACTED_FIELDS,
+): Record<string, AuditFieldChange> => {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const redacted = new Set(redactedFields.map((field) => field.toLowerCase()));
+  const changes: Record<string, AuditFieldChange> = {};
+
+  for (const field of new Set([
+    ...Object.keys(previous),
+    ...Object.keys(next),
+  ])) {
+    const from = normalize(previous[field]);
+    const to = normalize(next[field]);
+    if (
+      typeof previous[field] === 'function' ||
+      typeof next[field] === 'function'
+    ) {
+      continue;
+    }
+    if (JSON.stringify(from) === JSON.stringify(to)) {
+      continue;
+    }
+
+    changes[field] = redacted.has(field.toLowerCase())
+      ? {
+          from: from === null ? null : REDACTED,
+          to: to === null ? null : REDACTED,
+        }
+      : { from, to };
+  }
+
+  return changes;
+};
+
+/**
+ * Converts a value to its JSON representation
+ *
+ * @param value Raw value
+ * @returns JSON-compatible value (undefined becomes null)
+ */
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.parse(JSON.stringify(value)) as unknown;
+  }
+  return value;
+};
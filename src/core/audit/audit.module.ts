@@ -0,0 +1,122 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditController } from './audit.controller';
+import { AuditLog } from './audit-log.entity';
+import { AuditService } from './audit.service';
+
+/**
+ * Audit Module
+ *
+ * Provides the persisted audit trail of entity mutations:
+ * - Audit entries written by every BaseService operation
+ * - Actor, correlation ID and client IP of the originating request
+ * - Field-level before/after diffs with sensitive values masked
+ * - Admin-only endpoints to query entries per entity and per actor
+ * - Scheduled purge of entries past the retention period
+ *
+ * This module is global so every BaseService can record operations.
+ */
+@Global()
+@Module({})
+export class AuditModule {
+  /**
+   * Configures and returns the audit module
+   *
+   * @param options Optional audit settings (fall back to the `audit` config)
+   * @returns DynamicModule configured audit module
+   */
+  static forRoot(options?: AuditModuleOptions): DynamicModule {
+    const providers = [
+      AuditService,
+      {
+        provide: 'AUDIT_OPTIONS',
+        useValue: options || {},
+      },
+    ];
+
+    return {
+      module: AuditModule,
+      imports: [TypeOrmModule.forFeature([AuditLog])],
+      controllers: [AuditController],
+      providers,
+      exports: [AuditService],
+    };
+  }
+}
+
+/**
+ * Audit Module Configuration Options
+ */
+export interface AuditModuleOptions {
+  /**
+   * Days audit entries are kept
+   * Default: 365 (0 keeps entries forever)
+   */
+  retentionDays?: number;
+
+  /**
+   * Interval between retention purges in milliseconds
+   * Default: 86400000 (24 hours, 0 disables the schedule)
+   */
+  purgeInterval?: number;
+
+  /**
+   * Field names whose values are masked in diffs
+   * Default: password, secret, token and similar fields
+   */
+  redactedFields?: string[];
+
+  /**
+   * Fail the audited operation when the entry cannot be stored
+   * Default: false
+   */
+  failOnError?: boolean;
+}
+
+/**
+ * Operation to record in the audit trail
+ */
+export interface AuditEntry {
+  /**
+   * Operation performed, e.g. CREATE, UPDATE, SOFT_DELETE
+   */
+  operation: string;
+
+  /**
+   * Entity table affected by the operation
+   */
+  entityType: string;
+
+  /**
+   * ID of the affected entity
+   */
+  entityId?: string | null;
+
+  /**
+   * Entity state before the operation
+   */
+  before?: object | null;
+
+  /**
+   * Entity state after the operation
+   */
+  after?: object | null;
+
+  /**
+   * Additional operation data
+   */
+  metadata?: Record<string, unknown> | null;
+}
+
+/**
+ * Audit entry search criteria
+ */
+export interface AuditQuery {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  operation?: string;
+  correlationId?: string;
+  from?: Date;
+  to?: Date;
+}
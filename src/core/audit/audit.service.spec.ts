@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { Repository } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { AuditLog } from './audit-log.entity';
+import { REDACTED } from './audit.diff';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  let repository: Repository<AuditLog>;
+  let service: AuditService;
+
+  beforeEach(() => {
+    repository = {
+      create: jest.fn((data: Partial<AuditLog>) => data),
+      save: jest.fn((log: AuditLog) => Promise.resolve(log)),
+    } as unknown as Repository<AuditLog>;
+    service = new AuditService(repository, new ConfigService(), {});
+  });
+
+  it('records the actor, correlation id and field changes of the request', async () => {
+    const request = {
+      user: { sub: 'user-1', email: 'admin@example.com', role: 'admin' },
+      correlationId: 'corr-1',
+      ip: '10.0.0.1',
+      headers: {},
+    } as unknown as Request;
+
+    const log = await RequestContext.run({ request }, () =>
+      service.record({
+        operation: 'UPDATE',
+        entityType: 'customers',
+        entityId: 'c-1',
+        before: { id: 'c-1', name: 'Old', password: 'a' },
+        after: { id: 'c-1', name: 'New', password: 'b' },
+      }),
+    );
+
+    expect(log).toMatchObject({
+      actorId: 'user-1',
+      actorEmail: 'admin@example.com',
+      actorRole: 'admin',
+      correlationId: 'corr-1',
+      ipAddress: '10.0.0.1',
+      changes: {
+        name: { from: 'Old', to: 'New' },
+        password: { from: REDACTED, to: REDACTED },
+      },
+    });
+  });
+
+  it('does not fail the operation when the entry cannot be stored', async () => {
+    Object.assign(repository, {
+      save: jest.fn().mockRejectedValue(new Error('db down')),
+    });
+    const logError = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+
+    await expect(
+      service.record({ operation: 'CREATE', entityType: 'customers' }),
+    ).resolves.toBeNull();
+    expect(logError).toHaveBeenCalledWith(
+      'Failed to record audit entry customers:CREATE',
+      expect.stringContaining('db down'),
+    );
+    logError.mockRestore();
+  });
+});
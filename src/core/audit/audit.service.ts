@@ -0,0 +1,211 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  LessThan,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { PaginatedResult } from '../../common/interfaces/pagination.interface';
+import { AuditLog } from './audit-log.entity';
+import { DEFAULT_REDACTED_FIELDS, diffEntities } from './audit.diff';
+import type {
+  AuditEntry,
+  AuditModuleOptions,
+  AuditQuery,
+} from './audit.module';
+
+/**
+ * Audit Service
+ *
+ * Persists the audit trail of BaseService mutations and serves it to the
+ * admin audit controller. The actor, correlation ID and client IP are taken
+ * from the current request context. Entries older than the retention
+ * period are purged on a schedule.
+ */
+@Injectable()
+export class AuditService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditService.name);
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(AuditLog)
+    private readonly repository: Repository<AuditLog>,
+    private readonly configService: ConfigService,
+    @Inject('AUDIT_OPTIONS')
+    private readonly options: AuditModuleOptions = {},
+  ) {}
+
+  /**
+   * Starts the retention schedule
+   */
+  onModuleInit(): void {
+    const interval =
+      this.options.purgeInterval ??
+      this.configService.get<number>('audit.purgeInterval', 86400000);
+
+    if (interval > 0) {
+      this.purgeTimer = setInterval(() => {
+        this.purgeExpired().catch((error) =>
+          this.logger.error(
+            'Audit log purge failed',
+            error instanceof Error ? error.stack : String(error),
+          ),
+        );
+      }, interval);
+      this.purgeTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the retention schedule
+   */
+  onModuleDestroy(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  /**
+   * Records a mutation in the audit trail
+   *
+   * Failures are logged and swallowed unless `failOnError` is set, so
+   * auditing problems do not break the audited operation.
+   *
+   * @param entry Operation to record
+   * @returns Promise resolving to the stored entry, or null if nothing was stored
+   */
+  async record(entry: AuditEntry): Promise<AuditLog | null> {
+    try {
+      const actor = RequestContext.getActor();
+      const redactedFields =
+        this.options.redactedFields ?? DEFAULT_REDACTED_FIELDS;
+      const changes =
+        entry.before || entry.after
+          ? diffEntities(entry.before, entry.after, redactedFields)
+          : null;
+
+      const log = this.repository.create({
+        operation: entry.operation,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        actorId: actor?.id ?? null,
+        actorEmail: actor?.email ?? null,
+        actorRole: actor?.role ?? null,
+        correlationId: RequestContext.getCorrelationId() ?? null,
+        ipAddress: RequestContext.getIp() ?? null,
+        changes,
+        metadata: entry.metadata ?? null,
+      });
+
+      return await this.repository.save(log);
+    } catch (error) {
+      if (this.options.failOnError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to record audit entry ${entry.entityType}:${entry.operation}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Finds audit entries, newest first
+   *
+   * @param query Audit entry criteria
+   * @param page Page number (1-based)
+   * @param limit Entries per page (max 100)
+   * @returns Promise resolving to paginated audit entries
+   */
+  async findMany(
+    query: AuditQuery = {},
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedResult<AuditLog>> {
+    const take = Math.min(Math.max(1, limit), 100);
+    const where: FindOptionsWhere<AuditLog> = {};
+
+    if (query.entityType) {
+      where.entityType = query.entityType;
+    }
+    if (query.entityId) {
+      where.entityId = query.entityId;
+    }
+    if (query.actorId) {
+      where.actorId = query.actorId;
+    }
+    if (query.operation) {
+      where.operation = query.operation;
+    }
+    if (query.correlationId) {
+      where.correlationId = query.correlationId;
+    }
+    if (query.from && query.to) {
+      where.createdAt = Between(query.from, query.to);
+    } else if (query.from) {
+      where.createdAt = MoreThanOrEqual(query.from);
+    } else if (query.to) {
+      where.createdAt = LessThanOrEqual(query.to);
+    }
+
+    const [data, total] = await this.repository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * take,
+      take,
+    });
+
+    const totalPages = Math.ceil(total / take);
+    return {
+      data,
+      pagination: {
+        page,
+        limit: take,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+        startIndex: total === 0 ? 0 : (page - 1) * take + 1,
+        endIndex: (page - 1) * take + data.length,
+        itemCount: data.length,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Permanently deletes audit entries older than the retention period
+   *
+   * @returns Promise resolving to the number of deleted entries (0 when retention is disabled)
+   */
+  async purgeExpired(): Promise<{ affected: number }> {
+    const retentionDays =
+      this.options.retentionDays ??
+      this.configService.get<number>('audit.retentionDays', 365);
+    if (!(retentionDays > 0)) {
+      return { affected: 0 };
+    }
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const result = await this.repository.delete({
+      createdAt: LessThan(cutoff),
+    });
+
+    return { affected: result.affected ?? 0 };
+  }
+}
@@ -0,0 +1,285 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import type { JwtPayload, TokenPair } from '../../config/jwt.config';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './jwt.guard';
+import type {
+  ChangePasswordInput,
+  LoginInput,
+  MfaChallenge,
+  RefreshInput,
+  ResetPasswordInput,
+} from './auth.module';
+
+/**
+ * Auth Controller
+ *
+ * Issues and ends sessions for the accounts of the configured user provider.
+ *
+ * Endpoints:
+ * - POST /auth/login - Log in with email and password
+ * - POST /auth/refresh - Exchange a refresh token for a new token pair
+ * - POST /auth/logout - End the current session
+ * - POST /auth/password - Change the password, ending every session
+ * - POST /auth/password/forgot - Mail a password reset link
+ * - POST /auth/password/reset - Set a new password with a reset token
+ * - POST /auth/email/verification - Mail an email verification link
+ * - POST /auth/email/verify - Verify the email address with a token
+ */
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Logs a user in
+   *
+   * @param input Credentials
+   * @returns Promise resolving to the tokens of a new session, or to an MFA
+   *          challenge
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log in with email and password',
+    description:
+      'Users with MFA answer the returned challenge at POST /auth/mfa/challenge',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['email', 'password'],
+      properties: {
+        email: { type: 'string', example: 'owner@merchant.example.com' },
+        password: { type: 'string', format: 'password' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Access and refresh token, or MFA challenge',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid credentials',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Account suspended or banned',
+  })
+  async login(@Body() input: LoginInput): Promise<TokenPair | MfaChallenge> {
+    return this.authService.login(input.email, input.password);
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair
+   *
+   * @param input Refresh token
+   * @returns Promise resolving to the new tokens
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh tokens',
+    description:
+      'Rotates the refresh token; presenting an already used one ends the session',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['refreshToken'],
+      properties: { refreshToken: { type: 'string' } },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Access and refresh token',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid, expired or reused refresh token',
+  })
+  async refresh(@Body() input: RefreshInput): Promise<TokenPair> {
+    return this.authService.refreshToken(input.refreshToken);
+  }
+
+  /**
+   * Ends the session of the access token
+   *
+   * @param request Authenticated request
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out',
+    description:
+      'Revokes the refresh token of the session and, with the blacklist enabled, the access token',
+  })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Logged out' })
+  async logout(@Req() request: Request): Promise<void> {
+    await this.authService.logout(request.user as JwtPayload);
+  }
+
+  /**
+   * Changes the password of the current user
+   *
+   * @param input Current and new password
+   * @param request Authenticated request
+   */
+  @Post('password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change password',
+    description: 'Sets a new password and signs every session out',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['currentPassword', 'newPassword'],
+      properties: {
+        currentPassword: { type: 'string', format: 'password' },
+        newPassword: { type: 'string', format: 'password' },
+      },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Changed' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'New password too weak',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Current password invalid',
+  })
+  async changePassword(
+    @Body() input: ChangePasswordInput,
+    @Req() request: Request,
+  ): Promise<void> {
+    const user = request.user as JwtPayload;
+    await this.authService.changePassword(
+      user.sub,
+      input.currentPassword,
+      input.newPassword,
+    );
+  }
+
+  /**
+   * Mails a password reset link
+   *
+   * Answers the same whether or not the email is registered.
+   *
+   * @param input Email address
+   */
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Request password reset' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', example: 'owner@merchant.example.com' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Reset link mailed if the account exists',
+  })
+  async forgotPassword(@Body() input: { email: string }): Promise<void> {
+    await this.authService.requestPasswordReset(input.email);
+  }
+
+  /**
+   * Sets a new password with a reset token
+   *
+   * @param input Reset token and new password
+   */
+  @Post('password/reset')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Reset password',
+    description: 'Sets a new password and signs every session out',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['token', 'newPassword'],
+      properties: {
+        token: { type: 'string' },
+        newPassword: { type: 'string', format: 'password' },
+      },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Reset' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired token, or new password too weak',
+  })
+  async resetPassword(@Body() input: ResetPasswordInput): Promise<void> {
+    await this.authService.resetPassword(input.token, input.newPassword);
+  }
+
+  /**
+   * Mails an email verification link to the current user
+   *
+   * @param request Authenticated request
+   */
+  @Post('email/verification')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Request email verification' })
+  @ApiResponse({ status: HttpStatus.ACCEPTED, description: 'Link mailed' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Already verified',
+  })
+  async requestEmailVerification(@Req() request: Request): Promise<void> {
+    const user = request.user as JwtPayload;
+    await this.authService.requestEmailVerification(user.sub);
+  }
+
+  /**
+   * Verifies an email address
+   *
+   * @param input Verification token
+   */
+  @Post('email/verify')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Verify email address' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['token'],
+      properties: { token: { type: 'string' } },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Verified' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired token',
+  })
+  async verifyEmail(@Body() input: { token: string }): Promise<void> {
+    await this.authService.verifyEmail(input.token);
+  }
+}
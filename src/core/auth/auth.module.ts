@@ -1,21 +1,45 @@
-import { DynamicModule, Module } from '@nestjs/common';
+import { DynamicModule, Module, Type } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import { JwtStrategy } from './jwt.strategy';
 import { JwtAuthGuard } from './jwt.guard';
 import { RolesGuard } from './roles.guard';
 import { AuthService } from './auth.service';
+import { RefreshToken } from './refresh-token.entity';
+import { RefreshTokenService } from './refresh-token.service';
+import { RevokedToken } from './revoked-token.entity';
+import { TokenRevocationService } from './token-revocation.service';
+import { SessionController } from './session.controller';
+import { AuthController } from './auth.controller';
+import { User } from './user.entity';
+import { UserToken } from './user-token.entity';
+import { UserTokenService } from './user-token.service';
+import { UserMfa } from './user-mfa.entity';
+import { MfaRecoveryCode } from './mfa-recovery-code.entity';
+import { MfaService } from './mfa.service';
+import { MfaController } from './mfa.controller';
+import type { UserStatus } from './user.entity';
+import { TypeOrmUserProvider, USER_PROVIDER } from './user.provider';
+import type { UserProvider } from './user.provider';
 import { jwtConfig } from '../../config/jwt.config';
+import type { JwtPayload, TokenPair } from '../../config/jwt.config';
+import type { TokenRevocationStore } from './token-revocation.stores';
 
 /**
  * Authentication Module
  *
  * Provides comprehensive authentication and authorization functionality including:
+ * - Login, refresh and logout against a pluggable user provider (`users` table by default)
+ * - Password reset and email verification mailed through the MailModule
+ * - TOTP two-factor authentication with recovery codes and a per-role policy
  * - JWT token generation and verification
  * - Role-based access control (RBAC)
  * - Passport strategies for authentication
- * - Token refresh mechanisms
+ * - Persistent refresh tokens with rotation, reuse detection and session listing
+ * - Access token revocation list (logout, ended sessions, password change)
  *
  * This module is dynamically configurable and can be imported with custom options.
  */
@@ -27,22 +51,27 @@ export class AuthModule {
    * @param options Optional configuration options for the auth module
    * @returns DynamicModule configured authentication module
    */
-  static forRoot(options?: {
-    jwtSecret?: string;
-    jwtExpiresIn?: string;
-    refreshSecret?: string;
-    refreshExpiresIn?: string;
-    global?: boolean;
-  }): DynamicModule {
+  static forRoot(options?: AuthModuleOptions): DynamicModule {
+    const userEntity = options?.userEntity ?? User;
     const providers = [
       JwtStrategy,
       JwtAuthGuard,
       RolesGuard,
       AuthService,
+      RefreshTokenService,
+      TokenRevocationService,
+      UserTokenService,
+      MfaService,
       {
         provide: 'AUTH_OPTIONS',
         useValue: options || {},
       },
+      {
+        provide: USER_PROVIDER,
+        inject: [getRepositoryToken(userEntity)],
+        useFactory: (repository: Repository<User>): UserProvider =>
+          options?.userProvider ?? new TypeOrmUserProvider(repository),
+      },
     ];
 
     const exports = [
@@ -50,11 +79,24 @@ export class AuthModule {
       JwtAuthGuard,
       RolesGuard,
       AuthService,
+      RefreshTokenService,
+      TokenRevocationService,
+      MfaService,
+      USER_PROVIDER,
     ];
 
     return {
       module: AuthModule,
+      controllers: [AuthController, SessionController, MfaController],
       imports: [
+        TypeOrmModule.forFeature([
+          RefreshToken,
+          RevokedToken,
+          UserToken,
+          UserMfa,
+          MfaRecoveryCode,
+          userEntity,
+        ]),
         ConfigModule.forFeature(jwtConfig),
         PassportModule.register({
           defaultStrategy: 'jwt',
@@ -134,14 +176,22 @@ export interface AuthModuleOptions {
   global?: boolean;
 
   /**
-   * Custom user entity for authentication
+   * Custom user entity for authentication, extending User
+   * Default: User (table `users`)
    */
-  userEntity?: any;
+  userEntity?: Type<User>;
 
   /**
-   * Custom validation function
+   * Custom user store, replacing the TypeORM provider of `userEntity`
    */
-  validateFunction?: (payload: any) => Promise<any>;
+  userProvider?: UserProvider;
+
+  /**
+   * Custom validation function, called with the verified access token
+   * payload; the properties it resolves to are merged into `request.user`,
+   * a falsy result rejects the token
+   */
+  validateFunction?: (payload: JwtPayload) => Promise<object | null>;
 
   /**
    * Enable role-based access control
@@ -161,18 +211,33 @@ export interface AuthModuleOptions {
   enableRefresh?: boolean;
 
   /**
-   * Blacklist revoked tokens
+   * Reject revoked access tokens (falls back to AUTH_ENABLE_BLACKLIST)
    * Default: false
    */
   enableBlacklist?: boolean;
 
   /**
-   * Token blacklist storage provider
+   * Refresh token storage, rotation and per-user session limit
+   * (fall back to JWT_REFRESH_TOKEN_STORE, JWT_REFRESH_TOKEN_ROTATION and
+   * JWT_MAX_ACTIVE_TOKENS)
    */
-  blacklistProvider?: {
-    add: (token: string) => Promise<void>;
-    isRevoked: (token: string) => Promise<boolean>;
-    remove: (token: string) => Promise<void>;
+  refreshTokens?: Pick<TokenConfig, 'enableRotation' | 'maxActiveTokens'> & {
+    store?: 'database' | 'redis';
+  };
+
+  /**
+   * Token blacklist storage provider, keyed by token ID (`jti`) or
+   * `session:<sid>` (replaces the AUTH_BLACKLIST_STORE backend)
+   */
+  blacklistProvider?: TokenRevocationStore;
+
+  /**
+   * MFA policy and the service name shown in authenticator apps
+   * (fall back to AUTH_MFA_REQUIRED_ROLES and AUTH_MFA_ISSUER)
+   */
+  mfa?: {
+    requiredRoles?: string[];
+    issuer?: string;
   };
 }
 
@@ -242,4 +307,156 @@ export interface TokenConfig {
    * Maximum number of active tokens per user
    */
   maxActiveTokens?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Signed-in device of a user
+ */
+export interface ActiveSession {
+  /**
+   * Session ID (refresh token family)
+   */
+  id: string;
+
+  /**
+   * User agent of the device
+   */
+  userAgent: string | null;
+
+  /**
+   * IP address the session was last refreshed from
+   */
+  ipAddress: string | null;
+
+  /**
+   * Time of the login that started the session
+   */
+  startedAt: Date;
+
+  /**
+   * Time the session was last refreshed
+   */
+  lastUsedAt: Date;
+
+  /**
+   * Time the session ends unless refreshed
+   */
+  expiresAt: Date;
+}
+
+/**
+ * User as seen by AuthService
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+
+  /**
+   * Password hash, absent once authenticated
+   */
+  password?: string;
+
+  role: string;
+  status: UserStatus;
+  merchantId?: string | null;
+  emailVerified?: boolean;
+  termsAccepted?: boolean;
+}
+
+/**
+ * Login request body
+ */
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+/**
+ * Password reset request body
+ */
+export interface ResetPasswordInput {
+  token: string;
+  newPassword: string;
+}
+
+/**
+ * Token refresh request body
+ */
+export interface RefreshInput {
+  refreshToken: string;
+}
+
+/**
+ * Password change request body
+ */
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Login response of users who must pass a second factor
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+
+  /**
+   * Whether the user has yet to enrol, as their role requires MFA
+   */
+  enrolmentRequired: boolean;
+
+  /**
+   * Token to present with the code, proving the password was checked
+   */
+  challengeToken: string;
+
+  /**
+   * Lifetime of the challenge token in seconds
+   */
+  expiresIn: number;
+}
+
+/**
+ * Tokens issued once the second factor is verified
+ */
+export interface MfaLoginResult extends TokenPair {
+  /**
+   * Recovery codes, returned when the login completed an enrolment
+   */
+  recoveryCodes?: string[];
+}
+
+/**
+ * Started MFA enrolment
+ */
+export interface MfaEnrolment {
+  /**
+   * Base32 secret, for entering in the app by hand
+   */
+  secret: string;
+
+  /**
+   * `otpauth://` URI encoded in the QR code
+   */
+  otpauthUri: string;
+
+  /**
+   * QR code as a PNG data URL
+   */
+  qrCode: string;
+}
+
+/**
+ * MFA challenge request body
+ */
+export interface MfaChallengeInput {
+  challengeToken: string;
+  code?: string;
+}
+
+/**
+ * MFA code request body
+ */
+export interface MfaCodeInput {
+  code: string;
+}
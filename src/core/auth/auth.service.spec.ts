@@ -0,0 +1,180 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { UserTokenService } from './user-token.service';
+import { MailService } from '../mail/mail.service';
+import { MfaService } from './mfa.service';
+import type { TokenPair } from '../../config/jwt.config';
+import type { AuthUser, MfaChallenge } from './auth.module';
+import type { UserProvider } from './user.provider';
+
+describe('AuthService', () => {
+  let users: AuthUser[];
+  let service: AuthService;
+  let jwtService: JwtService;
+  let revokeAll: jest.Mock;
+  let updatePassword: jest.Mock;
+  let sendMail: jest.Mock;
+  let mfaEnabled: boolean;
+  let verifyMfa: jest.Mock;
+
+  beforeEach(async () => {
+    jwtService = new JwtService({ secret: 'test-secret' });
+    revokeAll = jest.fn(() => Promise.resolve(1));
+    updatePassword = jest.fn();
+    sendMail = jest.fn();
+    mfaEnabled = false;
+    verifyMfa = jest.fn((userId: string, code: string) =>
+      code === '123456'
+        ? Promise.resolve()
+        : Promise.reject(new UnauthorizedException('Invalid MFA code')),
+    );
+    const refreshTokenService = {
+      startSession: jest.fn(() =>
+        Promise.resolve({
+          id: 'token-1',
+          familyId: 'session-1',
+          expiresAt: new Date(Date.now() + 60000),
+        }),
+      ),
+      revokeAll,
+    } as unknown as RefreshTokenService;
+    const userProvider: UserProvider = {
+      findByEmail: (email) =>
+        Promise.resolve(users.find((user) => user.email === email) ?? null),
+      findById: (id) =>
+        Promise.resolve(users.find((user) => user.id === id) ?? null),
+      updatePassword,
+      markEmailVerified: jest.fn(),
+    };
+    const tokens = new Map<string, string>();
+    const userTokenService = {
+      issue: jest.fn((userId: string) => {
+        tokens.set('reset-token', userId);
+        return Promise.resolve('reset-token');
+      }),
+      consume: jest.fn((token: string) => Promise.resolve(tokens.get(token))),
+    } as unknown as UserTokenService;
+    const mailService = { send: sendMail } as unknown as MailService;
+    const consumedTokens = new Set<string>();
+    const tokenRevocationService = {
+      consumeToken: (id: string) =>
+        Promise.resolve(!consumedTokens.has(id) && !!consumedTokens.add(id)),
+      isConsumed: (id: string) => Promise.resolve(consumedTokens.has(id)),
+    } as unknown as TokenRevocationService;
+    const mfaService = {
+      isEnabled: () => Promise.resolve(mfaEnabled),
+      isRequired: () => false,
+      verify: verifyMfa,
+    } as unknown as MfaService;
+
+    service = new AuthService(
+      jwtService,
+      new ConfigService({ jwt: { secret: 'test-secret' } }),
+      refreshTokenService,
+      tokenRevocationService,
+      userProvider,
+      userTokenService,
+      mailService,
+      mfaService,
+    );
+    users = [
+      {
+        id: 'u1',
+        email: 'owner@example.com',
+        password: await service.hashPassword('Secret123'),
+        role: 'merchant_admin',
+        status: 'active',
+        merchantId: 'm1',
+      },
+    ];
+  });
+
+  it('logs users in with their stored password', async () => {
+    const tokens = (await service.login(
+      'owner@example.com',
+      'Secret123',
+    )) as TokenPair;
+
+    const payload = await jwtService.verifyAsync<Record<string, unknown>>(
+      tokens.accessToken,
+    );
+    expect(payload).toMatchObject({
+      sub: 'u1',
+      role: 'merchant_admin',
+      merchantId: 'm1',
+      sid: 'session-1',
+    });
+    await expect(
+      service.login('owner@example.com', 'password123'),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      service.login('unknown@example.com', 'Secret123'),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejects accounts that are not active', async () => {
+    users[0].status = 'suspended';
+
+    await expect(
+      service.login('owner@example.com', 'Secret123'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('asks users with MFA for a code before issuing tokens', async () => {
+    mfaEnabled = true;
+
+    const challenge = (await service.login(
+      'owner@example.com',
+      'Secret123',
+    )) as MfaChallenge;
+    expect(challenge).toMatchObject({
+      mfaRequired: true,
+      enrolmentRequired: false,
+    });
+    expect(challenge).not.toHaveProperty('accessToken');
+
+    await expect(
+      service.completeMfaLogin(challenge.challengeToken, '000000'),
+    ).rejects.toThrow(UnauthorizedException);
+    const tokens = await service.completeMfaLogin(
+      challenge.challengeToken,
+      '123456',
+    );
+    expect(verifyMfa).toHaveBeenLastCalledWith('u1', '123456');
+    expect(tokens.recoveryCodes).toBeUndefined();
+
+    // Each challenge completes one login only
+    await expect(
+      service.completeMfaLogin(challenge.challengeToken, '123456'),
+    ).rejects.toThrow('Invalid or expired MFA challenge');
+
+    // Access tokens are signed with another secret
+    await expect(
+      service.completeMfaLogin(tokens.accessToken, '123456'),
+    ).rejects.toThrow('Invalid or expired MFA challenge');
+  });
+
+  it('resets passwords through the mailed link and ends every session', async () => {
+    await service.requestPasswordReset('owner@example.com');
+    await service.requestPasswordReset('unknown@example.com');
+
+    expect(sendMail).toHaveBeenCalledTimes(1);
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'owner@example.com',
+        text: expect.stringContaining(
+          'http://localhost:3000/reset-password?token=reset-token',
+        ) as string,
+      }),
+    );
+
+    await service.resetPassword('reset-token', 'Changed456');
+
+    expect(updatePassword).toHaveBeenCalledWith('u1', expect.any(String));
+    expect(revokeAll).toHaveBeenCalledWith('u1');
+  });
+});
@@ -1,19 +1,44 @@
 import {
+  Inject,
   Injectable,
   UnauthorizedException,
   BadRequestException,
   ConflictException,
+  ForbiddenException,
   NotFoundException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import { randomBytes, scrypt as _scrypt } from 'crypto';
+import {
+  createHmac,
+  randomBytes,
+  randomUUID,
+  scrypt as _scrypt,
+  timingSafeEqual,
+} from 'crypto';
 import { promisify } from 'util';
 import {
   JwtPayload,
+  MfaChallengePayload,
   RefreshTokenPayload,
   TokenPair,
+  parseExpiresIn,
 } from '../../config/jwt.config';
+import { RefreshToken } from './refresh-token.entity';
+import { RefreshTokenService } from './refresh-token.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { UserTokenService } from './user-token.service';
+import { MailService } from '../mail/mail.service';
+import { MfaService } from './mfa.service';
+import { USER_PROVIDER } from './user.provider';
+import type { UserProvider } from './user.provider';
+import type {
+  ActiveSession,
+  AuthUser,
+  MfaChallenge,
+  MfaEnrolment,
+  MfaLoginResult,
+} from './auth.module';
 
 const scrypt = promisify(_scrypt);
 
@@ -21,23 +46,30 @@ const scrypt = promisify(_scrypt);
  * Authentication Service
  *
  * Provides comprehensive authentication functionality including:
- * - User authentication and password management
+ * - User authentication against the configured UserProvider
  * - JWT token generation and validation
- * - Refresh token management
+ * - Refresh token management (persistent, rotating token families)
  * - Password hashing and verification
+ * - Password reset and email verification by mailed single-use tokens
+ * - Two-step login for users with TOTP two-factor authentication
  * - Session management
  *
  * This service serves as the core authentication engine for the application.
  */
 @Injectable()
 export class AuthService {
-  private readonly refreshTokens = new Map<string, RefreshTokenPayload>(); // In production, use Redis/database
   private readonly passwordSaltLength = 32;
-  private readonly tokenLength = 32;
+  private dummyPasswordHash?: Promise<string>;
 
   constructor(
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    @Inject(USER_PROVIDER) private readonly userProvider: UserProvider,
+    private readonly userTokenService: UserTokenService,
+    private readonly mailService: MailService,
+    private readonly mfaService: MfaService,
   ) {}
 
   /**
@@ -47,30 +79,18 @@ export class AuthService {
    * @param password User's password
    * @returns Promise resolving to authenticated user object
    * @throws UnauthorizedException if credentials are invalid
-   * @throws NotFoundException if user is not found
+   * @throws ForbiddenException if the account is suspended or banned
    */
-  async validateUser(email: string, password: string): Promise<any> {
-    // In a real implementation, you would fetch the user from database
-    // const user = await this.userService.findByEmail(email);
-
-    // For demo purposes, return a mock user
-    const user = {
-      id: '1',
-      email,
-      password: await this.hashPassword('password123'), // This would come from database
-      role: 'user',
-      status: 'active',
-      emailVerified: true,
-      termsAccepted: true,
-    };
-
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
-
-    // Validate password
-    const isPasswordValid = await this.validatePassword(password, user.password);
-    if (!isPasswordValid) {
+  async validateUser(email: string, password: string): Promise<AuthUser> {
+    const user = await this.userProvider.findByEmail(email);
+
+    // Unknown emails are checked against a dummy hash, so the response
+    // time does not reveal which emails are registered
+    const isPasswordValid = await this.validatePassword(
+      password,
+      user?.password ?? (await this.getDummyPasswordHash()),
+    );
+    if (!user || !isPasswordValid) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
@@ -83,49 +103,103 @@ export class AuthService {
   }
 
   /**
-   * Generates JWT token pair (access and refresh tokens)
+   * Logs a user in with email and password
    *
-   * @param user User object to generate tokens for
-   * @returns Promise resolving to TokenPair object
+   * Users with MFA enabled, or whose role requires it, get an MFA challenge
+   * instead of tokens; `completeMfaLogin` finishes their login.
+   *
+   * @param email User's email address
+   * @param password User's password
+   * @returns Promise resolving to TokenPair object of a new session, or to
+   *          an MfaChallenge
+   * @throws BadRequestException if email or password is missing
+   * @throws UnauthorizedException if credentials are invalid
+   * @throws ForbiddenException if the account is suspended or banned
    */
-  async generateTokens(user: any): Promise<TokenPair> {
-    const payload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      role: user.role,
-      iat: Math.floor(Date.now() / 1000),
-    };
+  async login(
+    email: string,
+    password: string,
+  ): Promise<TokenPair | MfaChallenge> {
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new BadRequestException('Email and password are required');
+    }
 
-    const accessToken = await this.jwtService.signAsync(payload);
-    const refreshTokenPayload: RefreshTokenPayload = {
-      sub: user.id,
-      tokenId: this.generateTokenId(),
-      type: 'refresh',
-      iat: Math.floor(Date.now() / 1000),
-    };
+    const user = await this.validateUser(email, password);
+    const mfaEnabled = await this.mfaService.isEnabled(user.id);
+    if (mfaEnabled || this.mfaService.isRequired(user.role)) {
+      return this.createMfaChallenge(user, !mfaEnabled);
+    }
 
-    const refreshTokenSecret = this.configService.get<string>(
-      'jwt.refreshSecret'
-    ) || this.configService.get<string>('jwt.secret') + '_refresh';
+    await this.userProvider.recordLogin?.(user.id);
+    return this.generateTokens(user);
+  }
 
-    const refreshToken = await this.jwtService.signAsync(refreshTokenPayload, {
-      secret: refreshTokenSecret,
-      expiresIn: this.configService.get<string>(
-        'jwt.refreshExpiresIn',
-        '7d'
-      ),
-    });
+  /**
+   * Completes a login with the second factor
+   *
+   * For users who have yet to enrol, the code confirms the enrolment started
+   * with `startMfaEnrolment` and the recovery codes are returned with the
+   * tokens.
+   *
+   * @param challengeToken Token of the MFA challenge
+   * @param code TOTP code or unused recovery code
+   * @returns Promise resolving to the tokens of a new session
+   * @throws UnauthorizedException if the challenge or code is invalid
+   * @throws ForbiddenException if the account is suspended or banned
+   */
+  async completeMfaLogin(
+    challengeToken: string,
+    code: string,
+  ): Promise<MfaLoginResult> {
+    const { user, payload } = await this.verifyMfaChallenge(challengeToken);
+
+    let recoveryCodes: string[] | undefined;
+    if (await this.mfaService.isEnabled(user.id)) {
+      await this.mfaService.verify(user.id, code);
+    } else {
+      recoveryCodes = await this.mfaService.confirmEnrolment(user.id, code);
+    }
 
-    // Store refresh token (in production, use Redis or database)
-    this.refreshTokens.set(refreshTokenPayload.tokenId, refreshTokenPayload);
+    const consumed = await this.tokenRevocationService.consumeToken(
+      payload.jti,
+      new Date((payload.exp ?? 0) * 1000),
+    );
+    if (!consumed) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
 
-    const expiresIn = this.configService.get<number>('jwt.expiresIn', 3600);
+    await this.userProvider.recordLogin?.(user.id);
+    const tokens = await this.generateTokens(user);
+    return recoveryCodes ? { ...tokens, recoveryCodes } : tokens;
+  }
 
-    return {
-      accessToken,
-      refreshToken,
-      expiresIn,
-    };
+  /**
+   * Starts the MFA enrolment of a user whose role requires MFA, during login
+   *
+   * @param challengeToken Token of the MFA challenge
+   * @returns Promise resolving to the secret, otpauth URI and QR code
+   * @throws UnauthorizedException if the challenge is invalid
+   * @throws ConflictException if MFA is already enabled
+   */
+  async startMfaEnrolment(challengeToken: string): Promise<MfaEnrolment> {
+    const { user } = await this.verifyMfaChallenge(challengeToken);
+    return this.mfaService.startEnrolment(user.id, user.email);
+  }
+
+  /**
+   * Generates JWT token pair (access and refresh tokens)
+   *
+   * Starts a new session; the requesting device is recorded with it.
+   *
+   * @param user User object to generate tokens for
+   * @returns Promise resolving to TokenPair object
+   */
+  async generateTokens(user: AuthUser): Promise<TokenPair> {
+    const session = await this.refreshTokenService.startSession(
+      user.id,
+      this.getRefreshTokenExpiry(),
+    );
+    return this.signTokens(user, session);
   }
 
   /**
@@ -134,16 +208,13 @@ export class AuthService {
    * @param refreshToken The refresh token
    * @returns Promise resolving to new TokenPair object
    * @throws UnauthorizedException if refresh token is invalid or revoked
+   * @throws ForbiddenException if the account is suspended or banned
    */
   async refreshToken(refreshToken: string): Promise<TokenPair> {
     try {
-      const refreshTokenSecret = this.configService.get<string>(
-        'jwt.refreshSecret'
-      ) || this.configService.get<string>('jwt.secret') + '_refresh';
-
       const payload: RefreshTokenPayload = await this.jwtService.verifyAsync(
         refreshToken,
-        { secret: refreshTokenSecret }
+        { secret: this.getRefreshTokenSecret() },
       );
 
       // Validate refresh token payload
@@ -151,72 +222,109 @@ export class AuthService {
         throw new UnauthorizedException('Invalid refresh token');
       }
 
-      // Check if refresh token exists and is not revoked
-      const storedToken = this.refreshTokens.get(payload.tokenId);
-      if (!storedToken) {
-        throw new UnauthorizedException('Refresh token not found or revoked');
+      // Tokens carry the current email and role of the user
+      const user = await this.userProvider.findById(payload.sub);
+      if (!user) {
+        throw new UnauthorizedException('User not found');
       }
 
-      // Get user information (in production, fetch from database)
-      const user = {
-        id: payload.sub,
-        email: 'user@example.com', // This would come from database
-        role: 'user',
-        status: 'active',
-      };
-
       // Validate user status
       this.validateUserStatus(user);
 
-      // Generate new tokens
-      return await this.generateTokens(user);
+      // Rotate the refresh token; reusing a rotated token ends the session
+      const token = await this.refreshTokenService.rotate(
+        payload.tokenId,
+        payload.sub,
+        this.getRefreshTokenExpiry(),
+      );
+      return await this.signTokens(user, token);
 
     } catch (error) {
+      if (
+        error instanceof UnauthorizedException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
       throw new UnauthorizedException('Invalid or expired refresh token');
     }
   }
 
   /**
-   * Revokes a refresh token
+   * Revokes a refresh token, ending its session
    *
    * @param refreshToken The refresh token to revoke
    * @returns Promise resolving to boolean indicating success
    */
   async revokeRefreshToken(refreshToken: string): Promise<boolean> {
     try {
-      const refreshTokenSecret = this.configService.get<string>(
-        'jwt.refreshSecret'
-      ) || this.configService.get<string>('jwt.secret') + '_refresh';
-
       const payload: RefreshTokenPayload = await this.jwtService.verifyAsync(
         refreshToken,
-        { secret: refreshTokenSecret }
+        { secret: this.getRefreshTokenSecret() },
       );
 
-      // Remove refresh token from storage
-      return this.refreshTokens.delete(payload.tokenId);
+      // End the session the token belongs to
+      const token = await this.refreshTokenService.findActive(payload.tokenId);
+      return token
+        ? await this.refreshTokenService.revokeSession(token.familyId)
+        : false;
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Signs a user out of the session of an access token
+   *
+   * The access token is revoked at once, along with every other access and
+   * refresh token of its session.
+   *
+   * @param user Payload of the access token
+   * @returns Promise resolving to void
+   */
+  async logout(user: JwtPayload): Promise<void> {
+    await this.tokenRevocationService.revokeToken(user);
+    if (user.sid) {
+      await this.refreshTokenService.revokeSession(user.sid);
+    }
+  }
+
   /**
    * Revokes all refresh tokens for a user
    *
+   * The access tokens issued for their sessions are revoked as well.
+   *
    * @param userId User ID
    * @returns Promise resolving to number of revoked tokens
    */
   async revokeAllUserTokens(userId: string): Promise<number> {
-    let revokedCount = 0;
+    return this.refreshTokenService.revokeAll(userId);
+  }
 
-    for (const [tokenId, token] of this.refreshTokens.entries()) {
-      if (token.sub === userId) {
-        this.refreshTokens.delete(tokenId);
-        revokedCount++;
-      }
-    }
+  /**
+   * Lists the active sessions of a user
+   *
+   * @param userId User ID
+   * @returns Promise resolving to the sessions, most recently used first
+   */
+  async getActiveSessions(userId: string): Promise<ActiveSession[]> {
+    return this.refreshTokenService.findSessions(userId);
+  }
 
-    return revokedCount;
+  /**
+   * Ends a session of a user
+   *
+   * @param userId User ID
+   * @param sessionId Session ID
+   * @returns Promise resolving to void
+   * @throws NotFoundException if the user has no such active session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const sessions = await this.refreshTokenService.findSessions(userId);
+    if (!sessions.some((session) => session.id === sessionId)) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+    await this.refreshTokenService.revokeSession(sessionId);
   }
 
   /**
@@ -245,19 +353,174 @@ export class AuthService {
     try {
       const [salt, hash] = hashedPassword.split('.');
       const computedHash = (await scrypt(password, salt, 64)) as Buffer;
-      return computedHash.toString('hex') === hash;
+      const expectedHash = Buffer.from(hash, 'hex');
+      return (
+        expectedHash.length === computedHash.length &&
+        timingSafeEqual(computedHash, expectedHash)
+      );
     } catch (error) {
       return false;
     }
   }
 
   /**
-   * Generates a secure random token ID
+   * Signs the access and refresh tokens of a session
+   *
+   * @param user User the tokens are issued to
+   * @param session Stored refresh token of the session
+   * @returns Promise resolving to TokenPair object
+   */
+  private async signTokens(
+    user: AuthUser,
+    session: RefreshToken,
+  ): Promise<TokenPair> {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      merchantId: user.merchantId ?? undefined,
+      sid: session.familyId,
+      jti: randomUUID(),
+      iat: Math.floor(Date.now() / 1000),
+    };
+
+    const accessToken = await this.jwtService.signAsync(payload);
+    const refreshTokenPayload: RefreshTokenPayload = {
+      sub: user.id,
+      tokenId: session.id,
+      type: 'refresh',
+      iat: Math.floor(Date.now() / 1000),
+    };
+
+    const refreshToken = await this.jwtService.signAsync(refreshTokenPayload, {
+      secret: this.getRefreshTokenSecret(),
+      expiresIn: Math.max(
+        1,
+        Math.floor((session.expiresAt.getTime() - Date.now()) / 1000),
+      ),
+    });
+
+    const expiresIn = this.configService.get<number>('jwt.expiresIn', 3600);
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn,
+    };
+  }
+
+  /**
+   * Issues the MFA challenge of a user whose password was checked
+   *
+   * @param user Authenticated user
+   * @param enrolmentRequired Whether the user has yet to enrol
+   * @returns Promise resolving to the challenge
+   */
+  private async createMfaChallenge(
+    user: AuthUser,
+    enrolmentRequired: boolean,
+  ): Promise<MfaChallenge> {
+    const expiresIn = this.configService.get<number>(
+      'auth.mfaChallengeTtl',
+      300,
+    );
+    const payload: MfaChallengePayload = {
+      sub: user.id,
+      type: 'mfa',
+      jti: randomUUID(),
+    };
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.getMfaChallengeSecret(),
+      expiresIn,
+    });
+    return { mfaRequired: true, enrolmentRequired, challengeToken, expiresIn };
+  }
+
+  /**
+   * Verifies an MFA challenge token
+   *
+   * @param challengeToken Token of the MFA challenge
+   * @returns Promise resolving to the user the challenge was issued to and
+   *          the token payload
+   * @throws UnauthorizedException if the token is invalid, expired or used
+   * @throws ForbiddenException if the account is suspended or banned
+   */
+  private async verifyMfaChallenge(
+    challengeToken: string,
+  ): Promise<{ user: AuthUser; payload: MfaChallengePayload }> {
+    let payload: MfaChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<MfaChallengePayload>(
+        challengeToken,
+        { secret: this.getMfaChallengeSecret() },
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+    if (
+      payload.type !== 'mfa' ||
+      typeof payload.jti !== 'string' ||
+      (await this.tokenRevocationService.isConsumed(payload.jti))
+    ) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const user = await this.userProvider.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+    this.validateUserStatus(user);
+    return { user, payload };
+  }
+
+  /**
+   * Gets the secret MFA challenge tokens are signed with
+   *
+   * A key dedicated to challenges is derived from JWT_SECRET, so challenges
+   * cannot pass as access or refresh tokens.
+   *
+   * @returns MFA challenge secret
+   */
+  private getMfaChallengeSecret(): string {
+    return createHmac('sha256', this.configService.get<string>('jwt.secret')!)
+      .update('mfa-challenge')
+      .digest('hex');
+  }
+
+  /**
+   * Gets the hash unknown emails are checked against
+   *
+   * @returns Promise resolving to the hash of a random password
+   */
+  private getDummyPasswordHash(): Promise<string> {
+    this.dummyPasswordHash ??= this.hashPassword(
+      randomBytes(16).toString('hex'),
+    );
+    return this.dummyPasswordHash;
+  }
+
+  /**
+   * Gets the secret refresh tokens are signed with
    *
-   * @returns Random token ID string
+   * @returns Refresh token secret
    */
-  private generateTokenId(): string {
-    return randomBytes(this.tokenLength).toString('hex');
+  private getRefreshTokenSecret(): string {
+    return (
+      this.configService.get<string>('jwt.refreshSecret') ||
+      this.configService.get<string>('jwt.secret') + '_refresh'
+    );
+  }
+
+  /**
+   * Computes the expiry of a refresh token issued now
+   *
+   * @returns Expiry date (JWT_REFRESH_EXPIRES_IN from now)
+   */
+  private getRefreshTokenExpiry(): Date {
+    const lifetime = parseExpiresIn(
+      this.configService.get<string>('jwt.refreshExpiresIn', '7d'),
+    );
+    return new Date(Date.now() + lifetime * 1000);
   }
 
   /**
@@ -266,7 +529,7 @@ export class AuthService {
    * @param user User object to validate
    * @throws UnauthorizedException or ForbiddenException for invalid status
    */
-  private validateUserStatus(user: any): void {
+  private validateUserStatus(user: AuthUser): void {
     switch (user.status) {
       case 'inactive':
         throw new UnauthorizedException('User account is inactive');
@@ -343,18 +606,28 @@ export class AuthService {
     newPassword: string
   ): Promise<boolean> {
     // Validate new password
-    if (!this.validatePasswordStrength(newPassword)) {
+    if (
+      typeof newPassword !== 'string' ||
+      !this.validatePasswordStrength(newPassword)
+    ) {
       throw new BadRequestException('New password does not meet security requirements');
     }
 
-    // In a real implementation, you would:
-    // 1. Get user from database
-    // 2. Verify current password
-    // 3. Hash new password
-    // 4. Update password in database
-    // 5. Revoke all refresh tokens for security
+    const user = await this.userProvider.findById(userId);
+    if (
+      !user?.password ||
+      typeof currentPassword !== 'string' ||
+      !(await this.validatePassword(currentPassword, user.password))
+    ) {
+      throw new UnauthorizedException('Current password is invalid');
+    }
 
-    // For demo purposes, return success
+    await this.userProvider.updatePassword(
+      userId,
+      await this.hashPassword(newPassword),
+    );
+
+    // Sign every session out, including the current one
     await this.revokeAllUserTokens(userId);
     return true;
   }
@@ -416,52 +689,142 @@ export class AuthService {
   }
 
   /**
-   * Generates a password reset token
+   * Mails a password reset link
+   *
+   * Does nothing for unknown or inactive accounts, so the response does not
+   * reveal which emails are registered.
    *
    * @param email User's email address
-   * @returns Promise resolving to password reset token
-   * @throws NotFoundException if user is not found
+   * @returns Promise resolving to void
    */
-  async generatePasswordResetToken(email: string): Promise<string> {
-    // In a real implementation, you would:
-    // 1. Verify user exists in database
-    // 2. Generate secure reset token
-    // 3. Store token with expiration
-    // 4. Send email with reset link
-
-    const resetToken = randomBytes(32).toString('hex');
-    const expiresAt = new Date(Date.now() + 3600000); // 1 hour expiration
-
-    // In production, store this in database
-    console.log(`Password reset token for ${email}: ${resetToken} (expires: ${expiresAt})`);
+  async requestPasswordReset(email: string): Promise<void> {
+    const user =
+      typeof email === 'string'
+        ? await this.userProvider.findByEmail(email)
+        : null;
+    if (user?.status !== 'active') {
+      return;
+    }
 
-    return resetToken;
+    const ttl = this.configService.get<number>('auth.passwordResetTtl', 3600);
+    const token = await this.userTokenService.issue(
+      user.id,
+      'PASSWORD_RESET',
+      ttl,
+    );
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        'We received a request to reset the password of your account.',
+        '',
+        `Open this link within ${Math.round(ttl / 60)} minutes to choose a new password:`,
+        this.buildLink(
+          'auth.passwordResetUrl',
+          'http://localhost:3000/reset-password',
+          token,
+        ),
+        '',
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    });
   }
 
   /**
    * Resets password using reset token
    *
+   * Signs every session of the user out.
+   *
    * @param token Password reset token
    * @param newPassword New password
    * @returns Promise resolving to boolean indicating success
-   * @throws BadRequestException if token is invalid or expired
+   * @throws BadRequestException if token is invalid or expired, or the new
+   *         password is too weak
    */
   async resetPassword(token: string, newPassword: string): Promise<boolean> {
-    // In a real implementation, you would:
-    // 1. Verify reset token exists and is not expired
-    // 2. Get user associated with token
-    // 3. Validate new password strength
-    // 4. Hash new password
-    // 5. Update password in database
-    // 6. Remove reset token
-    // 7. Revoke all refresh tokens for security
-
-    if (!this.validatePasswordStrength(newPassword)) {
+    if (
+      typeof newPassword !== 'string' ||
+      !this.validatePasswordStrength(newPassword)
+    ) {
       throw new BadRequestException('New password does not meet security requirements');
     }
 
-    // For demo purposes, return success
-    console.log(`Password reset with token: ${token}`);
+    const userId = await this.userTokenService.consume(token, 'PASSWORD_RESET');
+    await this.userProvider.updatePassword(
+      userId,
+      await this.hashPassword(newPassword),
+    );
+    await this.revokeAllUserTokens(userId);
     return true;
   }
+
+  /**
+   * Mails an email verification link
+   *
+   * @param userId User ID
+   * @returns Promise resolving to void
+   * @throws NotFoundException if the user does not exist
+   * @throws BadRequestException if the email is already verified
+   */
+  async requestEmailVerification(userId: string): Promise<void> {
+    const user = await this.userProvider.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.emailVerified) {
+      throw new BadRequestException('Email address is already verified');
+    }
+
+    const ttl = this.configService.get<number>(
+      'auth.emailVerificationTtl',
+      86400,
+    );
+    const token = await this.userTokenService.issue(
+      user.id,
+      'EMAIL_VERIFICATION',
+      ttl,
+    );
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        'Please confirm that this is your email address by opening this link',
+        `within ${Math.round(ttl / 3600)} hours:`,
+        this.buildLink(
+          'auth.emailVerificationUrl',
+          'http://localhost:3000/verify-email',
+          token,
+        ),
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Marks an email address as verified using a verification token
+   *
+   * @param token Email verification token
+   * @returns Promise resolving to void
+   * @throws BadRequestException if token is invalid or expired
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.userTokenService.consume(
+      token,
+      'EMAIL_VERIFICATION',
+    );
+    await this.userProvider.markEmailVerified(userId);
+  }
+
+  /**
+   * Builds the link of a mailed token
+   *
+   * @param key Config key of the page URL
+   * @param defaultUrl Page URL used when the key is not set
+   * @param token Token to append
+   * @returns Page URL with the `token` query parameter
+   */
+  private buildLink(key: string, defaultUrl: string, token: string): string {
+    const url = new URL(this.configService.get<string>(key, defaultUrl));
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
 }
\ No newline at end of file
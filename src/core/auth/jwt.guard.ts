@@ -3,12 +3,15 @@ import {
   ExecutionContext,
   UnauthorizedException,
   ForbiddenException,
+  Optional,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { IS_PUBLIC_KEY } from '../../common/decorators/public.decorator';
 import { ROLES_KEY } from '../../common/decorators/roles.decorator';
 import { ConfigService } from '@nestjs/config';
+import type { JwtPayload } from '../../config/jwt.config';
+import { TokenRevocationService } from './token-revocation.service';
 
 /**
  * JWT Authentication Guard
@@ -24,6 +27,8 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
   constructor(
     private readonly reflector: Reflector,
     private readonly configService: ConfigService,
+    @Optional()
+    private readonly tokenRevocationService?: TokenRevocationService,
   ) {
     super();
   }
@@ -151,27 +156,16 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
    *
    * @param request The HTTP request
    * @param user The authenticated user
+   * @throws UnauthorizedException if the token or its session was revoked
    */
   private async checkTokenBlacklist(request: any, user: any): Promise<void> {
-    const blacklistEnabled = this.configService.get<boolean>(
-      'auth.enableBlacklist',
-      false
-    );
-
-    if (!blacklistEnabled) {
+    if (!this.tokenRevocationService?.isEnabled()) {
       return;
     }
 
-    const token = this.extractToken(request);
-    if (!token) {
-      return;
+    if (await this.tokenRevocationService.isRevoked(user as JwtPayload)) {
+      throw new UnauthorizedException('Token has been revoked');
     }
-
-    // In a real implementation, you would check against a blacklist storage
-    // Example: const isBlacklisted = await this.blacklistService.isBlacklisted(token);
-    // if (isBlacklisted) {
-    //   throw new UnauthorizedException('Token has been revoked');
-    // }
   }
 
   /**
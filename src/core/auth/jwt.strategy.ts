@@ -1,8 +1,14 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { JwtPayload, RefreshTokenPayload } from '../../config/jwt.config';
+import type { AuthModuleOptions } from './auth.module';
 
 /**
  * JWT Strategy for Passport
@@ -15,7 +21,12 @@ import { JwtPayload, RefreshTokenPayload } from '../../config/jwt.config';
  */
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject('AUTH_OPTIONS')
+    private readonly options: AuthModuleOptions = {},
+  ) {
     super({
       // Extract JWT from Authorization header
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -74,25 +85,29 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Invalid email format in token');
     }
 
-    // Additional custom validation can be added here
-    // For example: check if user is still active in database
-    // const user = await this.userService.findById(payload.sub);
-    // if (!user || !user.isActive) {
-    //   throw new UnauthorizedException('User not found or inactive');
-    // }
-
-    // Return the validated payload
-    // You can transform or enrich the payload here if needed
-    return {
+    const user: JwtPayload = {
       sub: payload.sub,
       email: payload.email,
       role: payload.role || 'user',
+      merchantId: payload.merchantId,
+      sid: payload.sid,
+      jti: payload.jti,
       iat: payload.iat,
       exp: payload.exp,
       iss: payload.iss,
       aud: payload.aud,
-      // Add any additional fields needed for your application
     };
+
+    // Custom validation, e.g. checking the user is still active
+    if (this.options.validateFunction) {
+      const validated = await this.options.validateFunction(user);
+      if (!validated) {
+        throw new UnauthorizedException('User not found or inactive');
+      }
+      return { ...user, ...validated };
+    }
+
+    return user;
   }
 
   /**
@@ -0,0 +1,39 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * MFA Recovery Code Entity
+ *
+ * Single-use code that stands in for a TOTP code when the authenticator is
+ * lost. Only the SHA-256 hash of the code is stored.
+ */
+@Entity('mfa_recovery_codes')
+@Index(['userId', 'codeHash'], { unique: true })
+export class MfaRecoveryCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 64 })
+  userId: string;
+
+  /**
+   * Hex SHA-256 hash of the normalized code
+   */
+  @Column({ type: 'char', length: 64 })
+  codeHash: string;
+
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,262 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import type { JwtPayload } from '../../config/jwt.config';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './jwt.guard';
+import { MfaService } from './mfa.service';
+import type {
+  MfaChallengeInput,
+  MfaCodeInput,
+  MfaEnrolment,
+  MfaLoginResult,
+} from './auth.module';
+
+/**
+ * MFA Controller
+ *
+ * Second step of the login of users with TOTP two-factor authentication,
+ * and management of their enrolment. When `POST /auth/login` answers with
+ * an MFA challenge, the client sends its `challengeToken` with a code to
+ * `POST /auth/mfa/challenge`. Users whose role requires MFA but who have not
+ * enrolled first call `POST /auth/mfa/challenge/enrolment`.
+ *
+ * Endpoints:
+ * - POST /auth/mfa/challenge - Complete a login with a code
+ * - POST /auth/mfa/challenge/enrolment - Enrol during a login
+ * - POST /auth/mfa/enrolment - Start an enrolment
+ * - POST /auth/mfa/enrolment/confirm - Confirm an enrolment with a code
+ * - POST /auth/mfa/recovery-codes - Replace the recovery codes
+ * - POST /auth/mfa/disable - Disable MFA
+ */
+@ApiTags('auth')
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+  ) {}
+
+  /**
+   * Completes a login with the second factor
+   *
+   * @param input Challenge token and code
+   * @returns Promise resolving to the tokens of a new session
+   */
+  @Post('challenge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete login with MFA code',
+    description:
+      'Accepts a TOTP or recovery code; completing an enrolment also returns the recovery codes',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['challengeToken', 'code'],
+      properties: {
+        challengeToken: { type: 'string' },
+        code: { type: 'string', example: '123456' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Access and refresh token',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired challenge, or invalid code',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many invalid codes',
+  })
+  async completeLogin(
+    @Body() input: MfaChallengeInput,
+  ): Promise<MfaLoginResult> {
+    return this.authService.completeMfaLogin(
+      input.challengeToken,
+      input.code ?? '',
+    );
+  }
+
+  /**
+   * Starts an enrolment during a login
+   *
+   * @param input Challenge token
+   * @returns Promise resolving to the secret, otpauth URI and QR code
+   */
+  @Post('challenge/enrolment')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enrol during login',
+    description: 'For users whose role requires MFA but who have not enrolled',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['challengeToken'],
+      properties: { challengeToken: { type: 'string' } },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Secret, otpauth URI and QR code',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'MFA already enabled',
+  })
+  async startLoginEnrolment(
+    @Body() input: MfaChallengeInput,
+  ): Promise<MfaEnrolment> {
+    return this.authService.startMfaEnrolment(input.challengeToken);
+  }
+
+  /**
+   * Starts an enrolment for the current user
+   *
+   * @param request Authenticated request
+   * @returns Promise resolving to the secret, otpauth URI and QR code
+   */
+  @Post('enrolment')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start MFA enrolment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Secret, otpauth URI and QR code',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'MFA already enabled',
+  })
+  async startEnrolment(@Req() request: Request): Promise<MfaEnrolment> {
+    const user = request.user as JwtPayload;
+    return this.mfaService.startEnrolment(user.sub, user.email);
+  }
+
+  /**
+   * Confirms the enrolment of the current user
+   *
+   * @param input TOTP code
+   * @param request Authenticated request
+   * @returns Promise resolving to the recovery codes
+   */
+  @Post('enrolment/confirm')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Confirm MFA enrolment',
+    description: 'Enables MFA; the recovery codes are only shown once',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['code'],
+      properties: { code: { type: 'string', example: '123456' } },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Recovery codes' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid code',
+  })
+  async confirmEnrolment(
+    @Body() input: MfaCodeInput,
+    @Req() request: Request,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = request.user as JwtPayload;
+    return {
+      recoveryCodes: await this.mfaService.confirmEnrolment(
+        user.sub,
+        input.code,
+      ),
+    };
+  }
+
+  /**
+   * Replaces the recovery codes of the current user
+   *
+   * @param input TOTP code or unused recovery code
+   * @param request Authenticated request
+   * @returns Promise resolving to the new recovery codes
+   */
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Regenerate recovery codes' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['code'],
+      properties: { code: { type: 'string', example: '123456' } },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Recovery codes' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid code',
+  })
+  async regenerateRecoveryCodes(
+    @Body() input: MfaCodeInput,
+    @Req() request: Request,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = request.user as JwtPayload;
+    return {
+      recoveryCodes: await this.mfaService.regenerateRecoveryCodes(
+        user.sub,
+        input.code,
+      ),
+    };
+  }
+
+  /**
+   * Disables MFA for the current user
+   *
+   * @param input TOTP code or unused recovery code
+   * @param request Authenticated request
+   */
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable MFA' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['code'],
+      properties: { code: { type: 'string', example: '123456' } },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Disabled' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'MFA required for the role',
+  })
+  async disable(
+    @Body() input: MfaCodeInput,
+    @Req() request: Request,
+  ): Promise<void> {
+    const user = request.user as JwtPayload;
+    await this.mfaService.disable(user.sub, user.role, input.code);
+  }
+}
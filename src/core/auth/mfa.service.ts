@@ -0,0 +1,327 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { toDataURL } from 'qrcode';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { MfaRecoveryCode } from './mfa-recovery-code.entity';
+import { UserMfa } from './user-mfa.entity';
+import { base32Encode, buildOtpauthUri, verifyTotp } from './totp';
+import type { AuthModuleOptions, MfaEnrolment } from './auth.module';
+
+/**
+ * Normalizes a recovery code and hashes it for storage and lookup
+ */
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+
+/**
+ * MFA Service
+ *
+ * TOTP two-factor authentication: enrolment with an authenticator app,
+ * code verification and single-use recovery codes. Each code is accepted
+ * once; too many invalid codes lock the second factor for a while.
+ *
+ * Roles listed in AUTH_MFA_REQUIRED_ROLES (or `AuthModuleOptions.mfa`) must
+ * use MFA to log in and cannot disable it.
+ */
+@Injectable()
+export class MfaService {
+  private readonly recoveryCodeCount = 10;
+  private readonly maxFailedAttempts = 5;
+  private readonly lockDuration = 15 * 60 * 1000;
+
+  constructor(
+    @InjectRepository(UserMfa)
+    private readonly mfaRepository: Repository<UserMfa>,
+    @InjectRepository(MfaRecoveryCode)
+    private readonly recoveryCodeRepository: Repository<MfaRecoveryCode>,
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject('AUTH_OPTIONS')
+    private readonly options: AuthModuleOptions = {},
+  ) {}
+
+  /**
+   * Checks whether users of a role must use MFA
+   *
+   * @param role User role
+   * @returns True if the role is listed in the MFA policy
+   */
+  isRequired(role: string): boolean {
+    const roles =
+      this.options.mfa?.requiredRoles ??
+      this.configService.get<string[]>('auth.mfaRequiredRoles', []);
+    return roles.includes(role);
+  }
+
+  /**
+   * Checks whether a user has confirmed an MFA enrolment
+   *
+   * @param userId User ID
+   * @returns Promise resolving to true if MFA is enabled
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.mfaRepository.findOneBy({ userId });
+    return !!record?.enabledAt;
+  }
+
+  /**
+   * Starts an MFA enrolment
+   *
+   * Generates a new secret, replacing that of an unconfirmed enrolment.
+   *
+   * @param userId User ID
+   * @param account Account name shown in the authenticator app
+   * @returns Promise resolving to the secret, otpauth URI and QR code
+   * @throws ConflictException if MFA is already enabled
+   */
+  async startEnrolment(userId: string, account: string): Promise<MfaEnrolment> {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const secret = base32Encode(randomBytes(20));
+    await this.mfaRepository.upsert(
+      {
+        userId,
+        secret,
+        enabledAt: null,
+        lastUsedStep: null,
+        failedAttempts: 0,
+        lockedUntil: null,
+      },
+      ['userId'],
+    );
+
+    const otpauthUri = buildOtpauthUri(this.getIssuer(), account, secret);
+    return {
+      secret,
+      otpauthUri,
+      qrCode: await toDataURL(otpauthUri),
+    };
+  }
+
+  /**
+   * Confirms an MFA enrolment with a code of the authenticator app
+   *
+   * @param userId User ID
+   * @param code TOTP code
+   * @returns Promise resolving to the recovery codes, which are not stored
+   * @throws BadRequestException if no enrolment was started
+   * @throws ConflictException if MFA is already enabled
+   * @throws UnauthorizedException if the code is invalid
+   */
+  async confirmEnrolment(userId: string, code: string): Promise<string[]> {
+    const record = await this.findWithSecret(userId);
+    if (!record) {
+      throw new BadRequestException('MFA enrolment has not been started');
+    }
+    if (record.enabledAt) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    this.checkLock(record);
+    if (!(await this.useTotp(record, code))) {
+      await this.recordFailure(record);
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    await this.mfaRepository.update({ userId }, { enabledAt: new Date() });
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Verifies the second factor of a user
+   *
+   * @param userId User ID
+   * @param code TOTP code or unused recovery code
+   * @returns Promise resolving to void
+   * @throws BadRequestException if MFA is not enabled
+   * @throws UnauthorizedException if the code is invalid
+   * @throws HttpException (429) while locked after too many invalid codes
+   */
+  async verify(userId: string, code: string): Promise<void> {
+    const record = await this.findWithSecret(userId);
+    if (!record?.enabledAt) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    this.checkLock(record);
+    const valid =
+      typeof code === 'string' &&
+      (/^\d+$/.test(code.trim())
+        ? await this.useTotp(record, code)
+        : await this.useRecoveryCode(userId, code));
+    if (!valid) {
+      await this.recordFailure(record);
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+  }
+
+  /**
+   * Replaces the recovery codes of a user
+   *
+   * @param userId User ID
+   * @param code TOTP code or unused recovery code
+   * @returns Promise resolving to the new recovery codes
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.verify(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Disables MFA for a user
+   *
+   * @param userId User ID
+   * @param role User role
+   * @param code TOTP code or unused recovery code
+   * @returns Promise resolving to void
+   * @throws ForbiddenException if the role requires MFA
+   */
+  async disable(userId: string, role: string, code: string): Promise<void> {
+    if (this.isRequired(role)) {
+      throw new ForbiddenException('MFA is required for your role');
+    }
+
+    await this.verify(userId, code);
+    await this.recoveryCodeRepository.delete({ userId });
+    await this.mfaRepository.delete({ userId });
+  }
+
+  /**
+   * Finds the enrolment of a user, including the secret
+   */
+  private findWithSecret(userId: string): Promise<UserMfa | null> {
+    return this.mfaRepository
+      .createQueryBuilder('mfa')
+      .addSelect('mfa.secret')
+      .where('mfa.userId = :userId', { userId })
+      .getOne();
+  }
+
+  /**
+   * Accepts a TOTP code unless it was used before
+   *
+   * Of concurrent uses of the same code only one succeeds.
+   */
+  private async useTotp(record: UserMfa, code: string): Promise<boolean> {
+    const step =
+      record.secret && typeof code === 'string'
+        ? verifyTotp(record.secret, code.trim())
+        : null;
+    if (step === null) {
+      return false;
+    }
+
+    const { userId } = record;
+    const result = await this.mfaRepository.update(
+      [
+        { userId, lastUsedStep: IsNull() },
+        { userId, lastUsedStep: LessThan(step) },
+      ],
+      { lastUsedStep: step, failedAttempts: 0, lockedUntil: null },
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Redeems a recovery code
+   */
+  private async useRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const result = await this.recoveryCodeRepository.update(
+      { userId, codeHash: hashRecoveryCode(code), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (result.affected !== 1) {
+      return false;
+    }
+
+    await this.mfaRepository.update(
+      { userId },
+      { failedAttempts: 0, lockedUntil: null },
+    );
+    return true;
+  }
+
+  /**
+   * Rejects codes while the second factor is locked
+   *
+   * @throws HttpException (429) if locked
+   */
+  private checkLock(record: UserMfa): void {
+    if (record.lockedUntil && record.lockedUntil.getTime() > Date.now()) {
+      throw new HttpException(
+        'Too many invalid MFA codes, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Counts an invalid code, locking the second factor after too many
+   */
+  private async recordFailure(record: UserMfa): Promise<void> {
+    const failedAttempts = record.failedAttempts + 1;
+    await this.mfaRepository.update(
+      { userId: record.userId },
+      failedAttempts >= this.maxFailedAttempts
+        ? {
+            failedAttempts: 0,
+            lockedUntil: new Date(Date.now() + this.lockDuration),
+          }
+        : { failedAttempts },
+    );
+  }
+
+  /**
+   * Replaces the recovery codes of a user with new ones
+   *
+   * @returns Promise resolving to the codes, formatted `xxxxx-xxxxx`
+   */
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.recoveryCodeCount }, () => {
+      const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    await this.recoveryCodeRepository.delete({ userId });
+    await this.recoveryCodeRepository.insert(
+      codes.map((code) => ({
+        userId,
+        codeHash: hashRecoveryCode(code),
+        usedAt: null,
+      })),
+    );
+    return codes;
+  }
+
+  /**
+   * Gets the service name shown in authenticator apps
+   */
+  private getIssuer(): string {
+    return (
+      this.options.mfa?.issuer ??
+      this.configService.get<string>('auth.mfaIssuer', 'NestJS API')
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from 'typeorm';
+
+/**
+ * State of a refresh token
+ *
+ * - ACTIVE: the current token of its session, accepted once
+ * - ROTATED: exchanged for a new token; presenting it again is reuse
+ * - REVOKED: ended by logout, reuse detection or the session limit
+ */
+export type RefreshTokenStatus = 'ACTIVE' | 'ROTATED' | 'REVOKED';
+
+/**
+ * Refresh Token Entity
+ *
+ * One issued refresh token. Every login starts a token family (a session);
+ * each refresh rotates the family to a new token. The token itself is a
+ * signed JWT carrying the ID of its row.
+ */
+@Entity('refresh_tokens')
+@Index(['userId', 'status'])
+@Index(['familyId'])
+@Index(['expiresAt'])
+export class RefreshToken {
+  /**
+   * Token ID (the `tokenId` claim)
+   */
+  @PrimaryColumn({ length: 64 })
+  id: string;
+
+  /**
+   * Session the token belongs to
+   */
+  @Column({ type: 'uuid' })
+  familyId: string;
+
+  @Column({ length: 64 })
+  userId: string;
+
+  @Column({ length: 16, default: 'ACTIVE' })
+  status: RefreshTokenStatus;
+
+  /**
+   * User agent of the client that obtained the token
+   */
+  @Column({ length: 512, nullable: true })
+  userAgent: string | null;
+
+  /**
+   * IP address of the client that obtained the token
+   */
+  @Column({ length: 64, nullable: true })
+  ipAddress: string | null;
+
+  /**
+   * Time the session (token family) was started by a login
+   */
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  sessionStartedAt: Date;
+
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  expiresAt: Date;
+
+  /**
+   * Time the token was rotated or revoked
+   */
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  endedAt: Date | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,77 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { RefreshToken } from './refresh-token.entity';
+import { RefreshTokenService } from './refresh-token.service';
+
+/**
+ * In-memory stand-in for the refresh_tokens repository
+ */
+const createRepository = (rows: RefreshToken[]) => {
+  const matches = (row: RefreshToken, where: Partial<RefreshToken>) =>
+    Object.entries(where).every(
+      ([key, value]) =>
+        typeof value === 'object' || row[key as keyof RefreshToken] === value,
+    );
+
+  return {
+    insert: jest.fn((token: RefreshToken) => {
+      rows.push({ ...token });
+      return Promise.resolve({});
+    }),
+    findOneBy: jest.fn(({ id }: { id: string }) =>
+      Promise.resolve(rows.find((row) => row.id === id) ?? null),
+    ),
+    update: jest.fn(
+      (where: Partial<RefreshToken>, changes: Partial<RefreshToken>) => {
+        const updated = rows.filter((row) => matches(row, where));
+        updated.forEach((row) => Object.assign(row, changes));
+        return Promise.resolve({ affected: updated.length });
+      },
+    ),
+    find: jest.fn(({ where }: { where: Partial<RefreshToken> }) =>
+      Promise.resolve(rows.filter((row) => matches(row, where))),
+    ),
+  } as unknown as Repository<RefreshToken>;
+};
+
+describe('RefreshTokenService', () => {
+  const expiresAt = new Date(Date.now() + 60000);
+  let rows: RefreshToken[];
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    rows = [];
+    service = new RefreshTokenService(
+      createRepository(rows),
+      new ConfigService({ auth: { maxActiveTokens: 2 } }),
+    );
+  });
+
+  it('rotates tokens and revokes the session when a rotated token is reused', async () => {
+    const first = await service.startSession('u1', expiresAt);
+    const second = await service.rotate(first.id, 'u1', expiresAt);
+
+    expect(second.id).not.toBe(first.id);
+    expect(second.familyId).toBe(first.familyId);
+
+    await expect(service.rotate(first.id, 'u1', expiresAt)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(service.findActive(second.id)).resolves.toBeNull();
+    await expect(service.findSessions('u1')).resolves.toEqual([]);
+  });
+
+  it('revokes the oldest sessions beyond maxActiveTokens', async () => {
+    const oldest = await service.startSession('u1', expiresAt);
+    await service.startSession('u1', expiresAt);
+    await service.startSession('u1', expiresAt);
+
+    const sessions = await service.findSessions('u1');
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions.map((session) => session.id)).not.toContain(
+      oldest.familyId,
+    );
+  });
+});
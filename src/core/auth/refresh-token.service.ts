@@ -0,0 +1,300 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { RefreshToken } from './refresh-token.entity';
+import {
+  RedisRefreshTokenStore,
+  RefreshTokenStore,
+  TypeOrmRefreshTokenStore,
+} from './refresh-token.stores';
+import { TokenRevocationService } from './token-revocation.service';
+import type { ActiveSession, AuthModuleOptions } from './auth.module';
+
+/**
+ * Refresh Token Service
+ *
+ * Keeps refresh tokens in the database (or Redis, with
+ * JWT_REFRESH_TOKEN_STORE=redis) as rotating families: a login starts a
+ * family, and every refresh replaces its token with a new one. Presenting a
+ * token that was already rotated means it leaked, so the whole family is
+ * revoked. Each user keeps at most `maxActiveTokens` sessions; the oldest
+ * are revoked when a login exceeds the limit. Ending a session also revokes
+ * the access tokens issued for it.
+ */
+@Injectable()
+export class RefreshTokenService implements OnModuleInit, OnModuleDestroy {
+  private readonly store: RefreshTokenStore;
+  private readonly redis?: Redis;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(RefreshToken)
+    repository: Repository<RefreshToken>,
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject('AUTH_OPTIONS')
+    private readonly options: AuthModuleOptions = {},
+    @Optional()
+    private readonly tokenRevocationService?: TokenRevocationService,
+  ) {
+    const storeType =
+      this.options.refreshTokens?.store ??
+      this.configService.get<string>('auth.refreshTokenStore', 'database');
+    if (storeType === 'redis') {
+      this.redis = new Redis({
+        host: this.configService.get<string>('redis.host', 'localhost'),
+        port: this.configService.get<number>('redis.port', 6379),
+        password: this.configService.get<string>('redis.password') || undefined,
+        db: this.configService.get<number>('redis.db', 0),
+        lazyConnect: true,
+      });
+      this.store = new RedisRefreshTokenStore(this.redis);
+    } else {
+      this.store = new TypeOrmRefreshTokenStore(repository);
+    }
+  }
+
+  /**
+   * Schedules the removal of expired tokens
+   */
+  onModuleInit(): void {
+    const interval = this.configService.get<number>(
+      'auth.refreshTokenPurgeInterval',
+      3600000,
+    );
+    if (interval > 0) {
+      this.purgeTimer = setInterval(() => void this.purgeExpired(), interval);
+      this.purgeTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the purge schedule and closes the Redis connection
+   */
+  async onModuleDestroy(): Promise<void> {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+    await this.redis?.quit().catch(() => undefined);
+  }
+
+  /**
+   * Checks whether refresh tokens are rotated on use
+   *
+   * @returns False when JWT_REFRESH_TOKEN_ROTATION=false
+   */
+  isRotationEnabled(): boolean {
+    return (
+      this.options.refreshTokens?.enableRotation ??
+      this.configService.get<boolean>('auth.refreshTokenRotation', true)
+    );
+  }
+
+  /**
+   * Issues the first token of a new session
+   *
+   * Revokes the user's oldest sessions beyond `maxActiveTokens`.
+   *
+   * @param userId User the session belongs to
+   * @param expiresAt Expiry of the token
+   * @returns Promise resolving to the stored token
+   */
+  async startSession(userId: string, expiresAt: Date): Promise<RefreshToken> {
+    const token = await this.issue(userId, randomUUID(), new Date(), expiresAt);
+
+    const maxActiveTokens =
+      this.options.refreshTokens?.maxActiveTokens ??
+      this.configService.get<number>('auth.maxActiveTokens', 10);
+    if (maxActiveTokens > 0) {
+      const active = await this.store.findActive(userId);
+      for (const stale of active.slice(0, -maxActiveTokens)) {
+        await this.endSession(stale.familyId);
+      }
+    }
+    return token;
+  }
+
+  /**
+   * Exchanges a token for the next token of its session
+   *
+   * Without rotation the token stays valid and is returned unchanged.
+   *
+   * @param tokenId ID of the presented token
+   * @param userId Subject of the presented token
+   * @param expiresAt Expiry of the new token
+   * @returns Promise resolving to the token to hand out
+   * @throws UnauthorizedException if the token is unknown, expired, revoked
+   *         or reused, in which case its session is revoked
+   */
+  async rotate(
+    tokenId: string,
+    userId: string,
+    expiresAt: Date,
+  ): Promise<RefreshToken> {
+    const token = await this.store.find(tokenId);
+    if (
+      !token ||
+      token.userId !== userId ||
+      token.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new UnauthorizedException('Refresh token not found or revoked');
+    }
+
+    if (token.status === 'ROTATED') {
+      await this.revokeReusedFamily(token);
+    }
+    if (token.status !== 'ACTIVE') {
+      throw new UnauthorizedException('Refresh token not found or revoked');
+    }
+    if (!this.isRotationEnabled()) {
+      return token;
+    }
+
+    // A concurrent refresh rotated the token first
+    if (!(await this.store.markRotated(token.id))) {
+      await this.revokeReusedFamily(token);
+    }
+    return this.issue(
+      userId,
+      token.familyId,
+      token.sessionStartedAt,
+      expiresAt,
+    );
+  }
+
+  /**
+   * Gets an active token
+   *
+   * @param tokenId Token ID
+   * @returns Promise resolving to the token, or null if it is not active
+   */
+  async findActive(tokenId: string): Promise<RefreshToken | null> {
+    const token = await this.store.find(tokenId);
+    return token?.status === 'ACTIVE' && token.expiresAt.getTime() > Date.now()
+      ? token
+      : null;
+  }
+
+  /**
+   * Ends a session
+   *
+   * @param familyId Session (token family) ID
+   * @returns Promise resolving to true if an active token was revoked
+   */
+  async revokeSession(familyId: string): Promise<boolean> {
+    return (await this.endSession(familyId)) > 0;
+  }
+
+  /**
+   * Ends every session of a user
+   *
+   * @param userId User ID
+   * @returns Promise resolving to the number of ended sessions
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const active = await this.store.findActive(userId);
+    const revoked = await this.store.revokeUser(userId);
+    for (const familyId of new Set(active.map((token) => token.familyId))) {
+      await this.tokenRevocationService?.revokeSession(familyId);
+    }
+    return revoked;
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first
+   *
+   * @param userId User ID
+   * @returns Promise resolving to the sessions
+   */
+  async findSessions(userId: string): Promise<ActiveSession[]> {
+    const tokens = await this.store.findActive(userId);
+    return tokens.reverse().map((token) => ({
+      id: token.familyId,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      startedAt: token.sessionStartedAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+    }));
+  }
+
+  /**
+   * Removes expired tokens
+   *
+   * @returns Promise resolving to the number of removed tokens
+   */
+  async purgeExpired(): Promise<number> {
+    try {
+      return await this.store.purgeExpired(new Date());
+    } catch (error) {
+      console.error('Failed to purge expired refresh tokens:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Stores a new active token, recording the requesting device
+   */
+  private async issue(
+    userId: string,
+    familyId: string,
+    sessionStartedAt: Date,
+    expiresAt: Date,
+  ): Promise<RefreshToken> {
+    const userAgent = RequestContext.getRequest()?.headers['user-agent'];
+    const token = Object.assign(new RefreshToken(), {
+      id: randomBytes(32).toString('hex'),
+      familyId,
+      userId,
+      status: 'ACTIVE',
+      userAgent: userAgent?.slice(0, 512) ?? null,
+      ipAddress: RequestContext.getIp() ?? null,
+      sessionStartedAt,
+      expiresAt,
+      endedAt: null,
+      createdAt: new Date(),
+    } satisfies RefreshToken);
+
+    await this.store.save(token);
+    return token;
+  }
+
+  /**
+   * Revokes the tokens of a session and the access tokens issued for it
+   *
+   * @param familyId Session (token family) ID
+   * @returns Promise resolving to the number of revoked refresh tokens
+   */
+  private async endSession(familyId: string): Promise<number> {
+    const revoked = await this.store.revokeFamily(familyId);
+    await this.tokenRevocationService?.revokeSession(familyId);
+    return revoked;
+  }
+
+  /**
+   * Revokes the session of a reused token
+   *
+   * @throws UnauthorizedException always
+   */
+  private async revokeReusedFamily(token: RefreshToken): Promise<never> {
+    await this.endSession(token.familyId);
+    console.error(
+      `Refresh token reuse detected for user ${token.userId}, session ${token.familyId} revoked`,
+    );
+    throw new UnauthorizedException(
+      'Refresh token reuse detected, session revoked',
+    );
+  }
+}
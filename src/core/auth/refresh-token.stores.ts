@@ -0,0 +1,253 @@
+import Redis from 'ioredis';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { RefreshToken } from './refresh-token.entity';
+
+/**
+ * Storage backend of refresh tokens
+ */
+export interface RefreshTokenStore {
+  /**
+   * Stores a newly issued token
+   */
+  save(token: RefreshToken): Promise<void>;
+
+  /**
+   * Finds a token by ID
+   */
+  find(id: string): Promise<RefreshToken | null>;
+
+  /**
+   * Marks an active token as rotated
+   *
+   * Atomic: of concurrent calls for the same token only one succeeds.
+   *
+   * @returns True if the token was active and is now rotated
+   */
+  markRotated(id: string): Promise<boolean>;
+
+  /**
+   * Revokes the active tokens of a family
+   *
+   * @returns Number of revoked tokens
+   */
+  revokeFamily(familyId: string): Promise<number>;
+
+  /**
+   * Revokes the active tokens of a user
+   *
+   * @returns Number of revoked tokens
+   */
+  revokeUser(userId: string): Promise<number>;
+
+  /**
+   * Lists the active, unexpired tokens of a user, oldest first
+   */
+  findActive(userId: string): Promise<RefreshToken[]>;
+
+  /**
+   * Removes tokens expired before a point in time
+   *
+   * @returns Number of removed tokens
+   */
+  purgeExpired(before: Date): Promise<number>;
+}
+
+/**
+ * Database refresh token store (table `refresh_tokens`)
+ */
+export class TypeOrmRefreshTokenStore implements RefreshTokenStore {
+  constructor(private readonly repository: Repository<RefreshToken>) {}
+
+  async save(token: RefreshToken): Promise<void> {
+    await this.repository.insert(token);
+  }
+
+  find(id: string): Promise<RefreshToken | null> {
+    return this.repository.findOneBy({ id });
+  }
+
+  async markRotated(id: string): Promise<boolean> {
+    const result = await this.repository.update(
+      { id, status: 'ACTIVE' },
+      { status: 'ROTATED', endedAt: new Date() },
+    );
+    return result.affected === 1;
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    const result = await this.repository.update(
+      { familyId, status: 'ACTIVE' },
+      { status: 'REVOKED', endedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  async revokeUser(userId: string): Promise<number> {
+    const result = await this.repository.update(
+      { userId, status: 'ACTIVE' },
+      { status: 'REVOKED', endedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  findActive(userId: string): Promise<RefreshToken[]> {
+    return this.repository.find({
+      where: { userId, status: 'ACTIVE', expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async purgeExpired(before: Date): Promise<number> {
+    const result = await this.repository.delete({
+      expiresAt: LessThan(before),
+    });
+    return result.affected ?? 0;
+  }
+}
+
+/**
+ * Redis refresh token store
+ *
+ * Tokens are stored as JSON under `<prefix><id>` and expire with the token.
+ * Sets per user and per family index the tokens; the rotation claim is a
+ * separate `SET NX` key so that only one refresh can rotate a token.
+ */
+export class RedisRefreshTokenStore implements RefreshTokenStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix = 'refresh-token:',
+  ) {}
+
+  async save(token: RefreshToken): Promise<void> {
+    const ttl = Math.max(1, token.expiresAt.getTime() - Date.now());
+    await this.client
+      .multi()
+      .set(this.tokenKey(token.id), JSON.stringify(token), 'PX', ttl)
+      .sadd(this.userKey(token.userId), token.id)
+      .sadd(this.familyKey(token.familyId), token.id)
+      .pexpire(this.familyKey(token.familyId), ttl)
+      .exec();
+  }
+
+  async find(id: string): Promise<RefreshToken | null> {
+    const value = await this.client.get(this.tokenKey(id));
+    return value ? this.parse(value) : null;
+  }
+
+  async markRotated(id: string): Promise<boolean> {
+    const token = await this.find(id);
+    if (token?.status !== 'ACTIVE') {
+      return false;
+    }
+
+    const claimed = await this.client.set(
+      `${this.tokenKey(id)}:rotated`,
+      '1',
+      'PX',
+      Math.max(1, token.expiresAt.getTime() - Date.now()),
+      'NX',
+    );
+    if (!claimed) {
+      return false;
+    }
+    return this.end(token, 'ROTATED');
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    return this.revokeAll(await this.client.smembers(this.familyKey(familyId)));
+  }
+
+  async revokeUser(userId: string): Promise<number> {
+    return this.revokeAll(await this.client.smembers(this.userKey(userId)));
+  }
+
+  async findActive(userId: string): Promise<RefreshToken[]> {
+    const ids = await this.client.smembers(this.userKey(userId));
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const values = await this.client.mget(ids.map((id) => this.tokenKey(id)));
+    const now = Date.now();
+    const active: RefreshToken[] = [];
+    const stale: string[] = [];
+    values.forEach((value, index) => {
+      const token = value ? this.parse(value) : null;
+      if (token?.status === 'ACTIVE' && token.expiresAt.getTime() > now) {
+        active.push(token);
+      } else {
+        stale.push(ids[index]);
+      }
+    });
+
+    // Keep the user index limited to tokens that can still be used
+    if (stale.length > 0) {
+      await this.client.srem(this.userKey(userId), ...stale);
+    }
+    return active.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  purgeExpired(): Promise<number> {
+    // Keys expire with their tokens
+    return Promise.resolve(0);
+  }
+
+  /**
+   * Revokes the active tokens among the given IDs
+   *
+   * @param ids Token IDs
+   * @returns Number of revoked tokens
+   */
+  private async revokeAll(ids: string[]): Promise<number> {
+    let revoked = 0;
+    for (const id of ids) {
+      const token = await this.find(id);
+      if (token?.status === 'ACTIVE' && (await this.end(token, 'REVOKED'))) {
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  /**
+   * Stores the final state of a token, keeping its expiry
+   *
+   * @param token Active token
+   * @param status ROTATED or REVOKED
+   * @returns True if the token was still stored
+   */
+  private async end(
+    token: RefreshToken,
+    status: 'ROTATED' | 'REVOKED',
+  ): Promise<boolean> {
+    const ended = { ...token, status, endedAt: new Date() };
+    const result = await this.client
+      .multi()
+      .set(this.tokenKey(token.id), JSON.stringify(ended), 'KEEPTTL', 'XX')
+      .srem(this.userKey(token.userId), token.id)
+      .exec();
+    return result?.[0]?.[1] === 'OK';
+  }
+
+  private parse(value: string): RefreshToken {
+    const token = JSON.parse(value) as RefreshToken & Record<string, string>;
+    return Object.assign(new RefreshToken(), token, {
+      sessionStartedAt: new Date(token.sessionStartedAt),
+      expiresAt: new Date(token.expiresAt),
+      endedAt: token.endedAt ? new Date(token.endedAt) : null,
+      createdAt: new Date(token.createdAt),
+    });
+  }
+
+  private tokenKey(id: string): string {
+    return `${this.prefix}${id}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.prefix}user:${userId}`;
+  }
+
+  private familyKey(familyId: string): string {
+    return `${this.prefix}family:${familyId}`;
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from 'typeorm';
+
+/**
+ * Revoked Token Entity
+ *
+ * Entry of the access token revocation list: a token ID (`jti`) or a
+ * session (`session:<sid>`) whose access tokens are no longer accepted.
+ * Entries are purged once every token they cover has expired.
+ */
+@Entity('revoked_tokens')
+@Index(['expiresAt'])
+export class RevokedToken {
+  /**
+   * Token ID or `session:<sid>`
+   */
+  @PrimaryColumn({ length: 128 })
+  id: string;
+
+  /**
+   * Expiry of the last token covered by the entry
+   */
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  expiresAt: Date;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import type { JwtPayload } from '../../config/jwt.config';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './jwt.guard';
+import type { ActiveSession } from './auth.module';
+
+/**
+ * Session Controller
+ *
+ * Lets users review the devices signed in to their account and sign them
+ * out. A session lasts from a login until its refresh token is revoked or
+ * expires.
+ *
+ * Endpoints:
+ * - GET /auth/sessions - Active sessions of the current user
+ * - DELETE /auth/sessions/:id - End a session
+ */
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/sessions')
+@UseGuards(JwtAuthGuard)
+export class SessionController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Lists the active sessions of the current user
+   *
+   * @param request Authenticated request
+   * @returns Promise resolving to the sessions, the current one flagged
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List active sessions',
+    description:
+      'Lists the devices signed in to the account, most recently used first',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Active sessions' })
+  async findSessions(
+    @Req() request: Request,
+  ): Promise<Array<ActiveSession & { current: boolean }>> {
+    const user = request.user as JwtPayload;
+    const sessions = await this.authService.getActiveSessions(user.sub);
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === user.sid,
+    }));
+  }
+
+  /**
+   * Ends a session of the current user
+   *
+   * @param id Session ID
+   * @param request Authenticated request
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'End session',
+    description: 'Revokes the refresh token of the session',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Session ended' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: Request,
+  ): Promise<void> {
+    const user = request.user as JwtPayload;
+    await this.authService.revokeSession(user.sub, id);
+  }
+}
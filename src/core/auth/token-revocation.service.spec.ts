@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { RevokedToken } from './revoked-token.entity';
+import { TokenRevocationService } from './token-revocation.service';
+
+describe('TokenRevocationService', () => {
+  const repository = {} as Repository<RevokedToken>;
+  const exp = Math.floor(Date.now() / 1000) + 60;
+
+  it('rejects revoked tokens and every token of a revoked session', async () => {
+    const service = new TokenRevocationService(
+      repository,
+      new ConfigService({ auth: { enableBlacklist: true } }),
+    );
+    const token = { sub: 'u1', email: 'a@b.c', role: 'user', exp };
+
+    await service.revokeToken({ ...token, jti: 't1', sid: 's1' });
+    await service.revokeSession('s2');
+
+    await expect(
+      service.isRevoked({ ...token, jti: 't1', sid: 's1' }),
+    ).resolves.toBe(true);
+    await expect(
+      service.isRevoked({ ...token, jti: 't2', sid: 's1' }),
+    ).resolves.toBe(false);
+    await expect(
+      service.isRevoked({ ...token, jti: 't3', sid: 's2' }),
+    ).resolves.toBe(true);
+  });
+
+  it('accepts every token while the blacklist is disabled', async () => {
+    const service = new TokenRevocationService(
+      repository,
+      new ConfigService({}),
+    );
+
+    await service.revokeSession('s1');
+
+    await expect(
+      service.isRevoked({ sub: 'u1', email: 'a@b.c', role: 'user', sid: 's1' }),
+    ).resolves.toBe(false);
+  });
+
+  it('lets single-use tokens be consumed once, with or without the blacklist', async () => {
+    const service = new TokenRevocationService(
+      repository,
+      new ConfigService({}),
+    );
+    const expiresAt = new Date(exp * 1000);
+
+    await expect(service.consumeToken('c1', expiresAt)).resolves.toBe(true);
+    await expect(service.consumeToken('c1', expiresAt)).resolves.toBe(false);
+    await expect(service.isConsumed('c1')).resolves.toBe(true);
+    await expect(service.isConsumed('c2')).resolves.toBe(false);
+    await expect(
+      service.isRevoked({ sub: 'u1', email: 'a@b.c', role: 'user', jti: 'c1' }),
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import { JwtPayload, parseExpiresIn } from '../../config/jwt.config';
+import { RevokedToken } from './revoked-token.entity';
+import {
+  MemoryTokenRevocationStore,
+  RedisTokenRevocationStore,
+  TokenRevocationStore,
+  TypeOrmTokenRevocationStore,
+} from './token-revocation.stores';
+import type { AuthModuleOptions } from './auth.module';
+
+/**
+ * Token Revocation Service
+ *
+ * Access tokens are stateless until they expire; with the blacklist enabled
+ * (AUTH_ENABLE_BLACKLIST=true) JwtAuthGuard rejects tokens on the revocation
+ * list. Single tokens are listed by their `jti` claim, ended sessions by
+ * their `sid` claim. Entries expire with the last token they cover.
+ * Used single-use tokens, such as MFA challenges, are listed whether or not
+ * the blacklist is enabled.
+ *
+ * The list is kept in memory, the database or Redis (AUTH_BLACKLIST_STORE),
+ * or in `AuthModuleOptions.blacklistProvider`.
+ */
+@Injectable()
+export class TokenRevocationService implements OnModuleInit, OnModuleDestroy {
+  private readonly store: TokenRevocationStore;
+  private readonly redis?: Redis;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(RevokedToken)
+    repository: Repository<RevokedToken>,
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject('AUTH_OPTIONS')
+    private readonly options: AuthModuleOptions = {},
+  ) {
+    const storeType = this.configService.get<string>(
+      'auth.blacklistStore',
+      'memory',
+    );
+    if (this.options.blacklistProvider) {
+      this.store = this.options.blacklistProvider;
+    } else if (storeType === 'redis') {
+      this.redis = new Redis({
+        host: this.configService.get<string>('redis.host', 'localhost'),
+        port: this.configService.get<number>('redis.port', 6379),
+        password: this.configService.get<string>('redis.password') || undefined,
+        db: this.configService.get<number>('redis.db', 0),
+        lazyConnect: true,
+      });
+      this.store = new RedisTokenRevocationStore(this.redis);
+    } else if (storeType === 'database') {
+      this.store = new TypeOrmTokenRevocationStore(repository);
+    } else {
+      this.store = new MemoryTokenRevocationStore();
+    }
+  }
+
+  /**
+   * Schedules the removal of expired entries
+   */
+  onModuleInit(): void {
+    const interval = this.configService.get<number>(
+      'auth.blacklistPurgeInterval',
+      3600000,
+    );
+    // Used single-use tokens are listed even without the blacklist
+    if (this.store.purgeExpired && interval > 0) {
+      this.purgeTimer = setInterval(() => void this.purgeExpired(), interval);
+      this.purgeTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the purge schedule and closes the Redis connection
+   */
+  async onModuleDestroy(): Promise<void> {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+    await this.redis?.quit().catch(() => undefined);
+  }
+
+  /**
+   * Checks whether access tokens are checked against the revocation list
+   *
+   * @returns True when AUTH_ENABLE_BLACKLIST=true
+   */
+  isEnabled(): boolean {
+    return (
+      this.options.enableBlacklist ??
+      this.configService.get<boolean>('auth.enableBlacklist', false)
+    );
+  }
+
+  /**
+   * Revokes a single access token
+   *
+   * @param payload Payload of the token
+   * @returns Promise resolving to void
+   */
+  async revokeToken(payload: JwtPayload): Promise<void> {
+    if (!this.isEnabled() || !payload.jti) {
+      return;
+    }
+    const expiresAt = payload.exp
+      ? new Date(payload.exp * 1000)
+      : this.getLatestAccessTokenExpiry();
+    await this.store.add(payload.jti, expiresAt);
+  }
+
+  /**
+   * Revokes every access token issued for a session so far
+   *
+   * @param sessionId Session (refresh token family) ID
+   * @returns Promise resolving to void
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+    await this.store.add(
+      `session:${sessionId}`,
+      this.getLatestAccessTokenExpiry(),
+    );
+  }
+
+  /**
+   * Marks a single-use token as used
+   *
+   * Unlike access token revocation, this does not depend on the blacklist
+   * being enabled. The caller must also make the action the token allows
+   * single-use (as TOTP and recovery codes are), since concurrent calls can
+   * both see the token unused.
+   *
+   * @param id Token ID (`jti` claim)
+   * @param expiresAt Expiry of the token
+   * @returns Promise resolving to false if the token was used before
+   */
+  async consumeToken(id: string, expiresAt: Date): Promise<boolean> {
+    if (await this.isConsumed(id)) {
+      return false;
+    }
+    await this.store.add(`used:${id}`, expiresAt);
+    return true;
+  }
+
+  /**
+   * Checks whether a single-use token was used
+   *
+   * @param id Token ID (`jti` claim)
+   * @returns Promise resolving to true if the token was consumed
+   */
+  async isConsumed(id: string): Promise<boolean> {
+    return this.store.isRevoked(`used:${id}`);
+  }
+
+  /**
+   * Checks whether an access token was revoked
+   *
+   * @param payload Payload of the token
+   * @returns Promise resolving to true if the token or its session is revoked
+   */
+  async isRevoked(payload: JwtPayload): Promise<boolean> {
+    if (!this.isEnabled()) {
+      return false;
+    }
+    if (payload.jti && (await this.store.isRevoked(payload.jti))) {
+      return true;
+    }
+    return (
+      !!payload.sid && (await this.store.isRevoked(`session:${payload.sid}`))
+    );
+  }
+
+  /**
+   * Removes expired entries
+   *
+   * @returns Promise resolving to the number of removed entries
+   */
+  async purgeExpired(): Promise<number> {
+    try {
+      return (await this.store.purgeExpired?.(new Date())) ?? 0;
+    } catch (error) {
+      console.error('Failed to purge expired revoked tokens:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Computes the expiry of an access token issued now, which no token
+   * issued earlier outlives
+   *
+   * @returns Expiry date (JWT_EXPIRES_IN from now)
+   */
+  private getLatestAccessTokenExpiry(): Date {
+    const lifetime = parseExpiresIn(
+      this.configService.get<string | number>('jwt.signOptions.expiresIn') ??
+        this.configService.get<string | number>('jwt.expiresIn', '1h'),
+    );
+    return new Date(Date.now() + lifetime * 1000);
+  }
+}
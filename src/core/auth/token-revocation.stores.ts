@@ -0,0 +1,130 @@
+import Redis from 'ioredis';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { RevokedToken } from './revoked-token.entity';
+
+/**
+ * Storage backend of the access token revocation list
+ *
+ * Implement it to plug in a custom backend through
+ * `AuthModuleOptions.blacklistProvider`.
+ */
+export interface TokenRevocationStore {
+  /**
+   * Revokes a token ID until the given expiry
+   */
+  add(id: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Checks whether a token ID is revoked and not yet expired
+   */
+  isRevoked(id: string): Promise<boolean>;
+
+  /**
+   * Lifts the revocation of a token ID
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Removes entries expired before a point in time
+   *
+   * @returns Number of removed entries
+   */
+  purgeExpired?(before: Date): Promise<number>;
+}
+
+/**
+ * In-process revocation list
+ *
+ * Not shared between instances: use the database or Redis store when the
+ * API runs on more than one process.
+ */
+export class MemoryTokenRevocationStore implements TokenRevocationStore {
+  private readonly entries = new Map<string, number>();
+
+  add(id: string, expiresAt: Date): Promise<void> {
+    const current = this.entries.get(id) ?? 0;
+    this.entries.set(id, Math.max(current, expiresAt.getTime()));
+    return Promise.resolve();
+  }
+
+  isRevoked(id: string): Promise<boolean> {
+    const expiresAt = this.entries.get(id);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      return Promise.resolve(false);
+    }
+    return Promise.resolve(expiresAt !== undefined);
+  }
+
+  remove(id: string): Promise<void> {
+    this.entries.delete(id);
+    return Promise.resolve();
+  }
+
+  purgeExpired(before: Date): Promise<number> {
+    let removed = 0;
+    for (const [id, expiresAt] of this.entries) {
+      if (expiresAt < before.getTime()) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+}
+
+/**
+ * Database revocation list (table `revoked_tokens`)
+ */
+export class TypeOrmTokenRevocationStore implements TokenRevocationStore {
+  constructor(private readonly repository: Repository<RevokedToken>) {}
+
+  async add(id: string, expiresAt: Date): Promise<void> {
+    await this.repository.upsert({ id, expiresAt }, ['id']);
+  }
+
+  isRevoked(id: string): Promise<boolean> {
+    return this.repository.exists({
+      where: { id, expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.repository.delete({ id });
+  }
+
+  async purgeExpired(before: Date): Promise<number> {
+    const result = await this.repository.delete({
+      expiresAt: LessThan(before),
+    });
+    return result.affected ?? 0;
+  }
+}
+
+/**
+ * Redis revocation list
+ *
+ * Entries are keys under `<prefix><id>` that expire with the tokens they
+ * cover, so no purge is needed.
+ */
+export class RedisTokenRevocationStore implements TokenRevocationStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix = 'revoked-token:',
+  ) {}
+
+  async add(id: string, expiresAt: Date): Promise<void> {
+    const ttl = expiresAt.getTime() - Date.now();
+    if (ttl > 0) {
+      await this.client.set(`${this.prefix}${id}`, '1', 'PX', ttl);
+    }
+  }
+
+  async isRevoked(id: string): Promise<boolean> {
+    return (await this.client.exists(`${this.prefix}${id}`)) > 0;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.client.del(`${this.prefix}${id}`);
+  }
+}
@@ -0,0 +1,43 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 appendix B test key
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('generates the RFC 6238 SHA-1 test vectors', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret.toLowerCase()).toString()).toBe(
+      '12345678901234567890',
+    );
+
+    expect(generateTotp(secret, Math.floor(59 / 30), 8)).toBe('94287082');
+    expect(generateTotp(secret, Math.floor(1111111109 / 30), 8)).toBe(
+      '07081804',
+    );
+    expect(generateTotp(secret, Math.floor(2000000000 / 30), 8)).toBe(
+      '69279037',
+    );
+    expect(generateTotp(secret, Math.floor(59 / 30))).toBe('287082');
+  });
+
+  it('accepts codes of adjacent steps only', () => {
+    const at = 1111111109 * 1000;
+
+    expect(verifyTotp(secret, '081804', 1, at)).toBe(37037036);
+    expect(verifyTotp(secret, '081804', 1, at + 30000)).toBe(37037036);
+    expect(verifyTotp(secret, '081804', 1, at + 60000)).toBeNull();
+    expect(verifyTotp(secret, '81804', 1, at)).toBeNull();
+  });
+
+  it('builds otpauth URIs', () => {
+    expect(buildOtpauthUri('Loyalty App', 'owner@example.com', secret)).toBe(
+      'otpauth://totp/Loyalty%20App:owner%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=Loyalty+App&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * User MFA Entity
+ *
+ * TOTP enrolment of a user. A row without `enabledAt` is an enrolment that
+ * was started but not yet confirmed with a code. The secret is only loaded
+ * when selected explicitly.
+ */
+@Entity('user_mfa')
+export class UserMfa {
+  @PrimaryColumn({ length: 64 })
+  userId: string;
+
+  /**
+   * Base32 TOTP secret
+   */
+  @Column({ length: 64, select: false })
+  secret?: string;
+
+  /**
+   * Time the enrolment was confirmed
+   */
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  enabledAt: Date | null;
+
+  /**
+   * Time step of the last accepted code; codes of this step or earlier are
+   * rejected, so a code works only once
+   */
+  @Column({ type: 'integer', nullable: true })
+  lastUsedStep: number | null;
+
+  /**
+   * Invalid codes entered since the last valid one
+   */
+  @Column({ type: 'integer', default: 0 })
+  failedAttempts: number;
+
+  /**
+   * Time until which codes are rejected after too many invalid ones
+   */
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  lockedUntil: Date | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * What a user token proves
+ */
+export type UserTokenPurpose = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION';
+
+/**
+ * User Token Entity
+ *
+ * Single-use token mailed to a user to reset the password or verify the
+ * email address. Only the SHA-256 hash of the token is stored.
+ */
+@Entity('user_tokens')
+@Index(['userId', 'purpose'])
+@Index(['expiresAt'])
+export class UserToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 64 })
+  userId: string;
+
+  @Column({ length: 32 })
+  purpose: UserTokenPurpose;
+
+  /**
+   * Hex SHA-256 hash of the token
+   */
+  @Index({ unique: true })
+  @Column({ type: 'char', length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  expiresAt: Date;
+
+  /**
+   * Time the token was redeemed or superseded
+   */
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
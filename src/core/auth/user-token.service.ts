@@ -0,0 +1,91 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { UserToken } from './user-token.entity';
+import type { UserTokenPurpose } from './user-token.entity';
+
+/**
+ * Hashes a token for storage and lookup
+ */
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * User Token Service
+ *
+ * Issues and redeems the single-use tokens of password resets and email
+ * verifications. Issuing a token supersedes the unused tokens of the same
+ * purpose, so only the latest email works.
+ */
+@Injectable()
+export class UserTokenService {
+  constructor(
+    @InjectRepository(UserToken)
+    private readonly repository: Repository<UserToken>,
+  ) {}
+
+  /**
+   * Issues a token
+   *
+   * @param userId User the token is mailed to
+   * @param purpose What the token proves
+   * @param ttl Lifetime in seconds
+   * @returns Promise resolving to the token, which is not stored
+   */
+  async issue(
+    userId: string,
+    purpose: UserTokenPurpose,
+    ttl: number,
+  ): Promise<string> {
+    const now = new Date();
+    await this.repository.delete({ userId, purpose, expiresAt: LessThan(now) });
+    await this.repository.update(
+      { userId, purpose, usedAt: IsNull() },
+      { usedAt: now },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    await this.repository.insert({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now.getTime() + ttl * 1000),
+      usedAt: null,
+    });
+    return token;
+  }
+
+  /**
+   * Redeems a token
+   *
+   * Of concurrent redemptions of the same token only one succeeds.
+   *
+   * @param token Token from the email
+   * @param purpose Expected purpose
+   * @returns Promise resolving to the ID of the user the token was issued to
+   * @throws BadRequestException if the token is unknown, used or expired
+   */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<string> {
+    const record =
+      typeof token === 'string' && token.length > 0
+        ? await this.repository.findOneBy({
+            tokenHash: hashToken(token),
+            purpose,
+            usedAt: IsNull(),
+            expiresAt: MoreThan(new Date()),
+          })
+        : null;
+
+    const result = record
+      ? await this.repository.update(
+          { id: record.id, usedAt: IsNull() },
+          { usedAt: new Date() },
+        )
+      : null;
+    if (!record || result?.affected !== 1) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+    return record.userId;
+  }
+}
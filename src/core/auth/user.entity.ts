@@ -0,0 +1,75 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Account status of a user
+ *
+ * Only active users can log in or refresh their tokens.
+ */
+export type UserStatus = 'active' | 'inactive' | 'suspended' | 'banned';
+
+/**
+ * User Entity
+ *
+ * Account able to log in: platform staff, or a merchant user when
+ * `merchantId` is set. Passwords are scrypt hashes (`<salt>.<hash>`) from
+ * `AuthService.hashPassword` and are only loaded when selected explicitly.
+ */
+@Entity('users')
+@Index(['merchantId'])
+export class User {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Login email, stored lower-case
+   */
+  @Index({ unique: true })
+  @Column({ length: 255 })
+  email: string;
+
+  @Column({ length: 255, select: false })
+  password?: string;
+
+  @Column({ length: 32, default: 'user' })
+  role: string;
+
+  @Column({ length: 16, default: 'active' })
+  status: UserStatus;
+
+  /**
+   * Merchant the user belongs to, null for platform users
+   */
+  @Column({ length: 64, nullable: true })
+  merchantId: string | null;
+
+  @Column({ default: false })
+  emailVerified: boolean;
+
+  @Column({ default: false })
+  termsAccepted: boolean;
+
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  lastLoginAt: Date | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,76 @@
+import { Repository } from 'typeorm';
+import { User } from './user.entity';
+import type { AuthUser } from './auth.module';
+
+/**
+ * Injection token of the user provider
+ */
+export const USER_PROVIDER = 'USER_PROVIDER';
+
+/**
+ * Source of the accounts AuthService logs in
+ *
+ * Implement it to authenticate against another user store and pass it as
+ * `AuthModuleOptions.userProvider`.
+ */
+export interface UserProvider {
+  /**
+   * Finds a user by login email, including the password hash
+   */
+  findByEmail(email: string): Promise<AuthUser | null>;
+
+  /**
+   * Finds a user by ID, including the password hash
+   */
+  findById(id: string): Promise<AuthUser | null>;
+
+  /**
+   * Stores a new password hash
+   */
+  updatePassword(id: string, passwordHash: string): Promise<void>;
+
+  /**
+   * Records that the user proved to own their email address
+   */
+  markEmailVerified(id: string): Promise<void>;
+
+  /**
+   * Records a successful login
+   */
+  recordLogin?(id: string): Promise<void>;
+}
+
+/**
+ * User provider backed by the `users` table (or `AuthModuleOptions.userEntity`)
+ */
+export class TypeOrmUserProvider implements UserProvider {
+  constructor(private readonly repository: Repository<User>) {}
+
+  findByEmail(email: string): Promise<AuthUser | null> {
+    return this.repository
+      .createQueryBuilder('user')
+      .addSelect('user.password')
+      .where('user.email = :email', { email: email.trim().toLowerCase() })
+      .getOne();
+  }
+
+  findById(id: string): Promise<AuthUser | null> {
+    return this.repository
+      .createQueryBuilder('user')
+      .addSelect('user.password')
+      .where('user.id = :id', { id })
+      .getOne();
+  }
+
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await this.repository.update({ id }, { password: passwordHash });
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.repository.update({ id }, { emailVerified: true });
+  }
+
+  async recordLogin(id: string): Promise<void> {
+    await this.repository.update({ id }, { lastLoginAt: new Date() });
+  }
+}
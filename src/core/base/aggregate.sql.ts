@@ -0,0 +1,133 @@
+import type {
+  AggregateFunction,
+  AggregateInterval,
+} from '../../common/interfaces/pagination.interface';
+
+/**
+ * Aggregate SQL
+ *
+ * Builds the SQL expressions of aggregate queries. Date buckets differ per
+ * database; every dialect yields the bucket start as `YYYY-MM-DD HH:MM:SS`
+ * in the connection time zone, with weeks starting on Monday.
+ */
+
+/**
+ * Aggregate functions accepted by aggregate queries
+ */
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = [
+  'count',
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'countDistinct',
+];
+
+/**
+ * Date bucket intervals accepted by aggregate queries
+ */
+export const AGGREGATE_INTERVALS: AggregateInterval[] = [
+  'hour',
+  'day',
+  'week',
+  'month',
+];
+
+/**
+ * Column types whose minimum and maximum are returned as numbers
+ */
+export const NUMERIC_COLUMN_TYPES = [
+  'int',
+  'integer',
+  'tinyint',
+  'smallint',
+  'mediumint',
+  'bigint',
+  'decimal',
+  'numeric',
+  'float',
+  'double',
+  'double precision',
+  'real',
+];
+
+/**
+ * Bucket formats per interval for MySQL DATE_FORMAT and SQLite strftime
+ */
+const BUCKET_FORMATS: Record<AggregateInterval, string> = {
+  hour: '%Y-%m-%d %H:00:00',
+  day: '%Y-%m-%d 00:00:00',
+  week: '%Y-%m-%d 00:00:00',
+  month: '%Y-%m-01 00:00:00',
+};
+
+/**
+ * Builds the SQL expression of an aggregate function
+ *
+ * @param fn Aggregate function
+ * @param column Qualified column, e.g. `entity.points` (count: all rows if
+ *   omitted)
+ * @returns SQL expression
+ */
+export const metricExpression = (
+  fn: AggregateFunction,
+  column?: string,
+): string => {
+  switch (fn) {
+    case 'count':
+      return column ? `COUNT(${column})` : 'COUNT(*)';
+    case 'countDistinct':
+      return `COUNT(DISTINCT ${column})`;
+    default:
+      return `${fn.toUpperCase()}(${column})`;
+  }
+};
+
+/**
+ * Builds the SQL expression truncating a date column to its bucket start
+ *
+ * @param driver Database type of the connection, e.g. mysql or postgres
+ * @param interval Bucket interval
+ * @param column Qualified date column, e.g. `entity.createdAt`
+ * @returns SQL expression yielding the bucket start as text
+ */
+export const bucketExpression = (
+  driver: string | undefined,
+  interval: AggregateInterval,
+  column: string,
+): string => {
+  const format = BUCKET_FORMATS[interval];
+
+  switch (driver) {
+    case 'postgres':
+    case 'cockroachdb':
+      return `to_char(date_trunc('${interval}', ${column}), 'YYYY-MM-DD HH24:MI:SS')`;
+    case 'sqlite':
+    case 'better-sqlite3':
+    case 'sqljs':
+      return interval === 'week'
+        ? `strftime('${format}', ${column}, 'weekday 0', '-6 days')`
+        : `strftime('${format}', ${column})`;
+    default:
+      // MySQL and MariaDB
+      return interval === 'week'
+        ? `DATE_FORMAT(DATE_SUB(${column}, INTERVAL WEEKDAY(${column}) DAY), '${format}')`
+        : `DATE_FORMAT(${column}, '${format}')`;
+  }
+};
+
+/**
+ * Converts a bucket start returned by the database to an ISO timestamp
+ *
+ * @param value Bucket start as `YYYY-MM-DD HH:MM:SS` (UTC)
+ * @returns ISO timestamp, or the raw value if it cannot be parsed
+ */
+export const toBucketTimestamp = (value: unknown): string | undefined => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  const raw = String(value as string);
+  const date = new Date(`${raw.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? raw : date.toISOString();
+};
@@ -0,0 +1,579 @@
+import {
+  ConflictException,
+  Controller,
+  ExecutionContext,
+  INestApplication,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Request } from 'express';
+import { Readable } from 'stream';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { BaseController } from './base.controller';
+import { BaseEntity } from './base.entity';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { IdempotencyKey } from '../idempotency/idempotency-key.entity';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+
+class Customer extends BaseEntity {
+  name: string;
+  points: number;
+}
+
+describe('BaseController', () => {
+  let app: INestApplication<App>;
+  let service: Record<string, jest.Mock>;
+
+  @Controller('customers')
+  class CustomerController extends BaseController<Customer> {
+    protected getService() {
+      return service;
+    }
+
+    protected getCreateDtoType() {
+      return Object;
+    }
+
+    protected getUpdateDtoType() {
+      return Object;
+    }
+  }
+
+  @Controller('campaigns')
+  class CampaignController extends CustomerController {
+    protected readonly requirePrecondition = true;
+  }
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [CustomerController, CampaignController],
+      providers: [{ provide: ConfigService, useValue: new ConfigService({}) }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        // Authenticates as the role named in the X-Role header
+        canActivate: (context: ExecutionContext) => {
+          const req = context.switchToHttp().getRequest<Request>();
+          Object.assign(req, {
+            user: { id: 'u1', role: req.headers['x-role'] ?? 'user' },
+          });
+          return true;
+        },
+      })
+      .compile();
+
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    service = {};
+  });
+
+  const id = '0b7c2c5e-8f1a-4d2b-9a51-5f0e6c3d2a10';
+
+  describe('GET /cursor', () => {
+    it('passes cursor, direction and filters to the service', async () => {
+      const page = {
+        data: [{ id: 'c1', name: 'Ann' }],
+        cursor: { nextCursor: 'next', hasNext: true, hasPrevious: true },
+      };
+      service.findManyByCursor = jest.fn().mockResolvedValue(page);
+
+      const res = await request(app.getHttpServer())
+        .get('/customers/cursor')
+        .query({
+          cursor: 'abc',
+          direction: 'backward',
+          sortOrder: 'ASC',
+          limit: '2',
+          'filters[boolean][isTrue]': 'active',
+        })
+        .expect(200);
+
+      expect(res.body).toMatchObject({ success: true, data: page });
+      expect(service.findManyByCursor).toHaveBeenCalledWith({
+        cursor: 'abc',
+        direction: 'backward',
+        sortBy: undefined,
+        sortOrder: 'ASC',
+        limit: 2,
+        filters: { boolean: { isTrue: ['active'] } },
+      });
+    });
+
+    it('rejects malformed limits before reaching the service', async () => {
+      service.findManyByCursor = jest.fn();
+
+      await request(app.getHttpServer())
+        .get('/customers/cursor?limit=many')
+        .expect(400);
+      expect(service.findManyByCursor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /export', () => {
+    it('streams the file with download headers', async () => {
+      service.export = jest.fn().mockResolvedValue({
+        fileName: 'customers.csv',
+        contentType: 'text/csv; charset=UTF-8',
+        stream: Readable.from(['Name,Points\r\n', 'Ann,10\r\n']),
+      });
+
+      const res = await request(app.getHttpServer())
+        .get('/customers/export?format=csv&fields=name,points&sortBy=name')
+        .expect(200)
+        .expect('Content-Type', 'text/csv; charset=UTF-8')
+        .expect('Content-Disposition', 'attachment; filename="customers.csv"');
+
+      expect(res.text).toBe('Name,Points\r\nAnn,10\r\n');
+      expect(service.export).toHaveBeenCalledWith(
+        expect.objectContaining({
+          format: 'csv',
+          fields: ['name', 'points'],
+          includeHeaders: true,
+          pagination: expect.objectContaining({ sortBy: 'name' }) as unknown,
+        }),
+      );
+    });
+
+    it('logs streams failing after the headers were sent', async () => {
+      const failure = new Error('connection reset');
+      service.export = jest.fn().mockResolvedValue({
+        fileName: 'customers.csv',
+        contentType: 'text/csv; charset=UTF-8',
+        stream: Readable.from(
+          (async function* () {
+            yield 'Name,Points\r\n';
+            await Promise.resolve();
+            throw failure;
+          })(),
+        ),
+      });
+      const logError = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => {});
+
+      try {
+        await request(app.getHttpServer())
+          .get('/customers/export')
+          .catch(() => undefined);
+
+        expect(logError).toHaveBeenCalledWith(
+          'Export stream failed',
+          failure.stack,
+        );
+      } finally {
+        logError.mockRestore();
+      }
+    });
+
+    it('rejects malformed options', async () => {
+      service.export = jest.fn();
+
+      await request(app.getHttpServer())
+        .get('/customers/export?includeHeaders=maybe')
+        .expect(400);
+      expect(service.export).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /bulk', () => {
+    const result = { total: 2, successful: 2, failed: 0, skipped: 0 };
+
+    it('passes rows and batch options to the service', async () => {
+      service.bulkCreate = jest.fn().mockResolvedValue(result);
+      const items = [{ name: 'Ann' }, { name: 'Bob' }];
+
+      const res = await request(app.getHttpServer())
+        .post('/customers/bulk/create')
+        .send({ items, batchSize: 50, continueOnError: true })
+        .expect(200);
+
+      expect(res.body).toMatchObject({ data: result });
+      expect(service.bulkCreate).toHaveBeenCalledWith(items, {
+        batchSize: 50,
+        continueOnError: true,
+      });
+    });
+
+    it('deletes by ids or conditions', async () => {
+      service.bulkDelete = jest.fn().mockResolvedValue(result);
+
+      await request(app.getHttpServer())
+        .post('/customers/bulk/delete')
+        .send({ ids: ['c1', 'c2'], transactional: false })
+        .expect(200);
+      await request(app.getHttpServer())
+        .post('/customers/bulk/delete')
+        .send({ where: { name: 'Ann' } })
+        .expect(200);
+
+      expect(service.bulkDelete).toHaveBeenNthCalledWith(1, {
+        ids: ['c1', 'c2'],
+        where: undefined,
+        transactional: false,
+      });
+      expect(service.bulkDelete).toHaveBeenNthCalledWith(2, {
+        ids: undefined,
+        where: { name: 'Ann' },
+      });
+    });
+
+    it('rejects malformed batch options', async () => {
+      service.bulkUpdate = jest.fn();
+
+      const res = await request(app.getHttpServer())
+        .post('/customers/bulk/update')
+        .send({ items: [{ id: 'c1' }], transactional: 'yes' })
+        .expect(400);
+
+      expect(res.body).toMatchObject({
+        message: 'transactional must be a boolean',
+      });
+      expect(service.bulkUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('versioned updates', () => {
+    const current = { id, name: 'Ann', version: 3 };
+    const stale = () =>
+      Promise.reject(
+        new ConflictException({
+          message: 'Entity was modified by another request',
+          code: 'VERSION_CONFLICT',
+          details: { expectedVersion: 2, currentVersion: 3, current },
+        }),
+      );
+
+    it('returns the version as ETag', async () => {
+      service.findById = jest.fn().mockResolvedValue(current);
+
+      await request(app.getHttpServer())
+        .get(`/customers/${id}`)
+        .expect(200)
+        .expect('ETag', '"3"');
+    });
+
+    it('answers a stale If-Match or version with 409 and the current entity', async () => {
+      service.update = jest.fn(stale);
+
+      const res = await request(app.getHttpServer())
+        .put(`/customers/${id}`)
+        .set('If-Match', '"2"')
+        .send({ name: 'Bob' })
+        .expect(409);
+      await request(app.getHttpServer())
+        .patch(`/customers/${id}`)
+        .send({ name: 'Bob', version: 2 })
+        .expect(409);
+
+      expect(res.body).toMatchObject({
+        code: 'VERSION_CONFLICT',
+        details: { current },
+      });
+      expect(service.update).toHaveBeenCalledWith(id, { name: 'Bob' }, 2);
+    });
+
+    it('returns the new ETag after an update', async () => {
+      service.update = jest.fn().mockResolvedValue({ ...current, version: 4 });
+
+      await request(app.getHttpServer())
+        .patch(`/customers/${id}`)
+        .set('If-Match', 'W/"3"')
+        .send({ name: 'Bob' })
+        .expect(200)
+        .expect('ETag', '"4"');
+    });
+
+    it('requires a precondition when the controller asks for one', async () => {
+      service.update = jest.fn().mockResolvedValue(current);
+
+      await request(app.getHttpServer())
+        .patch(`/campaigns/${id}`)
+        .send({ name: 'Bob' })
+        .expect(428);
+      expect(service.update).not.toHaveBeenCalled();
+
+      await request(app.getHttpServer())
+        .patch(`/campaigns/${id}`)
+        .set('If-Match', '*')
+        .send({ name: 'Bob' })
+        .expect(200);
+      expect(service.update).toHaveBeenCalledWith(
+        id,
+        { name: 'Bob' },
+        undefined,
+      );
+    });
+  });
+
+  describe('trash', () => {
+    it('lists only soft-deleted entities', async () => {
+      service.findMany = jest.fn().mockResolvedValue({ data: [] });
+
+      await request(app.getHttpServer())
+        .get('/customers/trash?search=ann&includeDeleted=false')
+        .expect(200);
+
+      expect(service.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          search: 'ann',
+          includeDeleted: false,
+          onlyDeleted: true,
+        }),
+      );
+    });
+
+    it('lets only admins purge entities permanently', async () => {
+      service.delete = jest.fn().mockResolvedValue({ affected: 1 });
+
+      await request(app.getHttpServer())
+        .delete(`/customers/${id}/permanent`)
+        .expect(403);
+      expect(service.delete).not.toHaveBeenCalled();
+
+      await request(app.getHttpServer())
+        .delete(`/customers/${id}/permanent`)
+        .set('X-Role', 'admin')
+        .expect(200);
+      expect(service.delete).toHaveBeenCalledWith(id);
+    });
+  });
+
+  describe('history', () => {
+    it('pages through the stored versions', async () => {
+      service.findHistory = jest.fn().mockResolvedValue({ data: [] });
+
+      await request(app.getHttpServer())
+        .get(`/customers/${id}/history?page=2&limit=5`)
+        .expect(200);
+
+      expect(service.findHistory).toHaveBeenCalledWith(id, 2, 5);
+    });
+
+    it('reads an entity as of a past time', async () => {
+      service.findByIdAsOf = jest
+        .fn()
+        .mockResolvedValue({ id, name: 'Ann', version: 2 });
+
+      await request(app.getHttpServer())
+        .get(`/customers/${id}?asOf=2026-01-01T00:00:00Z&fields=name`)
+        .expect(200);
+
+      expect(service.findByIdAsOf).toHaveBeenCalledWith(
+        id,
+        new Date('2026-01-01T00:00:00Z'),
+        ['name'],
+      );
+    });
+
+    it('rejects malformed asOf times', async () => {
+      service.findByIdAsOf = jest.fn();
+
+      await request(app.getHttpServer())
+        .get(`/customers/${id}?asOf=yesterday`)
+        .expect(400);
+      expect(service.findByIdAsOf).not.toHaveBeenCalled();
+    });
+
+    it('reverts to a version under the If-Match precondition', async () => {
+      service.revertToVersion = jest
+        .fn()
+        .mockResolvedValue({ id, name: 'Ann', version: 5 });
+
+      await request(app.getHttpServer())
+        .post(`/customers/${id}/history/2/revert`)
+        .set('If-Match', '"4"')
+        .expect(200)
+        .expect('ETag', '"5"');
+
+      expect(service.revertToVersion).toHaveBeenCalledWith(id, 2, 4);
+    });
+  });
+
+  describe('fields and expand', () => {
+    it('selects fields and loads relations of a single entity', async () => {
+      service.findById = jest.fn().mockResolvedValue({ id, version: 1 });
+
+      await request(app.getHttpServer())
+        .get(`/customers/${id}`)
+        .query({
+          expand: 'game_sessions.game',
+          fields: 'name,game_sessions.score',
+        })
+        .expect(200);
+
+      expect(service.findById).toHaveBeenCalledWith(id, {
+        select: ['name', 'game_sessions.score'],
+        relations: ['game_sessions.game'],
+      });
+    });
+
+    it('only takes relations of a list from expand', async () => {
+      service.findMany = jest.fn().mockResolvedValue({ data: [] });
+
+      await request(app.getHttpServer())
+        .get('/customers?expand=game_sessions&relations=owner&select=password')
+        .expect(200);
+
+      const [options] = service.findMany.mock.calls[0] as [
+        Record<string, unknown>,
+      ];
+      expect(options.relations).toEqual(['game_sessions']);
+      expect(options).not.toHaveProperty('select');
+    });
+
+    it('rejects expand on point-in-time reads', async () => {
+      service.findByIdAsOf = jest.fn();
+
+      await request(app.getHttpServer())
+        .get(`/customers/${id}?asOf=2026-01-01T00:00:00Z&expand=game_sessions`)
+        .expect(400);
+      expect(service.findByIdAsOf).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /aggregate', () => {
+    it('parses metrics, groups and filters', async () => {
+      const result = {
+        groupBy: ['active'],
+        rows: [{ active: true, count: 3, sum_points: 40 }],
+      };
+      service.aggregate = jest.fn().mockResolvedValue(result);
+
+      const res = await request(app.getHttpServer())
+        .get('/customers/aggregate')
+        .query({
+          metrics: 'count,sum:points',
+          groupBy: 'active',
+          interval: 'week',
+          search: 'ann',
+          'filters[boolean][isTrue]': 'active',
+        })
+        .expect(200);
+
+      expect(res.body).toMatchObject({ data: result });
+      expect(service.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metrics: [
+            { fn: 'count', field: undefined },
+            { fn: 'sum', field: 'points' },
+          ],
+          groupBy: ['active'],
+          interval: 'week',
+          search: 'ann',
+          filters: { boolean: { isTrue: ['active'] } },
+        }),
+      );
+    });
+
+    it('is not mistaken for an entity ID', async () => {
+      service.aggregate = jest.fn().mockResolvedValue({ rows: [] });
+      service.findById = jest.fn();
+
+      await request(app.getHttpServer())
+        .get('/customers/aggregate')
+        .expect(200);
+      expect(service.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /upsert with an Idempotency-Key', () => {
+    let idempotentApp: INestApplication<App>;
+
+    beforeAll(async () => {
+      let rows: IdempotencyKey[] = [];
+      const repository = {
+        findOne: ({ where }: { where: Partial<IdempotencyKey> }) =>
+          Promise.resolve(
+            rows.find((row) => row.scopeHash === where.scopeHash) ?? null,
+          ),
+        create: (data: Partial<IdempotencyKey>) => ({
+          id: `key-${rows.length + 1}`,
+          ...data,
+        }),
+        save: (row: IdempotencyKey) => {
+          rows = [...rows.filter((stored) => stored.id !== row.id), row];
+          return Promise.resolve(row);
+        },
+        delete: ({ id }: { id: string }) => {
+          rows = rows.filter((row) => row.id !== id);
+          return Promise.resolve({ affected: 1 });
+        },
+      };
+
+      const moduleRef = await Test.createTestingModule({
+        controllers: [CustomerController],
+        providers: [
+          { provide: ConfigService, useValue: new ConfigService({}) },
+          { provide: getRepositoryToken(IdempotencyKey), useValue: repository },
+          { provide: 'IDEMPOTENCY_OPTIONS', useValue: { purgeInterval: 0 } },
+          IdempotencyService,
+          { provide: APP_INTERCEPTOR, useClass: IdempotencyInterceptor },
+        ],
+      })
+        .overrideGuard(JwtAuthGuard)
+        .useValue({ canActivate: () => true })
+        .compile();
+
+      idempotentApp = moduleRef.createNestApplication({ logger: false });
+      await idempotentApp.init();
+    });
+
+    afterAll(async () => {
+      await idempotentApp.close();
+    });
+
+    it('replays the stored result of a repeated request', async () => {
+      const result = { entity: { id, name: 'Ann', version: 1 }, created: true };
+      service.upsert = jest.fn().mockResolvedValue(result);
+
+      const first = await request(idempotentApp.getHttpServer())
+        .post('/customers/upsert')
+        .set('Idempotency-Key', 'import-42')
+        .send({ name: 'Ann' })
+        .expect(200);
+      const second = await request(idempotentApp.getHttpServer())
+        .post('/customers/upsert')
+        .set('Idempotency-Key', 'import-42')
+        .send({ name: 'Ann' })
+        .expect(200)
+        .expect('Idempotent-Replayed', 'true');
+
+      expect(first.headers['idempotent-replayed']).toBeUndefined();
+      expect(second.body).toEqual(first.body);
+      expect(first.body).toMatchObject({ data: result });
+      expect(service.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it('processes the request again after a failure', async () => {
+      service.upsert = jest
+        .fn()
+        .mockRejectedValueOnce(new ConflictException('Conflict'))
+        .mockResolvedValue({ entity: { id, version: 1 }, created: false });
+
+      await request(idempotentApp.getHttpServer())
+        .post('/customers/upsert')
+        .set('Idempotency-Key', 'import-43')
+        .send({ name: 'Bob' })
+        .expect(409);
+      await request(idempotentApp.getHttpServer())
+        .post('/customers/upsert')
+        .set('Idempotency-Key', 'import-43')
+        .send({ name: 'Bob' })
+        .expect(200);
+
+      expect(service.upsert).toHaveBeenCalledTimes(2);
+    });
+  });
+});
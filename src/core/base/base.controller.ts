@@ -11,19 +11,92 @@ import {
   HttpCode,
   HttpStatus,
   ParseUUIDPipe,
+  ParseIntPipe,
   ValidationPipe,
   UseGuards,
   UseInterceptors,
   UsePipes,
+  Res,
+  Headers,
+  BadRequestException,
+  HttpException,
+  Logger,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiHeader,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { pipeline } from 'stream/promises';
+import type { DeepPartial, FindOneOptions } from 'typeorm';
 import { ResponseInterceptor } from '../../common/interceptors/response.interceptor';
 import { LoggingInterceptor } from '../../common/interceptors/logging.interceptor';
 import { ValidationPipe as CustomValidationPipe } from '../../common/pipes/validation.pipe';
 import { BaseEntity } from './base.entity';
-import { PaginationOptions, PaginatedResult } from '../../common/interfaces/pagination.interface';
-import { JwtAuthGuard } from '../../common/guards/auth.guard';
-import { RolesGuard } from '../../core/auth/roles.guard';
+import { BaseService } from './base.service';
+import { EntityHistory } from '../history/entity-history.entity';
+import {
+  PaginationOptions,
+  PaginatedResult,
+  FilterOptions,
+  CursorPaginationOptions,
+  CursorPaginationResult,
+  SearchOptions,
+  SearchHit,
+  ExportOptions,
+  BulkOperationsOptions,
+  BulkOperationResult,
+  AggregateFunction,
+  AggregateOptions,
+  AggregateResult,
+  UpsertResult,
+} from '../../common/interfaces/pagination.interface';
+import type {
+  BulkDeleteRequest,
+  BulkItemsRequest,
+  BulkRequestOptions,
+} from '../../common/interfaces/pagination.interface';
+import { ExportFile } from './export.writers';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { TenantGuard } from '../tenancy/tenant.guard';
+import { AdminOnly } from '../../common/decorators/roles.decorator';
+
+/**
+ * Swagger schema properties shared by bulk operation request bodies
+ */
+const BULK_OPTIONS_PROPERTIES = {
+  batchSize: {
+    type: 'number',
+    example: 100,
+    description: 'Rows per batch (max 1000)',
+  },
+  transactional: {
+    type: 'boolean',
+    example: true,
+    description: 'Commit each batch atomically (default: true)',
+  },
+  continueOnError: {
+    type: 'boolean',
+    example: false,
+    description: 'Skip failing rows instead of stopping (default: false)',
+  },
+  maxRetries: {
+    type: 'number',
+    example: 2,
+    description: 'Retries for transient database errors (default: 0)',
+  },
+  batchDelay: {
+    type: 'number',
+    example: 0,
+    description: 'Delay between batches in milliseconds',
+  },
+};
 
 /**
  * Base Controller
@@ -38,7 +111,7 @@ import { RolesGuard } from '../../core/auth/roles.guard';
  */
 @ApiTags('base')
 @Controller()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, TenantGuard)
 @UseInterceptors(ResponseInterceptor, LoggingInterceptor)
 @UsePipes(CustomValidationPipe)
 export abstract class BaseController<T extends BaseEntity> {
@@ -48,6 +121,15 @@ export abstract class BaseController<T extends BaseEntity> {
    */
   protected abstract getService(): any;
 
+  /**
+   * Gets the service typed as a BaseService
+   *
+   * The built-in routes rely on the BaseService API.
+   */
+  protected getBaseService(): BaseService<T> {
+    return this.getService() as BaseService<T>;
+  }
+
   /**
    * Abstract method to get the DTO type for creation
    * Must be implemented by child controllers
@@ -60,6 +142,19 @@ export abstract class BaseController<T extends BaseEntity> {
    */
   protected abstract getUpdateDtoType(): any;
 
+  /**
+   * Logger named after the concrete controller
+   */
+  protected readonly logger = new Logger(this.constructor.name);
+
+  /**
+   * Whether updates must name the version they replace
+   *
+   * When true, PUT, PATCH and revert requests without an If-Match header
+   * or `version` field are rejected with 428 Precondition Required.
+   */
+  protected readonly requirePrecondition: boolean = false;
+
   /**
    * Creates a new entity
    *
@@ -97,10 +192,46 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Insufficient permissions',
   })
   async create(@Body() createDto: any): Promise<any> {
-    const service = this.getService();
+    const service = this.getBaseService();
     return await service.create(createDto);
   }
 
+  /**
+   * Creates an entity or updates the one with the same natural key
+   *
+   * @param dto Entity data including every natural key field
+   * @returns Promise resolving to the stored entity and whether it was created
+   */
+  @Post('upsert')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Upsert entity',
+    description:
+      'Creates an entity, or updates the existing one with the same natural key ' +
+      '(restoring it if it was deleted). Only available for entities declaring a natural key',
+  })
+  @ApiBody({
+    type: () => Object, // Will be overridden by child controllers
+    description: 'Entity data including every natural key field',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entity created or updated; `created` tells which',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Validation failed, natural key fields missing or no natural key declared',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Entity conflicts with another entity',
+  })
+  async upsert(@Body() dto: DeepPartial<T>): Promise<UpsertResult<T>> {
+    const service = this.getBaseService();
+    return await service.upsert(dto);
+  }
+
   /**
    * Creates multiple entities
    *
@@ -126,10 +257,174 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Validation failed or invalid data',
   })
   async createMany(@Body() createDtos: any[]): Promise<any[]> {
-    const service = this.getService();
+    const service = this.getBaseService();
     return await service.createMany(createDtos);
   }
 
+  /**
+   * Bulk creates entities in batches
+   *
+   * @param body Rows and bulk operation options
+   * @returns Promise resolving to bulk operation result
+   */
+  @Post('bulk/create')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk create entities',
+    description:
+      'Creates entities in batches and reports per-row errors with the input index',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        items: { type: 'array', items: { type: 'object' } },
+        ...BULK_OPTIONS_PROPERTIES,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bulk operation result',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No rows provided',
+  })
+  async bulkCreate(
+    @Body() body: BulkItemsRequest<DeepPartial<T>>,
+  ): Promise<BulkOperationResult> {
+    const service = this.getBaseService();
+    return await service.bulkCreate(body?.items, this.parseBulkOptions(body));
+  }
+
+  /**
+   * Bulk updates entities by ID in batches
+   *
+   * @param body Rows including their `id` and bulk operation options
+   * @returns Promise resolving to bulk operation result
+   */
+  @Post('bulk/update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk update entities',
+    description:
+      'Updates entities by ID in batches and reports per-row errors with the input index',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id'],
+            properties: { id: { type: 'string', format: 'uuid' } },
+          },
+        },
+        ...BULK_OPTIONS_PROPERTIES,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bulk operation result',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No rows provided',
+  })
+  async bulkUpdate(
+    @Body() body: BulkItemsRequest<DeepPartial<T> & { id: string }>,
+  ): Promise<BulkOperationResult> {
+    const service = this.getBaseService();
+    return await service.bulkUpdate(body?.items, this.parseBulkOptions(body));
+  }
+
+  /**
+   * Bulk creates or updates entities in batches
+   *
+   * @param body Rows and bulk operation options
+   * @returns Promise resolving to bulk operation result
+   */
+  @Post('bulk/upsert')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk upsert entities',
+    description:
+      'Updates rows whose id, or natural key if the entity declares one, exists and creates the others, ' +
+      'in batches with per-row errors',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        items: { type: 'array', items: { type: 'object' } },
+        ...BULK_OPTIONS_PROPERTIES,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bulk operation result',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No rows provided',
+  })
+  async bulkUpsert(
+    @Body() body: BulkItemsRequest<DeepPartial<T>>,
+  ): Promise<BulkOperationResult> {
+    const service = this.getBaseService();
+    return await service.bulkUpsert(body?.items, this.parseBulkOptions(body));
+  }
+
+  /**
+   * Bulk soft deletes entities in batches
+   *
+   * @param body IDs or conditions and bulk operation options
+   * @returns Promise resolving to bulk operation result
+   */
+  @Post('bulk/delete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk delete entities',
+    description:
+      'Soft deletes entities by ID or matching conditions, in batches with per-row errors',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        ids: { type: 'array', items: { type: 'string', format: 'uuid' } },
+        where: { type: 'object' },
+        ...BULK_OPTIONS_PROPERTIES,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bulk operation result',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Neither ids nor conditions provided',
+  })
+  async bulkDelete(
+    @Body() body: BulkDeleteRequest,
+  ): Promise<BulkOperationResult> {
+    const service = this.getBaseService();
+    return await service.bulkDelete({
+      ...this.parseBulkOptions(body),
+      ids: body?.ids,
+      where: body?.where,
+    });
+  }
+
   /**
    * Finds entities with pagination and filtering
    *
@@ -156,31 +451,399 @@ export abstract class BaseController<T extends BaseEntity> {
     example: 10,
   })
   @ApiQuery({
-    name: 'sortBy',
+    name: 'sortBy',
+    required: false,
+    type: String,
+    description: 'Field to sort by (default: createdAt)',
+    example: 'createdAt',
+  })
+  @ApiQuery({
+    name: 'sortOrder',
+    required: false,
+    enum: ['ASC', 'DESC'],
+    description: 'Sort order (default: DESC)',
+    example: 'DESC',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Only return entities containing any of the search terms',
+  })
+  @ApiQuery({
+    name: 'searchFields',
+    required: false,
+    type: String,
+    description:
+      'Comma separated fields to search in (default: all searchable fields)',
+  })
+  @ApiQuery({
+    name: 'filters',
+    required: false,
+    type: String,
+    description:
+      'Advanced filters as JSON or bracket notation, e.g. filters[dateRange][start]=2024-01-01, ' +
+      'filters[numericRange][field]=total_points&filters[numericRange][min]=100, ' +
+      'filters[text][field]=name&filters[text][contains]=ann, filters[null][isNull]=deletedAt',
+  })
+  @ApiQuery({
+    name: 'includeDeleted',
+    required: false,
+    type: Boolean,
+    description: 'Include soft-deleted entities (default: false)',
+  })
+  @ApiQuery({
+    name: 'fields',
+    required: false,
+    type: String,
+    description:
+      'Comma separated fields to return; fields of expanded relations are prefixed with the relation path, e.g. game_sessions.score (default: all fields)',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    type: String,
+    description:
+      'Comma separated relations to include, nested with dots, e.g. game_sessions.game (only relations allowed by the entity query policy, up to its maximum depth)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entities retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Malformed filters or unknown/disallowed sort, filter, search, select or expand fields',
+  })
+  async findMany(
+    @Query() query: Record<string, any>,
+  ): Promise<PaginatedResult<T>> {
+    const service = this.getBaseService();
+    return await service.findMany(this.parsePaginationQuery(query));
+  }
+
+  /**
+   * Finds entities with cursor (keyset) pagination
+   *
+   * @param query Raw query parameters
+   * @returns Promise resolving to cursor paginated result
+   */
+  @Get('cursor')
+  @ApiOperation({
+    summary: 'Find entities by cursor',
+    description:
+      'Retrieves entities with keyset pagination. Stable under concurrent inserts and ' +
+      'suited to large tables; pass the returned nextCursor/previousCursor to move between pages',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 10, max: 100)',
+    example: 10,
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Opaque cursor returned by a previous request',
+  })
+  @ApiQuery({
+    name: 'direction',
+    required: false,
+    enum: ['forward', 'backward'],
+    description: 'Paging direction relative to the cursor (default: forward)',
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    type: String,
+    description: 'Field to sort by (default: createdAt)',
+    example: 'createdAt',
+  })
+  @ApiQuery({
+    name: 'sortOrder',
+    required: false,
+    enum: ['ASC', 'DESC'],
+    description: 'Sort order (default: DESC)',
+    example: 'DESC',
+  })
+  @ApiQuery({
+    name: 'filters',
+    required: false,
+    type: String,
+    description: 'Advanced filters, same format as the list endpoint',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entities retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid cursor, sort field or filters',
+  })
+  async findManyByCursor(
+    @Query() query: Record<string, any>,
+  ): Promise<CursorPaginationResult<T>> {
+    const service = this.getBaseService();
+    return await service.findManyByCursor(this.parseCursorQuery(query));
+  }
+
+  /**
+   * Exports entities as a downloadable file
+   *
+   * The file is streamed while rows are read, so large exports do not
+   * need to fit in memory.
+   *
+   * @param query Raw query parameters
+   * @param res Express response
+   */
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export entities',
+    description:
+      'Streams matching entities as CSV, XLSX, JSON or XML. Accepts the same sorting, ' +
+      'search and filters as the list endpoint',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['csv', 'xlsx', 'json', 'xml'],
+    description: 'Export format (default: csv)',
+  })
+  @ApiQuery({
+    name: 'fields',
+    required: false,
+    type: String,
+    description:
+      'Comma separated fields to export (default: all exportable fields)',
+    example: 'name,email,createdAt',
+  })
+  @ApiQuery({
+    name: 'fieldMappings',
+    required: false,
+    type: String,
+    description:
+      'Column headers by field as JSON or bracket notation, e.g. fieldMappings[email]=Email Address',
+  })
+  @ApiQuery({
+    name: 'includeHeaders',
+    required: false,
+    type: Boolean,
+    description: 'Include a header row (default: true)',
+  })
+  @ApiQuery({
+    name: 'encoding',
+    required: false,
+    enum: ['utf8', 'utf16le', 'latin1', 'ascii'],
+    description: 'Text encoding (default: utf8, ignored for xlsx)',
+  })
+  @ApiQuery({
+    name: 'fileName',
+    required: false,
+    type: String,
+    description: 'Download file name without extension',
+  })
+  @ApiQuery({
+    name: 'dateRange',
+    required: false,
+    type: String,
+    description:
+      'Date range in bracket notation, e.g. dateRange[start]=2024-01-01&dateRange[field]=createdAt',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export file stream',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid format, encoding, fields or filters',
+  })
+  async export(
+    @Query() query: Record<string, any>,
+    @Res() res: Response,
+  ): Promise<void> {
+    const service = this.getBaseService();
+    const file: ExportFile = await service.export(this.parseExportQuery(query));
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+
+    try {
+      await pipeline(file.stream, res);
+    } catch (error) {
+      // Headers are already sent; the client sees an aborted download
+      this.logger.error(
+        'Export stream failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * Lists soft-deleted entities (trash view)
+   *
+   * @param query Raw query parameters
+   * @returns Promise resolving to paginated soft-deleted entities
+   */
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List deleted entities',
+    description:
+      'Retrieves soft-deleted entities with pagination, filtering and search. ' +
+      'Entities are permanently purged once their retention period has passed',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 10, max: 100)',
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    type: String,
+    description: 'Field to sort by (default: createdAt)',
+  })
+  @ApiQuery({
+    name: 'sortOrder',
+    required: false,
+    enum: ['ASC', 'DESC'],
+    description: 'Sort order (default: DESC)',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Only return entities containing any of the search terms',
+  })
+  @ApiQuery({
+    name: 'filters',
+    required: false,
+    type: String,
+    description: 'Advanced filters as JSON or bracket notation',
+  })
+  @ApiQuery({
+    name: 'fields',
+    required: false,
+    type: String,
+    description:
+      'Comma separated fields to return; fields of expanded relations are prefixed with the relation path, e.g. game_sessions.score (default: all fields)',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    type: String,
+    description:
+      'Comma separated relations to include, nested with dots, e.g. game_sessions.game (only relations allowed by the entity query policy, up to its maximum depth)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Deleted entities retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Malformed filters or unknown/disallowed sort, filter, search, select or expand fields',
+  })
+  async findDeleted(
+    @Query() query: Record<string, any>,
+  ): Promise<PaginatedResult<T>> {
+    const service = this.getBaseService();
+    return await service.findMany({
+      ...this.parsePaginationQuery(query),
+      onlyDeleted: true,
+    });
+  }
+
+  /**
+   * Aggregates entities
+   *
+   * @param query Raw query parameters
+   * @returns Promise resolving to aggregated rows
+   */
+  @Get('aggregate')
+  @ApiOperation({
+    summary: 'Aggregate entities',
+    description:
+      'Computes count, sum, avg, min, max and distinct count metrics, optionally grouped ' +
+      'by fields and date buckets. Accepts the same search and filters as the list endpoint',
+  })
+  @ApiQuery({
+    name: 'metrics',
+    required: false,
+    type: String,
+    description:
+      'Comma separated metrics as function:field; functions are count, sum, avg, min, max and countDistinct (default: count)',
+    example: 'count,sum:points,countDistinct:customerId',
+  })
+  @ApiQuery({
+    name: 'groupBy',
+    required: false,
+    type: String,
+    description: 'Comma separated fields to group by',
+  })
+  @ApiQuery({
+    name: 'interval',
+    required: false,
+    enum: ['hour', 'day', 'week', 'month'],
+    description: 'Groups rows into date buckets of dateField',
+  })
+  @ApiQuery({
+    name: 'dateField',
+    required: false,
+    type: String,
+    description: 'Date field bucketed by interval (default: createdAt)',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Only aggregate entities containing any of the search terms',
+  })
+  @ApiQuery({
+    name: 'filters',
     required: false,
     type: String,
-    description: 'Field to sort by (default: createdAt)',
-    example: 'createdAt',
+    description: 'Advanced filters as JSON or bracket notation',
   })
   @ApiQuery({
-    name: 'sortOrder',
+    name: 'includeDeleted',
     required: false,
-    enum: ['ASC', 'DESC'],
-    description: 'Sort order (default: DESC)',
-    example: 'DESC',
+    type: Boolean,
+    description: 'Include soft-deleted entities (default: false)',
   })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Entities retrieved successfully',
+    description: 'Aggregated rows ordered by date bucket and group',
   })
-  async findMany(@Query() options: PaginationOptions): Promise<PaginatedResult<T>> {
-    const service = this.getService();
-    return await service.findMany(options);
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Malformed filters, unknown functions or intervals, non-aggregatable fields or too many groups',
+  })
+  async aggregate(
+    @Query() query: Record<string, any>,
+  ): Promise<AggregateResult> {
+    const service = this.getBaseService();
+    return await service.aggregate(this.parseAggregateQuery(query));
   }
 
   /**
    * Finds a single entity by ID
    *
+   * With `asOf`, returns the entity as it was at that time (entities with
+   * tracked history only).
+   *
    * @param id Entity ID
    * @returns Promise resolving to entity
    */
@@ -199,14 +862,66 @@ export abstract class BaseController<T extends BaseEntity> {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Entity retrieved successfully',
+    headers: {
+      ETag: {
+        description: 'Entity version, to be sent back in If-Match on updates',
+        schema: { type: 'string', example: '"3"' },
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'fields',
+    required: false,
+    type: String,
+    description:
+      'Comma separated fields to return; fields of expanded relations are prefixed with the relation path, e.g. game_sessions.score (default: all fields)',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    type: String,
+    description:
+      'Comma separated relations to include, nested with dots, e.g. game_sessions.game (only relations allowed by the entity query policy, up to its maximum depth)',
+  })
+  @ApiQuery({
+    name: 'asOf',
+    required: false,
+    type: String,
+    description:
+      'Return the entity as it was at this time (ISO 8601, entities with tracked history only)',
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
-    description: 'Entity not found',
+    description: 'Entity not found, or it did not exist at the asOf time',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Unknown or disallowed select or expand fields, or asOf used without tracked history',
   })
-  async findById(@Param('id', ParseUUIDPipe) id: string): Promise<T> {
-    const service = this.getService();
-    return await service.findById(id);
+  async findById(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: Record<string, any>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<T> {
+    const service = this.getBaseService();
+    const fields = this.parseFieldsQuery(query);
+
+    // Past versions have no ETag: they cannot be the base of an update
+    if (query.asOf !== undefined) {
+      if (fields.relations) {
+        throw new BadRequestException('expand cannot be combined with asOf');
+      }
+      return await service.findByIdAsOf(
+        id,
+        this.parseDate(query.asOf, 'asOf'),
+        fields.select,
+      );
+    }
+
+    const entity = await service.findById(id, fields as FindOneOptions<T>);
+    this.setETag(res, entity);
+    return entity;
   }
 
   /**
@@ -244,16 +959,32 @@ export abstract class BaseController<T extends BaseEntity> {
     status: HttpStatus.BAD_REQUEST,
     description: 'Validation failed or invalid data',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description:
+      'ETag from a previous read; the update is rejected if the entity changed since',
+  })
   @ApiResponse({
     status: HttpStatus.CONFLICT,
-    description: 'Update conflicts with existing data',
+    description:
+      'Update conflicts with existing data, or the entity version is stale (the current representation is returned in details.current)',
+  })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_REQUIRED,
+    description: 'Neither If-Match nor a version field was sent',
   })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body() updateDto: any
+    @Body() updateDto: DeepPartial<T>,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<T> {
-    const service = this.getService();
-    return await service.update(id, updateDto);
+    const service = this.getBaseService();
+    const expectedVersion = this.resolveExpectedVersion(ifMatch, updateDto);
+    const entity = await service.update(id, updateDto, expectedVersion);
+    this.setETag(res, entity);
+    return entity;
   }
 
   /**
@@ -291,12 +1022,32 @@ export abstract class BaseController<T extends BaseEntity> {
     status: HttpStatus.BAD_REQUEST,
     description: 'Validation failed or invalid data',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description:
+      'ETag from a previous read; the update is rejected if the entity changed since',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Update conflicts with existing data, or the entity version is stale (the current representation is returned in details.current)',
+  })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_REQUIRED,
+    description: 'Neither If-Match nor a version field was sent',
+  })
   async patch(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body() updateDto: any
+    @Body() updateDto: DeepPartial<T>,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<T> {
-    const service = this.getService();
-    return await service.update(id, updateDto);
+    const service = this.getBaseService();
+    const expectedVersion = this.resolveExpectedVersion(ifMatch, updateDto);
+    const entity = await service.update(id, updateDto, expectedVersion);
+    this.setETag(res, entity);
+    return entity;
   }
 
   /**
@@ -326,7 +1077,7 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Entity not found',
   })
   async softDelete(@Param('id', ParseUUIDPipe) id: string): Promise<{ affected: number }> {
-    const service = this.getService();
+    const service = this.getBaseService();
     return await service.softDelete(id);
   }
 
@@ -361,21 +1112,134 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Entity is not deleted',
   })
   async restore(@Param('id', ParseUUIDPipe) id: string): Promise<T> {
-    const service = this.getService();
+    const service = this.getBaseService();
     return await service.restore(id);
   }
 
+  /**
+   * Lists the previous versions of an entity
+   *
+   * @param id Entity ID
+   * @param query Query parameters (page, limit)
+   * @returns Promise resolving to paginated version snapshots
+   */
+  @Get(':id/history')
+  @ApiOperation({
+    summary: 'Get entity history',
+    description:
+      'Lists the stored previous versions of an entity, newest first (entities with tracked history only)',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    format: 'uuid',
+    description: 'Entity unique identifier',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entity history retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'History is not tracked for this entity',
+  })
+  async findHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: { page?: string; limit?: string },
+  ): Promise<PaginatedResult<EntityHistory>> {
+    const service = this.getBaseService();
+    const { page, limit } = this.parsePaginationQuery({
+      page: query.page,
+      limit: query.limit,
+    });
+    return await service.findHistory(id, page, limit);
+  }
+
+  /**
+   * Reverts an entity to a previous version
+   *
+   * @param id Entity ID
+   * @param version Version to revert to
+   * @returns Promise resolving to the reverted entity
+   */
+  @Post(':id/history/:version/revert')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revert entity to a version',
+    description:
+      'Restores the field values of a previous version as a new version (entities with tracked history only)',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    format: 'uuid',
+    description: 'Entity unique identifier',
+  })
+  @ApiParam({
+    name: 'version',
+    type: Number,
+    description: 'Version to revert to',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description:
+      'ETag from a previous read; the revert is rejected if the entity changed since',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entity reverted successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Entity or version not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'History is not tracked for this entity',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The entity version is stale',
+  })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_REQUIRED,
+    description: 'No If-Match header was sent',
+  })
+  async revert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<T> {
+    const service = this.getBaseService();
+    const expectedVersion = this.resolveExpectedVersion(ifMatch, undefined);
+    const entity: T = await service.revertToVersion(
+      id,
+      version,
+      expectedVersion,
+    );
+    this.setETag(res, entity);
+    return entity;
+  }
+
   /**
    * Permanently deletes an entity
    *
+   * Restricted to administrators; works on active and soft-deleted entities.
+   *
    * @param id Entity ID
    * @returns Promise resolving to deletion result
    */
   @Delete(':id/permanent')
   @HttpCode(HttpStatus.OK)
+  @AdminOnly()
   @ApiOperation({
     summary: 'Permanently delete entity',
-    description: 'Permanently deletes an entity from the database',
+    description:
+      'Permanently deletes an entity from the database, including entities in the trash. Requires an admin role',
   })
   @ApiParam({
     name: 'id',
@@ -391,8 +1255,12 @@ export abstract class BaseController<T extends BaseEntity> {
     status: HttpStatus.NOT_FOUND,
     description: 'Entity not found',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin role required',
+  })
   async delete(@Param('id', ParseUUIDPipe) id: string): Promise<{ affected: number }> {
-    const service = this.getService();
+    const service = this.getBaseService();
     return await service.delete(id);
   }
 
@@ -418,7 +1286,7 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Count retrieved successfully',
   })
   async count(@Query() query: any): Promise<{ count: number }> {
-    const service = this.getService();
+    const service = this.getBaseService();
     const count = await service.count(query.where || {});
     return { count };
   }
@@ -445,7 +1313,7 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Existence check completed',
   })
   async exists(@Param('id', ParseUUIDPipe) id: string): Promise<{ exists: boolean }> {
-    const service = this.getService();
+    const service = this.getBaseService();
     const exists = await service.exists({ id } as any);
     return { exists };
   }
@@ -465,7 +1333,7 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Statistics retrieved successfully',
   })
   async getStatistics(): Promise<any> {
-    const service = this.getService();
+    const service = this.getBaseService();
     const total = await service.count();
 
     return {
@@ -478,23 +1346,57 @@ export abstract class BaseController<T extends BaseEntity> {
   /**
    * Searches entities
    *
+   * When a `query` is given, results are ranked by relevance and returned
+   * as search hits; otherwise the criteria are applied as a plain listing.
+   *
    * @param query Search query and filters
    * @returns Promise resolving to search results
    */
   @Post('search')
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Search entities',
-    description: 'Searches entities based on various criteria',
+    description:
+      'Full-text search with relevance ranking. Supports contains, exact, startsWith, ' +
+      'endsWith and fuzzy matching, optional highlight snippets and the same filters as the list endpoint',
   })
   @ApiBody({
-    type: Object,
     description: 'Search criteria and filters',
+    schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', example: 'john smith' },
+        fields: { type: 'array', items: { type: 'string' } },
+        type: {
+          type: 'string',
+          enum: ['contains', 'exact', 'startsWith', 'endsWith', 'fuzzy'],
+        },
+        minScore: { type: 'number', example: 0.5 },
+        highlights: { type: 'boolean' },
+        highlightLimit: { type: 'number', example: 3 },
+        sortByRelevance: { type: 'boolean' },
+        page: { type: 'number', example: 1 },
+        limit: { type: 'number', example: 10 },
+        sortBy: { type: 'string', example: 'createdAt' },
+        sortOrder: { type: 'string', enum: ['ASC', 'DESC'] },
+        filters: { type: 'object' },
+      },
+    },
   })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Search completed successfully',
   })
-  async search(@Body() query: any): Promise<PaginatedResult<T>> {
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Empty query, unsupported type or unknown/disallowed search fields',
+  })
+  async search(
+    @Body() query: any,
+  ): Promise<PaginatedResult<T> | PaginatedResult<SearchHit<T>>> {
+    const body = query as Partial<SearchOptions> & { filters?: unknown };
+
     // Convert search query to pagination options
     const options: PaginationOptions = {
       page: query.page || 1,
@@ -503,10 +1405,26 @@ export abstract class BaseController<T extends BaseEntity> {
       sortOrder: query.sortOrder || 'DESC',
       where: query.where || {},
       relations: query.relations || [],
+      filters: this.parseFilterQuery({ filters: body.filters }),
     };
 
-    const service = this.getService();
-    return await service.findMany(options);
+    const service = this.getBaseService();
+
+    if (body.query === undefined) {
+      return await service.findMany(options);
+    }
+
+    const searchOptions: SearchOptions = {
+      query: String(body.query),
+      fields: body.fields,
+      type: body.type,
+      minScore: body.minScore,
+      highlights: body.highlights,
+      highlightLimit: body.highlightLimit,
+      sortByRelevance: body.sortByRelevance,
+    };
+
+    return await service.search(searchOptions, options);
   }
 
   /**
@@ -529,7 +1447,7 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Entities updated successfully',
   })
   async updateMany(@Body() query: { where: Partial<T>; data: DeepPartial<T> }): Promise<{ affected: number }> {
-    const service = this.getService();
+    const service = this.getBaseService();
     return await service.updateMany(query.where, query.data);
   }
 
@@ -553,7 +1471,7 @@ export abstract class BaseController<T extends BaseEntity> {
     description: 'Entities deleted successfully',
   })
   async deleteMany(@Body() query: { where: Partial<T> }): Promise<{ affected: number }> {
-    const service = this.getService();
+    const service = this.getBaseService();
 
     // For soft delete
     const where = query.where as any;
@@ -569,4 +1487,438 @@ export abstract class BaseController<T extends BaseEntity> {
 
     return { affected };
   }
-}
\ No newline at end of file
+
+  /**
+   * Converts raw query string parameters into pagination options
+   *
+   * @param query Raw query parameters
+   * @returns Normalized pagination options
+   * @throws BadRequestException if filters are malformed
+   */
+  protected parsePaginationQuery(
+    query: Record<string, any>,
+  ): PaginationOptions {
+    const options: PaginationOptions = { ...query };
+
+    // Drop bracket/dot notation filter keys, they are rebuilt below
+    Object.keys(options)
+      .filter((key) => /^filters[.[]/.test(key))
+      .forEach((key) => delete options[key]);
+
+    if (query.page !== undefined) {
+      options.page = this.parseInteger(query.page, 'page');
+    }
+
+    if (query.limit !== undefined) {
+      options.limit = this.parseInteger(query.limit, 'limit');
+    }
+
+    if (query.includeDeleted !== undefined) {
+      options.includeDeleted = this.parseBoolean(
+        query.includeDeleted,
+        'includeDeleted',
+      );
+    }
+    // The trash view is only reachable through its own route
+    delete options.onlyDeleted;
+
+    if (typeof query.searchFields === 'string') {
+      options.searchFields = this.parseList(query.searchFields);
+    }
+
+    // Selected fields and relations only come from fields/expand
+    delete options.select;
+    delete options.relations;
+    Object.assign(options, this.parseFieldsQuery(query));
+
+    const filters = this.parseFilterQuery(query);
+    if (filters) {
+      options.filters = filters;
+    } else {
+      delete options.filters;
+    }
+
+    return options;
+  }
+
+  /**
+   * Converts `fields` and `expand` query parameters into select and relations
+   *
+   * @param query Raw query parameters
+   * @returns Fields to select and relations to load, if requested
+   */
+  protected parseFieldsQuery(query: Record<string, any>): {
+    select?: string[];
+    relations?: string[];
+  } {
+    const options: { select?: string[]; relations?: string[] } = {};
+
+    if (query.fields !== undefined) {
+      options.select = this.parseList(query.fields);
+    }
+    if (query.expand !== undefined) {
+      options.relations = this.parseList(query.expand);
+    }
+
+    return options;
+  }
+
+  /**
+   * Converts raw query string parameters into cursor pagination options
+   *
+   * @param query Raw query parameters
+   * @returns Normalized cursor pagination options
+   * @throws BadRequestException if limit or filters are malformed
+   */
+  protected parseCursorQuery(
+    query: Record<string, any>,
+  ): CursorPaginationOptions {
+    const options: CursorPaginationOptions = {
+      cursor: (query.cursor as string) || undefined,
+      direction: query.direction as CursorPaginationOptions['direction'],
+      sortBy: query.sortBy as string | undefined,
+      sortOrder: query.sortOrder as CursorPaginationOptions['sortOrder'],
+      filters: this.parseFilterQuery(query),
+    };
+
+    if (query.limit !== undefined) {
+      options.limit = this.parseInteger(query.limit, 'limit');
+    }
+
+    return options;
+  }
+
+  /**
+   * Converts raw query string parameters into export options
+   *
+   * @param query Raw query parameters
+   * @returns Normalized export options
+   * @throws BadRequestException if a parameter is malformed
+   */
+  protected parseExportQuery(query: Record<string, any>): ExportOptions {
+    const pagination = this.parsePaginationQuery(query);
+    const dateRange = this.parseNestedQuery(query, 'dateRange');
+
+    if (query.includeHeaders !== undefined) {
+      if (!['true', 'false'].includes(String(query.includeHeaders))) {
+        throw new BadRequestException('includeHeaders must be true or false');
+      }
+    }
+
+    return {
+      format: (query.format as ExportOptions['format']) || 'csv',
+      fields:
+        typeof query.fields === 'string'
+          ? query.fields
+              .split(',')
+              .map((field) => field.trim())
+              .filter(Boolean)
+          : undefined,
+      fieldMappings: this.parseNestedQuery(query, 'fieldMappings'),
+      includeHeaders: String(query.includeHeaders) !== 'false',
+      encoding: query.encoding as ExportOptions['encoding'],
+      fileName: query.fileName as string | undefined,
+      dateRange: dateRange as ExportOptions['dateRange'],
+      pagination,
+    };
+  }
+
+  /**
+   * Converts raw query string parameters into aggregate options
+   *
+   * Metrics are given as `function:field`, e.g. `sum:points`, or as a bare
+   * `count`.
+   *
+   * @param query Raw query parameters
+   * @returns Normalized aggregate options
+   * @throws BadRequestException if filters are malformed
+   */
+  protected parseAggregateQuery(query: Record<string, any>): AggregateOptions {
+    const pagination = this.parsePaginationQuery(query);
+
+    return {
+      metrics:
+        query.metrics === undefined
+          ? undefined
+          : this.parseList(query.metrics).map((metric) => {
+              const [fn, field] = metric.split(':');
+              return { fn: fn as AggregateFunction, field: field || undefined };
+            }),
+      groupBy:
+        query.groupBy === undefined ? undefined : this.parseList(query.groupBy),
+      interval: query.interval as AggregateOptions['interval'],
+      dateField: query.dateField as string | undefined,
+      where: pagination.where as unknown,
+      filters: pagination.filters,
+      search: pagination.search,
+      searchFields: pagination.searchFields,
+      includeDeleted: pagination.includeDeleted,
+    };
+  }
+
+  /**
+   * Extracts bulk operation options from a request body
+   *
+   * @param body Request body
+   * @returns Bulk operation options
+   * @throws BadRequestException if an option has the wrong type
+   */
+  protected parseBulkOptions(
+    body: BulkRequestOptions = {},
+  ): BulkOperationsOptions {
+    const options: BulkOperationsOptions = {};
+
+    for (const key of ['batchSize', 'maxRetries', 'batchDelay'] as const) {
+      if (body?.[key] !== undefined) {
+        const value = Number(body[key]);
+        if (!Number.isInteger(value) || value < 0) {
+          throw new BadRequestException(
+            `${key} must be a non-negative integer`,
+          );
+        }
+        options[key] = value;
+      }
+    }
+
+    for (const key of ['transactional', 'continueOnError'] as const) {
+      const value: unknown = body?.[key];
+      if (value !== undefined) {
+        if (typeof value !== 'boolean') {
+          throw new BadRequestException(`${key} must be a boolean`);
+        }
+        options[key] = value;
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Parses filter options from the query string
+   *
+   * Accepts the notations supported by `parseNestedQuery`, e.g.
+   * `filters[text][contains]`; list-valued filters may be comma separated.
+   *
+   * @param query Raw query parameters
+   * @returns Filter options or undefined if none were provided
+   * @throws BadRequestException if filters are malformed
+   */
+  protected parseFilterQuery(
+    query: Record<string, any>,
+  ): FilterOptions | undefined {
+    const filters = this.parseNestedQuery(query, 'filters');
+    if (!filters) {
+      return undefined;
+    }
+
+    // Normalize list-valued filters supplied as comma separated strings
+    const toList = (value: unknown): unknown[] | undefined =>
+      value === undefined
+        ? undefined
+        : Array.isArray(value)
+          ? value
+          : String(value as string).split(',');
+    const groups = filters as Record<string, Record<string, unknown>>;
+
+    if (groups.array) {
+      groups.array.in = toList(groups.array.in);
+      groups.array.notIn = toList(groups.array.notIn);
+    }
+
+    if (groups.boolean) {
+      groups.boolean.isTrue = toList(groups.boolean.isTrue);
+      groups.boolean.isFalse = toList(groups.boolean.isFalse);
+    }
+
+    if (groups.null) {
+      groups.null.isNull = toList(groups.null.isNull);
+      groups.null.isNotNull = toList(groups.null.isNotNull);
+    }
+
+    return filters as FilterOptions;
+  }
+
+  /**
+   * Resolves the entity version a client expects to update
+   *
+   * The version is taken from the If-Match header (`"3"` or `W/"3"`) or,
+   * when the header is absent, from a `version` field in the body.
+   * `If-Match: *` matches any version.
+   *
+   * @param ifMatch If-Match header value
+   * @param body Request body
+   * @returns Expected version, or undefined to skip the version check
+   * @throws BadRequestException if the version is malformed or ambiguous
+   * @throws HttpException (428) if a precondition is required but missing
+   */
+  protected resolveExpectedVersion(
+    ifMatch: string | undefined,
+    body: { version?: unknown } | undefined,
+  ): number | undefined {
+    const bodyVersion = body?.version;
+    let expected: number | undefined;
+
+    if (bodyVersion !== undefined && bodyVersion !== null) {
+      expected = Number(bodyVersion);
+      if (!Number.isInteger(expected) || expected < 0) {
+        throw new BadRequestException('version must be a non-negative integer');
+      }
+    }
+
+    const header = ifMatch?.trim();
+    if (!header) {
+      if (expected === undefined && this.requirePrecondition) {
+        throw new HttpException(
+          'An If-Match header or version field is required',
+          HttpStatus.PRECONDITION_REQUIRED,
+        );
+      }
+      return expected;
+    }
+    if (header === '*') {
+      return undefined;
+    }
+
+    const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+    if (!match) {
+      throw new BadRequestException(
+        'If-Match must be a single ETag returned by this API',
+      );
+    }
+
+    const version = Number(match[1]);
+    if (expected !== undefined && expected !== version) {
+      throw new BadRequestException(
+        'If-Match header and body version do not agree',
+      );
+    }
+
+    return version;
+  }
+
+  /**
+   * Sets the ETag header for an entity
+   *
+   * @param res HTTP response
+   * @param entity Entity being returned
+   */
+  protected setETag(res: Response, entity: T): void {
+    if (entity && Number.isInteger(entity.version)) {
+      res.setHeader('ETag', `"${entity.version}"`);
+    }
+  }
+
+  /**
+   * Parses an object-valued query parameter
+   *
+   * Supports a JSON encoded parameter, an already nested object (extended
+   * query parser), and flat bracket or dot notation keys such as
+   * `name[a][b]` or `name.a.b`.
+   *
+   * @param query Raw query parameters
+   * @param name Parameter name
+   * @returns Parsed object or undefined if the parameter is absent
+   * @throws BadRequestException if the parameter is malformed
+   */
+  private parseNestedQuery(
+    query: Record<string, any>,
+    name: string,
+  ): Record<string, any> | undefined {
+    let result: Record<string, any> = {};
+    const raw: unknown = query[name];
+
+    if (typeof raw === 'string' && raw.trim() !== '') {
+      try {
+        result = JSON.parse(raw) as Record<string, any>;
+      } catch {
+        throw new BadRequestException(`${name} must be valid JSON`);
+      }
+    } else if (raw && typeof raw === 'object') {
+      result = { ...raw };
+    }
+
+    if (!result || typeof result !== 'object' || Array.isArray(result)) {
+      throw new BadRequestException(`${name} must be an object`);
+    }
+
+    const prefix = `${name}.`;
+    for (const [key, value] of Object.entries(query) as [string, unknown][]) {
+      if (!key.startsWith(prefix) && !key.startsWith(`${name}[`)) {
+        continue;
+      }
+
+      const path = key
+        .slice(name.length)
+        .split(/[.[\]]+/)
+        .filter(Boolean);
+      let target = result;
+      path.slice(0, -1).forEach((segment) => {
+        target[segment] = (target[segment] ?? {}) as Record<string, any>;
+        target = target[segment] as Record<string, any>;
+      });
+      target[path[path.length - 1]] = value;
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  /**
+   * Parses a comma separated list query parameter
+   *
+   * @param value Raw query value (string or repeated parameter)
+   * @returns Trimmed, non-empty items
+   */
+  private parseList(value: any): string[] {
+    return (Array.isArray(value) ? value : [value])
+      .flatMap((item) => String(item).split(','))
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Parses a boolean query parameter
+   *
+   * @param value Raw query value
+   * @param name Parameter name used in error messages
+   * @returns Parsed boolean
+   * @throws BadRequestException if the value is not true or false
+   */
+  private parseBoolean(value: any, name: string): boolean {
+    if (!['true', 'false'].includes(String(value))) {
+      throw new BadRequestException(`${name} must be true or false`);
+    }
+    return String(value) === 'true';
+  }
+
+  /**
+   * Parses a date query parameter
+   *
+   * @param value Raw query value
+   * @param name Parameter name used in error messages
+   * @returns Parsed date
+   * @throws BadRequestException if the value is not a valid date
+   */
+  private parseDate(value: any, name: string): Date {
+    const date = new Date(String(value));
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be a valid date`);
+    }
+    return date;
+  }
+
+  /**
+   * Parses a positive integer query parameter
+   *
+   * @param value Raw query value
+   * @param name Parameter name used in error messages
+   * @returns Parsed integer
+   * @throws BadRequestException if the value is not a positive integer
+   */
+  private parseInteger(value: any, name: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new BadRequestException(`${name} must be a positive integer`);
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,1218 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { Request } from 'express';
+import {
+  DataSource,
+  DeepPartial,
+  FindOperator,
+  IsNull,
+  Repository,
+} from 'typeorm';
+import { BaseEntity } from './base.entity';
+import { BaseService } from './base.service';
+import { RequestContext } from '../../common/context/request-context';
+import { NaturalKey } from '../../common/decorators/natural-key.decorator';
+import { QueryPolicy } from '../../common/decorators/query-policy.decorator';
+import { TenantScoped } from '../../common/decorators/tenant-scoped.decorator';
+import { TrackHistory } from '../../common/decorators/track-history.decorator';
+import { encodeCursor, getCursorSecret, hashCursorQuery } from './cursor.codec';
+import type { FilterOptions } from '../../common/interfaces/pagination.interface';
+import { QueryCacheService } from '../database/query-cache.service';
+import { EventBusService } from '../events/event-bus.service';
+import { OutboxEvent } from '../events/outbox-event.entity';
+
+class TestEntity extends BaseEntity {
+  name: string;
+  points: number;
+  active: boolean;
+  secret: string;
+  bio: string;
+}
+
+type Conditions = Record<string, FindOperator<unknown>>;
+
+class TestService extends BaseService<TestEntity> {
+  protected readonly filterableFields = [
+    'createdAt',
+    'name',
+    'points',
+    'active',
+    'deletedAt',
+  ];
+
+  protected readonly searchableFields = ['name', 'bio'];
+
+  protected readonly exportBatchSize = 2;
+
+  requiredFields: (keyof TestEntity)[] = [];
+
+  protected validateCreateData(
+    dto: DeepPartial<TestEntity>,
+  ): Promise<string[]> {
+    return Promise.resolve(
+      this.requiredFields
+        .filter((field) => dto[field] === undefined)
+        .map((field) => `${field} is required`),
+    );
+  }
+
+  protected validateUpdateData(): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
+  protected checkForDuplicates(): Promise<string | null> {
+    return Promise.resolve(null);
+  }
+
+  protected checkForConflicts(): Promise<string | null> {
+    return Promise.resolve(null);
+  }
+
+  protected async logOperation(): Promise<void> {}
+
+  // Expose protected members for testing
+  filter(where: unknown, filters: unknown): Conditions {
+    return this.applyFilters(where, filters as FilterOptions) as Conditions;
+  }
+}
+
+const columns = [
+  'id',
+  'version',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+  'name',
+  'points',
+  'active',
+  'secret',
+  'bio',
+];
+
+interface MockRepository {
+  metadata: {
+    tableName: string;
+    columns: { propertyName: string; type?: unknown; isNullable?: boolean }[];
+  };
+  find: jest.Mock;
+  count: jest.Mock;
+  createQueryBuilder: jest.Mock;
+  findOne?: jest.Mock;
+  delete?: jest.Mock;
+}
+
+/**
+ * Gets the options a mocked repository method was first called with
+ */
+const optionsOf = <W = Conditions>(method: jest.Mock) =>
+  (method.mock.calls as unknown[][])[0][0] as {
+    where: W;
+    withDeleted?: boolean;
+  };
+
+/**
+ * Builds a data source running transactions on the given manager
+ */
+const transactionOn = (manager: unknown) => ({
+  transaction: jest.fn((work: (manager: unknown) => Promise<unknown>) =>
+    work(manager),
+  ),
+});
+
+/**
+ * Gets the SQL and pattern of a LIKE condition
+ */
+const likeOf = (operator: unknown, alias = 'alias') => {
+  const { getSql, objectLiteralParameters = {} } =
+    operator as FindOperator<unknown>;
+  return {
+    sql: getSql?.(alias),
+    pattern: Object.values(objectLiteralParameters)[0] as unknown,
+  };
+};
+
+describe('BaseService', () => {
+  let repository: MockRepository;
+  let service: TestService;
+  let queryBuilder: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    queryBuilder = {};
+    ['setFindOptions', 'andWhere', 'orderBy', 'addOrderBy', 'take'].forEach(
+      (method) => (queryBuilder[method] = jest.fn(() => queryBuilder)),
+    );
+    queryBuilder.getMany = jest.fn().mockResolvedValue([]);
+
+    repository = {
+      metadata: {
+        tableName: 'test_entities',
+        columns: columns.map((propertyName) => ({ propertyName })),
+      },
+      find: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    };
+
+    service = createService({});
+  });
+
+  const createService = (dataSource: unknown) =>
+    new TestService(
+      repository as unknown as Repository<TestEntity>,
+      dataSource as DataSource,
+    );
+
+  describe('applyFilters', () => {
+    it('returns the where clause untouched without filters', () => {
+      const where = { name: 'Ann' };
+      expect(service.filter(where, undefined)).toBe(where);
+    });
+
+    it('translates date and numeric ranges', () => {
+      const where = service.filter(
+        {},
+        {
+          dateRange: { start: '2024-01-01', end: '2024-01-31' },
+          numericRange: { field: 'points', min: '10' },
+        },
+      );
+
+      expect(where.createdAt).toBeInstanceOf(FindOperator);
+      expect(where.createdAt.type).toBe('between');
+      expect(where.createdAt.value).toEqual([
+        new Date('2024-01-01'),
+        new Date('2024-01-31'),
+      ]);
+      expect(where.points.type).toBe('moreThanOrEqual');
+      expect(where.points.value).toBe(10);
+    });
+
+    it('translates text filters and escapes wildcards', () => {
+      const where = service.filter(
+        {},
+        { text: { field: 'name', contains: '50%_off' } },
+      );
+
+      const { sql, pattern } = likeOf(where.name, 'entity.name');
+      expect(sql).toBe("entity.name LIKE :like_name_contains ESCAPE '!'");
+      expect(pattern).toBe('%50!%!_off%');
+    });
+
+    it('combines multiple operators on the same field', () => {
+      const where = service.filter(
+        { name: 'Ann' },
+        { text: { field: 'name', startsWith: 'A', endsWith: 'n' } },
+      );
+
+      expect(where.name.type).toBe('and');
+    });
+
+    it('applies filters to every OR group', () => {
+      const where = service.filter([{ name: 'Ann' }, { name: 'Bob' }], {
+        boolean: { isTrue: ['active'] },
+        null: { isNull: ['deletedAt'] },
+      });
+
+      expect(where).toHaveLength(2);
+      (where as unknown as Conditions[]).forEach((group) => {
+        expect(group.active.value).toBe(true);
+        expect(group.deletedAt.type).toBe('isNull');
+      });
+    });
+
+    it('rejects unknown and disallowed fields with a list of them', () => {
+      expect.assertions(2);
+      try {
+        service.filter(
+          {},
+          {
+            text: { field: 'secret', exact: 'x' },
+            null: { isNull: ['missing'] },
+          },
+        );
+      } catch (error) {
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          message: 'Unknown or disallowed filter fields: secret, missing',
+        });
+      }
+    });
+
+    it('rejects malformed values', () => {
+      expect(() =>
+        service.filter({}, { numericRange: { field: 'points', min: 'abc' } }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.filter({}, { dateRange: { start: 'not-a-date' } }),
+      ).toThrow(BadRequestException);
+      expect(() => service.filter({}, { text: { contains: 'x' } })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('findMany', () => {
+    it('passes filter conditions to both find and count', async () => {
+      await service.findMany({
+        filters: { numericRange: { field: 'points', max: 5 } },
+      });
+
+      const findWhere = optionsOf(repository.find).where;
+      const countWhere = optionsOf(repository.count).where;
+      expect(findWhere.points.type).toBe('lessThanOrEqual');
+      expect(countWhere).toBe(findWhere);
+    });
+
+    it('surfaces filter errors as bad requests', async () => {
+      await expect(
+        service.findMany({ filters: { null: { isNull: ['secret'] } } }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('lists only soft-deleted rows in the trash view', async () => {
+      await service.findMany({ where: { name: 'Ann' }, onlyDeleted: true });
+
+      const options = optionsOf(repository.find);
+      expect(options.withDeleted).toBe(true);
+      expect(options.where.name).toBe('Ann');
+      expect(options.where.deletedAt.type).toBe('not');
+      expect(repository.count).toHaveBeenCalledWith(
+        expect.objectContaining({ withDeleted: true }),
+      );
+    });
+  });
+
+  describe('query policy', () => {
+    @QueryPolicy({
+      sortable: ['createdAt', 'name'],
+      filterable: ['points'],
+      selectable: ['id', 'name'],
+      expandable: ['orders'],
+    })
+    class PolicyEntity extends TestEntity {}
+
+    beforeEach(() => {
+      Object.assign(repository, { target: PolicyEntity });
+    });
+
+    it('rejects sorting by fields that are not sortable', async () => {
+      await expect(service.findMany({ sortBy: 'secret' })).rejects.toThrow(
+        "Cannot sort by unknown field 'secret'",
+      );
+      await expect(
+        service.findManyByCursor({ sortBy: 'points' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects fields and relations outside the allowlist', async () => {
+      await expect(
+        service.findMany({ select: ['id', 'secret'] }),
+      ).rejects.toThrow('Unknown or disallowed fields: secret');
+      await expect(
+        service.findById('a', { relations: ['payments'] }),
+      ).rejects.toThrow('Unknown or disallowed relations: payments');
+    });
+
+    it('rejects where conditions on fields that are not filterable', async () => {
+      await expect(
+        service.findMany({ where: { points: 5, secret: 'x' } }),
+      ).rejects.toThrow('Unknown or disallowed filter fields: secret');
+      await expect(
+        service.search(
+          { query: 'ann' },
+          { where: [{ points: 5 }, { bio: 'x' }] },
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(repository.find).not.toHaveBeenCalled();
+
+      await service.findMany({ where: { points: 5 } });
+      expect(repository.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('expands nested relations within the allowlist and depth', async () => {
+      @QueryPolicy({
+        expandable: ['game_sessions.game', 'game_sessions.game.publisher'],
+      })
+      class Customer extends TestEntity {}
+      const game = { target: class {}, columns: [], relations: [] };
+      Object.assign(repository, {
+        target: Customer,
+        metadata: {
+          ...repository.metadata,
+          relations: [
+            {
+              propertyName: 'game_sessions',
+              inverseEntityMetadata: {
+                target: class {},
+                columns: [{ propertyName: 'id' }, { propertyName: 'score' }],
+                relations: [
+                  { propertyName: 'game', inverseEntityMetadata: game },
+                ],
+              },
+            },
+          ],
+        },
+      });
+
+      await service.findMany({
+        relations: ['game_sessions.game'],
+        select: ['id', 'name', 'game_sessions.score'],
+      });
+
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          relations: ['game_sessions.game'],
+          select: { id: true, name: true, game_sessions: { score: true } },
+        }),
+      );
+      await expect(
+        service.findMany({ relations: ['game_sessions.game.publisher'] }),
+      ).rejects.toThrow('Unknown or disallowed relations');
+      await expect(
+        service.findById('a', { relations: ['leaderboards'] }),
+      ).rejects.toThrow('Unknown or disallowed relations: leaderboards');
+      await expect(
+        service.findMany({ select: ['game_sessions.score'] }),
+      ).rejects.toThrow('Unknown or disallowed fields: game_sessions.score');
+      await expect(
+        service.findMany({
+          relations: ['game_sessions'],
+          select: ['game_sessions.secret'],
+        }),
+      ).rejects.toThrow('Unknown or disallowed fields: game_sessions.secret');
+    });
+
+    it('takes filterable fields from the policy', async () => {
+      await service.findMany({
+        sortBy: 'name',
+        select: ['name'],
+        relations: ['orders'],
+        filters: { numericRange: { field: 'points', min: 1 } },
+      });
+
+      await expect(
+        service.findMany({ filters: { boolean: { isTrue: ['active'] } } }),
+      ).rejects.toThrow('Unknown or disallowed filter fields: active');
+    });
+  });
+
+  describe('aggregate', () => {
+    beforeEach(() => {
+      ['select', 'addSelect', 'addGroupBy', 'addOrderBy', 'limit'].forEach(
+        (method) => (queryBuilder[method] = jest.fn(() => queryBuilder)),
+      );
+      queryBuilder.getRawMany = jest.fn().mockResolvedValue([
+        {
+          bucket: '2024-03-04 00:00:00',
+          group_0: 1,
+          metric_0: '3',
+          metric_1: '42.50',
+        },
+      ]);
+      repository.metadata.columns.find(
+        (column) => column.propertyName === 'points',
+      )!.type = 'int';
+    });
+
+    it('groups metrics by fields and date buckets', async () => {
+      const result = await service.aggregate({
+        metrics: [{ fn: 'count' }, { fn: 'sum', field: 'points' }],
+        groupBy: ['active'],
+        interval: 'week',
+        filters: { numericRange: { field: 'points', min: 1 } },
+      });
+
+      expect(queryBuilder.setFindOptions).toHaveBeenCalledWith({
+        where: { points: expect.any(FindOperator) as unknown },
+        withDeleted: false,
+      });
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        "DATE_FORMAT(DATE_SUB(entity.createdAt, INTERVAL WEEKDAY(entity.createdAt) DAY), '%Y-%m-%d 00:00:00')",
+        'bucket',
+      );
+      expect(queryBuilder.addGroupBy).toHaveBeenCalledWith('entity.active');
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        'SUM(entity.points)',
+        'metric_1',
+      );
+      expect(result.rows).toEqual([
+        {
+          bucket: '2024-03-04T00:00:00.000Z',
+          group: { active: 1 },
+          values: { count: 3, sum_points: 42.5 },
+        },
+      ]);
+    });
+
+    it('rejects unknown functions, fields and intervals', async () => {
+      await expect(
+        service.aggregate({
+          metrics: [{ fn: 'median' as never, field: 'points' }, { fn: 'avg' }],
+          groupBy: ['unknown'],
+          interval: 'year' as never,
+        }),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            "Unsupported aggregate function 'median'",
+            "Aggregate function 'avg' requires a field",
+            "Cannot group by unknown field 'unknown'",
+            "Unsupported interval 'year', expected one of: hour, day, week, month",
+          ],
+        },
+      });
+      expect(queryBuilder.getRawMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpired', () => {
+    beforeEach(() => {
+      repository.delete = jest.fn().mockResolvedValue({ affected: 2 });
+    });
+
+    it('hard-deletes rows soft-deleted before the retention cutoff', async () => {
+      repository.find.mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }]);
+
+      const result = await service.purgeExpired(30);
+
+      const { where } = optionsOf(repository.find);
+      const cutoff = where.deletedAt.value as Date;
+      expect(where.deletedAt.type).toBe('lessThan');
+      expect(Date.now() - cutoff.getTime()).toBeGreaterThanOrEqual(
+        30 * 24 * 60 * 60 * 1000,
+      );
+      expect(repository.delete).toHaveBeenCalledWith(['a', 'b']);
+      expect(result).toEqual({ affected: 2 });
+    });
+
+    it('does nothing when retention is disabled', async () => {
+      await expect(service.purgeExpired(0)).resolves.toEqual({ affected: 0 });
+      expect(repository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findManyByCursor', () => {
+    beforeAll(() => {
+      process.env.CURSOR_SECRET = 'test-cursor-secret';
+    });
+
+    const rows = [1, 2, 3].map(
+      (n) =>
+        ({
+          id: `id-${n}`,
+          createdAt: new Date(`2024-01-0${n}T00:00:00.000Z`),
+        }) as TestEntity,
+    );
+
+    it('returns a next cursor when more rows exist', async () => {
+      queryBuilder.getMany.mockResolvedValue(rows);
+
+      const result = await service.findManyByCursor({ limit: 2 });
+
+      expect(result.data).toEqual(rows.slice(0, 2));
+      expect(result.cursor.hasNext).toBe(true);
+      expect(result.cursor.hasPrevious).toBe(false);
+      expect(result.cursor.nextCursor).toBe(
+        encodeCursor(
+          {
+            field: 'createdAt',
+            order: 'DESC',
+            value: rows[1].createdAt,
+            id: 'id-2',
+            query: hashCursorQuery({}),
+          },
+          getCursorSecret(),
+        ),
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'entity.createdAt',
+        'DESC',
+      );
+      expect(queryBuilder.take).toHaveBeenCalledWith(3);
+    });
+
+    it('walks backward in reverse and restores the order', async () => {
+      queryBuilder.getMany.mockResolvedValue([rows[1], rows[0]]);
+      const cursor = encodeCursor(
+        {
+          field: 'createdAt',
+          order: 'ASC',
+          value: rows[2].createdAt,
+          id: 'id-3',
+          query: hashCursorQuery({}),
+        },
+        getCursorSecret(),
+      );
+
+      const result = await service.findManyByCursor({
+        cursor,
+        direction: 'backward',
+        sortOrder: 'ASC',
+        limit: 2,
+      });
+
+      expect(result.data).toEqual([rows[0], rows[1]]);
+      expect(result.cursor.hasNext).toBe(true);
+      expect(result.cursor.hasPrevious).toBe(false);
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'entity.createdAt',
+        'DESC',
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects tampered cursors and cursors issued for another sort', async () => {
+      const cursor = encodeCursor(
+        {
+          field: 'createdAt',
+          order: 'DESC',
+          value: 1,
+          id: 'id-1',
+          query: hashCursorQuery({}),
+        },
+        getCursorSecret(),
+      );
+
+      await expect(
+        service.findManyByCursor({ cursor: `${cursor}x` }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.findManyByCursor({ cursor, sortBy: 'points' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.findManyByCursor({ sortBy: 'unknown' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects cursors issued for other conditions', async () => {
+      queryBuilder.getMany.mockResolvedValue(rows);
+      const { cursor } = await service.findManyByCursor({
+        limit: 2,
+        filters: { boolean: { isTrue: ['active'] } },
+      });
+
+      await expect(
+        service.findManyByCursor({ cursor: cursor.nextCursor }),
+      ).rejects.toThrow('Cursor does not match the requested conditions');
+      await expect(
+        service.findManyByCursor({
+          cursor: cursor.nextCursor,
+          filters: { boolean: { isTrue: ['active'] } },
+        }),
+      ).resolves.toBeDefined();
+    });
+
+    it('rejects nullable sort fields', async () => {
+      const column = repository.metadata.columns.find(
+        ({ propertyName }) => propertyName === 'points',
+      )!;
+      column.isNullable = true;
+
+      await expect(
+        service.findManyByCursor({ sortBy: 'points' }),
+      ).rejects.toThrow("Cannot paginate by nullable field 'points'");
+    });
+
+    it('derives the signing key from JWT_SECRET', () => {
+      const { CURSOR_SECRET, JWT_SECRET } = process.env;
+      try {
+        delete process.env.CURSOR_SECRET;
+        process.env.JWT_SECRET = 'jwt-secret';
+        expect(getCursorSecret()).toMatch(/^[0-9a-f]{64}$/);
+        expect(getCursorSecret()).not.toContain('jwt-secret');
+
+        delete process.env.JWT_SECRET;
+        expect(() => getCursorSecret()).toThrow();
+      } finally {
+        Object.entries({ CURSOR_SECRET, JWT_SECRET }).forEach(([key, value]) =>
+          value === undefined
+            ? delete process.env[key]
+            : (process.env[key] = value),
+        );
+      }
+    });
+  });
+
+  describe('search', () => {
+    const people = [
+      { id: 'a', name: 'Johnny Walker', bio: 'Distiller' },
+      { id: 'b', name: 'John Smith', bio: 'Met johnny at the docks' },
+      { id: 'c', name: 'Jane Doe', bio: 'Smithing apprentice' },
+    ] as TestEntity[];
+
+    beforeEach(() => {
+      repository.find.mockResolvedValue(people);
+    });
+
+    it('ranks whole word matches first and highlights them', async () => {
+      const result = await service.search(
+        { query: 'john', highlights: true },
+        { limit: 1 },
+      );
+
+      expect(result.pagination.total).toBe(2);
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].item.id).toBe('b');
+      expect(result.data[0].score).toBe(1);
+      expect(result.data[0].highlights?.name).toEqual(['<em>John</em> Smith']);
+    });
+
+    it('narrows candidates with LIKE conditions on searchable fields', async () => {
+      await service.search({ query: '50%' }, { where: { active: true } });
+
+      const { where } = optionsOf<Conditions[]>(repository.find);
+      expect(where).toHaveLength(2);
+      expect(where[0].active).toBe(true);
+      expect(likeOf(where[0].name).pattern).toBe('%50!%%');
+      expect(likeOf(where[1].bio).pattern).toBe('%50!%%');
+      // Each condition binds its own parameter
+      expect(likeOf(where[0].name).sql).not.toBe(likeOf(where[1].bio).sql);
+    });
+
+    it('tolerates typos in fuzzy mode', async () => {
+      const result = await service.search({ query: 'jhon', type: 'fuzzy' });
+
+      expect(result.data.map((hit) => hit.item.id)).toEqual(['b']);
+    });
+
+    it('rejects empty queries and disallowed fields', async () => {
+      await expect(service.search({ query: '  ' })).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      await expect(
+        service.search({ query: 'x', fields: ['secret'] }),
+      ).rejects.toThrow('Unknown or disallowed search fields: secret');
+    });
+
+    it('applies plain search terms in findMany', async () => {
+      await service.findMany({ search: 'ann', searchFields: ['name'] });
+
+      const { where } = optionsOf<Conditions[]>(repository.find);
+      expect(where).toHaveLength(1);
+      expect(likeOf(where[0].name).pattern).toBe('%ann%');
+    });
+  });
+
+  describe('export', () => {
+    const read = async (stream: NodeJS.ReadableStream): Promise<string> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks).toString('utf8');
+    };
+
+    it('streams mapped columns in keyset batches', async () => {
+      queryBuilder.getMany
+        .mockResolvedValueOnce([
+          { id: '1', name: 'Ann', points: 10 },
+          { id: '2', name: '=cmd()', points: 20 },
+        ])
+        .mockResolvedValueOnce([{ id: '3', name: 'Smith, Bob', points: 30 }]);
+
+      const file = await service.export({
+        format: 'csv',
+        fieldMappings: { name: 'Name', points: 'Points' },
+        fileName: 'customers',
+      });
+
+      expect(file.fileName).toBe('customers.csv');
+      expect(file.contentType).toBe('text/csv; charset=UTF-8');
+      expect(await read(file.stream)).toBe(
+        'Name,Points\r\nAnn,10\r\n\'=cmd(),20\r\n"Smith, Bob",30\r\n',
+      );
+      expect(queryBuilder.take).toHaveBeenCalledWith(2);
+      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects unsupported formats and disallowed fields', async () => {
+      await expect(
+        service.export({ format: 'pdf' as never }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.export({ format: 'json', fields: ['password'] }),
+      ).rejects.toThrow('Unknown or disallowed export fields: password');
+    });
+  });
+
+  describe('update', () => {
+    let managerRepository: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      const stored = { id: 'a', name: 'Ann', version: 3 };
+      const merge = jest.fn((entity: object, dto: object) =>
+        Object.assign(entity, dto),
+      );
+      Object.assign(repository, {
+        findOne: jest.fn().mockResolvedValue({ ...stored }),
+        merge,
+      });
+      managerRepository = {
+        findOne: jest.fn().mockResolvedValue({ ...stored }),
+        merge,
+        save: jest.fn((entity: { version: number }) =>
+          Promise.resolve({ ...entity, version: entity.version + 1 }),
+        ),
+      };
+      const manager = { getRepository: () => managerRepository };
+      service = createService(transactionOn(manager));
+    });
+
+    it('saves when the expected version matches', async () => {
+      const updated = await service.update('a', { name: 'Bob' }, 3);
+
+      expect(updated).toMatchObject({ name: 'Bob', version: 4 });
+      expect(managerRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+      );
+    });
+
+    it('rejects stale versions with the current representation', async () => {
+      const error = await service
+        .update('a', { name: 'Bob' }, 2)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        code: 'VERSION_CONFLICT',
+        details: {
+          expectedVersion: 2,
+          currentVersion: 3,
+          current: { id: 'a', name: 'Ann', version: 3 },
+        },
+      });
+      expect(managerRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('detects changes committed after the entity was read', async () => {
+      managerRepository.findOne.mockResolvedValue({
+        id: 'a',
+        name: 'Cid',
+        version: 4,
+      });
+
+      await expect(service.update('a', { name: 'Bob' }, 3)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(managerRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('history', () => {
+    @TrackHistory()
+    class TrackedEntity extends TestEntity {}
+
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    const updatedAt = new Date('2024-03-01T00:00:00Z');
+    let history: Record<string, jest.Mock>;
+    let managerRepository: Record<string, jest.Mock>;
+    let manager: { getRepository: () => Record<string, jest.Mock> };
+
+    beforeEach(() => {
+      const stored = { id: 'a', name: 'Ann', version: 3, createdAt, updatedAt };
+      Object.assign(repository, {
+        target: TrackedEntity,
+        findOne: jest.fn().mockResolvedValue({ ...stored }),
+        create: jest.fn((data: unknown) => data),
+      });
+      managerRepository = {
+        findOne: jest.fn().mockResolvedValue({ ...stored }),
+        merge: jest.fn((entity: object, dto: object) =>
+          Object.assign(entity, dto),
+        ),
+        save: jest.fn((entity: { version: number }) =>
+          Promise.resolve({ ...entity, version: entity.version + 1 }),
+        ),
+      };
+      manager = { getRepository: () => managerRepository };
+      history = {
+        record: jest.fn().mockResolvedValue(undefined),
+        findAsOf: jest.fn().mockResolvedValue({
+          snapshot: { id: 'a', name: 'Old', version: 2 },
+        }),
+      };
+      service = createService(transactionOn(manager));
+      Object.assign(service, { historyService: history });
+    });
+
+    it('stores the replaced version in the update transaction', async () => {
+      await service.update('a', { name: 'Bob' });
+
+      expect(history.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'test_entities',
+          entityId: 'a',
+          version: 3,
+          operation: 'UPDATE',
+          snapshot: expect.objectContaining({ name: 'Ann' }) as unknown,
+          validFrom: updatedAt,
+        }),
+        manager,
+      );
+    });
+
+    it('reads the version that was current at a point in time', async () => {
+      await expect(
+        service.findByIdAsOf('a', new Date('2024-04-01T00:00:00Z')),
+      ).resolves.toMatchObject({ name: 'Ann', version: 3 });
+      await expect(
+        service.findByIdAsOf('a', new Date('2024-02-01T00:00:00Z'), ['name']),
+      ).resolves.toEqual({ name: 'Old' });
+      await expect(
+        service.findByIdAsOf('a', new Date('2023-12-01T00:00:00Z')),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('rejects history reads for entities without tracked history', async () => {
+      Object.assign(repository, { target: TestEntity });
+
+      await expect(service.findHistory('a')).rejects.toThrow(
+        'History is not tracked for test_entities',
+      );
+    });
+  });
+
+  describe('tenancy', () => {
+    @TenantScoped()
+    class MerchantEntity extends TestEntity {
+      merchantId: string;
+    }
+
+    const request = { headers: {} } as Request;
+    const asTenant = <R>(tenantId: string | undefined, work: () => R) =>
+      RequestContext.run({ request, tenantId }, work);
+
+    beforeEach(() => {
+      Object.assign(repository, { target: MerchantEntity });
+    });
+
+    it('limits reads to the tenant of the request', async () => {
+      await asTenant('m1', () => service.findMany({ where: { name: 'Ann' } }));
+
+      const options = optionsOf(repository.find);
+      expect(options.where.name).toBe('Ann');
+      expect(options.where.merchantId.value).toBe('m1');
+      expect(repository.count).toHaveBeenCalledWith(
+        expect.objectContaining({ where: options.where }),
+      );
+    });
+
+    it('rejects writes for another tenant and requests without a tenant', async () => {
+      const auditService = { record: jest.fn().mockResolvedValue(null) };
+      Object.assign(service, { auditService });
+
+      await expect(
+        asTenant('m1', () =>
+          service.create({
+            name: 'Ann',
+            merchantId: 'm2',
+          } as Partial<MerchantEntity>),
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'CROSS_TENANT_ACCESS' }),
+      );
+
+      await expect(
+        asTenant(undefined, () => service.findMany({})),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('upsert', () => {
+    @NaturalKey('name', 'points')
+    class KeyedEntity extends TestEntity {}
+
+    let findOne: jest.Mock;
+    let update: jest.SpyInstance;
+
+    beforeEach(() => {
+      findOne = jest.fn().mockResolvedValue(null);
+      Object.assign(repository, { target: KeyedEntity, findOne });
+      jest
+        .spyOn(service, 'create')
+        .mockImplementation((dto) => Promise.resolve(dto as TestEntity));
+      update = jest
+        .spyOn(service, 'update')
+        .mockImplementation((id, dto) =>
+          Promise.resolve({ id, ...dto } as TestEntity),
+        );
+    });
+
+    it('creates unknown rows and updates rows matching the natural key', async () => {
+      await expect(
+        service.upsert({ name: 'Ann', points: 1, bio: 'new' }),
+      ).resolves.toMatchObject({ created: true });
+
+      findOne.mockResolvedValue({ id: 'a' } as TestEntity);
+      await expect(
+        service.upsert({ id: 'other', name: 'Ann', points: 1, bio: 'edit' }),
+      ).resolves.toMatchObject({ created: false, entity: { id: 'a' } });
+
+      expect(findOne).toHaveBeenCalledWith({
+        where: { name: 'Ann', points: 1 },
+        withDeleted: true,
+      });
+      expect(update).toHaveBeenCalledWith('a', {
+        name: 'Ann',
+        points: 1,
+        bio: 'edit',
+      });
+    });
+
+    it('requires a declared natural key and its fields', async () => {
+      await expect(service.upsert({ name: 'Ann' })).rejects.toThrow(
+        'Natural key fields are required: points',
+      );
+
+      Object.assign(repository, { target: TestEntity });
+      await expect(service.upsert({ name: 'Ann' })).rejects.toThrow(
+        'No natural key is declared for test_entities',
+      );
+    });
+  });
+
+  describe('domain events', () => {
+    let bus: EventBusService;
+    let outbox: Record<string, jest.Mock>;
+    let entities: Record<string, jest.Mock>;
+    let committed: boolean;
+
+    beforeEach(() => {
+      committed = false;
+      outbox = {
+        create: jest.fn((row: unknown) => row),
+        save: jest.fn((row: unknown) => Promise.resolve(row)),
+      };
+      entities = {
+        save: jest.fn((entity: object) =>
+          Promise.resolve({ id: 'a', ...entity }),
+        ),
+      };
+      const manager = {
+        getRepository: (target: unknown) =>
+          target === OutboxEvent ? outbox : entities,
+      };
+      Object.assign(repository, { create: jest.fn((data: unknown) => data) });
+      bus = new EventBusService(
+        { getProviders: () => [] } as unknown as DiscoveryService,
+        new MetadataScanner(),
+        {} as DataSource,
+      );
+      service = createService({
+        transaction: jest.fn(
+          async (work: (manager: unknown) => Promise<unknown>) => {
+            const result = await work(manager);
+            committed = true;
+            return result;
+          },
+        ),
+      });
+      Object.assign(service, { eventBus: bus });
+    });
+
+    it('stores the event in the outbox and publishes it after commit', async () => {
+      const created = jest.fn(() => committed);
+      const updated = jest.fn();
+      bus.subscribe('test_entities', 'CREATE', created);
+      bus.subscribe('test_entities', 'UPDATE', updated);
+
+      await service.create({ name: 'Ann' });
+
+      expect(outbox.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'test_entities.created',
+          entityId: 'a',
+          operation: 'CREATE',
+          payload: {
+            before: null,
+            after: expect.objectContaining({ name: 'Ann' }) as unknown,
+          },
+        }),
+      );
+      expect(created).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'test_entities.created',
+          before: null,
+        }),
+      );
+      expect(created).toHaveReturnedWith(true);
+      expect(updated).not.toHaveBeenCalled();
+    });
+
+    it('does not fail the write when a subscriber throws', async () => {
+      const unsubscribe = bus.subscribe('*', '*', () => {
+        throw new Error('boom');
+      });
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(service.create({ name: 'Ann' })).resolves.toMatchObject({
+        id: 'a',
+      });
+      expect(error).toHaveBeenCalled();
+
+      unsubscribe();
+      error.mockRestore();
+    });
+  });
+
+  describe('query cache', () => {
+    beforeEach(() => {
+      Object.assign(repository.metadata, { target: TestEntity });
+      Object.assign(repository, {
+        findOne: jest.fn(() =>
+          Promise.resolve(Object.assign(new TestEntity(), { id: 'a' })),
+        ),
+        merge: jest.fn((entity: object, dto: object) =>
+          Object.assign(entity, dto),
+        ),
+        save: jest.fn((entity: unknown) => Promise.resolve(entity)),
+      });
+      Object.assign(service, {
+        queryCache: new QueryCacheService(new ConfigService({})),
+      });
+    });
+
+    it('caches lookups that ask for it until the entity is written', async () => {
+      await service.findById('a', { cache: true });
+      const cached = await service.findById('a', { cache: true });
+
+      expect(cached).toBeInstanceOf(TestEntity);
+      expect(repository.findOne).toHaveBeenCalledTimes(1);
+
+      await service.update('a', { name: 'Bob' });
+      await service.findById('a', { cache: true });
+
+      // One read for the update itself, which never uses the cache
+      expect(repository.findOne).toHaveBeenCalledTimes(3);
+    });
+
+    it('caches identical filtered lists under one key', async () => {
+      const list = () =>
+        service.findMany({
+          cache: true,
+          filters: { text: { field: 'name', contains: '50%' } },
+          search: 'bob',
+        });
+
+      await list();
+      await list();
+
+      expect(repository.find).toHaveBeenCalledTimes(1);
+      expect(repository.count).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('bulk operations', () => {
+    let managerRepository: Record<string, jest.Mock>;
+    let dataSource: { transaction: jest.Mock; manager: unknown };
+
+    beforeEach(() => {
+      managerRepository = {
+        create: jest.fn((dto: unknown) => dto),
+        save: jest.fn((entity: unknown) => Promise.resolve(entity)),
+        softDelete: jest.fn().mockResolvedValue({ affected: 1 }),
+      };
+      const manager = { getRepository: () => managerRepository };
+      dataSource = { manager, ...transactionOn(manager) };
+      service = createService(dataSource);
+      service.requiredFields = ['name'];
+    });
+
+    it('reports failing rows by index and commits the rest', async () => {
+      const result = await service.bulkCreate(
+        [{ name: 'Ann' }, {}, { name: 'Bob' }],
+        { continueOnError: true },
+      );
+
+      expect(result).toMatchObject({
+        total: 3,
+        successful: 2,
+        failed: 1,
+        skipped: 0,
+      });
+      expect(result.errors?.[0]).toMatchObject({
+        index: 1,
+        code: 'BAD_REQUEST',
+        error: 'Validation failed: name is required',
+      });
+      // The batch is retried without the failing row
+      expect(dataSource.transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops at the first failing batch without continueOnError', async () => {
+      const result = await service.bulkCreate(
+        [{ name: 'Ann' }, {}, { name: 'Bob' }],
+        { batchSize: 1 },
+      );
+
+      expect(result).toMatchObject({ successful: 1, failed: 1, skipped: 1 });
+    });
+
+    it('retries transient failures', async () => {
+      managerRepository.save.mockRejectedValueOnce(
+        Object.assign(new Error('Deadlock found'), {
+          code: 'ER_LOCK_DEADLOCK',
+        }),
+      );
+
+      const result = await service.bulkCreate([{ name: 'Ann' }], {
+        transactional: false,
+        maxRetries: 1,
+      });
+
+      expect(result).toMatchObject({ successful: 1, failed: 0 });
+      expect(managerRepository.save).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports missing entities on delete', async () => {
+      managerRepository.softDelete
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+
+      const result = await service.bulkDelete({
+        ids: ['a', 'b'],
+        continueOnError: true,
+        transactional: false,
+      });
+
+      expect(result.successful).toBe(1);
+      expect(result.errors?.[0]).toMatchObject({
+        id: 'b',
+        index: 1,
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('deletes by conditions on filterable fields only', async () => {
+      repository.find.mockResolvedValueOnce([{ id: 'a' } as TestEntity]);
+
+      const result = await service.bulkDelete({
+        where: { active: true, deletedAt: null },
+      });
+
+      expect(result.successful).toBe(1);
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { active: true, deletedAt: IsNull() },
+        }),
+      );
+
+      await expect(
+        service.bulkDelete({ where: { secret: 'x' } }),
+      ).rejects.toThrow('Unknown or disallowed filter fields: secret');
+      await expect(
+        service.bulkDelete({ where: { name: { $like: '%' } } }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(service.bulkDelete({ where: {} })).rejects.toThrow(
+        'Either ids or where conditions are required for bulk deletion',
+      );
+    });
+  });
+});
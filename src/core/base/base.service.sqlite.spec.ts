@@ -0,0 +1,251 @@
+import { ConflictException } from '@nestjs/common';
+import {
+  Column,
+  DataSource,
+  Entity,
+  getMetadataArgsStorage,
+  Repository,
+} from 'typeorm';
+import { BaseEntity } from './base.entity';
+import { BaseService } from './base.service';
+
+/**
+ * Runs queries built by BaseService against a real (in-memory SQLite)
+ * database, covering the SQL the mocked repositories of base.service.spec
+ * cannot check.
+ */
+
+// SQLite has no `timestamp with time zone`; the BaseEntity timestamps are
+// stored as `datetime` here (the insert hook sets them, so no default)
+getMetadataArgsStorage()
+  .filterColumns(BaseEntity)
+  .filter(({ options }) => options.type === 'timestamp with time zone')
+  .forEach(({ options }) =>
+    Object.assign(options, {
+      type: 'datetime',
+      default: undefined,
+      onUpdate: undefined,
+    }),
+  );
+
+@Entity('articles')
+class Article extends BaseEntity {
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', default: '' })
+  body: string;
+
+  @Column({ type: 'integer', default: 0 })
+  points: number;
+}
+
+class ArticleService extends BaseService<Article> {
+  protected readonly filterableFields = ['title', 'points'];
+
+  protected readonly searchableFields = ['title', 'body'];
+
+  protected validateCreateData(): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
+  protected validateUpdateData(): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
+  protected checkForDuplicates(): Promise<string | null> {
+    return Promise.resolve(null);
+  }
+
+  protected checkForConflicts(): Promise<string | null> {
+    return Promise.resolve(null);
+  }
+
+  protected async logOperation(): Promise<void> {}
+}
+
+describe('BaseService on SQLite', () => {
+  let dataSource: DataSource;
+  let repository: Repository<Article>;
+  let service: ArticleService;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'better-sqlite3',
+      database: ':memory:',
+      entities: [Article],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+    repository = dataSource.getRepository(Article);
+    service = new ArticleService(repository, dataSource);
+
+    await repository.save(
+      [
+        { title: 'Sale: 50% off', body: 'Half price on shoes', points: 5 },
+        { title: 'Sale: 5 off', body: 'Five off hats', points: 3 },
+        { title: 'snake_case tips', body: 'Naming columns', points: 3 },
+        { title: 'snakecase', body: 'No underscore here', points: 3 },
+        { title: 'Wow!', body: 'Exclamation marks', points: 1 },
+        { title: 'Shoe care', body: 'Keep shoes clean', points: 8 },
+      ].map((article) => repository.create(article)),
+    );
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  const titles = (articles: Article[]) =>
+    articles.map((article) => article.title);
+
+  describe('text filters', () => {
+    it('matches LIKE wildcards in the filter value literally', async () => {
+      const contains = (value: string) =>
+        service
+          .findMany({
+            filters: { text: { field: 'title', contains: value } },
+            sortBy: 'title',
+            sortOrder: 'ASC',
+          })
+          .then(({ data }) => titles(data));
+
+      await expect(contains('50%')).resolves.toEqual(['Sale: 50% off']);
+      await expect(contains('e_c')).resolves.toEqual(['snake_case tips']);
+      await expect(contains('!')).resolves.toEqual(['Wow!']);
+      await expect(contains('%')).resolves.toEqual(['Sale: 50% off']);
+    });
+
+    it('anchors startsWith and endsWith patterns', async () => {
+      const { data: starting } = await service.findMany({
+        filters: { text: { field: 'title', startsWith: 'snake_' } },
+      });
+      const { data: ending } = await service.findMany({
+        filters: { text: { field: 'title', endsWith: '% off' } },
+      });
+
+      expect(titles(starting)).toEqual(['snake_case tips']);
+      expect(titles(ending)).toEqual(['Sale: 50% off']);
+    });
+  });
+
+  describe('search', () => {
+    it('ranks matches and highlights the matched terms', async () => {
+      const result = await service.search(
+        { query: 'shoe', highlights: true },
+        { limit: 10 },
+      );
+
+      expect(titles(result.data.map((hit) => hit.item))).toEqual([
+        'Shoe care',
+        'Sale: 50% off',
+      ]);
+      expect(result.pagination.total).toBe(2);
+      expect(result.data[0].score).toBeGreaterThan(result.data[1].score);
+      expect(result.data[0].highlights).toMatchObject({
+        title: ['<em>Shoe</em> care'],
+      });
+    });
+
+    it('treats wildcards in the query as text', async () => {
+      const result = await service.search({ query: 'snake_case' });
+
+      expect(titles(result.data.map((hit) => hit.item))).toEqual([
+        'snake_case tips',
+      ]);
+    });
+  });
+
+  describe('findManyByCursor', () => {
+    beforeAll(() => {
+      process.env.CURSOR_SECRET = 'test-cursor-secret';
+    });
+
+    it('walks every row once across pages and back', async () => {
+      const options = { sortBy: 'points', sortOrder: 'ASC' as const, limit: 2 };
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await service.findManyByCursor({ ...options, cursor });
+        pages.push(titles(page.data));
+        cursor = page.cursor.nextCursor;
+      } while (cursor);
+
+      const ordered = (await repository.find()).sort(
+        (a, b) => a.points - b.points || a.id.localeCompare(b.id),
+      );
+      expect(pages.flat()).toEqual(titles(ordered));
+      expect(pages).toHaveLength(3);
+
+      const first = await service.findManyByCursor(options);
+      const second = await service.findManyByCursor({
+        ...options,
+        cursor: first.cursor.nextCursor,
+      });
+      const back = await service.findManyByCursor({
+        ...options,
+        cursor: second.cursor.previousCursor,
+        direction: 'backward',
+      });
+      expect(titles(back.data)).toEqual(pages[0]);
+    });
+
+    it('pages by creation time with the id as a tiebreaker', async () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await service.findManyByCursor({ limit: 4, cursor });
+        seen.push(...page.data.map((article) => article.id));
+        cursor = page.cursor.nextCursor;
+      } while (cursor);
+
+      expect(new Set(seen).size).toBe(6);
+    });
+
+    it('keeps filters applied while paging', async () => {
+      const options = {
+        sortBy: 'points',
+        sortOrder: 'DESC' as const,
+        limit: 1,
+        filters: { numericRange: { field: 'points', min: 3, max: 3 } },
+      };
+
+      const first = await service.findManyByCursor(options);
+      const second = await service.findManyByCursor({
+        ...options,
+        cursor: first.cursor.nextCursor,
+      });
+      const third = await service.findManyByCursor({
+        ...options,
+        cursor: second.cursor.nextCursor,
+      });
+
+      const seen = [first, second, third].flatMap(({ data }) => data);
+      expect(new Set(seen.map((article) => article.id)).size).toBe(3);
+      expect(seen.every((article) => article.points === 3)).toBe(true);
+      expect(third.cursor.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('update', () => {
+    it('checks the expected version inside a transaction', async () => {
+      const draft = await repository.save(
+        repository.create({ title: 'Draft', points: 0 }),
+      );
+
+      try {
+        const updated = await service.update(draft.id, { points: 2 }, 1);
+        expect(updated).toMatchObject({ points: 2, version: 2 });
+
+        await expect(
+          service.update(draft.id, { points: 4 }, 1),
+        ).rejects.toBeInstanceOf(ConflictException);
+        await expect(repository.findOneBy({ id: draft.id })).resolves.toEqual(
+          expect.objectContaining({ points: 2, version: 2 }),
+        );
+      } finally {
+        await repository.delete(draft.id);
+      }
+    });
+  });
+});
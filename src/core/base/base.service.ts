@@ -1,13 +1,117 @@
 import {
+  Inject,
   Injectable,
+  Optional,
   NotFoundException,
   ConflictException,
   BadRequestException,
+  ForbiddenException,
   InternalServerErrorException,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common';
-import { Repository, DeepPartial, FindManyOptions, FindOneOptions, DataSource } from 'typeorm';
+import {
+  Repository,
+  DeepPartial,
+  FindManyOptions,
+  FindOneOptions,
+  DataSource,
+  EntityManager,
+  Brackets,
+  SelectQueryBuilder,
+  FindOperator,
+  FindOptionsOrder,
+  FindOptionsSelect,
+  FindOptionsWhere,
+  And,
+  Between,
+  Equal,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Raw,
+  MoreThanOrEqual,
+  Not,
+} from 'typeorm';
+import { EntityMetadata } from 'typeorm/metadata/EntityMetadata';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { IndexMetadata } from 'typeorm/metadata/IndexMetadata';
 import { BaseEntity } from './base.entity';
-import { PaginationOptions, PaginatedResult } from '../../common/interfaces/pagination.interface';
+import { AuditService } from '../audit/audit.service';
+import { EntityHistory } from '../history/entity-history.entity';
+import { HistoryService } from '../history/history.service';
+import { EventBusService } from '../events/event-bus.service';
+import { TransactionManagerService } from '../database/transaction-manager.service';
+import { QueryCacheService } from '../database/query-cache.service';
+import { ReplicaRouterService } from '../database/replica-router.service';
+import type {
+  DomainEvent,
+  DomainEventOperation,
+} from '../events/events.module';
+import {
+  DEFAULT_MAX_EXPAND_DEPTH,
+  QueryPolicyOptions,
+  getQueryPolicy,
+} from '../../common/decorators/query-policy.decorator';
+import { isHistoryTracked } from '../../common/decorators/track-history.decorator';
+import { getTenantField } from '../../common/decorators/tenant-scoped.decorator';
+import { getNaturalKey } from '../../common/decorators/natural-key.decorator';
+import { RequestContext } from '../../common/context/request-context';
+import {
+  PaginationOptions,
+  PaginatedResult,
+  FilterOptions,
+  CursorPaginationOptions,
+  CursorPaginationResult,
+  PaginationMetadata,
+  SearchOptions,
+  SearchHit,
+  ExportOptions,
+  BulkOperationsOptions,
+  BulkOperationResult,
+  BulkOperationError,
+  AggregateMetric,
+  AggregateOptions,
+  AggregateInterval,
+  AggregateResult,
+  UpsertResult,
+} from '../../common/interfaces/pagination.interface';
+import {
+  AGGREGATE_FUNCTIONS,
+  AGGREGATE_INTERVALS,
+  NUMERIC_COLUMN_TYPES,
+  bucketExpression,
+  metricExpression,
+  toBucketTimestamp,
+} from './aggregate.sql';
+import {
+  decodeCursor,
+  encodeCursor,
+  getCursorSecret,
+  hashCursorQuery,
+} from './cursor.codec';
+import {
+  EXPORT_CHARSETS,
+  EXPORT_WRITERS,
+  ExportColumn,
+  ExportFile,
+  toReadable,
+} from './export.writers';
+import {
+  TEXT_COLUMN_TYPES,
+  buildHighlights,
+  scoreRecord,
+  tokenize,
+} from './search.scorer';
+
+/**
+ * Error codes thrown by TypeORM and the database drivers
+ */
+type DriverError = {
+  code?: string | number;
+  driverError?: { code?: string | number };
+};
 
 /**
  * Base Service
@@ -20,10 +124,120 @@ import { PaginationOptions, PaginatedResult } from '../../common/interfaces/pagi
  */
 @Injectable()
 export abstract class BaseService<T extends BaseEntity> {
+  /**
+   * Fields that clients may filter on through `PaginationOptions.filters`.
+   * When null, every mapped column of the entity is filterable.
+   * A `filterable` list in the entity's `@QueryPolicy` takes precedence.
+   */
+  protected readonly filterableFields: string[] | null = null;
+
+  /**
+   * Fields that clients may search in through `search` and `SearchOptions`.
+   * When null, every text column of the entity is searchable.
+   */
+  protected readonly searchableFields: string[] | null = null;
+
+  /**
+   * Maximum number of rows scored in memory by the portable search fallback
+   */
+  protected readonly maxSearchCandidates: number = 1000;
+
+  /**
+   * Fields that clients may include in exports.
+   * When null, every mapped column of the entity is exportable.
+   */
+  protected readonly exportableFields: string[] | null = null;
+
+  /**
+   * Number of rows fetched per query while streaming exports
+   */
+  protected readonly exportBatchSize: number = 1000;
+
+  /**
+   * Maximum number of groups an aggregate query may return
+   */
+  protected readonly maxAggregateGroups: number = 1000;
+
+  /**
+   * Days soft-deleted rows are kept before the scheduled purge removes them.
+   * When null, the application-wide retention applies; 0 disables purging.
+   */
+  protected readonly softDeleteRetentionDays: number | null = null;
+
+  /**
+   * Seconds findMany and findById results are cached. When null, only
+   * queries passing `cache: true` are cached, for the default TTL.
+   */
+  protected readonly cacheTTL: number | null = null;
+
+  /**
+   * Audit trail writer, available when the AuditModule is loaded
+   */
+  @Optional()
+  @Inject(AuditService)
+  protected readonly auditService?: AuditService;
+
+  /**
+   * Version history store, available when the HistoryModule is loaded
+   */
+  @Optional()
+  @Inject(HistoryService)
+  protected readonly historyService?: HistoryService;
+
+  /**
+   * Domain event bus, available when the EventsModule is loaded
+   */
+  @Optional()
+  @Inject(EventBusService)
+  protected readonly eventBus?: EventBusService;
+
+  /**
+   * Transaction propagation, available when the DatabaseModule is loaded
+   */
+  @Optional()
+  @Inject(TransactionManagerService)
+  protected readonly transactionManager?: TransactionManagerService;
+
+  /**
+   * Query result cache, available when the DatabaseModule is loaded
+   */
+  @Optional()
+  @Inject(QueryCacheService)
+  protected readonly queryCache?: QueryCacheService;
+
+  /**
+   * Read replica routing, available when the DatabaseModule is loaded
+   */
+  @Optional()
+  @Inject(ReplicaRouterService)
+  protected readonly replicaRouter?: ReplicaRouterService;
+
+  /**
+   * Repository passed by the subclass, bound to the default connection
+   */
+  private readonly defaultRepository: Repository<T>;
+
   constructor(
-    protected readonly repository: Repository<T>,
+    repository: Repository<T>,
     protected readonly dataSource: DataSource,
-  ) {}
+  ) {
+    this.defaultRepository = repository;
+  }
+
+  /**
+   * Repository of the entity, bound to the active transaction if any
+   *
+   * @returns Transactional repository inside `@Transactional()` methods,
+   *          a primary-bound repository after a write in the request when
+   *          reads go to replicas, the injected repository otherwise
+   */
+  protected get repository(): Repository<T> {
+    const manager =
+      this.transactionManager?.getManager() ?? this.replicaRouter?.getManager();
+    return manager
+      ? manager.getRepository<T>(this.defaultRepository.target)
+      : this.defaultRepository;
+  }
 
   /**
    * Creates a new entity
@@ -35,6 +249,9 @@ export abstract class BaseService<T extends BaseEntity> {
    */
   async create(createDto: DeepPartial<T>): Promise<T> {
     try {
+      // Created rows always belong to the request tenant
+      createDto = await this.stampTenant(createDto);
+
       // Validate input data
       const validationErrors = await this.validateCreateData(createDto);
       if (validationErrors.length > 0) {
@@ -50,16 +267,37 @@ export abstract class BaseService<T extends BaseEntity> {
         throw new ConflictException(duplicateCheck);
       }
 
-      // Create and save entity
+      // Create and save entity, with its event when events are enabled
       const entity = this.repository.create(createDto);
-      const savedEntity = await this.repository.save(entity);
+      let event: DomainEvent | null = null;
+      const savedEntity = this.eventBus
+        ? await this.transaction(async (manager) => {
+            const saved = await manager
+              .getRepository<T>(this.repository.target)
+              .save(entity);
+            event = await this.recordEvent(
+              'CREATE',
+              saved.id,
+              null,
+              saved,
+              manager,
+            );
+            return saved;
+          })
+        : await this.repository.save(entity);
 
       // Log creation if enabled
+      await this.afterWrite([savedEntity.id]);
       await this.logOperation('CREATE', savedEntity);
+      await this.publishEvent(event);
 
       return savedEntity;
     } catch (error) {
-      if (error instanceof ConflictException || error instanceof BadRequestException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new InternalServerErrorException('Failed to create entity', error.message);
@@ -79,6 +317,11 @@ export abstract class BaseService<T extends BaseEntity> {
     }
 
     try {
+      // Created rows always belong to the request tenant
+      createDtos = await Promise.all(
+        createDtos.map((dto) => this.stampTenant(dto)),
+      );
+
       // Validate all entities
       const validationErrors: string[] = [];
       for (const dto of createDtos) {
@@ -94,17 +337,21 @@ export abstract class BaseService<T extends BaseEntity> {
       }
 
       // Run in transaction for atomicity
-      const createdEntities = await this.dataSource.transaction(async (manager) => {
+      const createdEntities = await this.transaction(async (manager) => {
         const entities = createDtos.map((dto) => this.repository.create(dto));
         return await manager.save(entities);
       });
 
       // Log bulk creation
+      await this.afterWrite(createdEntities.map((entity) => entity.id));
       await this.logOperation('CREATE_MANY', { count: createdEntities.length });
 
       return createdEntities;
     } catch (error) {
-      if (error instanceof BadRequestException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new InternalServerErrorException('Failed to create entities', error.message);
@@ -127,27 +374,77 @@ export abstract class BaseService<T extends BaseEntity> {
         where,
         relations,
         select,
+        filters,
+        search,
+        searchFields,
+        includeDeleted = false,
+        onlyDeleted = false,
+        cache = this.cacheTTL !== null,
+        cacheTTL = this.cacheTTL ?? undefined,
       } = options;
 
+      // Enforce the entity query policy on client supplied fields
+      this.assertSortable(sortBy);
+      this.assertExpandable(relations);
+      this.assertSelectable(select, relations);
+      this.assertFilterableFields(this.getWhereFields(where));
+
       // Validate pagination parameters
       const skip = Math.max(0, (page - 1) * limit);
       const take = Math.min(Math.max(1, limit), 100); // Max 100 items per page
 
+      // Merge advanced filters and search terms into the base conditions
+      const filtered = this.applyFilters(
+        this.applyTenantScope(this.buildWhereClause(where)),
+        filters,
+      );
+      const conditions = this.applySearch(
+        onlyDeleted
+          ? this.mergeConditions(filtered, { deletedAt: Not(IsNull()) })
+          : filtered,
+        search,
+        searchFields,
+      );
+      const withDeleted = includeDeleted || onlyDeleted;
+
       // Build query options
       const findOptions: FindManyOptions<T> = {
         skip,
         take,
-        where: this.buildWhereClause(where),
+        where: conditions,
         order: this.buildOrderClause(sortBy, sortOrder),
         relations,
-        select,
+        select: this.buildSelectClause(select),
+        withDeleted,
       };
 
-      // Execute queries concurrently for better performance
-      const [entities, total] = await Promise.all([
-        this.repository.find(findOptions),
-        this.repository.count({ where: this.buildWhereClause(where) }),
-      ]);
+      // Execute queries concurrently for better performance; the cache key is
+      // built from the validated inputs rather than the find operators
+      const [entities, total] = await this.cached(
+        'list',
+        {
+          tenant: this.getTenantScope()?.tenantId,
+          where: where as unknown,
+          filters,
+          search,
+          searchFields,
+          sortBy,
+          sortOrder,
+          skip,
+          take,
+          select,
+          relations,
+          includeDeleted,
+          onlyDeleted,
+        },
+        [this.repository.metadata.tableName],
+        cache ? cacheTTL : null,
+        () =>
+          Promise.all([
+            this.repository.find(findOptions),
+            this.repository.count({ where: conditions, withDeleted }),
+          ]),
+      );
 
       // Calculate pagination metadata
       const totalPages = Math.ceil(total / take);
@@ -169,181 +466,1202 @@ export abstract class BaseService<T extends BaseEntity> {
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      throw new InternalServerErrorException('Failed to fetch entities', error.message);
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to fetch entities',
+        error.message,
+      );
     }
   }
 
   /**
-   * Finds a single entity by ID
+   * Searches entities with relevance ranking and highlighting
    *
-   * @param id Entity ID
-   * @param options Additional find options
-   * @returns Promise resolving to entity
-   * @throws NotFoundException if entity not found
+   * Uses a MySQL FULLTEXT index when one covers the searched fields and the
+   * search type is `contains`. Otherwise candidates are narrowed with LIKE
+   * conditions and ranked in memory, which works on every database driver.
+   *
+   * @param options Search options
+   * @param pagination Pagination, sorting and filtering options
+   * @returns Promise resolving to paginated search hits
+   * @throws BadRequestException if the query is empty or fields are not searchable
    */
-  async findById(
-    id: string,
-    options: FindOneOptions<T> = {}
-  ): Promise<T> {
+  async search(
+    options: SearchOptions,
+    pagination: PaginationOptions = {},
+  ): Promise<PaginatedResult<SearchHit<T>>> {
     try {
-      const entity = await this.repository.findOne({
-        where: { id } as any,
-        ...options,
-      });
+      const {
+        page = 1,
+        limit = 10,
+        sortBy = 'createdAt',
+        sortOrder = 'DESC',
+        relations,
+        filters,
+      } = pagination;
+      const {
+        type = 'contains',
+        highlights = false,
+        highlightLimit = 3,
+        sortByRelevance = true,
+      } = options;
 
-      if (!entity) {
-        throw new NotFoundException(`Entity with ID ${id} not found`);
+      if (
+        !['contains', 'exact', 'startsWith', 'endsWith', 'fuzzy'].includes(type)
+      ) {
+        throw new BadRequestException(`Unsupported search type '${type}'`);
       }
 
-      return entity;
+      // Word based types match terms independently, the others the whole query
+      const terms = ['contains', 'fuzzy'].includes(type)
+        ? tokenize(options.query)
+        : [
+            String(options.query ?? '')
+              .trim()
+              .toLowerCase(),
+          ].filter(Boolean);
+      if (terms.length === 0) {
+        throw new BadRequestException('Search query must not be empty');
+      }
+
+      this.assertSortable(sortBy);
+      this.assertFilterableFields(this.getWhereFields(pagination.where));
+
+      const fields = this.resolveSearchFields(options.fields);
+      const take = Math.min(Math.max(1, limit), 100); // Max 100 items per page
+      const skip = Math.max(0, (page - 1) * take);
+      const conditions = this.applyFilters(
+        this.applyTenantScope(this.buildWhereClause(pagination.where)),
+        filters,
+      );
+
+      let scored: { entity: T; score: number }[];
+      let total: number;
+
+      const index = type === 'contains' ? this.findFullTextIndex(fields) : null;
+      if (index) {
+        const alias = 'entity';
+        const match = `MATCH(${index.columns
+          .map((column) => `${alias}.${column.databaseName}`)
+          .join(', ')}) AGAINST (:searchQuery IN NATURAL LANGUAGE MODE)`;
+
+        const query = this.repository
+          .createQueryBuilder(alias)
+          .setFindOptions({ where: conditions, relations })
+          .andWhere(`${match} > :minScore`, {
+            searchQuery: options.query,
+            minScore: options.minScore ?? 0,
+          })
+          .addSelect(match, 'search_score');
+
+        if (sortByRelevance) {
+          query.orderBy('search_score', 'DESC');
+          query.addOrderBy(`${alias}.${sortBy}`, sortOrder);
+        } else {
+          query.orderBy(`${alias}.${sortBy}`, sortOrder);
+        }
+
+        const [{ entities, raw }, count] = await Promise.all([
+          query.skip(skip).take(take).getRawAndEntities(),
+          query.getCount(),
+        ]);
+        const scores = new Map<string, number>(
+          raw.map((row: Record<string, any>) => [
+            String(row[`${alias}_id`]),
+            Number(row.search_score),
+          ]),
+        );
+
+        scored = entities.map((entity) => ({
+          entity,
+          score: scores.get(entity.id) ?? 0,
+        }));
+        total = count;
+      } else {
+        const candidates = await this.repository.find({
+          where: this.buildSearchConditions(conditions, fields, terms, type),
+          relations,
+          order: this.buildOrderClause(
+            sortBy,
+            sortOrder,
+          ) as FindOptionsOrder<T>,
+          take: this.maxSearchCandidates,
+        });
+
+        const minScore = options.minScore ?? (type === 'fuzzy' ? 0.5 : 0);
+        const ranked = candidates
+          .map((entity) => ({
+            entity,
+            score: scoreRecord(entity, fields, terms, type).score,
+          }))
+          .filter(({ score }) => score > 0 && score >= minScore);
+
+        // Stable sort keeps the requested order among equal scores
+        if (sortByRelevance) {
+          ranked.sort((a, b) => b.score - a.score);
+        }
+
+        scored = ranked.slice(skip, skip + take);
+        total = ranked.length;
+      }
+
+      const data = scored.map(({ entity, score }) => {
+        const hit: SearchHit<T> = { item: entity, score };
+        if (highlights) {
+          const { matches } = scoreRecord(entity, fields, terms, type);
+          hit.highlights = buildHighlights(entity, matches, highlightLimit);
+        }
+        return hit;
+      });
+
+      return {
+        data,
+        pagination: this.buildPaginationMetadata(
+          page,
+          take,
+          total,
+          data.length,
+        ),
+        timestamp: new Date().toISOString(),
+        metadata: {
+          search: options.query,
+          filters,
+          sorting: sortByRelevance
+            ? undefined
+            : { field: sortBy, order: sortOrder },
+          totalItems: total,
+        },
+      };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
-      throw new InternalServerErrorException('Failed to fetch entity', error.message);
+      throw new InternalServerErrorException(
+        'Failed to search entities',
+        error.message,
+      );
     }
   }
 
   /**
-   * Finds a single entity by custom conditions
+   * Finds entities using cursor (keyset) pagination
    *
-   * @param where Conditions to find entity by
-   * @param options Additional find options
-   * @returns Promise resolving to entity or null if not found
+   * Rows are ordered by the sort field with `id` as a tiebreaker, so paging
+   * stays stable and fast on large tables where OFFSET paging degrades.
+   * Cursors are opaque and signed; a cursor can only be used with the sort
+   * and the conditions it was issued for. The sort field must not be
+   * nullable, as NULLs cannot be compared to a keyset position.
+   *
+   * @param options Cursor pagination options
+   * @returns Promise resolving to cursor paginated result
+   * @throws BadRequestException if the cursor or sort field is invalid
    */
-  async findOne(
-    where: Partial<T>,
-    options: FindOneOptions<T> = {}
-  ): Promise<T | null> {
+  async findManyByCursor(
+    options: CursorPaginationOptions = {},
+  ): Promise<CursorPaginationResult<T>> {
     try {
-      return await this.repository.findOne({
-        where: where as any,
-        ...options,
+      const {
+        limit = 10,
+        cursor,
+        direction = 'forward',
+        sortOrder = 'DESC',
+        filters,
+        relations,
+      } = options;
+      const sortBy = options.sortBy || options.cursorField || 'createdAt';
+      const take = Math.min(Math.max(1, limit), 100); // Max 100 items per page
+
+      if (!['ASC', 'DESC'].includes(sortOrder)) {
+        throw new BadRequestException('sortOrder must be ASC or DESC');
+      }
+
+      if (!['forward', 'backward'].includes(direction)) {
+        throw new BadRequestException('direction must be forward or backward');
+      }
+
+      this.assertSortable(sortBy);
+      const sortColumn = this.repository.metadata.columns.find(
+        (column) => column.propertyName === sortBy,
+      );
+      if (sortColumn?.isNullable) {
+        throw new BadRequestException(
+          `Cannot paginate by nullable field '${sortBy}'`,
+        );
+      }
+
+      const alias = 'entity';
+      const queryHash = hashCursorQuery({
+        where: options.where as unknown,
+        filters,
+      });
+      const query = this.repository.createQueryBuilder(alias).setFindOptions({
+        where: this.applyFilters(
+          this.applyTenantScope(this.buildWhereClause(options.where)),
+          filters,
+        ),
+        relations,
       });
+
+      // Paging backward walks the index in reverse, then restores the order
+      const backward = direction === 'backward';
+      const ascending = (sortOrder === 'ASC') !== backward;
+      const queryOrder = ascending ? 'ASC' : 'DESC';
+
+      if (cursor) {
+        const position = decodeCursor(cursor, getCursorSecret());
+        if (!position) {
+          throw new BadRequestException('Invalid cursor');
+        }
+        if (position.field !== sortBy || position.order !== sortOrder) {
+          throw new BadRequestException(
+            'Cursor does not match the requested sort',
+          );
+        }
+        if (position.query !== queryHash) {
+          throw new BadRequestException(
+            'Cursor does not match the requested conditions',
+          );
+        }
+
+        this.applyKeyset(query, alias, sortBy, ascending, position);
+      }
+
+      query
+        .orderBy(`${alias}.${sortBy}`, queryOrder)
+        .addOrderBy(`${alias}.id`, queryOrder)
+        .take(take + 1);
+
+      const rows = await query.getMany();
+      const hasMore = rows.length > take;
+      const entities = rows.slice(0, take);
+      if (backward) {
+        entities.reverse();
+      }
+
+      const toCursor = (entity: T) =>
+        encodeCursor(
+          {
+            field: sortBy,
+            order: sortOrder,
+            value: entity[sortBy as keyof T],
+            id: entity.id,
+            query: queryHash,
+          },
+          getCursorSecret(),
+        );
+
+      // Moving in one direction implies rows exist behind the starting cursor
+      const hasNext = backward ? !!cursor : hasMore;
+      const hasPrevious = backward ? hasMore : !!cursor;
+      const first = entities[0];
+      const last = entities[entities.length - 1];
+
+      return {
+        data: entities,
+        cursor: {
+          nextCursor: last && hasNext ? toCursor(last) : undefined,
+          previousCursor: first && hasPrevious ? toCursor(first) : undefined,
+          hasNext,
+          hasPrevious,
+          count: entities.length,
+          limit: take,
+        },
+        timestamp: new Date().toISOString(),
+      };
     } catch (error) {
-      throw new InternalServerErrorException('Failed to find entity', error.message);
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to fetch entities',
+        error.message,
+      );
     }
   }
 
   /**
-   * Updates an entity
+   * Exports entities as a file stream
    *
-   * @param id Entity ID
-   * @param updateDto Data for updating the entity
-   * @returns Promise resolving to updated entity
-   * @throws NotFoundException if entity not found
-   * @throws BadRequestException if validation fails
+   * Rows are read in keyset-paginated batches of `exportBatchSize` and
+   * serialized as they arrive, so memory use does not grow with the size
+   * of the export.
+   *
+   * @param options Export options
+   * @returns Promise resolving to the export file and its content stream
+   * @throws BadRequestException if the format, encoding, fields, sort or filters are invalid
    */
-  async update(
-    id: string,
-    updateDto: DeepPartial<T>
-  ): Promise<T> {
+  async export(options: ExportOptions): Promise<ExportFile> {
     try {
-      // Find existing entity
-      const entity = await this.findById(id);
+      const {
+        format,
+        includeHeaders = true,
+        fieldMappings = {},
+        pagination = {},
+      } = options;
 
-      // Validate update data
-      const validationErrors = await this.validateUpdateData(entity, updateDto);
-      if (validationErrors.length > 0) {
-        throw new BadRequestException({
-          message: 'Validation failed',
-          errors: validationErrors,
-        });
+      const writer = EXPORT_WRITERS[format];
+      if (!writer) {
+        throw new BadRequestException(`Unsupported export format '${format}'`);
       }
 
-      // Check for conflicts
-      const conflictCheck = await this.checkForConflicts(entity, updateDto);
-      if (conflictCheck) {
-        throw new ConflictException(conflictCheck);
+      // Workbooks are zipped XML and always UTF-8
+      const encoding =
+        format === 'xlsx'
+          ? 'utf8'
+          : String(options.encoding || 'utf8').toLowerCase();
+      const charset = EXPORT_CHARSETS[encoding];
+      if (!charset) {
+        throw new BadRequestException(
+          `Unsupported export encoding '${options.encoding}'`,
+        );
       }
 
-      // Merge and save changes
-      this.repository.merge(entity, updateDto);
-      const updatedEntity = await this.repository.save(entity);
+      const columns = this.resolveExportColumns(options.fields, fieldMappings);
 
-      // Log update
-      await this.logOperation('UPDATE', updatedEntity);
+      const sortBy =
+        options.sort?.[0]?.field ?? pagination.sortBy ?? 'createdAt';
+      const sortOrder =
+        options.sort?.[0]?.direction ?? pagination.sortOrder ?? 'ASC';
+      this.assertSortable(sortBy);
+      if (sortOrder !== 'ASC' && sortOrder !== 'DESC') {
+        throw new BadRequestException('sortOrder must be ASC or DESC');
+      }
 
-      return updatedEntity;
+      const filters = options.dateRange
+        ? { ...options.filters, dateRange: options.dateRange }
+        : (options.filters ?? pagination.filters);
+      const where = this.applySearch(
+        this.applyFilters(
+          this.applyTenantScope(this.buildWhereClause(pagination.where)),
+          filters,
+        ),
+        pagination.search,
+        pagination.searchFields,
+      );
+
+      const batches = this.streamInBatches(
+        where,
+        pagination.relations,
+        sortBy,
+        sortOrder,
+        this.exportBatchSize,
+      );
+
+      // Run the first query now so failures surface before the download starts
+      const first = await batches.next();
+      const rows = (async function* () {
+        if (first.done) {
+          return;
+        }
+        yield* first.value;
+        for await (const batch of batches) {
+          yield* batch;
+        }
+      })();
+
+      await this.logOperation('EXPORT', {
+        format,
+        fields: columns.map((column) => column.field),
+      });
+
+      const baseName = (
+        options.fileName ||
+        `${this.repository.metadata.tableName}-export-${new Date().toISOString().slice(0, 10)}`
+      )
+        .replace(/[^\w.-]+/g, '_')
+        .replace(new RegExp(`\\.${writer.extension}$`, 'i'), '');
+
+      return {
+        fileName: `${baseName}.${writer.extension}`,
+        contentType: writer.contentType(charset),
+        stream: toReadable(
+          writer.write(rows, columns, { includeHeaders, charset }),
+          encoding as BufferEncoding,
+        ),
+      };
     } catch (error) {
-      if (error instanceof NotFoundException ||
-          error instanceof BadRequestException ||
-          error instanceof ConflictException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
-      throw new InternalServerErrorException('Failed to update entity', error.message);
+      throw new InternalServerErrorException(
+        'Failed to export entities',
+        error.message,
+      );
     }
   }
 
   /**
-   * Updates multiple entities
+   * Aggregates entities, optionally grouped by fields and date buckets
    *
-   * @param where Conditions to find entities to update
-   * @param updateDto Data for updating entities
-   * @returns Promise resolving to update result
+   * Accepts the same where conditions, filters and search as findMany.
+   * Metric, group-by and date fields must be aggregatable columns.
+   *
+   * @param options Metrics, grouping and filters
+   * @returns Promise resolving to aggregated rows ordered by bucket and group
+   * @throws BadRequestException if a metric, field or interval is invalid
    */
-  async updateMany(
-    where: Partial<T>,
-    updateDto: DeepPartial<T>
-  ): Promise<{ affected: number }> {
+  async aggregate(options: AggregateOptions = {}): Promise<AggregateResult> {
     try {
-      const result = await this.repository.update(where, updateDto);
+      const {
+        metrics = [{ fn: 'count' }],
+        groupBy = [],
+        interval,
+        dateField = 'createdAt',
+        includeDeleted = false,
+      } = options;
 
-      // Log bulk update
-      await this.logOperation('UPDATE_MANY', {
-        where,
-        updateData: updateDto,
-        affected: result.affected
+      this.assertAggregateQuery(
+        metrics,
+        groupBy,
+        interval ? dateField : undefined,
+        interval,
+      );
+
+      const where = this.applySearch(
+        this.applyFilters(
+          this.applyTenantScope(this.buildWhereClause(options.where)),
+          options.filters,
+        ),
+        options.search,
+        options.searchFields,
+      );
+
+      const alias = 'entity';
+      const query = this.repository
+        .createQueryBuilder(alias)
+        .setFindOptions({ where, withDeleted: includeDeleted })
+        .select([]);
+
+      if (interval) {
+        const bucket = bucketExpression(
+          this.dataSource.options?.type,
+          interval,
+          `${alias}.${dateField}`,
+        );
+        query.addSelect(bucket, 'bucket').addGroupBy(bucket);
+        query.addOrderBy('bucket', 'ASC');
+      }
+      groupBy.forEach((field, index) => {
+        query
+          .addSelect(`${alias}.${field}`, `group_${index}`)
+          .addGroupBy(`${alias}.${field}`)
+          .addOrderBy(`${alias}.${field}`, 'ASC');
+      });
+      metrics.forEach(({ fn, field }, index) => {
+        query.addSelect(
+          metricExpression(fn, field && `${alias}.${field}`),
+          `metric_${index}`,
+        );
       });
 
-      return result;
+      const raw: Record<string, unknown>[] = await query
+        .limit(this.maxAggregateGroups + 1)
+        .getRawMany();
+      if (raw.length > this.maxAggregateGroups) {
+        throw new BadRequestException(
+          `Aggregate yields more than ${this.maxAggregateGroups} groups; narrow the filters, grouping or interval`,
+        );
+      }
+
+      const keyed = metrics.map((metric) => ({
+        ...metric,
+        key: metric.field ? `${metric.fn}_${metric.field}` : metric.fn,
+      }));
+
+      return {
+        metrics: keyed,
+        groupBy,
+        interval,
+        rows: raw.map((row) => ({
+          ...(interval && { bucket: toBucketTimestamp(row.bucket) }),
+          group: Object.fromEntries(
+            groupBy.map((field, index) => [field, row[`group_${index}`]]),
+          ),
+          values: Object.fromEntries(
+            keyed.map((metric, index) => [
+              metric.key,
+              this.toMetricValue(metric, row[`metric_${index}`]),
+            ]),
+          ),
+        })),
+        timestamp: new Date().toISOString(),
+      };
     } catch (error) {
-      throw new InternalServerErrorException('Failed to update entities', error.message);
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to aggregate entities',
+        error.message,
+      );
     }
   }
 
   /**
-   * Soft deletes an entity
+   * Finds a single entity by ID
    *
    * @param id Entity ID
-   * @returns Promise resolving to deletion result
+   * @param options Additional find options
+   * @returns Promise resolving to entity
    * @throws NotFoundException if entity not found
    */
-  async softDelete(id: string): Promise<{ affected: number }> {
+  async findById(
+    id: string,
+    options: FindOneOptions<T> = {}
+  ): Promise<T> {
     try {
-      // Check if entity exists
-      await this.findById(id);
+      // Enforce the entity query policy on selected fields and relations
+      const relations = Array.isArray(options.relations)
+        ? options.relations
+        : undefined;
+      this.assertExpandable(relations);
+      if (Array.isArray(options.select)) {
+        const select = options.select as string[];
+        this.assertSelectable(select, relations);
+        options = { ...options, select: this.buildSelectClause(select) };
+      }
 
-      const result = await this.repository.softDelete(id);
+      // The cache option is ours, not TypeORM's query result cache
+      const { cache, ...findOptions } = options;
+      const where = this.applyTenantScope({ id });
+      const tableName = this.repository.metadata.tableName;
+      const entity = await this.cached(
+        'item',
+        { where, ...findOptions },
+        [`${tableName}:${id}`, `${tableName}:items`],
+        cache !== false && (cache || this.cacheTTL !== null)
+          ? (this.cacheTTL ?? undefined)
+          : null,
+        () => this.repository.findOne({ where, ...findOptions }),
+      );
 
-      // Log soft delete
-      await this.logOperation('SOFT_DELETE', { id });
+      if (!entity) {
+        await this.detectCrossTenantAccess(id);
+        throw new NotFoundException(`Entity with ID ${id} not found`);
+      }
 
-      return result;
+      return entity;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
-      throw new InternalServerErrorException('Failed to delete entity', error.message);
+      throw new InternalServerErrorException('Failed to fetch entity', error.message);
     }
   }
 
   /**
-   * Restores a soft-deleted entity
+   * Finds the state of an entity at a point in time
+   *
+   * Returns the current row if it was already current at that time,
+   * otherwise the stored version that was current then.
    *
    * @param id Entity ID
-   * @returns Promise resolving to restore result
-   * @throws NotFoundException if entity not found
+   * @param asOf Point in time
+   * @param select Fields to return (default: all fields)
+   * @returns Promise resolving to the entity as it was at that time
+   * @throws BadRequestException if the entity does not track history
+   * @throws NotFoundException if the entity did not exist at that time
    */
-  async restore(id: string): Promise<T> {
-    try {
+  async findByIdAsOf(id: string, asOf: Date, select?: string[]): Promise<T> {
+    this.assertHistoryTracked();
+    if (select) {
+      this.assertSelectable(select);
+    }
+
+    try {
+      const current = await this.repository.findOne({
+        where: this.applyTenantScope({ id }),
+        withDeleted: true,
+      });
+      const notFound = new NotFoundException(
+        `Entity with ID ${id} not found at ${asOf.toISOString()}`,
+      );
+      if (!current || asOf < current.createdAt) {
+        throw notFound;
+      }
+
+      let entity: T;
+      if (current.updatedAt <= asOf) {
+        if (current.deletedAt && current.deletedAt <= asOf) {
+          throw notFound;
+        }
+        entity = current;
+      } else {
+        const history = await this.historyService!.findAsOf(
+          this.repository.metadata.tableName,
+          id,
+          asOf,
+        );
+        if (!history) {
+          throw notFound;
+        }
+        entity = this.repository.create(history.snapshot as DeepPartial<T>);
+      }
+
+      if (!select) {
+        return entity;
+      }
+      return Object.fromEntries(
+        select.map((field) => [field, entity[field as keyof T]]),
+      ) as unknown as T;
+    } catch (error) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to fetch entity version',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Lists the stored previous versions of an entity, newest first
+   *
+   * @param id Entity ID
+   * @param page Page number (1-based)
+   * @param limit Versions per page
+   * @returns Promise resolving to paginated version snapshots
+   * @throws BadRequestException if the entity does not track history
+   */
+  async findHistory(
+    id: string,
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedResult<EntityHistory>> {
+    this.assertHistoryTracked();
+
+    // History rows carry no tenant, so the entity itself must be visible
+    if (this.getTenantScope()) {
+      await this.findById(id, { withDeleted: true });
+    }
+
+    return this.historyService!.findMany(
+      this.repository.metadata.tableName,
+      id,
+      page,
+      limit,
+    );
+  }
+
+  /**
+   * Finds a single entity by custom conditions
+   *
+   * @param where Conditions to find entity by
+   * @param options Additional find options
+   * @returns Promise resolving to entity or null if not found
+   */
+  async findOne(
+    where: Partial<T>,
+    options: FindOneOptions<T> = {}
+  ): Promise<T | null> {
+    try {
+      return await this.repository.findOne({
+        where: this.applyTenantScope(where),
+        ...options,
+      });
+    } catch (error) {
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to find entity', error.message);
+    }
+  }
+
+  /**
+   * Updates an entity
+   *
+   * When an expected version is given, the row is locked and its version
+   * compared before the change is written (optimistic concurrency control).
+   * For entities with tracked history, the replaced version is stored in
+   * the same transaction.
+   *
+   * @param id Entity ID
+   * @param updateDto Data for updating the entity
+   * @param expectedVersion Version the client last read (skips the check when omitted)
+   * @returns Promise resolving to updated entity
+   * @throws NotFoundException if entity not found
+   * @throws BadRequestException if validation fails
+   * @throws ConflictException if the entity was modified since it was read
+   */
+  async update(
+    id: string,
+    updateDto: DeepPartial<T>,
+    expectedVersion?: number,
+  ): Promise<T> {
+    try {
+      // The version column is maintained by TypeORM, never by clients
+      const changes = { ...updateDto };
+      delete (changes as { version?: unknown }).version;
+
+      // Rows cannot be moved to another tenant
+      await this.stampTenant(changes, id);
+
+      // Find existing entity
+      const entity = await this.findById(id, { cache: false });
+      if (expectedVersion !== undefined) {
+        this.assertVersion(entity, expectedVersion);
+      }
+
+      // Validate update data
+      const validationErrors = await this.validateUpdateData(entity, changes);
+      if (validationErrors.length > 0) {
+        throw new BadRequestException({
+          message: 'Validation failed',
+          errors: validationErrors,
+        });
+      }
+
+      // Check for conflicts
+      const conflictCheck = await this.checkForConflicts(entity, changes);
+      if (conflictCheck) {
+        throw new ConflictException(conflictCheck);
+      }
+
+      // Merge and save changes; the row is re-read on the primary when it
+      // may have come from a lagging replica
+      let before: T = { ...entity };
+      let updatedEntity: T;
+      let event: DomainEvent | null = null;
+      if (
+        expectedVersion === undefined &&
+        !this.tracksHistory() &&
+        !this.eventBus &&
+        !this.replicaRouter?.isEnabled()
+      ) {
+        this.repository.merge(entity, changes);
+        updatedEntity = await this.repository.save(entity);
+      } else {
+        updatedEntity = await this.transaction(async (manager) => {
+          const repository = manager.getRepository<T>(this.repository.target);
+          const current = await repository.findOne({
+            where: this.applyTenantScope({ id }),
+            lock: this.rowLock(),
+          });
+          if (!current) {
+            throw new NotFoundException(`Entity with ID ${id} not found`);
+          }
+          if (expectedVersion !== undefined) {
+            this.assertVersion(current, expectedVersion);
+          }
+
+          before = { ...current };
+          repository.merge(current, changes);
+          const saved = await repository.save(current);
+
+          await this.recordHistory(
+            before,
+            'UPDATE',
+            saved.updatedAt ?? new Date(),
+            manager,
+          );
+          event = await this.recordEvent('UPDATE', id, before, saved, manager);
+          return saved;
+        });
+      }
+
+      // Log update
+      await this.afterWrite([id]);
+      await this.logOperation('UPDATE', updatedEntity, before);
+      await this.publishEvent(event);
+
+      return updatedEntity;
+    } catch (error) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to update entity', error.message);
+    }
+  }
+
+  /**
+   * Reverts an entity to a stored version
+   *
+   * The column values of the version are written as a regular update, so
+   * the reverted state becomes a new version and the replaced one is kept
+   * in the history.
+   *
+   * @param id Entity ID
+   * @param version Version to revert to
+   * @param expectedVersion Version the client last read (skips the check when omitted)
+   * @returns Promise resolving to the reverted entity
+   * @throws BadRequestException if the entity does not track history
+   * @throws NotFoundException if the entity or the version is not found
+   * @throws ConflictException if the entity was modified since it was read
+   */
+  async revertToVersion(
+    id: string,
+    version: number,
+    expectedVersion?: number,
+  ): Promise<T> {
+    this.assertHistoryTracked();
+
+    const history = await this.historyService!.findVersion(
+      this.repository.metadata.tableName,
+      id,
+      version,
+    );
+    if (!history) {
+      throw new NotFoundException(
+        `Version ${version} of entity with ID ${id} not found`,
+      );
+    }
+
+    const changes = { ...history.snapshot };
+    for (const field of [
+      'id',
+      'version',
+      'createdAt',
+      'updatedAt',
+      'deletedAt',
+    ]) {
+      delete changes[field];
+    }
+
+    const entity = await this.update(
+      id,
+      changes as DeepPartial<T>,
+      expectedVersion,
+    );
+    await this.logOperation('REVERT', { id, version });
+
+    return entity;
+  }
+
+  /**
+   * Creates an entity, or updates the entity with the same natural key
+   *
+   * The entity must declare its natural key with `@NaturalKey()`. A
+   * soft-deleted match is restored and updated, so re-running an import
+   * does not fail on rows deleted in between.
+   *
+   * @param dto Entity data including every natural key field
+   * @returns Promise resolving to the stored entity and whether it was created
+   * @throws BadRequestException if no natural key is declared, a key field is missing or validation fails
+   * @throws ConflictException if the create or update conflicts
+   */
+  async upsert(dto: DeepPartial<T>): Promise<UpsertResult<T>> {
+    try {
+      const data = await this.stampTenant(dto);
+      const existing = await this.findByNaturalKey(data);
+
+      if (!existing) {
+        return { entity: await this.create(data), created: true };
+      }
+
+      if (existing.deletedAt) {
+        await this.restore(existing.id);
+      }
+
+      // The matched row keeps its own ID
+      const changes = { ...data };
+      delete (changes as { id?: unknown }).id;
+
+      return {
+        entity: await this.update(existing.id, changes),
+        created: false,
+      };
+    } catch (error) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to upsert entity',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Updates multiple entities
+   *
+   * @param where Conditions to find entities to update
+   * @param updateDto Data for updating entities
+   * @returns Promise resolving to update result
+   */
+  async updateMany(
+    where: Partial<T>,
+    updateDto: DeepPartial<T>
+  ): Promise<{ affected: number }> {
+    try {
+      const result = await this.repository.update(
+        this.applyTenantScope(where),
+        await this.stampTenant(updateDto as QueryDeepPartialEntity<T>),
+      );
+
+      // Log bulk update
+      await this.afterWrite();
+      await this.logOperation('UPDATE_MANY', {
+        where,
+        updateData: updateDto,
+        affected: result.affected
+      });
+
+      return { affected: result.affected ?? 0 };
+    } catch (error) {
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to update entities', error.message);
+    }
+  }
+
+  /**
+   * Creates entities in batches
+   *
+   * @param createDtos Array of entity data
+   * @param options Bulk operation options
+   * @returns Promise resolving to bulk operation result with per-row errors
+   * @throws BadRequestException if no data is provided
+   */
+  async bulkCreate(
+    createDtos: DeepPartial<T>[],
+    options: BulkOperationsOptions = {},
+  ): Promise<BulkOperationResult> {
+    this.assertBulkItems(createDtos);
+    return await this.runBulkOperation(
+      'CREATE',
+      createDtos,
+      options,
+      (dto, manager) => this.createRow(dto, manager),
+    );
+  }
+
+  /**
+   * Updates entities by ID in batches
+   *
+   * @param updateDtos Array of entity data, each including its `id`
+   * @param options Bulk operation options
+   * @returns Promise resolving to bulk operation result with per-row errors
+   * @throws BadRequestException if no data is provided
+   */
+  async bulkUpdate(
+    updateDtos: (DeepPartial<T> & { id: string })[],
+    options: BulkOperationsOptions = {},
+  ): Promise<BulkOperationResult> {
+    this.assertBulkItems(updateDtos);
+    return await this.runBulkOperation(
+      'UPDATE',
+      updateDtos,
+      options,
+      async (dto, manager) => {
+        const entity = await this.findRow(dto.id, manager);
+        await this.updateRow(entity, dto, manager);
+      },
+      (dto) => dto.id,
+    );
+  }
+
+  /**
+   * Creates or updates entities in batches
+   *
+   * Rows with an `id` of an existing entity are updated, all others are created.
+   * Rows without an `id` of an entity declaring a natural key are matched on
+   * that key instead; soft-deleted matches are restored.
+   *
+   * @param dtos Array of entity data
+   * @param options Bulk operation options
+   * @returns Promise resolving to bulk operation result with per-row errors
+   * @throws BadRequestException if no data is provided
+   */
+  async bulkUpsert(
+    dtos: DeepPartial<T>[],
+    options: BulkOperationsOptions = {},
+  ): Promise<BulkOperationResult> {
+    this.assertBulkItems(dtos);
+    return await this.runBulkOperation(
+      'UPSERT',
+      dtos,
+      options,
+      async (dto, manager) => {
+        const id = (dto as { id?: string }).id;
+        const repository = manager.getRepository<T>(this.repository.target);
+        let entity: T | null = null;
+
+        if (id) {
+          entity = await repository.findOne({
+            where: this.applyTenantScope({ id }),
+          });
+        } else if (getNaturalKey(this.repository.target)) {
+          entity = await this.findByNaturalKey(
+            await this.stampTenant(dto),
+            manager,
+          );
+          if (entity?.deletedAt) {
+            await repository.restore(entity.id);
+            entity.deletedAt = undefined;
+          }
+        }
+
+        if (entity) {
+          await this.updateRow(entity, dto, manager);
+        } else {
+          await this.createRow(dto, manager);
+        }
+      },
+      (dto) => (dto as { id?: string }).id,
+    );
+  }
+
+  /**
+   * Soft deletes entities in batches
+   *
+   * Targets `options.ids`, or every entity matching `options.where`. The
+   * conditions come from requests, so like filters they may only name
+   * filterable fields, and only compare them to plain values.
+   *
+   * @param options Bulk operation options
+   * @returns Promise resolving to bulk operation result with per-row errors
+   * @throws BadRequestException if neither ids nor valid conditions are
+   *         provided
+   */
+  async bulkDelete(
+    options: BulkOperationsOptions = {},
+  ): Promise<BulkOperationResult> {
+    let ids: string[];
+
+    if (Array.isArray(options.ids) && options.ids.length > 0) {
+      if (options.ids.some((id: unknown) => typeof id !== 'string')) {
+        throw new BadRequestException('ids must be an array of strings');
+      }
+      ids = options.ids;
+    } else {
+      const where = this.buildBulkDeleteConditions(options.where);
+      const matches = await this.repository.find({
+        where: this.applyTenantScope(this.buildWhereClause(where)),
+        select: { id: true } as FindOptionsSelect<T>,
+      });
+      ids = matches.map((entity) => entity.id);
+    }
+
+    return await this.runBulkOperation(
+      'DELETE',
+      ids,
+      options,
+      async (id, manager) => {
+        const result = await manager
+          .getRepository<T>(this.repository.target)
+          .softDelete(this.applyTenantScope({ id }));
+        if (!result.affected) {
+          throw new NotFoundException(`Entity with ID ${id} not found`);
+        }
+      },
+      (id) => id,
+    );
+  }
+
+  /**
+   * Soft deletes an entity
+   *
+   * @param id Entity ID
+   * @returns Promise resolving to deletion result
+   * @throws NotFoundException if entity not found
+   */
+  async softDelete(id: string): Promise<{ affected: number }> {
+    try {
+      // Check if entity exists
+      const entity = await this.findById(id, { cache: false });
+
+      let event: DomainEvent | null = null;
+      const result =
+        this.tracksHistory() || this.eventBus
+          ? await this.transaction(async (manager) => {
+              const repository = manager.getRepository<T>(
+                this.repository.target,
+              );
+              const current = await repository.findOne({
+                where: this.applyTenantScope({ id }),
+                lock: this.rowLock(),
+              });
+              if (!current) {
+                throw new NotFoundException(`Entity with ID ${id} not found`);
+              }
+
+              await this.recordHistory(
+                current,
+                'SOFT_DELETE',
+                new Date(),
+                manager,
+              );
+              event = await this.recordEvent(
+                'SOFT_DELETE',
+                id,
+                current,
+                null,
+                manager,
+              );
+              return await repository.softDelete(id);
+            })
+          : await this.repository.softDelete(id);
+
+      // Log soft delete
+      await this.afterWrite([id]);
+      await this.logOperation('SOFT_DELETE', { id }, entity);
+      await this.publishEvent(event);
+
+      return result;
+    } catch (error) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to delete entity', error.message);
+    }
+  }
+
+  /**
+   * Restores a soft-deleted entity
+   *
+   * @param id Entity ID
+   * @returns Promise resolving to restore result
+   * @throws NotFoundException if entity not found
+   */
+  async restore(id: string): Promise<T> {
+    try {
       // Find soft-deleted entity
       const entity = await this.repository.findOne({
-        where: { id } as any,
+        where: this.applyTenantScope({ id }),
         withDeleted: true,
       });
 
       if (!entity) {
+        await this.detectCrossTenantAccess(id);
         throw new NotFoundException(`Entity with ID ${id} not found`);
       }
 
@@ -352,14 +1670,40 @@ export abstract class BaseService<T extends BaseEntity> {
       }
 
       // Restore entity
-      await this.repository.restore(id);
+      let event: DomainEvent | null = null;
+      if (this.eventBus) {
+        await this.transaction(async (manager) => {
+          const repository = manager.getRepository<T>(this.repository.target);
+          await repository.restore(id);
+          const restored = await repository.findOneBy({
+            id,
+          } as FindOptionsWhere<T>);
+          event = await this.recordEvent(
+            'RESTORE',
+            id,
+            entity,
+            restored,
+            manager,
+          );
+        });
+      } else {
+        await this.repository.restore(id);
+      }
+
+      await this.afterWrite([id]);
+      const restoredEntity = await this.findById(id, { cache: false });
 
       // Log restore
-      await this.logOperation('RESTORE', { id });
+      await this.logOperation('RESTORE', restoredEntity, entity);
+      await this.publishEvent(event);
 
-      return await this.findById(id);
+      return restoredEntity;
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof BadRequestException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new InternalServerErrorException('Failed to restore entity', error.message);
@@ -367,7 +1711,7 @@ export abstract class BaseService<T extends BaseEntity> {
   }
 
   /**
-   * Permanently deletes an entity
+   * Permanently deletes an entity, including soft-deleted ones
    *
    * @param id Entity ID
    * @returns Promise resolving to deletion result
@@ -376,22 +1720,113 @@ export abstract class BaseService<T extends BaseEntity> {
   async delete(id: string): Promise<{ affected: number }> {
     try {
       // Check if entity exists
-      await this.findById(id);
+      const entity = await this.findById(id, {
+        withDeleted: true,
+        cache: false,
+      });
 
-      const result = await this.repository.delete(id);
+      let event: DomainEvent | null = null;
+      const result = this.eventBus
+        ? await this.transaction(async (manager) => {
+            event = await this.recordEvent('DELETE', id, entity, null, manager);
+            return await manager
+              .getRepository<T>(this.repository.target)
+              .delete(id);
+          })
+        : await this.repository.delete(id);
 
       // Log permanent delete
-      await this.logOperation('DELETE', { id });
+      await this.afterWrite([id]);
+      await this.logOperation('DELETE', { id }, entity);
+      await this.publishEvent(event);
 
       return result;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException
+      ) {
         throw error;
       }
       throw new InternalServerErrorException('Failed to delete entity', error.message);
     }
   }
 
+  /**
+   * Permanently deletes entities soft-deleted before a point in time
+   *
+   * Rows are removed in batches to keep locks short on large tables.
+   *
+   * @param olderThan Purge rows whose deletedAt is before this date
+   * @param batchSize Rows removed per statement
+   * @returns Promise resolving to the number of purged rows
+   */
+  async purgeDeleted(
+    olderThan: Date,
+    batchSize = 1000,
+  ): Promise<{ affected: number }> {
+    try {
+      let affected = 0;
+
+      for (;;) {
+        const rows = await this.repository.find({
+          select: { id: true } as FindOptionsSelect<T>,
+          where: this.applyTenantScope({ deletedAt: LessThan(olderThan) }),
+          withDeleted: true,
+          take: batchSize,
+        });
+        if (rows.length === 0) {
+          break;
+        }
+
+        const result = await this.repository.delete(rows.map((row) => row.id));
+        affected += result.affected ?? rows.length;
+
+        if (rows.length < batchSize) {
+          break;
+        }
+      }
+
+      // Log purge
+      if (affected > 0) {
+        await this.afterWrite();
+      }
+      await this.logOperation('PURGE', {
+        olderThan: olderThan.toISOString(),
+        affected,
+      });
+
+      return { affected };
+    } catch (error) {
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to purge deleted entities',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Purges soft-deleted entities past their retention period
+   *
+   * @param defaultRetentionDays Retention used when the service does not set its own
+   * @returns Promise resolving to the number of purged rows (0 when purging is disabled)
+   */
+  async purgeExpired(
+    defaultRetentionDays: number,
+  ): Promise<{ affected: number }> {
+    const retentionDays = this.softDeleteRetentionDays ?? defaultRetentionDays;
+    if (!(retentionDays > 0)) {
+      return { affected: 0 };
+    }
+
+    return this.purgeDeleted(
+      new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000),
+    );
+  }
+
   /**
    * Counts entities matching conditions
    *
@@ -401,9 +1836,12 @@ export abstract class BaseService<T extends BaseEntity> {
   async count(where: Partial<T> = {}): Promise<number> {
     try {
       return await this.repository.count({
-        where: where as any,
+        where: this.applyTenantScope(where),
       });
     } catch (error) {
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
       throw new InternalServerErrorException('Failed to count entities', error.message);
     }
   }
@@ -417,7 +1855,7 @@ export abstract class BaseService<T extends BaseEntity> {
   async exists(where: Partial<T>): Promise<boolean> {
     try {
       const count = await this.repository.count({
-        where: where as any,
+        where: this.applyTenantScope(where),
       });
       return count > 0;
     } catch (error) {
@@ -472,16 +1910,163 @@ export abstract class BaseService<T extends BaseEntity> {
   /**
    * Logs service operations
    *
+   * Entity data is recorded in the audit trail as the state after the
+   * operation; any other data is stored as operation metadata.
+   *
    * @param operation Type of operation
-   * @param data Operation data
+   * @param data Operation data or the resulting entity
+   * @param before Entity state before the operation
    */
-  protected async logOperation(operation: string, data: any): Promise<void> {
+  protected async logOperation(
+    operation: string,
+    data: any,
+    before?: T | null,
+  ): Promise<void> {
     // Override in child classes for custom logging
     console.log(`${this.constructor.name}:${operation}`, {
       timestamp: new Date().toISOString(),
       ...data,
     });
-  }
+
+    const isEntity = data instanceof BaseEntity;
+    const record = (data ?? null) as Record<string, unknown> | null;
+    await this.auditService?.record({
+      operation,
+      entityType: this.repository.metadata.tableName,
+      entityId: (record?.id as string | undefined) ?? before?.id ?? null,
+      before: before ?? null,
+      after: isEntity ? record : null,
+      metadata: isEntity ? null : record,
+    });
+  }
+
+  /**
+   * Runs a bulk operation in batches
+   *
+   * Transactional batches are atomic: a row failing with a non-transient
+   * error rolls the batch back; with `continueOnError` the batch is retried
+   * without that row, otherwise processing stops. Transient database errors
+   * (deadlocks, lock timeouts, lost connections) are retried up to
+   * `maxRetries` times with exponential backoff.
+   *
+   * @param operation Operation name used for logging
+   * @param items Input rows
+   * @param options Bulk operation options
+   * @param handler Processes a single row
+   * @param getId Extracts the entity ID of a row for error reporting
+   * @returns Promise resolving to bulk operation result
+   */
+  protected async runBulkOperation<I>(
+    operation: string,
+    items: I[],
+    options: BulkOperationsOptions,
+    handler: (item: I, manager: EntityManager) => Promise<void>,
+    getId: (item: I) => string | undefined = () => undefined,
+  ): Promise<BulkOperationResult> {
+    const startTime = Date.now();
+    const { transactional = true, continueOnError = false } = options;
+    const batchSize = Math.min(Math.max(1, options.batchSize ?? 100), 1000);
+    const maxRetries = Math.min(Math.max(0, options.maxRetries ?? 0), 10);
+    const batchDelay = Math.max(0, options.batchDelay ?? 0);
+
+    const errors: BulkOperationError[] = [];
+    let successful = 0;
+    let stopped = false;
+
+    for (let start = 0; start < items.length && !stopped; start += batchSize) {
+      if (start > 0 && batchDelay > 0) {
+        await this.sleep(batchDelay);
+      }
+
+      const batch = items
+        .slice(start, start + batchSize)
+        .map((item, offset) => ({ item, index: start + offset }));
+
+      if (transactional) {
+        const outcome = await this.runTransactionalBatch(
+          batch,
+          handler,
+          getId,
+          maxRetries,
+          continueOnError,
+        );
+        successful += outcome.successful;
+        errors.push(...outcome.errors);
+        stopped = outcome.errors.length > 0 && !continueOnError;
+        continue;
+      }
+
+      for (const { item, index } of batch) {
+        try {
+          await this.withRetries(
+            () =>
+              handler(
+                item,
+                this.transactionManager?.getManager() ??
+                  this.dataSource.manager,
+              ),
+            maxRetries,
+          );
+          successful++;
+        } catch (error) {
+          errors.push(this.toBulkError(error, index, getId(item)));
+          if (!continueOnError) {
+            stopped = true;
+            break;
+          }
+        }
+      }
+    }
+
+    const result: BulkOperationResult = {
+      total: items.length,
+      successful,
+      failed: errors.length,
+      skipped: items.length - successful - errors.length,
+      errors,
+      processingTime: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (successful > 0) {
+      await this.afterWrite();
+    }
+    await this.logOperation(`BULK_${operation}`, {
+      total: result.total,
+      successful: result.successful,
+      failed: result.failed,
+      skipped: result.skipped,
+    });
+
+    return result;
+  }
+
+  /**
+   * Determines whether an error is worth retrying
+   *
+   * @param error Error thrown by a row handler
+   * @returns True for deadlocks, lock timeouts and connection failures
+   */
+  protected isTransientError(error: unknown): boolean {
+    if (!error || error instanceof HttpException) {
+      return false;
+    }
+
+    const transientCodes = [
+      'ER_LOCK_DEADLOCK',
+      'ER_LOCK_WAIT_TIMEOUT',
+      'PROTOCOL_CONNECTION_LOST',
+      'ECONNRESET',
+      'ECONNREFUSED',
+      'ETIMEDOUT',
+      'SQLITE_BUSY',
+      '40001', // PostgreSQL serialization failure
+      '40P01', // PostgreSQL deadlock detected
+    ];
+    const { code, driverError } = (error ?? {}) as DriverError;
+
+    return transientCodes.includes(String(code ?? driverError?.code));
+  }
 
   /**
    * Builds WHERE clause for queries
@@ -494,6 +2079,538 @@ export abstract class BaseService<T extends BaseEntity> {
     return where;
   }
 
+  /**
+   * Merges advanced filters into a WHERE clause
+   *
+   * Array clauses (OR groups) receive the filter conditions in every group.
+   *
+   * @param where Processed where clause
+   * @param filters Advanced filter options
+   * @returns Where clause including filter conditions
+   * @throws BadRequestException if filters reference unknown or disallowed fields
+   */
+  protected applyFilters(
+    where: unknown,
+    filters?: FilterOptions,
+  ): FindOptionsWhere<T> | FindOptionsWhere<T>[] {
+    if (!filters || Object.keys(filters).length === 0) {
+      return where as FindOptionsWhere<T> | FindOptionsWhere<T>[];
+    }
+
+    const conditions = this.buildFilterConditions(filters);
+
+    if (Array.isArray(where)) {
+      return where.map(
+        (group: Record<string, any>) =>
+          this.mergeConditions(group, conditions) as FindOptionsWhere<T>,
+      );
+    }
+
+    return this.mergeConditions(
+      (where || {}) as Record<string, any>,
+      conditions,
+    ) as FindOptionsWhere<T>;
+  }
+
+  /**
+   * Translates filter options into TypeORM find operators
+   *
+   * @param filters Advanced filter options
+   * @returns Map of field names to find operators
+   * @throws BadRequestException if filters are malformed or reference invalid fields
+   */
+  protected buildFilterConditions(
+    filters: FilterOptions,
+  ): Record<string, FindOperator<any>> {
+    const conditions: Record<string, FindOperator<any>> = {};
+    const errors: string[] = [];
+
+    const add = (field: string, operator: FindOperator<any>) => {
+      conditions[field] = conditions[field]
+        ? And(conditions[field], operator)
+        : operator;
+    };
+
+    const requireField = (filter: string, field?: string): string | null => {
+      if (!field) {
+        errors.push(`${filter} filter requires a field`);
+        return null;
+      }
+      return field;
+    };
+
+    if (filters.dateRange) {
+      const { start, end, field = 'createdAt' } = filters.dateRange;
+      const operator = this.buildRangeOperator(
+        start !== undefined
+          ? this.toDate(start, 'dateRange.start', errors)
+          : undefined,
+        end !== undefined
+          ? this.toDate(end, 'dateRange.end', errors)
+          : undefined,
+      );
+      if (operator) {
+        add(field, operator);
+      }
+    }
+
+    if (filters.numericRange) {
+      const field = requireField('numericRange', filters.numericRange.field);
+      const { min, max } = filters.numericRange;
+      const operator = this.buildRangeOperator(
+        min !== undefined
+          ? this.toNumber(min, 'numericRange.min', errors)
+          : undefined,
+        max !== undefined
+          ? this.toNumber(max, 'numericRange.max', errors)
+          : undefined,
+      );
+      if (field && operator) {
+        add(field, operator);
+      }
+    }
+
+    if (filters.text) {
+      const field = requireField('text', filters.text.field);
+      const { contains, startsWith, endsWith, exact } = filters.text;
+      if (field) {
+        if (contains !== undefined)
+          add(
+            field,
+            this.like(`${field}_contains`, `%${this.escapeLike(contains)}%`),
+          );
+        if (startsWith !== undefined)
+          add(
+            field,
+            this.like(`${field}_startsWith`, `${this.escapeLike(startsWith)}%`),
+          );
+        if (endsWith !== undefined)
+          add(
+            field,
+            this.like(`${field}_endsWith`, `%${this.escapeLike(endsWith)}`),
+          );
+        if (exact !== undefined) add(field, Equal(exact));
+      }
+    }
+
+    if (filters.array) {
+      const field = requireField('array', filters.array.field);
+      if (field) {
+        if (filters.array.in) add(field, In(filters.array.in));
+        if (filters.array.notIn) add(field, Not(In(filters.array.notIn)));
+      }
+    }
+
+    if (filters.boolean) {
+      (filters.boolean.isTrue || []).forEach((field) =>
+        add(field, Equal(true)),
+      );
+      (filters.boolean.isFalse || []).forEach((field) =>
+        add(field, Equal(false)),
+      );
+    }
+
+    if (filters.null) {
+      (filters.null.isNull || []).forEach((field) => add(field, IsNull()));
+      (filters.null.isNotNull || []).forEach((field) =>
+        add(field, Not(IsNull())),
+      );
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid filters',
+        errors,
+      });
+    }
+
+    this.assertFilterableFields(Object.keys(conditions));
+
+    return conditions;
+  }
+
+  /**
+   * Ensures every filtered field is a known, filterable entity column
+   *
+   * @param fields Field names referenced by filters
+   * @throws BadRequestException listing unknown or disallowed fields
+   */
+  protected assertFilterableFields(fields: string[]): void {
+    const columns = this.repository.metadata.columns.map(
+      (column) => column.propertyName,
+    );
+
+    const { filterable } = this.getQueryPolicy();
+    const invalid = fields.filter(
+      (field) =>
+        !columns.includes(field) ||
+        (filterable !== undefined && !filterable.includes(field)),
+    );
+
+    if (invalid.length > 0) {
+      throw new BadRequestException({
+        message: `Unknown or disallowed filter fields: ${invalid.join(', ')}`,
+        errors: invalid.map(
+          (field) => `Field '${field}' cannot be used in filters`,
+        ),
+      });
+    }
+  }
+
+  /**
+   * Lists the fields compared by a where clause
+   *
+   * @param where Where clause (object or array of alternatives)
+   * @returns Distinct field names over all alternatives
+   */
+  private getWhereFields(where: unknown): string[] {
+    const groups: unknown[] = Array.isArray(where) ? where : [where];
+    return [
+      ...new Set(
+        groups.flatMap((group) =>
+          group && typeof group === 'object' ? Object.keys(group) : [],
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Resolves the query policy declared on the entity with `@QueryPolicy`
+   *
+   * @returns Query policy, with `filterableFields` as the filterable fallback
+   */
+  protected getQueryPolicy(): QueryPolicyOptions {
+    const policy = getQueryPolicy(this.repository.target);
+
+    return {
+      ...policy,
+      filterable: policy.filterable ?? this.filterableFields ?? undefined,
+    };
+  }
+
+  /**
+   * Ensures a field is a known, sortable entity column
+   *
+   * @param field Field to sort by
+   * @throws BadRequestException if the field is unknown or not sortable
+   */
+  protected assertSortable(field: string): void {
+    const { sortable } = this.getQueryPolicy();
+    if (!this.isColumn(field) || (sortable && !sortable.includes(field))) {
+      throw new BadRequestException(`Cannot sort by unknown field '${field}'`);
+    }
+  }
+
+  /**
+   * Ensures every selected field is a known, selectable entity column
+   *
+   * Fields of expanded relations are prefixed with the relation path, e.g.
+   * `game_sessions.score`, and checked against the related entity's policy.
+   *
+   * @param fields Fields requested by the client
+   * @param relations Relations expanded by the request
+   * @throws BadRequestException listing unknown or disallowed fields
+   */
+  protected assertSelectable(
+    fields?: string[],
+    relations: string[] = [],
+  ): void {
+    const invalid: string[] = [];
+    const errors: string[] = [];
+
+    for (const field of fields ?? []) {
+      const separator = field.lastIndexOf('.');
+      const path = field.slice(0, Math.max(separator, 0));
+      if (
+        path &&
+        !relations.some(
+          (relation) => relation === path || relation.startsWith(`${path}.`),
+        )
+      ) {
+        invalid.push(field);
+        errors.push(`Field '${field}' requires expanding '${path}'`);
+        continue;
+      }
+
+      const metadata = path
+        ? this.findRelatedMetadata(path)
+        : this.repository.metadata;
+      if (
+        !metadata ||
+        !this.isSelectable(metadata, field.slice(separator + 1))
+      ) {
+        invalid.push(field);
+        errors.push(`Field '${field}' cannot be selected`);
+      }
+    }
+
+    if (invalid.length > 0) {
+      throw new BadRequestException({
+        message: `Unknown or disallowed fields: ${invalid.join(', ')}`,
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Ensures every requested relation is expandable
+   *
+   * Relations are only expandable when listed in the entity's query policy,
+   * either themselves or as the parent of a listed nested path, and only up
+   * to the maximum expansion depth of the policy.
+   *
+   * @param relations Relations requested by the client, as dotted paths
+   * @throws BadRequestException listing disallowed relations
+   */
+  protected assertExpandable(relations?: string[]): void {
+    const { expandable = [], maxExpandDepth = DEFAULT_MAX_EXPAND_DEPTH } =
+      this.getQueryPolicy();
+    const invalid: string[] = [];
+    const errors: string[] = [];
+
+    for (const relation of relations ?? []) {
+      if (relation.split('.').length > maxExpandDepth) {
+        invalid.push(relation);
+        errors.push(
+          `Relation '${relation}' exceeds the maximum expansion depth of ${maxExpandDepth}`,
+        );
+      } else if (
+        !expandable.some(
+          (allowed) =>
+            allowed === relation || allowed.startsWith(`${relation}.`),
+        )
+      ) {
+        invalid.push(relation);
+        errors.push(`Relation '${relation}' cannot be expanded`);
+      }
+    }
+
+    if (invalid.length > 0) {
+      throw new BadRequestException({
+        message: `Unknown or disallowed relations: ${invalid.join(', ')}`,
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Ensures an aggregate query only uses known functions, intervals and
+   * aggregatable fields
+   *
+   * @param metrics Metrics to compute
+   * @param groupBy Fields to group by
+   * @param dateField Field bucketed by date, if bucketing
+   * @param interval Date bucket interval, if bucketing
+   * @throws BadRequestException listing every problem found
+   */
+  protected assertAggregateQuery(
+    metrics: AggregateMetric[],
+    groupBy: string[],
+    dateField?: string,
+    interval?: string,
+  ): void {
+    const { aggregatable } = this.getQueryPolicy();
+    const isAggregatable = (field: string) =>
+      this.isColumn(field) && (!aggregatable || aggregatable.includes(field));
+    const errors: string[] = [];
+
+    if (metrics.length === 0) {
+      errors.push('At least one metric is required');
+    }
+    for (const { fn, field } of metrics) {
+      if (!AGGREGATE_FUNCTIONS.includes(fn)) {
+        errors.push(`Unsupported aggregate function '${fn}'`);
+      } else if (
+        field === undefined ? fn !== 'count' : !isAggregatable(field)
+      ) {
+        errors.push(
+          field === undefined
+            ? `Aggregate function '${fn}' requires a field`
+            : `Field '${field}' cannot be aggregated`,
+        );
+      }
+    }
+    for (const field of groupBy) {
+      if (!isAggregatable(field)) {
+        errors.push(`Cannot group by unknown field '${field}'`);
+      }
+    }
+    if (interval !== undefined) {
+      if (!AGGREGATE_INTERVALS.includes(interval as AggregateInterval)) {
+        errors.push(
+          `Unsupported interval '${interval}', expected one of: ${AGGREGATE_INTERVALS.join(', ')}`,
+        );
+      }
+      if (dateField && !isAggregatable(dateField)) {
+        errors.push(`Cannot bucket by unknown field '${dateField}'`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid aggregate query',
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Converts selected field paths into TypeORM select options
+   *
+   * Dotted paths select fields of expanded relations, so `game_sessions.score`
+   * becomes `{ game_sessions: { score: true } }`.
+   *
+   * @param fields Fields to select
+   * @returns Select options, or undefined to select every field
+   */
+  protected buildSelectClause(
+    fields?: string[],
+  ): FindOptionsSelect<T> | undefined {
+    if (!fields || fields.length === 0) {
+      return undefined;
+    }
+
+    const select: Record<string, any> = {};
+    for (const field of fields) {
+      const segments = field.split('.');
+      let target = select;
+      for (const segment of segments.slice(0, -1)) {
+        if (typeof target[segment] !== 'object') {
+          target[segment] = {};
+        }
+        target = target[segment] as Record<string, any>;
+      }
+      target[segments[segments.length - 1]] = true;
+    }
+
+    return select as FindOptionsSelect<T>;
+  }
+
+  /**
+   * Restricts a WHERE clause to rows containing any of the search terms
+   *
+   * @param where Processed where clause
+   * @param search Search term(s)
+   * @param searchFields Fields to search in (defaults to all searchable fields)
+   * @returns Where clause including search conditions
+   * @throws BadRequestException if fields are not searchable
+   */
+  protected applySearch(
+    where: unknown,
+    search?: string,
+    searchFields?: string[],
+  ): FindOptionsWhere<T> | FindOptionsWhere<T>[] {
+    const terms = tokenize(search ?? '');
+    if (terms.length === 0) {
+      return where as FindOptionsWhere<T> | FindOptionsWhere<T>[];
+    }
+
+    const fields = this.resolveSearchFields(searchFields);
+    return this.buildSearchConditions(where, fields, terms, 'contains');
+  }
+
+  /**
+   * Resolves the fields to search in against the searchable field whitelist
+   *
+   * @param requested Fields requested by the client
+   * @returns Fields to search in
+   * @throws BadRequestException listing unknown or disallowed fields
+   */
+  protected resolveSearchFields(requested?: string[]): string[] {
+    const allowed =
+      this.searchableFields ??
+      this.repository.metadata.columns
+        .filter(
+          (column) =>
+            column.type === String ||
+            TEXT_COLUMN_TYPES.includes(String(column.type)),
+        )
+        .map((column) => column.propertyName);
+
+    if (!requested || requested.length === 0) {
+      if (allowed.length === 0) {
+        throw new BadRequestException('This resource is not searchable');
+      }
+      return allowed;
+    }
+
+    const invalid = requested.filter((field) => !allowed.includes(field));
+    if (invalid.length > 0) {
+      throw new BadRequestException({
+        message: `Unknown or disallowed search fields: ${invalid.join(', ')}`,
+        errors: invalid.map(
+          (field) => `Field '${field}' cannot be used in search`,
+        ),
+      });
+    }
+
+    return requested;
+  }
+
+  /**
+   * Builds LIKE conditions matching any term in any of the fields
+   *
+   * Each OR group of the where clause is expanded once per field and term.
+   * Fuzzy terms match on their leading or trailing characters so that
+   * candidates with a typo elsewhere in the word are still ranked.
+   *
+   * @param where Processed where clause
+   * @param fields Fields to search in
+   * @param terms Normalized search terms
+   * @param type Search type
+   * @returns Where clause as OR groups
+   */
+  protected buildSearchConditions(
+    where: unknown,
+    fields: string[],
+    terms: string[],
+    type: NonNullable<SearchOptions['type']>,
+  ): FindOptionsWhere<T>[] {
+    // LIKE is case sensitive on PostgreSQL
+    const caseInsensitive = this.dataSource?.options?.type === 'postgres';
+
+    const patterns = terms.flatMap((term) => {
+      const escaped = this.escapeLike(term);
+      switch (type) {
+        case 'exact':
+          return [escaped];
+        case 'startsWith':
+          return [`${escaped}%`];
+        case 'endsWith':
+          return [`%${escaped}`];
+        case 'fuzzy':
+          return term.length <= 3
+            ? [`%${escaped}%`]
+            : [
+                `%${this.escapeLike(term.slice(0, 3))}%`,
+                `%${this.escapeLike(term.slice(-3))}%`,
+              ];
+        default:
+          return [`%${escaped}%`];
+      }
+    });
+
+    const groups = (Array.isArray(where) ? where : [where || {}]) as Record<
+      string,
+      any
+    >[];
+
+    return groups.flatMap((group) =>
+      fields.flatMap((field) =>
+        [...new Set(patterns)].map(
+          (pattern, index) =>
+            this.mergeConditions(group, {
+              [field]: this.like(
+                `search_${field}_${index}`,
+                pattern,
+                caseInsensitive,
+              ),
+            }) as FindOptionsWhere<T>,
+        ),
+      ),
+    );
+  }
+
   /**
    * Builds ORDER clause for queries
    *
@@ -504,4 +2621,1137 @@ export abstract class BaseService<T extends BaseEntity> {
   protected buildOrderClause(sortBy: string, sortOrder: 'ASC' | 'DESC'): Record<string, 'ASC' | 'DESC'> {
     return { [sortBy]: sortOrder };
   }
-}
\ No newline at end of file
+
+  /**
+   * Resolves exported columns against the exportable field whitelist
+   *
+   * @param fields Fields requested by the client
+   * @param fieldMappings Header labels by field
+   * @returns Columns to export
+   * @throws BadRequestException listing unknown or disallowed fields
+   */
+  protected resolveExportColumns(
+    fields: string[] | undefined,
+    fieldMappings: Record<string, string>,
+  ): ExportColumn[] {
+    const allowed =
+      this.exportableFields ??
+      this.repository.metadata.columns.map((column) => column.propertyName);
+
+    // Without an explicit field list, mapped fields define the columns
+    const requested =
+      fields && fields.length > 0
+        ? fields
+        : Object.keys(fieldMappings).length > 0
+          ? Object.keys(fieldMappings)
+          : allowed;
+
+    const invalid = requested.filter((field) => !allowed.includes(field));
+    if (invalid.length > 0) {
+      throw new BadRequestException({
+        message: `Unknown or disallowed export fields: ${invalid.join(', ')}`,
+        errors: invalid.map((field) => `Field '${field}' cannot be exported`),
+      });
+    }
+
+    return requested.map((field) => ({
+      field,
+      label: fieldMappings[field] || field,
+    }));
+  }
+
+  /**
+   * Reads matching entities in keyset-paginated batches
+   *
+   * @param where Where clause
+   * @param relations Relations to load
+   * @param sortBy Sort field (must not contain nulls)
+   * @param sortOrder Sort order
+   * @param batchSize Rows per batch
+   * @returns Async generator of entity batches
+   */
+  protected async *streamInBatches(
+    where: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    relations: string[] | undefined,
+    sortBy: string,
+    sortOrder: 'ASC' | 'DESC',
+    batchSize: number,
+  ): AsyncGenerator<T[]> {
+    const alias = 'entity';
+    let last: T | undefined;
+
+    while (true) {
+      const query = this.repository
+        .createQueryBuilder(alias)
+        .setFindOptions({ where, relations });
+
+      if (last) {
+        this.applyKeyset(query, alias, sortBy, sortOrder === 'ASC', {
+          value: last[sortBy as keyof T],
+          id: last.id,
+        });
+      }
+
+      const batch = await query
+        .orderBy(`${alias}.${sortBy}`, sortOrder)
+        .addOrderBy(`${alias}.id`, sortOrder)
+        .take(batchSize)
+        .getMany();
+
+      if (batch.length > 0) {
+        yield batch;
+      }
+      if (batch.length < batchSize) {
+        return;
+      }
+      last = batch[batch.length - 1];
+    }
+  }
+
+  /**
+   * Restricts a query to rows after a keyset position
+   *
+   * @param query Query builder
+   * @param alias Entity alias
+   * @param field Sort field
+   * @param ascending Whether rows are read in ascending order
+   * @param position Sort value and id of the last row already read
+   */
+  private applyKeyset(
+    query: SelectQueryBuilder<T>,
+    alias: string,
+    field: string,
+    ascending: boolean,
+    position: { value: unknown; id: string },
+  ): void {
+    const comparator = ascending ? '>' : '<';
+    query.andWhere(
+      new Brackets((qb) => {
+        qb.where(`${alias}.${field} ${comparator} :keysetValue`, {
+          keysetValue: position.value,
+        }).orWhere(
+          new Brackets((tie) => {
+            tie
+              .where(`${alias}.${field} = :keysetValue`)
+              .andWhere(`${alias}.id ${comparator} :keysetId`, {
+                keysetId: position.id,
+              });
+          }),
+        );
+      }),
+    );
+  }
+
+  /**
+   * Validates the conditions of a bulk deletion
+   *
+   * @param where Conditions from the request
+   * @returns Where clause matching NULL conditions with IS NULL
+   * @throws BadRequestException if the conditions are missing, name fields
+   *         that are not filterable or compare to anything but plain values
+   */
+  private buildBulkDeleteConditions(where: unknown): FindOptionsWhere<T> {
+    if (
+      !where ||
+      typeof where !== 'object' ||
+      Array.isArray(where) ||
+      Object.keys(where).length === 0
+    ) {
+      throw new BadRequestException(
+        'Either ids or where conditions are required for bulk deletion',
+      );
+    }
+
+    const conditions = where as Record<string, unknown>;
+    this.assertFilterableFields(Object.keys(conditions));
+
+    const invalid = Object.keys(conditions).filter(
+      (field) =>
+        conditions[field] !== null &&
+        !['string', 'number', 'boolean'].includes(typeof conditions[field]),
+    );
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Conditions must compare fields to plain values: ${invalid.join(', ')}`,
+      );
+    }
+
+    return Object.fromEntries(
+      Object.entries(conditions).map(([field, value]) => [
+        field,
+        value === null ? IsNull() : value,
+      ]),
+    ) as FindOptionsWhere<T>;
+  }
+
+  /**
+   * Ensures a bulk request contains rows
+   *
+   * @param items Input rows
+   * @throws BadRequestException if no rows are provided
+   */
+  private assertBulkItems(items: unknown[]): void {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new BadRequestException('No data provided for bulk operation');
+    }
+  }
+
+  /**
+   * Validates and creates a single entity within a bulk operation
+   *
+   * @param createDto Entity data
+   * @param manager Entity manager of the current unit of work
+   * @throws BadRequestException if validation fails
+   * @throws ConflictException if the entity already exists
+   */
+  private async createRow(
+    createDto: DeepPartial<T>,
+    manager: EntityManager,
+  ): Promise<void> {
+    createDto = await this.stampTenant(createDto);
+
+    const validationErrors = await this.validateCreateData(createDto);
+    if (validationErrors.length > 0) {
+      throw new BadRequestException({
+        message: 'Validation failed',
+        errors: validationErrors,
+      });
+    }
+
+    const duplicateCheck = await this.checkForDuplicates(createDto);
+    if (duplicateCheck) {
+      throw new ConflictException(duplicateCheck);
+    }
+
+    const repository = manager.getRepository<T>(this.repository.target);
+    await repository.save(repository.create(createDto));
+  }
+
+  /**
+   * Finds the entity, including soft-deleted ones, matching the natural key
+   * values of the given data
+   *
+   * @param data Entity data including every natural key field
+   * @param manager Entity manager of the current unit of work, if any
+   * @returns Promise resolving to the matching entity, or null if none exists
+   * @throws BadRequestException if no natural key is declared or a key field is missing
+   */
+  protected async findByNaturalKey(
+    data: DeepPartial<T>,
+    manager?: EntityManager,
+  ): Promise<T | null> {
+    const fields = getNaturalKey(this.repository.target);
+    if (!fields) {
+      throw new BadRequestException(
+        `No natural key is declared for ${this.repository.metadata.tableName}`,
+      );
+    }
+
+    const values = data as Record<string, unknown>;
+    const missing = fields.filter(
+      (field) =>
+        values[field] === undefined ||
+        values[field] === null ||
+        values[field] === '',
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException({
+        message: `Natural key fields are required: ${missing.join(', ')}`,
+        errors: missing.map(
+          (field) => `Field '${field}' is required to match existing entities`,
+        ),
+      });
+    }
+
+    const repository = manager
+      ? manager.getRepository<T>(this.repository.target)
+      : this.repository;
+    return await repository.findOne({
+      where: this.applyTenantScope(
+        Object.fromEntries(fields.map((field) => [field, values[field]])),
+      ),
+      withDeleted: true,
+    });
+  }
+
+  /**
+   * Loads an entity by ID within a bulk operation
+   *
+   * @param id Entity ID
+   * @param manager Entity manager of the current unit of work
+   * @returns Promise resolving to the entity
+   * @throws BadRequestException if the ID is missing
+   * @throws NotFoundException if the entity does not exist
+   */
+  private async findRow(id: string, manager: EntityManager): Promise<T> {
+    if (!id) {
+      throw new BadRequestException('id is required');
+    }
+
+    const entity = await manager
+      .getRepository<T>(this.repository.target)
+      .findOne({ where: this.applyTenantScope({ id }) });
+    if (!entity) {
+      throw new NotFoundException(`Entity with ID ${id} not found`);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Validates and updates a single entity within a bulk operation
+   *
+   * @param entity Existing entity
+   * @param updateDto Update data
+   * @param manager Entity manager of the current unit of work
+   * @throws BadRequestException if validation fails
+   * @throws ConflictException if the update conflicts
+   */
+  private async updateRow(
+    entity: T,
+    updateDto: DeepPartial<T>,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.stampTenant(updateDto, entity.id);
+
+    const validationErrors = await this.validateUpdateData(entity, updateDto);
+    if (validationErrors.length > 0) {
+      throw new BadRequestException({
+        message: 'Validation failed',
+        errors: validationErrors,
+      });
+    }
+
+    const conflictCheck = await this.checkForConflicts(entity, updateDto);
+    if (conflictCheck) {
+      throw new ConflictException(conflictCheck);
+    }
+
+    const repository = manager.getRepository<T>(this.repository.target);
+    repository.merge(entity, updateDto);
+    await repository.save(entity);
+  }
+
+  /**
+   * Gets the tenant the current operation is limited to
+   *
+   * @returns Tenant field and ID, or null if the entity is not tenant scoped
+   *          or the operation runs outside of a request (scheduled jobs, CLI)
+   * @throws ForbiddenException if a request without tenant accesses a tenant scoped entity
+   */
+  protected getTenantScope(): { field: string; tenantId: string } | null {
+    const field = getTenantField(this.repository.target);
+    if (!field) {
+      return null;
+    }
+
+    const tenantId = RequestContext.getTenantId();
+    if (tenantId) {
+      return { field, tenantId };
+    }
+    if (!RequestContext.getRequest()) {
+      return null;
+    }
+
+    throw new ForbiddenException({
+      message: 'Tenant context is required',
+      code: 'TENANT_REQUIRED',
+    });
+  }
+
+  /**
+   * Limits query conditions to the tenant of the current request
+   *
+   * @param where Query conditions (object or array of alternatives)
+   * @returns Conditions matching only rows of the current tenant
+   */
+  protected applyTenantScope(
+    where?: unknown,
+  ): FindOptionsWhere<T> | FindOptionsWhere<T>[] {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return where as FindOptionsWhere<T> | FindOptionsWhere<T>[];
+    }
+
+    const condition = { [scope.field]: Equal(scope.tenantId) };
+    if (Array.isArray(where) && where.length > 0) {
+      return where.map(
+        (group: Record<string, any>) =>
+          this.mergeConditions(group, condition) as FindOptionsWhere<T>,
+      );
+    }
+    return this.mergeConditions(
+      Array.isArray(where) ? {} : ((where ?? {}) as Record<string, any>),
+      condition,
+    ) as FindOptionsWhere<T>;
+  }
+
+  /**
+   * Assigns the current tenant to entity data
+   *
+   * @param data Data for creating or updating an entity
+   * @param entityId ID of the updated entity, if any
+   * @returns Data with the tenant field set to the current tenant
+   * @throws ForbiddenException if the data names another tenant
+   */
+  protected async stampTenant<D>(data: D, entityId?: string): Promise<D> {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return data;
+    }
+
+    const requested = (data as Record<string, unknown>)[scope.field];
+    if (
+      (typeof requested === 'string' || typeof requested === 'number') &&
+      String(requested) !== scope.tenantId
+    ) {
+      await this.reportCrossTenantAccess(entityId, String(requested));
+      throw new ForbiddenException({
+        message: 'Access to another tenant is not allowed',
+        code: 'CROSS_TENANT_ACCESS',
+      });
+    }
+
+    return entityId === undefined
+      ? { ...data, [scope.field]: scope.tenantId }
+      : data;
+  }
+
+  /**
+   * Audits a lookup of an entity that belongs to another tenant
+   *
+   * The caller still receives a not-found error, so the existence of the
+   * entity is not disclosed.
+   *
+   * @param id ID of the entity that was not found for the current tenant
+   */
+  private async detectCrossTenantAccess(id: string): Promise<void> {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return;
+    }
+
+    const owner = await this.repository.findOne({
+      select: { id: true, [scope.field]: true } as FindOptionsSelect<T>,
+      where: { id } as FindOptionsWhere<T>,
+      withDeleted: true,
+    });
+    if (owner) {
+      const ownerTenant = (owner as Record<string, unknown>)[scope.field];
+      await this.reportCrossTenantAccess(
+        id,
+        typeof ownerTenant === 'string' ? ownerTenant : undefined,
+      );
+    }
+  }
+
+  /**
+   * Records a cross-tenant access attempt in the audit trail
+   *
+   * @param entityId ID of the targeted entity, if any
+   * @param requestedTenantId Tenant the caller tried to access
+   */
+  private async reportCrossTenantAccess(
+    entityId: string | undefined,
+    requestedTenantId: string | undefined,
+  ): Promise<void> {
+    await this.auditService?.record({
+      operation: 'CROSS_TENANT_ACCESS',
+      entityType: this.repository.metadata.tableName,
+      entityId: entityId ?? null,
+      metadata: {
+        tenantId: RequestContext.getTenantId(),
+        requestedTenantId,
+      },
+    });
+  }
+
+  /**
+   * Checks whether versions of this entity are stored in the history
+   *
+   * @returns True if the entity tracks history and the HistoryModule is loaded
+   */
+  protected tracksHistory(): boolean {
+    return (
+      this.historyService !== undefined &&
+      isHistoryTracked(this.repository.target)
+    );
+  }
+
+  /**
+   * Ensures this entity tracks history
+   *
+   * @throws BadRequestException if history is not tracked
+   */
+  private assertHistoryTracked(): void {
+    if (!this.tracksHistory()) {
+      throw new BadRequestException(
+        `History is not tracked for ${this.repository.metadata.tableName}`,
+      );
+    }
+  }
+
+  /**
+   * Stores a replaced version of an entity in the history
+   *
+   * @param entity Entity state being replaced
+   * @param operation Operation replacing the version
+   * @param validTo Timestamp at which the version was replaced
+   * @param manager Entity manager of the surrounding transaction
+   */
+  protected async recordHistory(
+    entity: T,
+    operation: string,
+    validTo: Date,
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (!this.tracksHistory()) {
+      return;
+    }
+
+    await this.historyService!.record(
+      {
+        entityType: this.repository.metadata.tableName,
+        entityId: entity.id,
+        version: entity.version,
+        operation,
+        snapshot: this.snapshotColumns(entity),
+        validFrom: entity.updatedAt,
+        validTo,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Writes the domain event of a mutation to the outbox
+   *
+   * @param operation Operation performed
+   * @param entityId Entity ID
+   * @param before Entity state before the operation
+   * @param after Entity state after the operation
+   * @param manager Entity manager of the surrounding transaction
+   * @returns The recorded event, null if the EventsModule is not loaded
+   */
+  protected async recordEvent(
+    operation: DomainEventOperation,
+    entityId: string,
+    before: T | null,
+    after: T | null,
+    manager: EntityManager,
+  ): Promise<DomainEvent | null> {
+    if (!this.eventBus) {
+      return null;
+    }
+
+    const event = this.eventBus.createEvent(
+      this.repository.metadata.tableName,
+      entityId,
+      operation,
+      before && this.snapshotColumns(before),
+      after && this.snapshotColumns(after),
+    );
+    await this.eventBus.record(event, manager);
+    return event;
+  }
+
+  /**
+   * Publishes a recorded domain event once its transaction committed
+   *
+   * Inside a `@Transactional()` method the event is held back until the
+   * outermost transaction committed, and dropped if it rolls back.
+   *
+   * @param event Event returned by recordEvent
+   */
+  protected async publishEvent(event: DomainEvent | null): Promise<void> {
+    const eventBus = this.eventBus;
+    if (!event || !eventBus) {
+      return;
+    }
+
+    if (this.transactionManager) {
+      await this.transactionManager.afterCommit(() => eventBus.publish(event));
+    } else {
+      await eventBus.publish(event);
+    }
+  }
+
+  /**
+   * Runs a read query through the query cache
+   *
+   * Queries bypass the cache when it is disabled for them (ttl null), when
+   * no cache is loaded, inside transactions, which may see uncommitted
+   * writes, and after a write in the request, which must read it back. Cached entities are returned as instances of the entity class.
+   *
+   * @param scope Kind of query, part of the cache key
+   * @param params Parameters the result depends on
+   * @param tags Tags invalidated by writes affecting the result
+   * @param ttl Time to live in seconds, undefined for the default, null to bypass
+   * @param query Query function
+   * @returns Promise resolving to the query result
+   */
+  protected async cached<R>(
+    scope: string,
+    params: unknown,
+    tags: string[],
+    ttl: number | null | undefined,
+    query: () => Promise<R>,
+  ): Promise<R> {
+    if (
+      ttl === null ||
+      !this.queryCache ||
+      this.transactionManager?.isActive() ||
+      this.replicaRouter?.isPinned()
+    ) {
+      return query();
+    }
+
+    const tableName = this.repository.metadata.tableName;
+    let hit = true;
+    const result = await this.queryCache.getOrSet(
+      this.queryCache.buildKey(`${tableName}:${scope}`, params),
+      () => {
+        hit = false;
+        return query();
+      },
+      ttl,
+      tags,
+    );
+    return hit ? this.restorePrototypes(result) : result;
+  }
+
+  /**
+   * Bookkeeping after a write
+   *
+   * Pins the remaining reads of the request to the primary and drops the
+   * cached queries affected by the write.
+   *
+   * @param ids IDs of the written entities, undefined if unknown
+   */
+  protected async afterWrite(ids?: string[]): Promise<void> {
+    this.replicaRouter?.markWrite();
+    await this.invalidateCache(ids);
+  }
+
+  /**
+   * Drops cached queries affected by a write
+   *
+   * Runs once the surrounding transaction committed. Without IDs every
+   * cached query of the entity is dropped, otherwise the cached lists and
+   * the given entities.
+   *
+   * @param ids IDs of the written entities
+   */
+  protected async invalidateCache(ids?: string[]): Promise<void> {
+    const queryCache = this.queryCache;
+    if (!queryCache) {
+      return;
+    }
+
+    const tableName = this.repository.metadata.tableName;
+    const tags = [
+      tableName,
+      ...(ids ? ids.map((id) => `${tableName}:${id}`) : [`${tableName}:items`]),
+    ];
+    if (this.transactionManager) {
+      await this.transactionManager.afterCommit(() =>
+        queryCache.invalidateTags(tags),
+      );
+    } else {
+      await queryCache.invalidateTags(tags);
+    }
+  }
+
+  /**
+   * Turns cached rows back into entity instances
+   *
+   * @param value Cached entity, entity list or tuple containing one
+   * @returns Value with entity prototypes restored
+   */
+  private restorePrototypes<R>(value: R): R {
+    const target = this.repository.metadata.target;
+    if (typeof target !== 'function') {
+      return value;
+    }
+
+    const restore = (item: unknown): unknown =>
+      Array.isArray(item)
+        ? item.map(restore)
+        : item && typeof item === 'object' && !(item instanceof Date)
+          ? Object.assign(Object.create(target.prototype as object), item)
+          : item;
+    return restore(value) as R;
+  }
+
+  /**
+   * Runs work within a transaction
+   *
+   * Joins the transaction of a surrounding `@Transactional()` method
+   * through a savepoint when the DatabaseModule is loaded.
+   *
+   * @param work Function receiving the transactional entity manager
+   * @returns Promise resolving to the result of the work
+   */
+  protected transaction<R>(
+    work: (manager: EntityManager) => Promise<R>,
+  ): Promise<R> {
+    return this.transactionManager
+      ? this.transactionManager.runTransaction(work)
+      : this.dataSource.transaction(work);
+  }
+
+  /**
+   * Copies the column values of an entity
+   *
+   * @param entity Entity
+   * @returns Column values keyed by property name
+   */
+  protected snapshotColumns(entity: T): Record<string, unknown> {
+    const snapshot: Record<string, unknown> = {};
+    for (const column of this.repository.metadata.columns) {
+      snapshot[column.propertyName] = entity[column.propertyName as keyof T];
+    }
+    return snapshot;
+  }
+
+  /**
+   * Ensures an entity still has the version the client expects
+   *
+   * @param entity Current entity
+   * @param expectedVersion Version the client last read
+   * @throws ConflictException with the current representation if the versions differ
+   */
+  private assertVersion(entity: T, expectedVersion: number): void {
+    if (entity.version !== expectedVersion) {
+      throw new ConflictException({
+        message: 'Entity has been modified by another request',
+        code: 'VERSION_CONFLICT',
+        details: {
+          expectedVersion,
+          currentVersion: entity.version,
+          current: entity,
+        },
+      });
+    }
+  }
+
+  /**
+   * Lock taken on a row read before it is changed in a transaction
+   *
+   * SQLite has no row locks (TypeORM rejects the lock), but its write
+   * transactions already lock the whole database.
+   *
+   * @returns Pessimistic write lock, or undefined on SQLite drivers
+   */
+  private rowLock(): { mode: 'pessimistic_write' } | undefined {
+    const driver = this.dataSource?.options?.type;
+    return [
+      'sqlite',
+      'better-sqlite3',
+      'sqljs',
+      'capacitor',
+      'cordova',
+      'expo',
+      'react-native',
+      'nativescript',
+    ].includes(driver)
+      ? undefined
+      : { mode: 'pessimistic_write' };
+  }
+
+  /**
+   * Runs one batch of a bulk operation inside a transaction
+   *
+   * @param batch Rows of the batch with their input index
+   * @param handler Processes a single row
+   * @param getId Extracts the entity ID of a row for error reporting
+   * @param maxRetries Retries for transient failures
+   * @param continueOnError Whether to retry the batch without failing rows
+   * @returns Number of committed rows and row errors
+   */
+  private async runTransactionalBatch<I>(
+    batch: { item: I; index: number }[],
+    handler: (item: I, manager: EntityManager) => Promise<void>,
+    getId: (item: I) => string | undefined,
+    maxRetries: number,
+    continueOnError: boolean,
+  ): Promise<{ successful: number; errors: BulkOperationError[] }> {
+    const errors: BulkOperationError[] = [];
+    let pending = batch;
+
+    while (pending.length > 0) {
+      let current: { item: I; index: number } | undefined;
+
+      try {
+        await this.withRetries(
+          () =>
+            this.transaction(async (manager) => {
+              for (const row of pending) {
+                current = row;
+                await handler(row.item, manager);
+              }
+              current = undefined;
+            }),
+          maxRetries,
+        );
+        return { successful: pending.length, errors };
+      } catch (error) {
+        const failedRow = current;
+
+        // Failures not caused by a single row fail the whole batch
+        if (!failedRow || this.isTransientError(error)) {
+          errors.push(
+            ...pending.map(({ item, index }) =>
+              this.toBulkError(error, index, getId(item)),
+            ),
+          );
+          return { successful: 0, errors };
+        }
+
+        errors.push(
+          this.toBulkError(error, failedRow.index, getId(failedRow.item)),
+        );
+        if (!continueOnError) {
+          return { successful: 0, errors };
+        }
+        pending = pending.filter((row) => row !== failedRow);
+      }
+    }
+
+    return { successful: 0, errors };
+  }
+
+  /**
+   * Runs a task, retrying transient failures with exponential backoff
+   *
+   * @param task Task to run
+   * @param maxRetries Maximum number of retries
+   * @returns Promise resolving to the task result
+   */
+  private async withRetries<R>(
+    task: () => Promise<R>,
+    maxRetries: number,
+  ): Promise<R> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt >= maxRetries || !this.isTransientError(error)) {
+          throw error;
+        }
+        await this.sleep(100 * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Converts a row failure into a bulk operation error
+   *
+   * @param error Error thrown while processing the row
+   * @param index Index of the row in the input
+   * @param id Entity ID of the row, if known
+   * @returns Bulk operation error
+   */
+  private toBulkError(
+    error: unknown,
+    index: number,
+    id?: string,
+  ): BulkOperationError {
+    const failure = (error ?? {}) as DriverError & { message?: string };
+    let message = failure.message ?? 'Unknown error';
+    let code = String(
+      failure.code ?? failure.driverError?.code ?? 'INTERNAL_ERROR',
+    );
+
+    if (error instanceof HttpException) {
+      const response = error.getResponse() as {
+        message?: string;
+        errors?: unknown;
+      };
+      const details = Array.isArray(response?.errors)
+        ? (response.errors as string[])
+        : [];
+      message = [response?.message ?? error.message, ...details].join(': ');
+      code = HttpStatus[error.getStatus()];
+    }
+
+    return {
+      id,
+      error: message,
+      code: String(code),
+      index,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Waits for the given number of milliseconds
+   *
+   * @param ms Delay in milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Checks whether a field is a mapped entity column
+   *
+   * @param field Field name
+   * @returns True if the entity has a column with that property name
+   */
+  private isColumn(field: string): boolean {
+    return this.repository.metadata.columns.some(
+      (column) => column.propertyName === field,
+    );
+  }
+
+  /**
+   * Converts a raw aggregate value returned by the driver
+   *
+   * Drivers return DECIMAL and BIGINT results as strings, so counts, sums,
+   * averages and extremes of numeric columns are converted to numbers.
+   *
+   * @param metric Metric the value was computed for
+   * @param value Raw value
+   * @returns Metric value
+   */
+  private toMetricValue(
+    metric: AggregateMetric,
+    value: unknown,
+  ): number | string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    const numeric =
+      !['min', 'max'].includes(metric.fn) ||
+      this.repository.metadata.columns.some(
+        (column) =>
+          column.propertyName === metric.field &&
+          (column.type === Number ||
+            NUMERIC_COLUMN_TYPES.includes(String(column.type))),
+      );
+    return numeric ? Number(value) : String(value as string);
+  }
+
+  /**
+   * Checks whether a field of an entity may be selected by clients
+   *
+   * @param metadata Metadata of the entity owning the field
+   * @param field Property name
+   * @returns True if the field is a column allowed by the entity's policy
+   */
+  private isSelectable(metadata: EntityMetadata, field: string): boolean {
+    const { selectable } =
+      metadata === this.repository.metadata
+        ? this.getQueryPolicy()
+        : getQueryPolicy(metadata.target);
+
+    return (
+      metadata.columns.some((column) => column.propertyName === field) &&
+      (!selectable || selectable.includes(field))
+    );
+  }
+
+  /**
+   * Resolves the metadata of the entity at the end of a relation path
+   *
+   * @param path Dotted relation path, e.g. `game_sessions.game`
+   * @returns Related entity metadata, or undefined if the path is unknown
+   */
+  private findRelatedMetadata(path: string): EntityMetadata | undefined {
+    let metadata: EntityMetadata | undefined = this.repository.metadata;
+    for (const segment of path.split('.')) {
+      metadata = metadata?.relations?.find(
+        (relation) => relation.propertyName === segment,
+      )?.inverseEntityMetadata;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Finds a MySQL FULLTEXT index usable for searching the given fields
+   *
+   * @param fields Fields to search in
+   * @returns Index covering a subset of the fields, or null if unavailable
+   */
+  private findFullTextIndex(fields: string[]): IndexMetadata | null {
+    const driver = this.dataSource?.options?.type;
+    if (driver !== 'mysql' && driver !== 'mariadb') {
+      return null;
+    }
+
+    return (
+      (this.repository.metadata.indices ?? []).find(
+        (index) =>
+          index.isFulltext &&
+          index.columns.length > 0 &&
+          index.columns.every((column) => fields.includes(column.propertyName)),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Builds pagination metadata for an in-memory or counted result
+   *
+   * @param page Current page number
+   * @param limit Items per page
+   * @param total Total number of items
+   * @param itemCount Number of items in the current page
+   * @returns Pagination metadata
+   */
+  private buildPaginationMetadata(
+    page: number,
+    limit: number,
+    total: number,
+    itemCount: number,
+  ): PaginationMetadata {
+    const totalPages = Math.ceil(total / limit);
+    const startIndex = (page - 1) * limit;
+
+    return {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+      startIndex,
+      endIndex: Math.max(startIndex, startIndex + itemCount - 1),
+      itemCount,
+    };
+  }
+
+  /**
+   * Merges filter conditions into a single where object
+   *
+   * @param where Existing where object
+   * @param conditions Filter conditions to merge
+   * @returns Combined where object
+   */
+  private mergeConditions(
+    where: Record<string, any>,
+    conditions: Record<string, FindOperator<any>>,
+  ): Record<string, any> {
+    const merged = { ...where };
+
+    for (const [field, operator] of Object.entries(conditions)) {
+      if (merged[field] === undefined) {
+        merged[field] = operator;
+      } else {
+        const existing =
+          merged[field] instanceof FindOperator
+            ? merged[field]
+            : Equal(merged[field]);
+        merged[field] = And(existing, operator);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Builds a range operator from optional lower and upper bounds
+   *
+   * @param min Inclusive lower bound
+   * @param max Inclusive upper bound
+   * @returns Range operator or null if no bound is set
+   */
+  private buildRangeOperator<V>(min?: V, max?: V): FindOperator<V> | null {
+    if (min !== undefined && max !== undefined) {
+      return Between(min, max);
+    }
+    if (min !== undefined) {
+      return MoreThanOrEqual(min);
+    }
+    if (max !== undefined) {
+      return LessThanOrEqual(max);
+    }
+    return null;
+  }
+
+  /**
+   * Parses a date filter value, collecting an error if it is invalid
+   *
+   * @param value Raw date value
+   * @param name Filter name used in error messages
+   * @param errors Error collector
+   * @returns Parsed date or undefined if invalid
+   */
+  private toDate(
+    value: Date | string,
+    name: string,
+    errors: string[],
+  ): Date | undefined {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+      errors.push(`${name} must be a valid date`);
+      return undefined;
+    }
+    return date;
+  }
+
+  /**
+   * Parses a numeric filter value, collecting an error if it is invalid
+   *
+   * @param value Raw numeric value
+   * @param name Filter name used in error messages
+   * @param errors Error collector
+   * @returns Parsed number or undefined if invalid
+   */
+  private toNumber(
+    value: number | string,
+    name: string,
+    errors: string[],
+  ): number | undefined {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (value === '' || !Number.isFinite(number)) {
+      errors.push(`${name} must be a number`);
+      return undefined;
+    }
+    return number;
+  }
+
+  /**
+   * Escapes LIKE wildcards in user-provided text
+   *
+   * The escape character is `!` rather than the backslash, which is only the
+   * default escape character on MySQL and changes meaning with
+   * NO_BACKSLASH_ESCAPES.
+   *
+   * @param value Raw text value
+   * @returns Text safe to embed in a pattern of `like()`
+   */
+  private escapeLike(value: string): string {
+    return String(value).replace(/[!%_]/g, (char) => `!${char}`);
+  }
+
+  /**
+   * Builds a LIKE condition for a pattern escaped with `escapeLike`
+   *
+   * The parameter is named after the condition rather than numbered, so the
+   * same query always binds the same names (and gets the same cache key).
+   *
+   * @param name Name of the condition, unique within the query
+   * @param pattern LIKE pattern
+   * @param caseInsensitive Use ILIKE (PostgreSQL)
+   * @returns Raw operator with an explicit ESCAPE clause
+   */
+  private like(
+    name: string,
+    pattern: string,
+    caseInsensitive = false,
+  ): FindOperator<string> {
+    const parameter = `like_${name.replace(/\W/g, '_')}`;
+    const operator = caseInsensitive ? 'ILIKE' : 'LIKE';
+    return Raw((alias) => `${alias} ${operator} :${parameter} ESCAPE '!'`, {
+      [parameter]: pattern,
+    }) as FindOperator<string>;
+  }
+}
@@ -0,0 +1,188 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Cursor Codec
+ *
+ * Encodes and decodes opaque, signed keyset pagination cursors.
+ * A cursor captures the sort key value of a boundary row together with its
+ * `id` tiebreaker, plus the sort and a hash of the conditions it was issued
+ * for, so clients cannot forge cursors or reuse them with another ordering
+ * or another filtered query.
+ */
+
+/**
+ * Decoded cursor payload
+ */
+export interface CursorPayload {
+  /**
+   * Sort field the cursor was issued for
+   */
+  field: string;
+
+  /**
+   * Sort order the cursor was issued for
+   */
+  order: 'ASC' | 'DESC';
+
+  /**
+   * Sort key value of the boundary row
+   */
+  value: any;
+
+  /**
+   * ID of the boundary row (tiebreaker)
+   */
+  id: string;
+
+  /**
+   * Hash of the query conditions the cursor was issued for, see
+   * `hashCursorQuery`
+   */
+  query: string;
+}
+
+/**
+ * Compact wire format of a cursor
+ */
+interface EncodedCursor {
+  f: string;
+  o: 'ASC' | 'DESC';
+  v: unknown;
+  d?: 1;
+  i: string;
+  q: string;
+}
+
+/**
+ * Resolves the secret used to sign cursors
+ *
+ * Without CURSOR_SECRET, a key dedicated to cursors is derived from
+ * JWT_SECRET, so the token signing key itself never signs cursors.
+ *
+ * @returns Signing secret
+ * @throws Error if neither CURSOR_SECRET nor JWT_SECRET is set
+ */
+export const getCursorSecret = (): string => {
+  if (process.env.CURSOR_SECRET) {
+    return process.env.CURSOR_SECRET;
+  }
+  if (process.env.JWT_SECRET) {
+    return createHmac('sha256', process.env.JWT_SECRET)
+      .update('cursor')
+      .digest('hex');
+  }
+  throw new Error(
+    'CURSOR_SECRET or JWT_SECRET environment variable is required',
+  );
+};
+
+/**
+ * Orders object keys recursively, so equal conditions serialize equally
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .map((key) => [key, canonicalize(record[key])]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Hashes the conditions of a paginated query
+ *
+ * @param conditions Where clause, filters and anything else that selects rows
+ * @returns Base64url encoded SHA-256 hash
+ */
+export const hashCursorQuery = (conditions: unknown): string =>
+  createHash('sha256')
+    .update(JSON.stringify(canonicalize(conditions)) ?? '')
+    .digest('base64url');
+
+/**
+ * Encodes a cursor payload into an opaque signed string
+ *
+ * @param payload Cursor payload
+ * @param secret Signing secret
+ * @returns Opaque cursor string
+ */
+export const encodeCursor = (
+  payload: CursorPayload,
+  secret: string,
+): string => {
+  const { value } = payload as { value: unknown };
+  const encoded: EncodedCursor = {
+    f: payload.field,
+    o: payload.order,
+    v: value instanceof Date ? value.toISOString() : value,
+    d: value instanceof Date ? 1 : undefined,
+    i: payload.id,
+    q: payload.query,
+  };
+  const body = Buffer.from(JSON.stringify(encoded)).toString('base64url');
+
+  return `${body}.${sign(body, secret)}`;
+};
+
+/**
+ * Decodes and verifies an opaque cursor string
+ *
+ * @param cursor Opaque cursor string
+ * @param secret Signing secret
+ * @returns Cursor payload or null if the cursor is malformed or tampered with
+ */
+export const decodeCursor = (
+  cursor: string,
+  secret: string,
+): CursorPayload | null => {
+  const [body, signature, ...rest] = String(cursor).split('.');
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(body, 'base64url').toString('utf8'),
+    ) as EncodedCursor;
+    if (
+      typeof decoded.f !== 'string' ||
+      (decoded.o !== 'ASC' && decoded.o !== 'DESC') ||
+      typeof decoded.i !== 'string' ||
+      typeof decoded.q !== 'string'
+    ) {
+      return null;
+    }
+
+    return {
+      field: decoded.f,
+      order: decoded.o,
+      value: decoded.d ? new Date(decoded.v as string) : decoded.v,
+      id: decoded.i,
+      query: decoded.q,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Signs a cursor body
+ *
+ * @param body Base64url encoded cursor body
+ * @param secret Signing secret
+ * @returns Base64url encoded HMAC signature
+ */
+const sign = (body: string, secret: string): string =>
+  createHmac('sha256', secret).update(body).digest('base64url');
@@ -0,0 +1,318 @@
+import { Readable } from 'stream';
+import { ExportOptions } from '../../common/interfaces/pagination.interface';
+import { ZipStream } from './zip.stream';
+
+/**
+ * Export Writers
+ *
+ * Streaming serializers for `BaseService.export`. Each writer turns an async
+ * stream of records into an async stream of output chunks, so exports never
+ * hold more than one batch of rows in memory.
+ */
+
+/**
+ * Exported column and its header label
+ */
+export interface ExportColumn {
+  /**
+   * Entity property name
+   */
+  field: string;
+
+  /**
+   * Header label (from `fieldMappings`, defaults to the field name)
+   */
+  label: string;
+}
+
+/**
+ * Export file ready to be sent to the client
+ */
+export interface ExportFile {
+  /**
+   * Download file name including extension
+   */
+  fileName: string;
+
+  /**
+   * Content type header value
+   */
+  contentType: string;
+
+  /**
+   * Encoded file content
+   */
+  stream: Readable;
+}
+
+/**
+ * Serializer for a single export format
+ */
+export interface ExportWriter {
+  /**
+   * File extension without dot
+   */
+  extension: string;
+
+  /**
+   * Builds the content type for the given charset
+   */
+  contentType: (charset: string) => string;
+
+  /**
+   * Serializes records into output chunks
+   */
+  write: (
+    rows: AsyncIterable<Record<string, any>>,
+    columns: ExportColumn[],
+    options: { includeHeaders: boolean; charset: string },
+  ) => AsyncIterable<string | Buffer>;
+}
+
+/**
+ * Writes RFC 4180 CSV
+ */
+const csvWriter: ExportWriter = {
+  extension: 'csv',
+  contentType: (charset) => `text/csv; charset=${charset}`,
+  async *write(rows, columns, { includeHeaders }) {
+    if (includeHeaders) {
+      yield columns.map((column) => escapeCsv(column.label)).join(',') + '\r\n';
+    }
+
+    for await (const row of rows) {
+      yield columns
+        .map((column) => escapeCsv(row[column.field], true))
+        .join(',') + '\r\n';
+    }
+  },
+};
+
+/**
+ * Writes a JSON array of objects keyed by column label
+ */
+const jsonWriter: ExportWriter = {
+  extension: 'json',
+  contentType: (charset) => `application/json; charset=${charset}`,
+  async *write(rows, columns) {
+    let first = true;
+    yield '[';
+
+    for await (const row of rows) {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column) => {
+        record[column.label] = row[column.field] ?? null;
+      });
+      yield (first ? '\n' : ',\n') + JSON.stringify(record);
+      first = false;
+    }
+
+    yield first ? ']' : '\n]';
+  },
+};
+
+/**
+ * Writes an XML document with one `record` element per row
+ */
+const xmlWriter: ExportWriter = {
+  extension: 'xml',
+  contentType: (charset) => `application/xml; charset=${charset}`,
+  async *write(rows, columns, { charset }) {
+    yield `<?xml version="1.0" encoding="${charset}"?>\n<records>\n`;
+
+    for await (const row of rows) {
+      const fields = columns
+        .map(
+          (column) =>
+            `<field name="${escapeXml(column.label)}">${escapeXml(
+              formatValue(row[column.field]),
+            )}</field>`,
+        )
+        .join('');
+      yield `  <record>${fields}</record>\n`;
+    }
+
+    yield '</records>\n';
+  },
+};
+
+/**
+ * Writes an Office Open XML workbook with a single sheet
+ */
+const xlsxWriter: ExportWriter = {
+  extension: 'xlsx',
+  contentType: () =>
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  async *write(rows, columns, { includeHeaders }) {
+    const zip = new ZipStream();
+
+    yield* zip.addEntry(
+      '[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    );
+    yield* zip.addEntry(
+      '_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    );
+    yield* zip.addEntry(
+      'xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets>' +
+        '</workbook>',
+    );
+    yield* zip.addEntry(
+      'xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>',
+    );
+    yield* zip.addEntry('xl/worksheets/sheet1.xml', sheetXml());
+    yield* zip.finish();
+
+    async function* sheetXml(): AsyncGenerator<string> {
+      yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+
+      if (includeHeaders) {
+        yield `<row>${columns.map((column) => xlsxCell(column.label)).join('')}</row>`;
+      }
+
+      for await (const row of rows) {
+        yield `<row>${columns
+          .map((column) => xlsxCell(row[column.field]))
+          .join('')}</row>`;
+      }
+
+      yield '</sheetData></worksheet>';
+    }
+  },
+};
+
+/**
+ * Writers by export format
+ */
+export const EXPORT_WRITERS: Record<ExportOptions['format'], ExportWriter> = {
+  csv: csvWriter,
+  json: jsonWriter,
+  xml: xmlWriter,
+  xlsx: xlsxWriter,
+};
+
+/**
+ * Maps Node.js buffer encodings to IANA charset names
+ */
+export const EXPORT_CHARSETS: Record<string, string> = {
+  utf8: 'UTF-8',
+  'utf-8': 'UTF-8',
+  utf16le: 'UTF-16LE',
+  'utf-16le': 'UTF-16LE',
+  latin1: 'ISO-8859-1',
+  ascii: 'US-ASCII',
+};
+
+/**
+ * Encodes output chunks into a readable byte stream
+ *
+ * UTF-16 output starts with a byte order mark so spreadsheet applications
+ * detect the encoding.
+ *
+ * @param chunks Output chunks
+ * @param encoding Target encoding
+ * @returns Readable stream of encoded bytes
+ */
+export const toReadable = (
+  chunks: AsyncIterable<string | Buffer>,
+  encoding: BufferEncoding,
+): Readable =>
+  Readable.from(
+    (async function* () {
+      if (Buffer.from('a', encoding).length === 2) {
+        yield Buffer.from('\ufeff', encoding);
+      }
+      for await (const chunk of chunks) {
+        yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding);
+      }
+    })(),
+  );
+
+/**
+ * Formats a value as text
+ *
+ * @param value Raw value
+ * @returns Text representation
+ */
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value as string | number | boolean);
+};
+
+/**
+ * Escapes a CSV cell
+ *
+ * Text starting with a formula character is prefixed with a quote so
+ * spreadsheet applications do not evaluate it (CSV injection).
+ *
+ * @param value Raw value
+ * @param guardFormulas Whether to neutralize formula prefixes
+ * @returns Escaped cell
+ */
+const escapeCsv = (value: unknown, guardFormulas = false): string => {
+  let text = formatValue(value);
+  if (guardFormulas && typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Escapes XML text and attribute content, dropping invalid characters
+ *
+ * @param text Raw text
+ * @returns Escaped text
+ */
+const escapeXml = (text: string): string =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Builds a worksheet cell for a value
+ *
+ * @param value Raw value
+ * @returns Cell XML
+ */
+const xlsxCell = (value: unknown): string => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    formatValue(value),
+  )}</t></is></c>`;
+};
@@ -0,0 +1,296 @@
+import { SearchOptions } from '../../common/interfaces/pagination.interface';
+
+/**
+ * Search Scorer
+ *
+ * Database-agnostic relevance scoring and highlighting used by
+ * `BaseService.search` when no native full-text index is available.
+ * Scores are normalized to the 0..1 range: 1 means every search term
+ * matched a whole word, lower values mean prefix, substring or fuzzy matches.
+ */
+
+/**
+ * Maximum number of terms taken from a search query
+ */
+export const MAX_SEARCH_TERMS = 5;
+
+/**
+ * Column types treated as searchable text when no whitelist is configured
+ */
+export const TEXT_COLUMN_TYPES = [
+  'varchar',
+  'nvarchar',
+  'character varying',
+  'char',
+  'nchar',
+  'character',
+  'text',
+  'tinytext',
+  'mediumtext',
+  'longtext',
+  'citext',
+  'string',
+];
+
+/**
+ * Score of a single field match
+ */
+export interface FieldMatch {
+  /**
+   * Relevance of the match (0..1)
+   */
+  score: number;
+
+  /**
+   * Character offset of the match in the field value
+   */
+  start: number;
+
+  /**
+   * Length of the matched text
+   */
+  length: number;
+}
+
+/**
+ * Splits a search query into normalized terms
+ *
+ * @param query Raw search query
+ * @returns Lowercased unique terms, at most MAX_SEARCH_TERMS
+ */
+export const tokenize = (query: string): string[] => {
+  const terms = String(query)
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+};
+
+/**
+ * Computes the edit distance between two strings
+ *
+ * Counts insertions, deletions, substitutions and transpositions of
+ * adjacent characters (optimal string alignment), so a swapped pair of
+ * letters costs a single edit.
+ *
+ * @param a First string
+ * @param b Second string
+ * @returns Minimum number of edits
+ */
+export const editDistance = (a: string, b: string): number => {
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+/**
+ * Finds the best match of a term in a field value
+ *
+ * @param value Field value
+ * @param term Normalized search term
+ * @param type Search type
+ * @returns Best match or null if the term does not match
+ */
+export const matchTerm = (
+  value: string,
+  term: string,
+  type: NonNullable<SearchOptions['type']> = 'contains',
+): FieldMatch | null => {
+  const text = value.toLowerCase();
+
+  switch (type) {
+    case 'exact':
+      return text === term ? { score: 1, start: 0, length: text.length } : null;
+    case 'startsWith':
+      return text.startsWith(term)
+        ? { score: 1, start: 0, length: term.length }
+        : null;
+    case 'endsWith':
+      return text.endsWith(term)
+        ? { score: 1, start: text.length - term.length, length: term.length }
+        : null;
+  }
+
+  let best: FieldMatch | null = null;
+  const consider = (match: FieldMatch) => {
+    if (!best || match.score > best.score) {
+      best = match;
+    }
+  };
+
+  for (const word of words(text)) {
+    if (word.text === term) {
+      consider({ score: 1, start: word.start, length: word.text.length });
+    } else if (word.text.startsWith(term)) {
+      consider({ score: 0.8, start: word.start, length: term.length });
+    } else if (type === 'fuzzy') {
+      const similarity =
+        1 -
+        editDistance(word.text, term) / Math.max(word.text.length, term.length);
+      consider({
+        score: 0.7 * similarity,
+        start: word.start,
+        length: word.text.length,
+      });
+    }
+  }
+
+  const index = text.indexOf(term);
+  if (index !== -1) {
+    consider({ score: 0.6, start: index, length: term.length });
+  }
+
+  return best;
+};
+
+/**
+ * Scores a record against search terms
+ *
+ * Each term contributes its best match across all fields; the record score
+ * is the average over terms, so records matching every term rank first.
+ *
+ * @param record Record to score
+ * @param fields Fields to search in
+ * @param terms Normalized search terms
+ * @param type Search type
+ * @returns Score (0..1) and matches per field
+ */
+export const scoreRecord = (
+  record: Record<string, any>,
+  fields: string[],
+  terms: string[],
+  type?: SearchOptions['type'],
+): { score: number; matches: Record<string, FieldMatch[]> } => {
+  const matches: Record<string, FieldMatch[]> = {};
+  let total = 0;
+
+  for (const term of terms) {
+    let best = 0;
+
+    for (const field of fields) {
+      const value: unknown = record[field];
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        continue;
+      }
+
+      const match = matchTerm(String(value), term, type);
+      if (match && match.score > 0) {
+        (matches[field] = matches[field] || []).push(match);
+        best = Math.max(best, match.score);
+      }
+    }
+
+    total += best;
+  }
+
+  return {
+    score:
+      terms.length > 0 ? Math.round((total / terms.length) * 1000) / 1000 : 0,
+    matches,
+  };
+};
+
+/**
+ * Builds highlight snippets for matched fields
+ *
+ * Matches are wrapped in `<em>` tags inside a window of surrounding text.
+ *
+ * @param record Matched record
+ * @param matches Matches per field
+ * @param limit Maximum number of snippets in total
+ * @param context Characters of context on each side of a match
+ * @returns Highlight snippets per field
+ */
+export const buildHighlights = (
+  record: Record<string, any>,
+  matches: Record<string, FieldMatch[]>,
+  limit = 3,
+  context = 30,
+): Record<string, string[]> => {
+  const highlights: Record<string, string[]> = {};
+  let remaining = limit;
+
+  for (const [field, fieldMatches] of Object.entries(matches)) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const value = String(record[field]);
+    const ranges = mergeRanges(
+      fieldMatches.map((match): [number, number] => [
+        match.start,
+        match.start + match.length,
+      ]),
+    );
+    const snippets: string[] = [];
+
+    for (const [start, end] of ranges) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const from = Math.max(0, start - context);
+      const to = Math.min(value.length, end + context);
+      snippets.push(
+        (from > 0 ? '…' : '') +
+          value.slice(from, start) +
+          `<em>${value.slice(start, end)}</em>` +
+          value.slice(end, to) +
+          (to < value.length ? '…' : ''),
+      );
+      remaining--;
+    }
+
+    highlights[field] = snippets;
+  }
+
+  return highlights;
+};
+
+/**
+ * Splits text into words with their offsets
+ *
+ * @param text Lowercased text
+ * @returns Words and their start offsets
+ */
+const words = (text: string): { text: string; start: number }[] =>
+  Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    text: match[0],
+    start: match.index,
+  }));
+
+/**
+ * Sorts and merges overlapping character ranges
+ *
+ * @param ranges Start/end pairs
+ * @returns Non-overlapping ranges in order
+ */
+const mergeRanges = (ranges: [number, number][]): [number, number][] =>
+  ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
@@ -0,0 +1,208 @@
+import { once } from 'events';
+import { createDeflateRaw } from 'zlib';
+
+/**
+ * Zip Stream
+ *
+ * Minimal streaming ZIP archive writer used to produce XLSX exports without
+ * buffering the whole document. Entries are deflated on the fly and their
+ * sizes and checksums are written in data descriptors after the content,
+ * so entry content can be an async stream of unknown length.
+ *
+ * ZIP64 is not supported; archives and entries must stay below 4 GiB.
+ */
+
+/**
+ * Central directory record of a written entry
+ */
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * General purpose flags: sizes in data descriptor (bit 3), UTF-8 names (bit 11)
+ */
+const FLAGS = 0x0808;
+
+/**
+ * Compression method: deflate
+ */
+const DEFLATE = 8;
+
+/**
+ * ZIP format version 2.0 (deflate)
+ */
+const VERSION = 20;
+
+export class ZipStream {
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+
+  /**
+   * Writes an entry to the archive
+   *
+   * @param name Entry path inside the archive
+   * @param content Entry content as a buffer, string or async stream of chunks
+   * @returns Async generator of archive bytes
+   */
+  async *addEntry(
+    name: string,
+    content: string | Buffer | AsyncIterable<string | Buffer>,
+  ): AsyncGenerator<Buffer> {
+    const { time, date } = toDosDateTime(new Date());
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (offsets 14-25) follow in the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    yield* this.emit(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    const chunks =
+      typeof content === 'string' || Buffer.isBuffer(content)
+        ? [content]
+        : content;
+
+    // Feed the compressor while its output is being consumed below
+    const pump = (async () => {
+      try {
+        for await (const chunk of chunks) {
+          const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+          entry.crc = crc32(data, entry.crc);
+          entry.size += data.length;
+          if (!deflate.write(data)) {
+            await once(deflate, 'drain');
+          }
+        }
+        deflate.end();
+      } catch (error) {
+        deflate.destroy(error as Error);
+      }
+    })();
+
+    for await (const compressed of deflate as AsyncIterable<Buffer>) {
+      entry.compressedSize += compressed.length;
+      yield* this.emit(compressed);
+    }
+    await pump;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield* this.emit(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Writes the central directory, completing the archive
+   *
+   * @returns Generator of archive bytes
+   */
+  *finish(): Generator<Buffer> {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number and attributes stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      yield* this.emit(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    yield* this.emit(end);
+  }
+
+  /**
+   * Tracks the archive offset of emitted bytes
+   *
+   * @param data Bytes to emit
+   * @returns Generator yielding the bytes
+   */
+  private *emit(data: Buffer): Generator<Buffer> {
+    this.offset += data.length;
+    yield data;
+  }
+}
+
+/**
+ * CRC-32 lookup table (IEEE polynomial)
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Updates a CRC-32 checksum with more data
+ *
+ * @param data Data to checksum
+ * @param previous Checksum of the preceding data
+ * @returns Updated checksum
+ */
+export const crc32 = (data: Buffer, previous = 0): number => {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Converts a date to MS-DOS time and date fields
+ *
+ * @param value Date to convert
+ * @returns DOS time and date
+ */
+const toDosDateTime = (value: Date): { time: number; date: number } => ({
+  time:
+    (value.getHours() << 11) |
+    (value.getMinutes() << 5) |
+    Math.floor(value.getSeconds() / 2),
+  date:
+    ((value.getFullYear() - 1980) << 9) |
+    ((value.getMonth() + 1) << 5) |
+    value.getDate(),
+});
@@ -3,6 +3,11 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { DataSource, DataSourceOptions } from 'typeorm';
 import { databaseConfig } from '../../config/database.config';
+import { MigrationController } from './migration.controller';
+import { MigrationService } from './migration.service';
+import { QueryCacheService } from './query-cache.service';
+import { ReplicaRouterService } from './replica-router.service';
+import { TransactionManagerService } from './transaction-manager.service';
 
 /**
  * Database Module
@@ -10,14 +15,30 @@ import { databaseConfig } from '../../config/database.config';
  * Provides TypeORM database connection management with support for:
  * - Multiple database connections
  * - Connection pooling
- * - Transaction management
+ * - Transaction management with `@Transactional()` propagation and savepoints
  * - Health monitoring
- * - Migration support
+ * - Migration runner with a status endpoint and a production startup check
+ * - Query result cache (in-memory LRU or Redis) with tag invalidation
+ * - Read replica routing with read-your-writes for the rest of a request
  *
  * This module is global and provides database services throughout the application.
  */
 @Global()
-@Module({})
+@Module({
+  controllers: [MigrationController],
+  providers: [
+    TransactionManagerService,
+    MigrationService,
+    QueryCacheService,
+    ReplicaRouterService,
+  ],
+  exports: [
+    TransactionManagerService,
+    MigrationService,
+    QueryCacheService,
+    ReplicaRouterService,
+  ],
+})
 export class DatabaseModule {
   /**
    * Configures and returns the database module with TypeORM
@@ -197,7 +218,8 @@ export interface DatabaseModuleOptions extends Partial<DataSourceOptions> {
   subscribers?: any[];
 
   /**
-   * Auto-run migrations on startup
+   * Run pending migrations on startup (falls back to DB_AUTO_RUN_MIGRATIONS)
+   * Without it, pending migrations stop a production instance from starting
    */
   autoRunMigrations?: boolean;
 
@@ -237,15 +259,25 @@ export interface DatabaseModuleOptions extends Partial<DataSourceOptions> {
   slowQueryThreshold?: number;
 
   /**
-   * Enable query cache
+   * Enable query cache (falls back to CACHE_ENABLED)
    */
   enableQueryCache?: boolean;
 
   /**
-   * Query cache duration in milliseconds
+   * Query cache duration in milliseconds (falls back to CACHE_TTL)
    */
   queryCacheDuration?: number;
 
+  /**
+   * Query cache backend (falls back to CACHE_STORE)
+   */
+  queryCacheStore?: 'memory' | 'redis';
+
+  /**
+   * Maximum entries of the in-memory query cache (falls back to CACHE_MAX_ENTRIES)
+   */
+  queryCacheMaxEntries?: number;
+
   /**
    * Database connection pool settings
    */
@@ -305,113 +337,66 @@ export interface DatabaseHealthService {
 }
 
 /**
- * Transaction Manager Service
+ * Executed and pending schema migrations
  */
-export interface TransactionManagerService {
-  /**
-   * Executes operations within a transaction
-   * @param operations Array of operations to execute
-   * @returns Promise resolving to transaction result
-   */
-  runTransaction<T>(
-    operations: (manager: any) => Promise<T>
-  ): Promise<T>;
-
-  /**
-   * Creates a transaction runner
-   * @returns Transaction runner instance
-   */
-  createTransaction(): any;
-
+export interface MigrationStatus {
   /**
-   * Rolls back a transaction
-   * @param transaction Transaction to rollback
-   * @returns Promise resolving when rollback is complete
+   * Applied migrations, oldest first
    */
-  rollback(transaction: any): Promise<void>;
+  executed: Array<{ name: string; timestamp: Date }>;
 
   /**
-   * Commits a transaction
-   * @param transaction Transaction to commit
-   * @returns Promise resolving when commit is complete
+   * Migrations still to be applied
    */
-  commit(transaction: any): Promise<void>;
+  pending: string[];
 }
 
 /**
- * Migration Service
+ * Query cache statistics
  */
-export interface MigrationService {
+export interface QueryCacheStats {
   /**
-   * Runs pending migrations
-   * @returns Promise resolving to migration results
+   * Cache backend
    */
-  runMigrations(): Promise<{
-    executed: string[];
-    pending: string[];
-  }>;
+  store: 'memory' | 'redis';
 
   /**
-   * Reverts the last migration
-   * @returns Promise resolving to revert status
+   * Number of cached entries
    */
-  revertMigration(): Promise<boolean>;
+  size: number;
 
   /**
-   * Generates a new migration file
-   * @param name Migration name
-   * @returns Promise resolving to migration file path
+   * Lookups answered from the cache since startup
    */
-  generateMigration(name: string): Promise<string>;
+  hits: number;
 
   /**
-   * Gets migration status
-   * @returns Promise resolving to migration status
+   * Lookups that ran the query since startup
    */
-  getMigrationStatus(): Promise<{
-    executed: Array<{ name: string; executedAt: Date }>;
-    pending: string[];
-  }>;
-}
+  misses: number;
 
-/**
- * Query Cache Service
- */
-export interface QueryCacheService {
   /**
-   * Caches query results
-   * @param key Cache key
-   * @param query Query function
-   * @param ttl Time to live in seconds
-   * @returns Promise resolving to cached query result
+   * Share of lookups answered from the cache (0 to 1)
    */
-  getOrSet<T>(
-    key: string,
-    query: () => Promise<T>,
-    ttl?: number
-  ): Promise<T>;
+  hitRate: number;
+}
 
+/**
+ * Replication lag of a read replica
+ */
+export interface ReplicaLag {
   /**
-   * Invalidates cache entry
-   * @param key Cache key
-   * @returns Promise resolving to invalidation status
+   * Host name reported by the replica
    */
-  invalidate(key: string): Promise<boolean>;
+  host: string | null;
 
   /**
-   * Clears all cache entries
-   * @returns Promise resolving to clear status
+   * Seconds the replica is behind the primary, null if not replicating
    */
-  clear(): Promise<boolean>;
+  lag: number | null;
 
   /**
-   * Gets cache statistics
-   * @returns Promise resolving to cache statistics
+   * Error raised while reaching the replica
    */
-  getStats(): Promise<{
-    size: number;
-    hits: number;
-    misses: number;
-    hitRate: number;
-  }>;
-}
\ No newline at end of file
+  error?: string;
+}
@@ -0,0 +1,52 @@
+import { Controller, Get, HttpStatus, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminOnly } from '../../common/decorators/roles.decorator';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { MigrationService } from './migration.service';
+import type { MigrationStatus } from './database.module';
+
+/**
+ * Migration Controller
+ *
+ * Admin-only view of the schema migrations. Migrations are applied through
+ * the CLI (`npm run db:migrate`) or on startup, never over HTTP.
+ *
+ * Endpoints:
+ * - GET /admin/database/migrations - Executed and pending migrations
+ */
+@ApiTags('database')
+@ApiBearerAuth()
+@Controller('admin/database/migrations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@AdminOnly()
+export class MigrationController {
+  constructor(private readonly migrationService: MigrationService) {}
+
+  /**
+   * Gets the migration status
+   *
+   * @returns Promise resolving to the executed and pending migrations
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Migration status',
+    description: 'Lists the executed migrations and those still pending',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Migration status retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin role required',
+  })
+  async getStatus(): Promise<MigrationStatus> {
+    return this.migrationService.getMigrationStatus();
+  }
+}
@@ -0,0 +1,45 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { MigrationService } from './migration.service';
+
+describe('MigrationService', () => {
+  let dataSource: { runMigrations: jest.Mock };
+
+  const createService = (env: Record<string, unknown>, autoRun?: boolean) => {
+    const service = new MigrationService(
+      dataSource as unknown as DataSource,
+      new ConfigService(env),
+      { autoRunMigrations: autoRun },
+    );
+    jest.spyOn(service, 'getMigrationStatus').mockResolvedValue({
+      executed: [],
+      pending: ['AddCustomerTier1700000000000'],
+    });
+    return service;
+  };
+
+  beforeEach(() => {
+    dataSource = {
+      runMigrations: jest
+        .fn()
+        .mockResolvedValue([{ name: 'AddCustomerTier1700000000000' }]),
+    };
+  });
+
+  it('refuses to start in production with pending migrations', async () => {
+    await expect(
+      createService({ NODE_ENV: 'production' }).verifyOnStartup(),
+    ).rejects.toThrow(
+      'Refusing to start with 1 pending migration(s): AddCustomerTier1700000000000',
+    );
+    expect(dataSource.runMigrations).not.toHaveBeenCalled();
+  });
+
+  it('runs pending migrations when auto-run is enabled', async () => {
+    await createService({ NODE_ENV: 'production' }, true).verifyOnStartup();
+
+    expect(dataSource.runMigrations).toHaveBeenCalledWith({
+      transaction: 'each',
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { DataSource, MigrationExecutor } from 'typeorm';
+import type { DatabaseModuleOptions, MigrationStatus } from './database.module';
+
+/**
+ * Migration Service
+ *
+ * Applies, reverts and generates schema migrations through TypeORM's
+ * migration API, and checks the schema on startup: pending migrations are
+ * applied when auto-run is enabled, and block the start of a production
+ * instance otherwise.
+ */
+@Injectable()
+export class MigrationService {
+  private readonly logger = new Logger(MigrationService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject('DATABASE_CONFIG')
+    private readonly options: DatabaseModuleOptions = {},
+  ) {}
+
+  /**
+   * Runs pending migrations
+   *
+   * Each migration runs in its own transaction.
+   *
+   * @returns Promise resolving to the executed and still pending migration names
+   */
+  async runMigrations(): Promise<{ executed: string[]; pending: string[] }> {
+    const migrations = await this.dataSource.runMigrations({
+      transaction: 'each',
+    });
+    const { pending } = await this.getMigrationStatus();
+
+    return {
+      executed: migrations.map((migration) => migration.name),
+      pending,
+    };
+  }
+
+  /**
+   * Reverts the last executed migration
+   *
+   * @returns Promise resolving to true if a migration was reverted
+   */
+  async revertMigration(): Promise<boolean> {
+    const { executed } = await this.getMigrationStatus();
+    if (executed.length === 0) {
+      return false;
+    }
+
+    await this.dataSource.undoLastMigration({ transaction: 'each' });
+    return true;
+  }
+
+  /**
+   * Generates a migration from the difference between entities and schema
+   *
+   * @param name Migration name, e.g. AddCustomerTier
+   * @param directory Directory to write the file to (default: src/migrations)
+   * @returns Promise resolving to the path of the generated file
+   * @throws Error if the name is invalid or the schema is up to date
+   */
+  async generateMigration(name: string, directory?: string): Promise<string> {
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(name)) {
+      throw new Error(
+        'Migration name must be alphanumeric, e.g. AddCustomerTier',
+      );
+    }
+
+    const sql = await this.dataSource.driver.createSchemaBuilder().log();
+    if (sql.upQueries.length === 0) {
+      throw new Error('No schema changes found, nothing to generate');
+    }
+
+    const timestamp = Date.now();
+    const className = `${name[0].toUpperCase()}${name.slice(1)}${timestamp}`;
+    const toStatements = (queries: typeof sql.upQueries) =>
+      queries
+        .map(
+          ({ query, parameters }) =>
+            `    await queryRunner.query(${JSON.stringify(query)}${
+              parameters?.length ? `, ${JSON.stringify(parameters)}` : ''
+            });`,
+        )
+        .join('\n');
+
+    const source = [
+      `import { MigrationInterface, QueryRunner } from 'typeorm';`,
+      ``,
+      `export class ${className} implements MigrationInterface {`,
+      `  name = '${className}';`,
+      ``,
+      `  public async up(queryRunner: QueryRunner): Promise<void> {`,
+      toStatements(sql.upQueries),
+      `  }`,
+      ``,
+      `  public async down(queryRunner: QueryRunner): Promise<void> {`,
+      toStatements([...sql.downQueries].reverse()),
+      `  }`,
+      `}`,
+      ``,
+    ].join('\n');
+
+    const target = directory ?? join(process.cwd(), 'src', 'migrations');
+    const path = join(target, `${timestamp}-${name}.ts`);
+    await mkdir(target, { recursive: true });
+    await writeFile(path, source, 'utf8');
+    return path;
+  }
+
+  /**
+   * Gets the executed and pending migrations
+   *
+   * @returns Promise resolving to the migration status
+   */
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    const executor = new MigrationExecutor(this.dataSource);
+    const executed = await executor.getExecutedMigrations();
+    const pending = await executor.getPendingMigrations();
+
+    return {
+      executed: executed.map(({ name, timestamp }) => ({
+        name,
+        timestamp: new Date(timestamp),
+      })),
+      pending: pending.map((migration) => migration.name),
+    };
+  }
+
+  /**
+   * Checks the schema before the application starts serving requests
+   *
+   * Pending migrations are run when auto-run is enabled. Otherwise they
+   * stop a production instance and are reported in other environments.
+   *
+   * @throws Error if migrations are pending in production without auto-run
+   */
+  async verifyOnStartup(): Promise<void> {
+    const { pending } = await this.getMigrationStatus();
+    if (pending.length === 0) {
+      return;
+    }
+
+    const autoRun =
+      this.options.autoRunMigrations ??
+      this.configService.get<boolean>('database.autoRunMigrations', false);
+    if (autoRun) {
+      const { executed } = await this.runMigrations();
+      this.logger.log(
+        `Applied ${executed.length} migration(s): ${executed.join(', ')}`,
+      );
+      return;
+    }
+
+    const message = `${pending.length} pending migration(s): ${pending.join(', ')}`;
+    if (this.configService.get<string>('NODE_ENV') === 'production') {
+      throw new Error(
+        `Refusing to start with ${message}. Run the migrations or enable DB_AUTO_RUN_MIGRATIONS.`,
+      );
+    }
+    this.logger.warn(message);
+  }
+}
@@ -0,0 +1,56 @@
+import { ConfigService } from '@nestjs/config';
+import { QueryCacheService } from './query-cache.service';
+
+describe('QueryCacheService', () => {
+  let cache: QueryCacheService;
+
+  beforeEach(() => {
+    cache = new QueryCacheService(
+      new ConfigService({ cache: { store: 'memory', ttl: 60, maxEntries: 2 } }),
+    );
+  });
+
+  it('serves repeated queries from the cache until a tag is invalidated', async () => {
+    const createdAt = new Date('2024-03-01T10:00:00.000Z');
+    const query = jest.fn(() => Promise.resolve({ id: 'c1', createdAt }));
+
+    await cache.getOrSet('customers:item:c1', query, undefined, [
+      'customers:c1',
+    ]);
+    const cached = await cache.getOrSet('customers:item:c1', query);
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(cached).toEqual({ id: 'c1', createdAt });
+    expect(cached.createdAt).toBeInstanceOf(Date);
+
+    await cache.invalidateTags(['customers:c1']);
+    await cache.getOrSet('customers:item:c1', query);
+
+    expect(query).toHaveBeenCalledTimes(2);
+    await expect(cache.getStats()).resolves.toEqual({
+      store: 'memory',
+      size: 1,
+      hits: 1,
+      misses: 2,
+      hitRate: 1 / 3,
+    });
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const query = jest.fn((value: string) => Promise.resolve(value));
+
+    await cache.getOrSet('a', () => query('a'));
+    await cache.getOrSet('b', () => query('b'));
+    await cache.getOrSet('a', () => query('a'));
+    await cache.getOrSet('c', () => query('c'));
+    await cache.getOrSet('a', () => query('a'));
+    await cache.getOrSet('b', () => query('b'));
+
+    expect(query.mock.calls.map(([value]) => value)).toEqual([
+      'a',
+      'b',
+      'c',
+      'b',
+    ]);
+  });
+});
@@ -0,0 +1,223 @@
+import { Inject, Injectable, OnModuleDestroy, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+import {
+  MemoryQueryCacheStore,
+  QueryCacheStore,
+  RedisQueryCacheStore,
+} from './query-cache.stores';
+import type { DatabaseModuleOptions, QueryCacheStats } from './database.module';
+
+/**
+ * Serializes a value to JSON, keeping dates recognizable
+ */
+const serialize = (value: unknown): string | undefined =>
+  JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, item: unknown) {
+      const raw = this[key];
+      return raw instanceof Date ? { $date: raw.toISOString() } : item;
+    },
+  );
+
+/**
+ * Parses a serialized value, restoring dates
+ */
+const deserialize = (value: string): unknown =>
+  JSON.parse(value, (_key, item: unknown) => {
+    const date = (item as { $date?: unknown } | null)?.$date;
+    return typeof date === 'string' && Object.keys(item as object).length === 1
+      ? new Date(date)
+      : item;
+  });
+
+/**
+ * Query Cache Service
+ *
+ * Caches query results in memory (LRU) or in Redis, selected with
+ * `CACHE_STORE`. Entries carry tags so that a write can drop every cached
+ * query it affects. The cache fails open: when the store is unreachable
+ * queries run uncached and the error is logged.
+ */
+@Injectable()
+export class QueryCacheService implements OnModuleDestroy {
+  private readonly store: QueryCacheStore;
+  private readonly storeType: 'memory' | 'redis';
+  private readonly enabled: boolean;
+  private readonly defaultTtl: number;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Incremented on every invalidation, so results of queries that ran
+   * across one are not cached
+   */
+  private generation = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject('DATABASE_CONFIG')
+    options: DatabaseModuleOptions = {},
+  ) {
+    this.enabled =
+      options.enableQueryCache ??
+      this.configService.get<boolean>('cache.enabled', true);
+    this.defaultTtl = options.queryCacheDuration
+      ? Math.ceil(options.queryCacheDuration / 1000)
+      : this.configService.get<number>('cache.ttl', 60);
+    this.storeType =
+      options.queryCacheStore ??
+      this.configService.get<'memory' | 'redis'>('cache.store', 'memory');
+    this.store =
+      this.storeType === 'redis'
+        ? new RedisQueryCacheStore(
+            new Redis({
+              host: this.configService.get<string>('redis.host', 'localhost'),
+              port: this.configService.get<number>('redis.port', 6379),
+              password:
+                this.configService.get<string>('redis.password') || undefined,
+              db: this.configService.get<number>('redis.db', 0),
+              lazyConnect: true,
+              maxRetriesPerRequest: 1,
+            }),
+          )
+        : new MemoryQueryCacheStore(
+            options.queryCacheMaxEntries ??
+              this.configService.get<number>('cache.maxEntries', 1000),
+          );
+  }
+
+  /**
+   * Closes the store connection
+   */
+  async onModuleDestroy(): Promise<void> {
+    await this.store.close().catch(() => undefined);
+  }
+
+  /**
+   * Caches query results
+   *
+   * Null and undefined results are never cached.
+   *
+   * @param key Cache key
+   * @param query Query function
+   * @param ttl Time to live in seconds (default: CACHE_TTL)
+   * @param tags Tags used to invalidate the entry
+   * @returns Promise resolving to cached query result
+   */
+  async getOrSet<T>(
+    key: string,
+    query: () => Promise<T>,
+    ttl?: number,
+    tags: string[] = [],
+  ): Promise<T> {
+    if (!this.enabled) {
+      return query();
+    }
+
+    const cached = await this.attempt(() => this.store.get(key));
+    if (cached !== undefined) {
+      this.hits++;
+      return deserialize(cached) as T;
+    }
+    this.misses++;
+
+    const generation = this.generation;
+    const result = await query();
+    const value = result == null ? undefined : serialize(result);
+    if (value !== undefined && generation === this.generation) {
+      await this.attempt(() =>
+        this.store.set(key, value, ttl ?? this.defaultTtl, tags),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Builds a cache key from a namespace and query parameters
+   *
+   * @param namespace Key prefix, e.g. the table name
+   * @param params Parameters the query result depends on
+   * @returns Cache key
+   */
+  buildKey(namespace: string, params: unknown): string {
+    const hash = createHash('sha256')
+      .update(serialize(params) ?? '')
+      .digest('hex');
+    return `${namespace}:${hash.slice(0, 32)}`;
+  }
+
+  /**
+   * Invalidates cache entry
+   *
+   * @param key Cache key
+   * @returns Promise resolving to invalidation status
+   */
+  async invalidate(key: string): Promise<boolean> {
+    this.generation++;
+    return (await this.attempt(() => this.store.delete(key))) ?? false;
+  }
+
+  /**
+   * Invalidates every entry attached to one of the tags
+   *
+   * @param tags Cache tags
+   * @returns Promise resolving to the number of removed entries
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    this.generation++;
+    return (await this.attempt(() => this.store.invalidateTags(tags))) ?? 0;
+  }
+
+  /**
+   * Clears all cache entries
+   *
+   * @returns Promise resolving to clear status
+   */
+  async clear(): Promise<boolean> {
+    this.generation++;
+    return (
+      (await this.attempt(async () => {
+        await this.store.clear();
+        return true;
+      })) ?? false
+    );
+  }
+
+  /**
+   * Gets cache statistics
+   *
+   * Hits and misses are counted per instance since startup.
+   *
+   * @returns Promise resolving to cache statistics
+   */
+  async getStats(): Promise<QueryCacheStats> {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.storeType,
+      size: (await this.attempt(() => this.store.size())) ?? 0,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  /**
+   * Runs a store operation, logging failures instead of throwing
+   *
+   * @param operation Store operation
+   * @returns Promise resolving to the result, or undefined on failure
+   */
+  private async attempt<R>(
+    operation: () => Promise<R>,
+  ): Promise<R | undefined> {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error('Query cache operation failed:', error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import Redis from 'ioredis';
+
+/**
+ * Storage backend of the query cache
+ *
+ * Values are serialized strings; TTLs are in seconds.
+ */
+export interface QueryCacheStore {
+  /**
+   * Gets a cached value
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Stores a value and attaches it to the given tags
+   */
+  set(key: string, value: string, ttl: number, tags: string[]): Promise<void>;
+
+  /**
+   * Removes a cached value
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Removes every value attached to one of the tags
+   */
+  invalidateTags(tags: string[]): Promise<number>;
+
+  /**
+   * Removes all cached values
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Counts the cached values
+   */
+  size(): Promise<number>;
+
+  /**
+   * Releases connections held by the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory query cache store
+ *
+ * Least recently used entries are evicted once `maxEntries` is reached.
+ * Entries are local to the process, so each instance caches on its own.
+ */
+export class MemoryQueryCacheStore implements QueryCacheStore {
+  private readonly entries = new Map<
+    string,
+    { value: string; expiresAt: number; tags: string[] }
+  >();
+  private readonly tagIndex = new Map<string, Set<string>>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return Promise.resolve(undefined);
+    }
+
+    // Move the entry to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, ttl: number, tags: string[]): Promise<void> {
+    this.remove(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000, tags });
+    for (const tag of tags) {
+      const keys = this.tagIndex.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.tagIndex.set(tag, keys);
+    }
+
+    while (this.entries.size > this.maxEntries) {
+      this.remove(this.entries.keys().next().value as string);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(this.remove(key));
+  }
+
+  invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of this.tagIndex.get(tag) ?? []) {
+        removed += this.remove(key) ? 1 : 0;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+    return Promise.resolve();
+  }
+
+  size(): Promise<number> {
+    return Promise.resolve(this.entries.size);
+  }
+
+  close(): Promise<void> {
+    return this.clear();
+  }
+
+  /**
+   * Removes an entry and its tag references
+   *
+   * @param key Cache key
+   * @returns True if the entry existed
+   */
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * Redis query cache store
+ *
+ * Shares cached results between instances. Values are stored under
+ * `<prefix>entry:<key>` with a Redis TTL; every tag is a set of the keys
+ * attached to it, expiring with the longest-lived of them.
+ */
+export class RedisQueryCacheStore implements QueryCacheStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix = 'query-cache:',
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(this.entryKey(key))) ?? undefined;
+  }
+
+  async set(
+    key: string,
+    value: string,
+    ttl: number,
+    tags: string[],
+  ): Promise<void> {
+    const pipeline = this.client
+      .multi()
+      .set(this.entryKey(key), value, 'EX', ttl);
+    for (const tag of tags) {
+      pipeline
+        .sadd(this.tagKey(tag), key)
+        .expire(this.tagKey(tag), ttl, 'GT')
+        .expire(this.tagKey(tag), ttl, 'NX');
+    }
+    await pipeline.exec();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.del(this.entryKey(key))) > 0;
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      const keys = await this.client.smembers(this.tagKey(tag));
+      if (keys.length > 0) {
+        removed += await this.client.del(
+          ...keys.map((key) => this.entryKey(key)),
+        );
+      }
+      await this.client.del(this.tagKey(tag));
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${this.prefix}*`,
+        'COUNT',
+        500,
+      );
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async size(): Promise<number> {
+    let count = 0;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${this.prefix}entry:*`,
+        'COUNT',
+        500,
+      );
+      count += keys.length;
+      cursor = next;
+    } while (cursor !== '0');
+    return count;
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`;
+  }
+}
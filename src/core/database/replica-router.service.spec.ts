@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+import { Request } from 'express';
+import { DataSource } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { ReplicaRouterService } from './replica-router.service';
+
+describe('ReplicaRouterService', () => {
+  let createQueryRunner: jest.Mock;
+  let router: ReplicaRouterService;
+
+  beforeEach(() => {
+    createQueryRunner = jest.fn((mode: string) => ({
+      mode,
+      manager: { mode },
+      release: jest.fn(() => Promise.resolve()),
+      query: jest.fn((sql: string) =>
+        Promise.resolve(
+          sql.startsWith('SELECT')
+            ? [{ host: 'replica-a' }]
+            : [{ Seconds_Behind_Source: 4 }],
+        ),
+      ),
+    }));
+    router = new ReplicaRouterService({
+      options: {
+        type: 'mysql',
+        replication: { master: {}, slaves: [{}] },
+      },
+      createQueryRunner,
+    } as unknown as DataSource);
+  });
+
+  it('reads from the primary for the rest of the request after a write', () => {
+    const response = new EventEmitter();
+    const request = { res: response } as unknown as Request;
+
+    RequestContext.run({ request }, () => {
+      expect(router.getManager()).toBeUndefined();
+
+      router.markWrite();
+      const manager = router.getManager();
+      expect(manager).toEqual({ mode: 'master' });
+      expect(router.getManager()).toBe(manager);
+      expect(createQueryRunner).toHaveBeenCalledTimes(1);
+
+      response.emit('close');
+      const [{ value: queryRunner }] = createQueryRunner.mock.results as {
+        value: { release: jest.Mock };
+      }[];
+      expect(queryRunner.release).toHaveBeenCalled();
+      expect(router.getManager()).toBeUndefined();
+    });
+  });
+
+  it('reports the lag of each replica', async () => {
+    await expect(router.getReplicaLag()).resolves.toEqual([
+      { host: 'replica-a', lag: 4 },
+    ]);
+    expect(createQueryRunner).toHaveBeenCalledWith('slave');
+  });
+});
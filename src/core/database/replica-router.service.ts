@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, EntityManager, QueryRunner } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import type { ReplicaLag } from './database.module';
+
+/**
+ * Request context keys of the primary connection pinned after a write
+ */
+const PINNED_KEY = 'replicaPinned';
+const PRIMARY_RUNNER_KEY = 'primaryQueryRunner';
+
+/**
+ * Replica Router Service
+ *
+ * With read replicas configured (DB_REPLICA_HOSTS), TypeORM sends SELECT
+ * queries to a replica and everything else to the primary. Replication
+ * lags behind, so once a request wrote through BaseService its remaining
+ * reads are pinned to a primary connection, held until the response is
+ * closed: callers always read their own writes.
+ */
+@Injectable()
+export class ReplicaRouterService {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Checks whether read replicas are configured
+   *
+   * @returns True if reads are routed to replicas
+   */
+  isEnabled(): boolean {
+    return (
+      'replication' in this.dataSource.options &&
+      !!this.dataSource.options.replication
+    );
+  }
+
+  /**
+   * Pins the remaining reads of the current request to the primary
+   *
+   * Has no effect without replicas or outside of an HTTP request.
+   */
+  markWrite(): void {
+    const store = RequestContext.current();
+    if (store?.request?.res && this.isEnabled()) {
+      store[PINNED_KEY] = true;
+    }
+  }
+
+  /**
+   * Checks whether the current request reads from the primary
+   *
+   * @returns True after a write in the current request
+   */
+  isPinned(): boolean {
+    return RequestContext.current()?.[PINNED_KEY] === true;
+  }
+
+  /**
+   * Gets the entity manager reads of the current request must use
+   *
+   * @returns Manager bound to a primary connection after a write in the
+   *          request, undefined to let TypeORM route reads to a replica
+   */
+  getManager(): EntityManager | undefined {
+    const store = RequestContext.current();
+    const response = store?.request?.res;
+    if (!store || !response || store[PINNED_KEY] !== true) {
+      return undefined;
+    }
+
+    let queryRunner = store[PRIMARY_RUNNER_KEY] as QueryRunner | undefined;
+    if (!queryRunner) {
+      const primary = this.dataSource.createQueryRunner('master');
+      queryRunner = primary;
+      store[PRIMARY_RUNNER_KEY] = primary;
+
+      // Work still running after the response reads from replicas again
+      response.once('close', () => {
+        store[PRIMARY_RUNNER_KEY] = undefined;
+        store[PINNED_KEY] = false;
+        primary.release().catch((error) => {
+          console.error('Failed to release primary connection:', error);
+        });
+      });
+    }
+    return queryRunner.manager;
+  }
+
+  /**
+   * Measures the replication lag of the read replicas
+   *
+   * Replicas are sampled through the replica pool, one connection per
+   * configured replica, and identified by the server host name.
+   *
+   * @returns Promise resolving to the lag of each sampled replica
+   */
+  async getReplicaLag(): Promise<ReplicaLag[]> {
+    const options = this.dataSource.options as {
+      replication?: { slaves?: unknown[] };
+    };
+    const count = options.replication?.slaves?.length ?? 0;
+    const replicas = new Map<string, ReplicaLag>();
+
+    for (let index = 0; index < count; index++) {
+      const queryRunner = this.dataSource.createQueryRunner('slave');
+      try {
+        const lag = await this.measureLag(queryRunner);
+        replicas.set(lag.host ?? `replica-${index}`, lag);
+      } catch (error) {
+        replicas.set(`replica-${index}`, {
+          host: null,
+          lag: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        await queryRunner.release();
+      }
+    }
+    return [...replicas.values()];
+  }
+
+  /**
+   * Reads the replication lag on a replica connection
+   *
+   * @param queryRunner Query runner connected to a replica
+   * @returns Promise resolving to the lag in seconds, null when the server
+   *          is not replicating
+   */
+  private async measureLag(queryRunner: QueryRunner): Promise<ReplicaLag> {
+    switch (this.dataSource.options.type) {
+      case 'mysql':
+      case 'mariadb': {
+        const [server] = (await queryRunner.query(
+          'SELECT @@hostname AS host',
+        )) as { host: string }[];
+        const [status] = (await queryRunner
+          .query('SHOW REPLICA STATUS')
+          .catch(() => queryRunner.query('SHOW SLAVE STATUS'))) as Record<
+          string,
+          unknown
+        >[];
+        const seconds =
+          status?.Seconds_Behind_Source ?? status?.Seconds_Behind_Master;
+        return {
+          host: server?.host ?? null,
+          lag: seconds == null ? null : Number(seconds),
+        };
+      }
+      case 'postgres': {
+        const [status] = (await queryRunner.query(
+          `SELECT inet_server_addr()::text AS host,
+             CASE WHEN pg_is_in_recovery()
+               THEN COALESCE(EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()), 0)
+             END AS lag`,
+        )) as { host: string | null; lag: string | number | null }[];
+        return {
+          host: status?.host ?? null,
+          lag: status?.lag == null ? null : Number(status.lag),
+        };
+      }
+      default:
+        throw new Error(
+          `Replica lag is not supported for ${this.dataSource.options.type}`,
+        );
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { DataSource, EntityManager } from 'typeorm';
+import { TransactionManagerService } from './transaction-manager.service';
+import { Transactional } from './transactional.decorator';
+
+describe('TransactionManagerService', () => {
+  let calls: string[];
+  let manager: EntityManager;
+  let transactions: TransactionManagerService;
+
+  beforeEach(() => {
+    calls = [];
+    manager = {} as EntityManager;
+    let depth = 0;
+    const queryRunner = {
+      manager,
+      get isTransactionActive() {
+        return depth > 0;
+      },
+      connect: jest.fn(() => Promise.resolve()),
+      startTransaction: jest.fn(() => {
+        calls.push(depth === 0 ? 'BEGIN' : `SAVEPOINT ${depth}`);
+        depth++;
+        return Promise.resolve();
+      }),
+      commitTransaction: jest.fn(() => {
+        depth--;
+        calls.push(depth === 0 ? 'COMMIT' : `RELEASE ${depth}`);
+        return Promise.resolve();
+      }),
+      rollbackTransaction: jest.fn(() => {
+        depth--;
+        calls.push(depth === 0 ? 'ROLLBACK' : `ROLLBACK TO ${depth}`);
+        return Promise.resolve();
+      }),
+      release: jest.fn(() => Promise.resolve()),
+    };
+
+    transactions = new TransactionManagerService({
+      createQueryRunner: () => queryRunner,
+    } as unknown as DataSource);
+  });
+
+  it('runs nested transactions in savepoints of one connection', async () => {
+    const published = jest.fn();
+
+    await transactions.runTransaction(async (outer) => {
+      expect(transactions.getManager()).toBe(outer);
+
+      await transactions.runTransaction(async (inner) => {
+        expect(inner).toBe(outer);
+        await transactions.afterCommit(published);
+      });
+
+      await transactions
+        .runTransaction(async () => {
+          await transactions.afterCommit(() => published('dropped'));
+          throw new Error('boom');
+        })
+        .catch(() => undefined);
+
+      expect(published).not.toHaveBeenCalled();
+    });
+
+    expect(calls).toEqual([
+      'BEGIN',
+      'SAVEPOINT 1',
+      'RELEASE 1',
+      'SAVEPOINT 1',
+      'ROLLBACK TO 1',
+      'COMMIT',
+    ]);
+    expect(published).toHaveBeenCalledTimes(1);
+    expect(published).not.toHaveBeenCalledWith('dropped');
+    expect(transactions.getManager()).toBeUndefined();
+  });
+
+  it('rolls back @Transactional() methods that throw', async () => {
+    class RedemptionService {
+      constructor(readonly transactionManager: TransactionManagerService) {}
+
+      @Transactional()
+      async redeem(): Promise<void> {
+        calls.push(
+          this.transactionManager.getManager() === manager ? 'WORK' : 'NONE',
+        );
+        await Promise.resolve();
+        throw new Error('Insufficient points');
+      }
+    }
+
+    await expect(new RedemptionService(transactions).redeem()).rejects.toThrow(
+      'Insufficient points',
+    );
+    expect(calls).toEqual(['BEGIN', 'WORK', 'ROLLBACK']);
+  });
+});
@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { DataSource, EntityManager, QueryRunner } from 'typeorm';
+import type { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
+
+/**
+ * Transaction bound to the current asynchronous call chain
+ */
+interface TransactionContext {
+  /**
+   * Query runner holding the connection of the transaction
+   */
+  queryRunner: QueryRunner;
+
+  /**
+   * Callbacks to run once the outermost transaction committed
+   */
+  commitCallbacks: (() => unknown)[];
+}
+
+const storage = new AsyncLocalStorage<TransactionContext>();
+
+/**
+ * Transaction Manager Service
+ *
+ * Runs work in a database transaction that follows the asynchronous call
+ * chain, so every BaseService call made inside it (and every method
+ * decorated with `@Transactional()`) uses the same EntityManager. A
+ * transaction started while another one is active becomes a savepoint:
+ * its failure rolls back only its own changes, and the outer transaction
+ * decides whether everything is committed.
+ */
+@Injectable()
+export class TransactionManagerService {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Executes work within a transaction
+   *
+   * Joins the active transaction through a savepoint when there is one.
+   *
+   * @param work Function receiving the transactional entity manager
+   * @param isolationLevel Isolation level of a new transaction (ignored for savepoints)
+   * @returns Promise resolving to the result of the work
+   */
+  async runTransaction<R>(
+    work: (manager: EntityManager) => Promise<R>,
+    isolationLevel?: IsolationLevel,
+  ): Promise<R> {
+    const current = storage.getStore();
+    if (current) {
+      return this.runSavepoint(current.queryRunner, work);
+    }
+
+    const queryRunner = await this.createTransaction(isolationLevel);
+    const context: TransactionContext = { queryRunner, commitCallbacks: [] };
+
+    let result: R;
+    try {
+      result = await storage.run(context, () => work(queryRunner.manager));
+    } catch (error) {
+      await this.rollback(queryRunner);
+      throw error;
+    }
+
+    await this.commit(queryRunner);
+    for (const callback of context.commitCallbacks) {
+      try {
+        await callback();
+      } catch (error) {
+        console.error('Transaction commit callback failed:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Starts a transaction on a dedicated connection
+   *
+   * The caller must end it with `commit` or `rollback`, which also release
+   * the connection. Prefer `runTransaction`, which does so automatically.
+   *
+   * @param isolationLevel Isolation level of the transaction
+   * @returns Promise resolving to the query runner of the transaction
+   */
+  async createTransaction(
+    isolationLevel?: IsolationLevel,
+  ): Promise<QueryRunner> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+
+    try {
+      await queryRunner.startTransaction(isolationLevel);
+    } catch (error) {
+      await queryRunner.release();
+      throw error;
+    }
+    return queryRunner;
+  }
+
+  /**
+   * Commits a transaction and releases its connection
+   *
+   * @param queryRunner Query runner returned by createTransaction
+   */
+  async commit(queryRunner: QueryRunner): Promise<void> {
+    try {
+      await queryRunner.commitTransaction();
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Rolls back a transaction and releases its connection
+   *
+   * @param queryRunner Query runner returned by createTransaction
+   */
+  async rollback(queryRunner: QueryRunner): Promise<void> {
+    try {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Gets the entity manager of the active transaction
+   *
+   * @returns Entity manager, or undefined outside of a transaction
+   */
+  getManager(): EntityManager | undefined {
+    return storage.getStore()?.queryRunner.manager;
+  }
+
+  /**
+   * Checks whether a transaction is active
+   *
+   * @returns True inside `runTransaction` or a `@Transactional()` method
+   */
+  isActive(): boolean {
+    return storage.getStore() !== undefined;
+  }
+
+  /**
+   * Runs a callback once the active transaction committed
+   *
+   * The callback runs immediately outside of a transaction and is dropped
+   * when the transaction rolls back. Failures are logged.
+   *
+   * @param callback Function to run after commit
+   */
+  async afterCommit(callback: () => unknown): Promise<void> {
+    const current = storage.getStore();
+    if (current) {
+      current.commitCallbacks.push(callback);
+      return;
+    }
+
+    try {
+      await callback();
+    } catch (error) {
+      console.error('Transaction commit callback failed:', error);
+    }
+  }
+
+  /**
+   * Runs nested work within a savepoint of the active transaction
+   *
+   * Commit callbacks registered by failed work are discarded with it.
+   *
+   * @param queryRunner Query runner of the active transaction
+   * @param work Function receiving the transactional entity manager
+   * @returns Promise resolving to the result of the work
+   */
+  private async runSavepoint<R>(
+    queryRunner: QueryRunner,
+    work: (manager: EntityManager) => Promise<R>,
+  ): Promise<R> {
+    const context = storage.getStore()!;
+    const pending = context.commitCallbacks.length;
+
+    await queryRunner.startTransaction();
+    try {
+      const result = await work(queryRunner.manager);
+      await queryRunner.commitTransaction();
+      return result;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      context.commitCallbacks.splice(pending);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
+import type { TransactionManagerService } from './transaction-manager.service';
+
+/**
+ * Transactional Decorator
+ *
+ * Runs a method within a transaction shared by every BaseService call it
+ * makes, directly or through other services. When the method is called
+ * inside another transaction it runs in a savepoint, so its failure only
+ * rolls back its own changes. The class must expose the
+ * TransactionManagerService as `transactionManager`, which every
+ * BaseService does.
+ *
+ * Usage:
+ * ```typescript
+ * @Transactional()
+ * async redeem(customerId: string, rewardId: string): Promise<Redemption> {
+ *   await this.customerService.update(customerId, { points: remaining });
+ *   return this.redemptionService.create({ customerId, rewardId });
+ * }
+ * ```
+ *
+ * @param isolationLevel Isolation level of a new transaction
+ * @returns Decorator function
+ */
+export const Transactional =
+  (isolationLevel?: IsolationLevel): MethodDecorator =>
+  (target, propertyKey, descriptor) => {
+    const method = descriptor.value as unknown as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+
+    const wrapped = async function (
+      this: { transactionManager?: TransactionManagerService },
+      ...args: unknown[]
+    ): Promise<unknown> {
+      if (!this.transactionManager) {
+        throw new Error(
+          `@Transactional() on ${String(propertyKey)} requires a transactionManager property`,
+        );
+      }
+
+      return this.transactionManager.runTransaction(
+        () => method.apply(this, args) as Promise<unknown>,
+        isolationLevel,
+      );
+    };
+
+    // Keep metadata set by decorators applied before this one
+    for (const key of Reflect.getMetadataKeys(method)) {
+      Reflect.defineMetadata(key, Reflect.getMetadata(key, method), wrapped);
+    }
+
+    descriptor.value = wrapped as unknown as typeof descriptor.value;
+    return descriptor;
+  };
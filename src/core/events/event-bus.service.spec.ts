@@ -0,0 +1,142 @@
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { Request } from 'express';
+import { DataSource, EntityManager } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { TransactionManagerService } from '../database/transaction-manager.service';
+import { EventBusService } from './event-bus.service';
+import { OnDomainEvent } from './on-domain-event.decorator';
+import { OutboxEvent } from './outbox-event.entity';
+import type { DomainEvent } from './events.module';
+
+class Customer {}
+
+describe('EventBusService', () => {
+  let rewards: DomainEvent[];
+  let bus: EventBusService;
+
+  class WelcomeRewardService {
+    @OnDomainEvent(Customer, 'CREATE')
+    grant(event: DomainEvent): void {
+      rewards.push(event);
+    }
+  }
+
+  const createBus = (outbox?: boolean) =>
+    new EventBusService(
+      {
+        getProviders: () => [{ instance: new WelcomeRewardService() }],
+      } as unknown as DiscoveryService,
+      new MetadataScanner(),
+      {
+        getMetadata: () => ({ tableName: 'customers' }),
+      } as unknown as DataSource,
+      { outbox },
+    );
+
+  beforeEach(() => {
+    rewards = [];
+    bus = createBus();
+    bus.onModuleInit();
+  });
+
+  it('builds events from the request context', () => {
+    const request = {
+      user: { sub: 'u1' },
+      headers: { 'x-correlation-id': 'corr-1' },
+    } as unknown as Request;
+
+    const event = RequestContext.run({ request, tenantId: 'm1' }, () =>
+      bus.createEvent('customers', 'c1', 'SOFT_DELETE', { id: 'c1' }, null),
+    );
+
+    expect(event).toMatchObject({
+      type: 'customers.deleted',
+      entityId: 'c1',
+      before: { id: 'c1' },
+      after: null,
+      actorId: 'u1',
+      tenantId: 'm1',
+      correlationId: 'corr-1',
+    });
+  });
+
+  it('records events in the outbox of the given transaction', async () => {
+    const save = jest.fn((row: unknown) => Promise.resolve(row));
+    const getRepository = jest.fn(() => ({
+      create: (row: unknown) => row,
+      save,
+    }));
+    const manager = { getRepository } as unknown as EntityManager;
+    const event = bus.createEvent('customers', 'c1', 'CREATE', null, {
+      id: 'c1',
+    });
+
+    await bus.record(event, manager);
+    await createBus(false).record(event, manager);
+
+    expect(getRepository).toHaveBeenCalledWith(OutboxEvent);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith({
+      id: event.id,
+      type: 'customers.created',
+      entityType: 'customers',
+      entityId: 'c1',
+      operation: 'CREATE',
+      payload: { before: null, after: { id: 'c1' } },
+      metadata: { actorId: null, tenantId: null, correlationId: null },
+      occurredAt: event.occurredAt,
+    });
+  });
+
+  it('publishes to matching subscribers and isolates their failures', async () => {
+    const all = jest.fn();
+    const unsubscribe = bus.subscribe('*', '*', all);
+    bus.subscribe('customers', 'UPDATE', () => {
+      throw new Error('boom');
+    });
+    const log = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await bus.publish(bus.createEvent('customers', 'c1', 'CREATE', null, {}));
+    await bus.publish(bus.createEvent('customers', 'c1', 'UPDATE', {}, {}));
+    unsubscribe();
+    await bus.publish(bus.createEvent('orders', 'o1', 'CREATE', null, {}));
+
+    expect(rewards.map((event) => event.entityId)).toEqual(['c1']);
+    expect(all).toHaveBeenCalledTimes(2);
+    expect(log).toHaveBeenCalledWith(
+      'Domain event handler for customers.updated failed:',
+      expect.any(Error),
+    );
+    log.mockRestore();
+  });
+
+  it('publishes events once their transaction committed', async () => {
+    const queryRunner = {
+      manager: {},
+      isTransactionActive: false,
+      connect: () => Promise.resolve(),
+      startTransaction: () => Promise.resolve(),
+      commitTransaction: () => Promise.resolve(),
+      rollbackTransaction: () => Promise.resolve(),
+      release: () => Promise.resolve(),
+    };
+    const transactions = new TransactionManagerService({
+      createQueryRunner: () => queryRunner,
+    } as unknown as DataSource);
+    const created = bus.createEvent('customers', 'c1', 'CREATE', null, {});
+    const dropped = bus.createEvent('customers', 'c2', 'CREATE', null, {});
+
+    await transactions.runTransaction(async () => {
+      await transactions.afterCommit(() => bus.publish(created));
+      expect(rewards).toHaveLength(0);
+    });
+    await transactions
+      .runTransaction(async () => {
+        await transactions.afterCommit(() => bus.publish(dropped));
+        throw new Error('rolled back');
+      })
+      .catch(() => undefined);
+
+    expect(rewards).toEqual([created]);
+  });
+});
@@ -0,0 +1,209 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { randomUUID } from 'crypto';
+import { DataSource, EntityManager } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { OutboxEvent } from './outbox-event.entity';
+import { getDomainEventSubscriptions } from './on-domain-event.decorator';
+import type {
+  DomainEvent,
+  DomainEventHandler,
+  DomainEventOperation,
+  EventsModuleOptions,
+} from './events.module';
+
+/**
+ * Event type suffix per operation
+ */
+export const DOMAIN_EVENT_NAMES: Record<DomainEventOperation, string> = {
+  CREATE: 'created',
+  UPDATE: 'updated',
+  SOFT_DELETE: 'deleted',
+  RESTORE: 'restored',
+  DELETE: 'purged',
+};
+
+/**
+ * Handler registered for an entity and operation
+ */
+interface Subscription {
+  entityType: string;
+  operation: DomainEventOperation | '*';
+  handler: DomainEventHandler;
+}
+
+/**
+ * Event Bus Service
+ *
+ * In-process bus for the domain events raised by BaseService mutations.
+ * Events are written to the outbox table inside the transaction of the
+ * write, then published to subscribers once the transaction committed.
+ * Subscribers are provider methods decorated with `@OnDomainEvent()` or
+ * handlers registered through `subscribe`.
+ */
+@Injectable()
+export class EventBusService implements OnModuleInit {
+  private readonly subscriptions: Subscription[] = [];
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly dataSource: DataSource,
+    @Inject('EVENTS_OPTIONS')
+    private readonly options: EventsModuleOptions = {},
+  ) {}
+
+  /**
+   * Subscribes every `@OnDomainEvent()` method of the application providers
+   */
+  onModuleInit(): void {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const instance = wrapper.instance as Record<string, unknown> | undefined;
+      if (!instance || typeof instance !== 'object') {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance) as object;
+      for (const method of this.metadataScanner.getAllMethodNames(prototype)) {
+        for (const { entity, operation } of getDomainEventSubscriptions(
+          instance[method],
+        )) {
+          const entityType =
+            typeof entity === 'string'
+              ? entity
+              : this.dataSource.getMetadata(entity).tableName;
+          const handler = instance[method] as DomainEventHandler;
+          this.subscribe(entityType, operation, (event) =>
+            handler.call(instance, event),
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Registers a handler for the events of an entity
+   *
+   * @param entityType Entity table name, '*' for every entity
+   * @param operation Operation, '*' for every operation
+   * @param handler Handler receiving matching events
+   * @returns Function removing the subscription
+   */
+  subscribe<T = Record<string, unknown>>(
+    entityType: string,
+    operation: DomainEventOperation | '*',
+    handler: DomainEventHandler<T>,
+  ): () => void {
+    const subscription: Subscription = {
+      entityType,
+      operation,
+      handler: handler as DomainEventHandler,
+    };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      const index = this.subscriptions.indexOf(subscription);
+      if (index !== -1) {
+        this.subscriptions.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Builds the domain event of a mutation
+   *
+   * The actor, tenant and correlation ID are taken from the current request
+   * context.
+   *
+   * @param entityType Entity table name
+   * @param entityId Entity ID
+   * @param operation Operation performed
+   * @param before Entity state before the operation
+   * @param after Entity state after the operation
+   * @returns Domain event
+   */
+  createEvent<T = Record<string, unknown>>(
+    entityType: string,
+    entityId: string,
+    operation: DomainEventOperation,
+    before: T | null,
+    after: T | null,
+  ): DomainEvent<T> {
+    return {
+      id: randomUUID(),
+      type: `${entityType}.${DOMAIN_EVENT_NAMES[operation]}`,
+      entityType,
+      entityId,
+      operation,
+      before,
+      after,
+      actorId: RequestContext.getActor()?.id ?? null,
+      tenantId: RequestContext.getTenantId() ?? null,
+      correlationId: RequestContext.getCorrelationId() ?? null,
+      occurredAt: new Date(),
+    };
+  }
+
+  /**
+   * Writes an event to the outbox
+   *
+   * Pass the entity manager of the write so the event is stored atomically
+   * with it.
+   *
+   * @param event Domain event
+   * @param manager Entity manager of the current transaction
+   */
+  async record(event: DomainEvent, manager: EntityManager): Promise<void> {
+    if (this.options.outbox === false) {
+      return;
+    }
+
+    const repository = manager.getRepository(OutboxEvent);
+    await repository.save(
+      repository.create({
+        id: event.id,
+        type: event.type,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        operation: event.operation,
+        payload: { before: event.before, after: event.after },
+        metadata: {
+          actorId: event.actorId,
+          tenantId: event.tenantId,
+          correlationId: event.correlationId,
+        },
+        occurredAt: event.occurredAt,
+      }),
+    );
+  }
+
+  /**
+   * Delivers an event to its subscribers
+   *
+   * Handlers run concurrently; their failures are logged so a subscriber
+   * cannot fail the write that raised the event.
+   *
+   * @param event Domain event
+   */
+  async publish(event: DomainEvent): Promise<void> {
+    const handlers = this.subscriptions
+      .filter(
+        ({ entityType, operation }) =>
+          (entityType === '*' || entityType === event.entityType) &&
+          (operation === '*' || operation === event.operation),
+      )
+      .map(({ handler }) => handler);
+
+    const results = await Promise.allSettled(
+      handlers.map(async (handler) => await handler(event)),
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error(
+          `Domain event handler for ${event.type} failed:`,
+          result.reason,
+        );
+      }
+    }
+  }
+}
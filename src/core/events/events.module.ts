@@ -0,0 +1,131 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EventBusService } from './event-bus.service';
+import { OutboxEvent } from './outbox-event.entity';
+
+/**
+ * Events Module
+ *
+ * Provides domain events for BaseService mutations:
+ * - Typed events with the entity state before and after each write
+ * - In-process event bus with subscriptions by entity and operation
+ * - `@OnDomainEvent()` handler methods discovered on every provider
+ * - Transactional outbox storing events atomically with the write
+ *
+ * This module is global so every BaseService can raise events.
+ */
+@Global()
+@Module({})
+export class EventsModule {
+  /**
+   * Configures and returns the events module
+   *
+   * @param options Optional event settings
+   * @returns DynamicModule configured events module
+   */
+  static forRoot(options?: EventsModuleOptions): DynamicModule {
+    const providers = [
+      EventBusService,
+      {
+        provide: 'EVENTS_OPTIONS',
+        useValue: options || {},
+      },
+    ];
+
+    return {
+      module: EventsModule,
+      imports: [DiscoveryModule, TypeOrmModule.forFeature([OutboxEvent])],
+      providers,
+      exports: [EventBusService],
+    };
+  }
+}
+
+/**
+ * Events Module Configuration Options
+ */
+export interface EventsModuleOptions {
+  /**
+   * Store events in the outbox table
+   * Default: true
+   */
+  outbox?: boolean;
+}
+
+/**
+ * Mutation raising a domain event
+ */
+export type DomainEventOperation =
+  | 'CREATE'
+  | 'UPDATE'
+  | 'SOFT_DELETE'
+  | 'RESTORE'
+  | 'DELETE';
+
+/**
+ * Domain event raised by a BaseService mutation
+ */
+export interface DomainEvent<T = Record<string, unknown>> {
+  /**
+   * Unique event ID
+   */
+  id: string;
+
+  /**
+   * Event type, e.g. customers.created
+   */
+  type: string;
+
+  /**
+   * Entity table name
+   */
+  entityType: string;
+
+  /**
+   * Entity ID
+   */
+  entityId: string;
+
+  /**
+   * Operation performed
+   */
+  operation: DomainEventOperation;
+
+  /**
+   * Column values before the operation (null for creates)
+   */
+  before: T | null;
+
+  /**
+   * Column values after the operation (null for deletes)
+   */
+  after: T | null;
+
+  /**
+   * User who performed the operation
+   */
+  actorId: string | null;
+
+  /**
+   * Tenant the entity belongs to
+   */
+  tenantId: string | null;
+
+  /**
+   * Correlation ID of the originating request
+   */
+  correlationId: string | null;
+
+  /**
+   * Time of the operation
+   */
+  occurredAt: Date;
+}
+
+/**
+ * Subscriber of domain events
+ */
+export type DomainEventHandler<T = Record<string, unknown>> = (
+  event: DomainEvent<T>,
+) => unknown;
@@ -0,0 +1,73 @@
+import type { Type } from '@nestjs/common';
+import type { DomainEventOperation } from './events.module';
+
+/**
+ * Domain event handler metadata key
+ */
+export const DOMAIN_EVENT_HANDLER_KEY = 'domainEventHandler';
+
+/**
+ * Events a handler method is subscribed to
+ */
+export interface DomainEventSubscription {
+  /**
+   * Entity class or table name, '*' for every entity
+   */
+  entity: Type<unknown> | string;
+
+  /**
+   * Operation, '*' for every operation
+   */
+  operation: DomainEventOperation | '*';
+}
+
+/**
+ * On Domain Event Decorator
+ *
+ * Subscribes a provider method to the domain events BaseService publishes
+ * after a committed write. The method receives the `DomainEvent`; errors it
+ * throws are logged and do not affect the write or other handlers. The
+ * decorator may be repeated to subscribe to several events.
+ *
+ * Usage:
+ * ```typescript
+ * @Injectable()
+ * export class WelcomeRewardService {
+ *   @OnDomainEvent(Customer, 'CREATE')
+ *   async grant(event: DomainEvent<Customer>): Promise<void> {}
+ * }
+ * ```
+ *
+ * @param entity Entity class or table name (default: every entity)
+ * @param operation Operation (default: every operation)
+ * @returns Decorator function
+ */
+export const OnDomainEvent =
+  (
+    entity: Type<unknown> | string = '*',
+    operation: DomainEventOperation | '*' = '*',
+  ): MethodDecorator =>
+  (target, propertyKey, descriptor) => {
+    const subscriptions = getDomainEventSubscriptions(descriptor.value);
+    Reflect.defineMetadata(
+      DOMAIN_EVENT_HANDLER_KEY,
+      [...subscriptions, { entity, operation }],
+      descriptor.value as object,
+    );
+    return descriptor;
+  };
+
+/**
+ * Reads the domain event subscriptions of a handler method
+ *
+ * @param handler Method
+ * @returns Subscriptions, empty if the method handles no domain events
+ */
+export const getDomainEventSubscriptions = (
+  handler: unknown,
+): DomainEventSubscription[] =>
+  (typeof handler === 'function' &&
+    (Reflect.getMetadata(DOMAIN_EVENT_HANDLER_KEY, handler) as
+      | DomainEventSubscription[]
+      | undefined)) ||
+  [];
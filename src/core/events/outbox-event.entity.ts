@@ -0,0 +1,75 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from 'typeorm';
+
+/**
+ * Outbox Event Entity
+ *
+ * Domain event written in the same transaction as the change it describes
+ * (transactional outbox). Rows without `publishedAt` are still to be
+ * delivered to external consumers.
+ */
+@Entity('outbox_events')
+@Index(['publishedAt', 'occurredAt'])
+@Index(['entityType', 'entityId'])
+export class OutboxEvent {
+  /**
+   * ID of the domain event
+   */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Event type, e.g. customers.created
+   */
+  @Column({ length: 160 })
+  type: string;
+
+  @Column({ length: 128 })
+  entityType: string;
+
+  @Column({ length: 64 })
+  entityId: string;
+
+  /**
+   * Operation that raised the event, e.g. CREATE or UPDATE
+   */
+  @Column({ length: 32 })
+  operation: string;
+
+  /**
+   * Entity state before and after the operation
+   */
+  @Column({ type: 'simple-json' })
+  payload: {
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+  };
+
+  /**
+   * Actor, tenant and correlation ID of the originating request
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  metadata?: Record<string, unknown> | null;
+
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  occurredAt: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    precision: 3,
+    nullable: true,
+  })
+  publishedAt?: Date | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
@@ -1,11 +1,14 @@
 import {
   Injectable,
   Inject,
+  Optional,
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { DataSource } from 'typeorm';
+import { QueryCacheService } from '../database/query-cache.service';
+import { ReplicaRouterService } from '../database/replica-router.service';
 import {
   HealthCheckResult,
   HealthModuleOptions,
@@ -35,6 +38,12 @@ export class HealthService implements OnModuleInit, OnModuleDestroy {
     private readonly dataSource: DataSource,
     @Inject('HEALTH_OPTIONS')
     private readonly options: HealthModuleOptions = {},
+    @Optional()
+    @Inject(QueryCacheService)
+    private readonly queryCache?: QueryCacheService,
+    @Optional()
+    @Inject(ReplicaRouterService)
+    private readonly replicaRouter?: ReplicaRouterService,
   ) {
     this.startTime = new Date();
   }
@@ -247,9 +256,18 @@ export class HealthService implements OnModuleInit, OnModuleDestroy {
       slowQueries: 0,
     } : undefined;
 
+    const cacheStats = await this.queryCache?.getStats();
+    const cache = cacheStats && {
+      hits: cacheStats.hits,
+      misses: cacheStats.misses,
+      hitRate: cacheStats.hitRate,
+      size: cacheStats.size,
+    };
+
     return {
       requests,
       database,
+      cache,
     };
   }
 
@@ -404,12 +422,28 @@ export class HealthService implements OnModuleInit, OnModuleDestroy {
 
       await this.dataSource.query('SELECT 1');
 
+      // Replicas lagging beyond DB_REPLICA_MAX_LAG serve stale reads
+      const replicas = this.replicaRouter?.isEnabled()
+        ? await this.replicaRouter.getReplicaLag()
+        : undefined;
+      const maxLag = this.configService.get<number>(
+        'database.replicaMaxLag',
+        30,
+      );
+      const lagging = (replicas ?? []).filter(
+        (replica) => replica.lag === null || replica.lag > maxLag,
+      );
+
       return {
-        status: 'pass',
-        message: 'Database connection successful',
+        status: lagging.length > 0 ? 'warn' : 'pass',
+        message:
+          lagging.length > 0
+            ? `${lagging.length} replica(s) lagging more than ${maxLag}s or not replicating`
+            : 'Database connection successful',
         duration: Date.now() - startTime,
         data: {
           connections: this.dataSource.driver?.totalCount || 0,
+          ...(replicas && { replicas, maxReplicaLag: maxLag }),
         },
       };
     } catch (error) {
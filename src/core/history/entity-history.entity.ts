@@ -0,0 +1,94 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Entity History Entity
+ *
+ * Snapshot of a previous version of an entity tracked with
+ * `@TrackHistory()`. Each row holds the full state of the entity while it
+ * was current, i.e. from `validFrom` until it was replaced or soft deleted
+ * at `validTo`. The current version lives in the entity's own table.
+ */
+@Entity('entity_history')
+@Index(['entityType', 'entityId', 'validFrom'])
+@Index(['entityType', 'entityId', 'version'])
+export class EntityHistory {
+  @ApiProperty({
+    description: 'Unique identifier for the snapshot',
+    format: 'uuid',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'Entity table the snapshot belongs to',
+    example: 'loyalty_rules',
+  })
+  @Column({ length: 128 })
+  entityType: string;
+
+  @ApiProperty({
+    description: 'ID of the entity',
+    format: 'uuid',
+  })
+  @Column({ length: 64 })
+  entityId: string;
+
+  @ApiProperty({
+    description: 'Entity version captured by the snapshot',
+    example: 3,
+  })
+  @Column({ type: 'int' })
+  version: number;
+
+  @ApiProperty({
+    description: 'Operation that replaced this version',
+    example: 'UPDATE',
+  })
+  @Column({ length: 64 })
+  operation: string;
+
+  @ApiProperty({
+    description: 'Full entity state of this version',
+  })
+  @Column({ type: 'simple-json' })
+  snapshot: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'ID of the user who replaced this version',
+    required: false,
+  })
+  @Column({ length: 128, nullable: true })
+  changedBy?: string | null;
+
+  @ApiProperty({
+    description: 'Timestamp from which this version was current',
+    format: 'date-time',
+  })
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  validFrom: Date;
+
+  @ApiProperty({
+    description: 'Timestamp at which this version was replaced or deleted',
+    format: 'date-time',
+  })
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  validTo: Date;
+
+  @ApiProperty({
+    description: 'Timestamp when the snapshot was stored',
+    format: 'date-time',
+  })
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
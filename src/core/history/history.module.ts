@@ -0,0 +1,93 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EntityHistory } from './entity-history.entity';
+import { HistoryService } from './history.service';
+
+/**
+ * History Module
+ *
+ * Provides versioned history for entities decorated with `@TrackHistory()`:
+ * - Snapshot of the replaced version on every update and soft delete
+ * - Version listing per entity
+ * - Point-in-time reads
+ * - Revert to a stored version
+ *
+ * This module is global so every BaseService can record snapshots.
+ */
+@Global()
+@Module({})
+export class HistoryModule {
+  /**
+   * Configures and returns the history module
+   *
+   * @param options Optional history settings
+   * @returns DynamicModule configured history module
+   */
+  static forRoot(options?: HistoryModuleOptions): DynamicModule {
+    const providers = [
+      HistoryService,
+      {
+        provide: 'HISTORY_OPTIONS',
+        useValue: options || {},
+      },
+    ];
+
+    return {
+      module: HistoryModule,
+      imports: [TypeOrmModule.forFeature([EntityHistory])],
+      providers,
+      exports: [HistoryService],
+    };
+  }
+}
+
+/**
+ * History Module Configuration Options
+ */
+export interface HistoryModuleOptions {
+  /**
+   * Snapshots kept per entity; older ones are deleted
+   * Default: `history.maxVersions` config, 0 keeps every version
+   */
+  maxVersions?: number;
+}
+
+/**
+ * Entity version to store in the history
+ */
+export interface HistorySnapshot {
+  /**
+   * Entity table name
+   */
+  entityType: string;
+
+  /**
+   * Entity ID
+   */
+  entityId: string;
+
+  /**
+   * Version captured by the snapshot
+   */
+  version: number;
+
+  /**
+   * Operation that replaced the version, e.g. UPDATE or SOFT_DELETE
+   */
+  operation: string;
+
+  /**
+   * Column values of the version
+   */
+  snapshot: Record<string, unknown>;
+
+  /**
+   * Timestamp from which the version was current
+   */
+  validFrom: Date;
+
+  /**
+   * Timestamp at which the version was replaced
+   */
+  validTo: Date;
+}
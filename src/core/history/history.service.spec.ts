@@ -0,0 +1,120 @@
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { FindOperator, Repository } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { EntityHistory } from './entity-history.entity';
+import { HistoryService } from './history.service';
+
+describe('HistoryService', () => {
+  let rows: EntityHistory[];
+  let service: HistoryService;
+
+  const snapshot = (
+    version: number,
+    operation: string,
+    validFrom: string,
+    validTo: string,
+  ) =>
+    ({
+      id: `h${version}`,
+      entityType: 'loyalty_rules',
+      entityId: 'r1',
+      version,
+      operation,
+      snapshot: { id: 'r1', points: version * 10, version },
+      validFrom: new Date(validFrom),
+      validTo: new Date(validTo),
+      createdAt: new Date(validTo),
+    }) as EntityHistory;
+
+  beforeEach(() => {
+    rows = [];
+    // Applies the validFrom bound and ordering findAsOf asks the database for
+    const repository = {
+      findOne: ({
+        where,
+      }: {
+        where: { validFrom?: FindOperator<Date>; version?: number };
+      }) => {
+        const asOf = where.validFrom?.value;
+        const matches = rows
+          .filter((row) => !asOf || row.validFrom <= asOf)
+          .filter((row) => !where.version || row.version === where.version)
+          .sort((a, b) => b.validFrom.getTime() - a.validFrom.getTime());
+        return Promise.resolve(matches[0] ?? null);
+      },
+      create: (data: Partial<EntityHistory>) => data,
+      save: (row: EntityHistory) => {
+        rows.push({ ...row, id: `h${rows.length + 1}` });
+        return Promise.resolve(row);
+      },
+      find: ({ skip }: { skip: number }) =>
+        Promise.resolve(
+          [...rows]
+            .sort((a, b) => b.validFrom.getTime() - a.validFrom.getTime())
+            .slice(skip),
+        ),
+      delete: (ids: string[]) => {
+        rows = rows.filter((row) => !ids.includes(row.id));
+        return Promise.resolve({ affected: ids.length });
+      },
+    } as unknown as Repository<EntityHistory>;
+
+    service = new HistoryService(repository, new ConfigService(), {
+      maxVersions: 2,
+    });
+  });
+
+  it('finds the version that was current at a point in time', async () => {
+    rows = [
+      snapshot(1, 'UPDATE', '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z'),
+      snapshot(2, 'UPDATE', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z'),
+    ];
+    const asOf = (at: string) =>
+      service.findAsOf('loyalty_rules', 'r1', new Date(at));
+
+    await expect(asOf('2026-01-15T00:00:00Z')).resolves.toMatchObject({
+      version: 1,
+    });
+    await expect(asOf('2026-02-01T00:00:00Z')).resolves.toMatchObject({
+      version: 2,
+    });
+    await expect(asOf('2025-12-31T00:00:00Z')).resolves.toBeNull();
+  });
+
+  it('finds nothing while the entity was soft deleted', async () => {
+    rows = [
+      snapshot(
+        1,
+        'SOFT_DELETE',
+        '2026-01-01T00:00:00Z',
+        '2026-02-01T00:00:00Z',
+      ),
+    ];
+
+    await expect(
+      service.findAsOf('loyalty_rules', 'r1', new Date('2026-01-20T00:00:00Z')),
+    ).resolves.toMatchObject({ version: 1 });
+    await expect(
+      service.findAsOf('loyalty_rules', 'r1', new Date('2026-02-10T00:00:00Z')),
+    ).resolves.toBeNull();
+  });
+
+  it('records who replaced a version and keeps the latest ones only', async () => {
+    const request = { user: { sub: 'u1' }, headers: {} } as unknown as Request;
+
+    await RequestContext.run({ request }, async () => {
+      for (const version of [1, 2, 3]) {
+        await service.record(
+          snapshot(version, 'UPDATE', `2026-0${version}-01`, '2026-06-01'),
+        );
+      }
+    });
+
+    expect(rows.map((row) => row.version)).toEqual([2, 3]);
+    expect(rows[0]).toMatchObject({
+      changedBy: 'u1',
+      snapshot: { points: 20 },
+    });
+  });
+});
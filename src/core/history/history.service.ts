@@ -0,0 +1,179 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, LessThanOrEqual, Repository } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { PaginatedResult } from '../../common/interfaces/pagination.interface';
+import { EntityHistory } from './entity-history.entity';
+import type { HistoryModuleOptions, HistorySnapshot } from './history.module';
+
+/**
+ * History Service
+ *
+ * Stores and reads the version snapshots of entities tracked with
+ * `@TrackHistory()`. BaseService writes a snapshot of the replaced version
+ * inside the transaction of every update and soft delete, so the history
+ * never diverges from the entity table.
+ */
+@Injectable()
+export class HistoryService {
+  constructor(
+    @InjectRepository(EntityHistory)
+    private readonly repository: Repository<EntityHistory>,
+    private readonly configService: ConfigService,
+    @Inject('HISTORY_OPTIONS')
+    private readonly options: HistoryModuleOptions = {},
+  ) {}
+
+  /**
+   * Stores a snapshot of a replaced entity version
+   *
+   * @param snapshot Version to store
+   * @param manager Entity manager of the surrounding transaction
+   * @returns Promise resolving to the stored snapshot
+   */
+  async record(
+    snapshot: HistorySnapshot,
+    manager?: EntityManager,
+  ): Promise<EntityHistory> {
+    const repository = manager
+      ? manager.getRepository(EntityHistory)
+      : this.repository;
+
+    const history = await repository.save(
+      repository.create({
+        ...snapshot,
+        snapshot: JSON.parse(JSON.stringify(snapshot.snapshot)) as Record<
+          string,
+          unknown
+        >,
+        changedBy: RequestContext.getActor()?.id ?? null,
+      }),
+    );
+
+    const maxVersions =
+      this.options.maxVersions ??
+      this.configService.get<number>('history.maxVersions', 0);
+    if (maxVersions > 0) {
+      await this.prune(repository, snapshot, maxVersions);
+    }
+
+    return history;
+  }
+
+  /**
+   * Lists the stored versions of an entity, newest first
+   *
+   * @param entityType Entity table name
+   * @param entityId Entity ID
+   * @param page Page number (1-based)
+   * @param limit Versions per page (max 100)
+   * @returns Promise resolving to paginated snapshots
+   */
+  async findMany(
+    entityType: string,
+    entityId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedResult<EntityHistory>> {
+    const take = Math.min(Math.max(1, limit), 100);
+    const [data, total] = await this.repository.findAndCount({
+      where: { entityType, entityId },
+      order: { validFrom: 'DESC', createdAt: 'DESC' },
+      skip: (page - 1) * take,
+      take,
+    });
+
+    const totalPages = Math.ceil(total / take);
+    return {
+      data,
+      pagination: {
+        page,
+        limit: take,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+        startIndex: total === 0 ? 0 : (page - 1) * take + 1,
+        endIndex: (page - 1) * take + data.length,
+        itemCount: data.length,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Finds the latest snapshot of a specific entity version
+   *
+   * @param entityType Entity table name
+   * @param entityId Entity ID
+   * @param version Entity version
+   * @returns Promise resolving to the snapshot, or null if not stored
+   */
+  async findVersion(
+    entityType: string,
+    entityId: string,
+    version: number,
+  ): Promise<EntityHistory | null> {
+    return this.repository.findOne({
+      where: { entityType, entityId, version },
+      order: { validTo: 'DESC' },
+    });
+  }
+
+  /**
+   * Finds the snapshot that was current at a point in time
+   *
+   * @param entityType Entity table name
+   * @param entityId Entity ID
+   * @param asOf Point in time
+   * @returns Promise resolving to the snapshot, or null if the entity had no
+   *          stored version then or was soft deleted at that time
+   */
+  async findAsOf(
+    entityType: string,
+    entityId: string,
+    asOf: Date,
+  ): Promise<EntityHistory | null> {
+    const history = await this.repository.findOne({
+      where: { entityType, entityId, validFrom: LessThanOrEqual(asOf) },
+      order: { validFrom: 'DESC', createdAt: 'DESC' },
+    });
+
+    // Between a soft delete and a later restore the entity did not exist
+    if (
+      history?.operation === 'SOFT_DELETE' &&
+      new Date(history.validTo).getTime() <= asOf.getTime()
+    ) {
+      return null;
+    }
+
+    return history;
+  }
+
+  /**
+   * Deletes the oldest snapshots of an entity beyond the version limit
+   *
+   * @param repository Snapshot repository of the current transaction
+   * @param snapshot Snapshot just stored
+   * @param maxVersions Number of snapshots kept per entity
+   */
+  private async prune(
+    repository: Repository<EntityHistory>,
+    snapshot: HistorySnapshot,
+    maxVersions: number,
+  ): Promise<void> {
+    const expired = await repository.find({
+      select: { id: true },
+      where: { entityType: snapshot.entityType, entityId: snapshot.entityId },
+      order: { validFrom: 'DESC', createdAt: 'DESC' },
+      skip: maxVersions,
+    });
+
+    if (expired.length > 0) {
+      await repository.delete(expired.map((history) => history.id));
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * Idempotency Key Entity
+ *
+ * Response stored for an `Idempotency-Key` sent with a POST request.
+ * A row without `completedAt` marks a request still being processed.
+ */
+@Entity('idempotency_keys')
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Hash of the key together with the caller, tenant and route it was used on
+   */
+  @Index({ unique: true })
+  @Column({ type: 'char', length: 64 })
+  scopeHash: string;
+
+  /**
+   * Idempotency-Key header value as sent by the client
+   */
+  @Column({ length: 255 })
+  key: string;
+
+  /**
+   * Method and path of the request
+   */
+  @Column({ length: 512 })
+  route: string;
+
+  /**
+   * Hash of the request body, to detect keys reused for other requests
+   */
+  @Column({ type: 'char', length: 64 })
+  requestHash: string;
+
+  @Column({ type: 'int', nullable: true })
+  statusCode?: number | null;
+
+  @Column({ type: 'simple-json', nullable: true })
+  responseBody?: unknown;
+
+  @Column({
+    type: 'timestamp with time zone',
+    precision: 3,
+    nullable: true,
+  })
+  completedAt?: Date | null;
+
+  @Index()
+  @Column({ type: 'timestamp with time zone', precision: 3 })
+  expiresAt: Date;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,119 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { defer, firstValueFrom, of, throwError } from 'rxjs';
+import { Repository } from 'typeorm';
+import { IdempotencyKey } from './idempotency-key.entity';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyInterceptor', () => {
+  let rows: IdempotencyKey[];
+  let interceptor: IdempotencyInterceptor;
+  let response: { setHeader: jest.Mock; status: jest.Mock };
+
+  const context = (body: unknown): ExecutionContext => {
+    const request = {
+      method: 'POST',
+      url: '/api/customers',
+      headers: { 'idempotency-key': 'import-42' },
+      body,
+    } as unknown as Request;
+
+    return {
+      getType: () => 'http',
+      getHandler: () => function create() {},
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response as unknown as Response,
+      }),
+    } as unknown as ExecutionContext;
+  };
+
+  const handler = (result: () => unknown): CallHandler => ({
+    handle: () => defer(() => of(result())),
+  });
+
+  beforeEach(() => {
+    rows = [];
+    const repository = {
+      findOne: jest.fn(({ where }: { where: Partial<IdempotencyKey> }) =>
+        Promise.resolve(
+          rows.find((row) => row.scopeHash === where.scopeHash) ?? null,
+        ),
+      ),
+      create: jest.fn((data: Partial<IdempotencyKey>) => ({
+        id: `key-${rows.length + 1}`,
+        ...data,
+      })),
+      save: jest.fn((row: IdempotencyKey) => {
+        rows = [...rows.filter((stored) => stored.id !== row.id), row];
+        return Promise.resolve(row);
+      }),
+      delete: jest.fn(({ id }: { id: string }) => {
+        rows = rows.filter((row) => row.id !== id);
+        return Promise.resolve({ affected: 1 });
+      }),
+    } as unknown as Repository<IdempotencyKey>;
+
+    response = { setHeader: jest.fn(), status: jest.fn() };
+    interceptor = new IdempotencyInterceptor(
+      new Reflector(),
+      new IdempotencyService(repository, new ConfigService(), {}),
+    );
+  });
+
+  it('replays the stored response for a repeated key', async () => {
+    const create = jest.fn(() => ({ id: 'c-1' }));
+
+    const first = await firstValueFrom(
+      interceptor.intercept(context({ phone: '123' }), handler(create)),
+    );
+    const second = await firstValueFrom(
+      interceptor.intercept(context({ phone: '123' }), handler(create)),
+    );
+
+    expect(first).toEqual({ id: 'c-1' });
+    expect(second).toEqual({ id: 'c-1' });
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(response.setHeader).toHaveBeenCalledWith(
+      'Idempotent-Replayed',
+      'true',
+    );
+    expect(response.status).toHaveBeenCalledWith(201);
+  });
+
+  it('rejects a key reused for a different body', async () => {
+    await firstValueFrom(
+      interceptor.intercept(
+        context({ phone: '123' }),
+        handler(() => ({ id: 'c-1' })),
+      ),
+    );
+
+    await expect(
+      firstValueFrom(
+        interceptor.intercept(
+          context({ phone: '456' }),
+          handler(() => ({ id: 'c-2' })),
+        ),
+      ),
+    ).rejects.toBeInstanceOf(UnprocessableEntityException);
+  });
+
+  it('releases the key when the request fails', async () => {
+    const failing = {
+      handle: () => throwError(() => new Error('boom')),
+    } as CallHandler;
+
+    await expect(
+      firstValueFrom(interceptor.intercept(context({ phone: '123' }), failing)),
+    ).rejects.toThrow('boom');
+    expect(rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, concatMap, switchMap } from 'rxjs/operators';
+import { IdempotencyService } from './idempotency.service';
+
+/**
+ * Request header carrying the idempotency key
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/**
+ * Response header marking replayed responses
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Idempotency Interceptor
+ *
+ * Makes POST requests carrying an `Idempotency-Key` header safe to retry:
+ * the first request is processed and its response stored, repeated
+ * requests within the replay window receive the stored response with an
+ * `Idempotent-Replayed: true` header. Failed requests are not stored, so
+ * they can be retried with the same key.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly idempotencyService: IdempotencyService,
+  ) {}
+
+  /**
+   * Replays or records the response of keyed POST requests
+   *
+   * @param context The execution context
+   * @param next The call handler
+   * @returns Observable of the handler or replayed response
+   */
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = request.headers[IDEMPOTENCY_KEY_HEADER];
+    if (request.method !== 'POST' || typeof key !== 'string') {
+      return next.handle();
+    }
+
+    const statusCode =
+      this.reflector.get<number>(HTTP_CODE_METADATA, context.getHandler()) ??
+      HttpStatus.CREATED;
+
+    return from(this.idempotencyService.claim(key, request)).pipe(
+      switchMap((record) => {
+        if (record.completedAt) {
+          response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          response.status(record.statusCode ?? statusCode);
+          return of(record.responseBody);
+        }
+
+        return next.handle().pipe(
+          concatMap(async (body: unknown) => {
+            await this.idempotencyService.complete(record, statusCode, body);
+            return body;
+          }),
+          catchError((error: unknown) =>
+            from(this.idempotencyService.release(record)).pipe(
+              switchMap(() => throwError(() => error)),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+}
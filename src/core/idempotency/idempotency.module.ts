@@ -0,0 +1,65 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IdempotencyKey } from './idempotency-key.entity';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+
+/**
+ * Idempotency Module
+ *
+ * Provides idempotent POST requests:
+ * - `Idempotency-Key` header honoured on every POST route
+ * - Stored responses replayed for retries within the replay window
+ * - Rejection of keys reused for a different request
+ * - Scheduled purge of expired keys
+ *
+ * This module is global; its interceptor applies to every controller.
+ */
+@Global()
+@Module({})
+export class IdempotencyModule {
+  /**
+   * Configures and returns the idempotency module
+   *
+   * @param options Optional idempotency settings (fall back to the `idempotency` config)
+   * @returns DynamicModule configured idempotency module
+   */
+  static forRoot(options?: IdempotencyModuleOptions): DynamicModule {
+    const providers = [
+      IdempotencyService,
+      {
+        provide: 'IDEMPOTENCY_OPTIONS',
+        useValue: options || {},
+      },
+      {
+        provide: APP_INTERCEPTOR,
+        useClass: IdempotencyInterceptor,
+      },
+    ];
+
+    return {
+      module: IdempotencyModule,
+      imports: [TypeOrmModule.forFeature([IdempotencyKey])],
+      providers,
+      exports: [IdempotencyService],
+    };
+  }
+}
+
+/**
+ * Idempotency Module Configuration Options
+ */
+export interface IdempotencyModuleOptions {
+  /**
+   * Seconds a stored response is replayed for its key
+   * Default: 86400 (24 hours)
+   */
+  ttl?: number;
+
+  /**
+   * Interval between purges of expired keys in milliseconds
+   * Default: 3600000 (1 hour, 0 disables the schedule)
+   */
+  purgeInterval?: number;
+}
@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import type { Request } from 'express';
+import { LessThan, QueryFailedError, Repository } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { IdempotencyKey } from './idempotency-key.entity';
+import type { IdempotencyModuleOptions } from './idempotency.module';
+
+/**
+ * Idempotency Service
+ *
+ * Stores the responses of POST requests sent with an `Idempotency-Key`
+ * header, so a retried request within the replay window gets the original
+ * response instead of being processed again. Keys are scoped to the caller,
+ * tenant and route; reusing a key for a different body is rejected.
+ */
+@Injectable()
+export class IdempotencyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private readonly repository: Repository<IdempotencyKey>,
+    private readonly configService: ConfigService,
+    @Inject('IDEMPOTENCY_OPTIONS')
+    private readonly options: IdempotencyModuleOptions = {},
+  ) {}
+
+  /**
+   * Starts the expiry schedule
+   */
+  onModuleInit(): void {
+    const interval =
+      this.options.purgeInterval ??
+      this.configService.get<number>('idempotency.purgeInterval', 3600000);
+
+    if (interval > 0) {
+      this.purgeTimer = setInterval(() => {
+        this.purgeExpired().catch((error) =>
+          this.logger.error(
+            'Idempotency key purge failed',
+            error instanceof Error ? error.stack : String(error),
+          ),
+        );
+      }, interval);
+      this.purgeTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the expiry schedule
+   */
+  onModuleDestroy(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  /**
+   * Claims an idempotency key for a request
+   *
+   * @param key Idempotency-Key header value
+   * @param request HTTP request carrying the key
+   * @returns Promise resolving to the stored key; a completed key holds the
+   *          response to replay, a new one must be completed or released
+   * @throws BadRequestException if the key is empty or too long
+   * @throws UnprocessableEntityException if the key was used for another request body
+   * @throws ConflictException if a request with the key is still being processed
+   */
+  async claim(key: string, request: Request): Promise<IdempotencyKey> {
+    const trimmed = key.trim();
+    if (!trimmed || trimmed.length > 255) {
+      throw new BadRequestException(
+        'Idempotency-Key must be between 1 and 255 characters',
+      );
+    }
+
+    const route = `${request.method} ${request.originalUrl ?? request.url}`;
+    const scopeHash = this.hash(
+      [
+        RequestContext.getActor()?.id ?? '',
+        RequestContext.getTenantId() ?? '',
+        route,
+        trimmed,
+      ].join('\n'),
+    );
+    const requestHash = this.hash(JSON.stringify(request.body ?? null));
+
+    const existing = await this.repository.findOne({ where: { scopeHash } });
+    if (existing && existing.expiresAt > new Date()) {
+      if (existing.requestHash !== requestHash) {
+        throw new UnprocessableEntityException({
+          message: 'Idempotency-Key was already used for a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        });
+      }
+      if (!existing.completedAt) {
+        throw this.inProgress();
+      }
+      return existing;
+    }
+    if (existing) {
+      await this.repository.delete({ id: existing.id });
+    }
+
+    try {
+      return await this.repository.save(
+        this.repository.create({
+          scopeHash,
+          key: trimmed,
+          route: route.slice(0, 512),
+          requestHash,
+          expiresAt: new Date(Date.now() + this.getTtl() * 1000),
+        }),
+      );
+    } catch (error) {
+      // A concurrent request claimed the key first
+      if (error instanceof QueryFailedError) {
+        throw this.inProgress();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the response of a claimed key for replay
+   *
+   * @param record Claimed key
+   * @param statusCode HTTP status of the response
+   * @param body Response body
+   */
+  async complete(
+    record: IdempotencyKey,
+    statusCode: number,
+    body: unknown,
+  ): Promise<void> {
+    await this.repository.save({
+      ...record,
+      statusCode,
+      responseBody: body ?? null,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Releases a claimed key after a failed request, so it can be retried
+   *
+   * @param record Claimed key
+   */
+  async release(record: IdempotencyKey): Promise<void> {
+    await this.repository.delete({ id: record.id });
+  }
+
+  /**
+   * Deletes keys past their replay window
+   *
+   * @returns Promise resolving to the number of deleted keys
+   */
+  async purgeExpired(): Promise<{ affected: number }> {
+    const result = await this.repository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+
+    return { affected: result.affected ?? 0 };
+  }
+
+  /**
+   * Gets the replay window of stored responses
+   *
+   * @returns Window in seconds
+   */
+  private getTtl(): number {
+    return (
+      this.options.ttl ??
+      this.configService.get<number>('idempotency.ttl', 86400)
+    );
+  }
+
+  /**
+   * Builds the error for keys of requests still being processed
+   *
+   * @returns Conflict exception
+   */
+  private inProgress(): ConflictException {
+    return new ConflictException({
+      message: 'A request with this Idempotency-Key is still being processed',
+      code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+    });
+  }
+
+  /**
+   * Hashes a value with SHA-256
+   *
+   * @param value Value to hash
+   * @returns Hex digest
+   */
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * State of an outgoing email
+ *
+ * - PENDING: waiting for its next attempt
+ * - SENT: accepted by the transport
+ * - DEAD: attempts exhausted
+ */
+export type MailStatus = 'PENDING' | 'SENT' | 'DEAD';
+
+/**
+ * Mail Message Entity
+ *
+ * Email in the outbox. Messages are written in the transaction of the
+ * change that caused them and sent by MailRelayService. Bodies may carry
+ * single-use links, so they are cleared once the message is sent.
+ */
+@Entity('mail_outbox')
+@Index(['status', 'nextAttemptAt'])
+export class MailMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 320 })
+  from: string;
+
+  @Column({ length: 320 })
+  to: string;
+
+  @Column({ length: 255 })
+  subject: string;
+
+  /**
+   * Plain text body, null once sent
+   */
+  @Column({ type: 'text', nullable: true })
+  text: string | null;
+
+  /**
+   * HTML body, null if absent or once sent
+   */
+  @Column({ type: 'text', nullable: true })
+  html: string | null;
+
+  @Column({ length: 16, default: 'PENDING' })
+  status: MailStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'timestamp with time zone', precision: 3, nullable: true })
+  sentAt: Date | null;
+
+  @Column({ length: 1024, nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+  })
+  updatedAt: Date;
+}
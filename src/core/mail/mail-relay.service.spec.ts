@@ -0,0 +1,58 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { MailMessage } from './mail-message.entity';
+import { MailRelayService } from './mail-relay.service';
+import type { MailTransport } from './mail.transports';
+
+describe('MailRelayService', () => {
+  const createMessage = () =>
+    Object.assign(new MailMessage(), {
+      id: 'm1',
+      from: 'no-reply@example.com',
+      to: 'owner@example.com',
+      subject: 'Reset your password',
+      text: 'https://app.example.com/reset-password?token=secret',
+      html: null,
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+
+  const createRelay = (transport: MailTransport) =>
+    new MailRelayService(
+      {
+        save: jest.fn((message: MailMessage) => Promise.resolve(message)),
+      } as unknown as Repository<MailMessage>,
+      transport,
+      new ConfigService({}),
+      { maxAttempts: 2, backoffBase: 1000 },
+    );
+
+  it('clears the body of sent messages', async () => {
+    const send = jest.fn(() => Promise.resolve());
+    const message = await createRelay({ send }).attempt(createMessage());
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(message).toMatchObject({
+      status: 'SENT',
+      attempts: 1,
+      text: null,
+      nextAttemptAt: null,
+    });
+  });
+
+  it('retries failed messages until the attempts are exhausted', async () => {
+    const relay = createRelay({
+      send: () => Promise.reject(new Error('Connection refused')),
+    });
+
+    const retried = await relay.attempt(createMessage());
+    expect(retried.status).toBe('PENDING');
+    expect(retried.lastError).toBe('Connection refused');
+    expect(retried.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const dead = await relay.attempt(retried);
+    expect(dead.status).toBe('DEAD');
+    expect(dead.nextAttemptAt).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { MailMessage } from './mail-message.entity';
+import { MAIL_TRANSPORT } from './mail.transports';
+import type { MailTransport } from './mail.transports';
+import type { MailModuleOptions } from './mail.module';
+
+/**
+ * Mail Relay Service
+ *
+ * Sends the queued emails of the outbox through the configured transport,
+ * retrying failures with exponential backoff until the attempts are
+ * exhausted.
+ */
+@Injectable()
+export class MailRelayService implements OnModuleInit, OnModuleDestroy {
+  private relayTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @InjectRepository(MailMessage)
+    private readonly repository: Repository<MailMessage>,
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+    @Inject('MAIL_OPTIONS')
+    private readonly options: MailModuleOptions = {},
+  ) {}
+
+  /**
+   * Starts the relay schedule
+   */
+  onModuleInit(): void {
+    const interval = this.getSetting('relayInterval', 5000);
+
+    if (interval > 0) {
+      this.relayTimer = setInterval(() => {
+        this.run().catch((error) => console.error('Mail relay failed:', error));
+      }, interval);
+    }
+  }
+
+  /**
+   * Stops the relay schedule
+   */
+  onModuleDestroy(): void {
+    if (this.relayTimer) {
+      clearInterval(this.relayTimer);
+      this.relayTimer = null;
+    }
+  }
+
+  /**
+   * Sends the messages whose next attempt is due
+   *
+   * Runs are skipped while the previous one is still in progress.
+   *
+   * @returns Promise resolving to the number of attempted messages
+   */
+  async run(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const messages = await this.repository.find({
+        where: {
+          status: 'PENDING',
+          nextAttemptAt: LessThanOrEqual(new Date()),
+        },
+        order: { nextAttemptAt: 'ASC' },
+        take: this.getSetting('batchSize', 100),
+      });
+
+      for (const message of messages) {
+        await this.attempt(message);
+      }
+      return messages.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Sends one message and records the outcome
+   *
+   * @param message Message to send
+   * @returns Promise resolving to the updated message
+   */
+  async attempt(message: MailMessage): Promise<MailMessage> {
+    message.attempts += 1;
+
+    try {
+      await this.transport.send(message);
+      message.status = 'SENT';
+      message.sentAt = new Date();
+      message.nextAttemptAt = null;
+      message.lastError = null;
+      message.text = null;
+      message.html = null;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      message.lastError = reason.slice(0, 1024);
+      if (message.attempts >= this.getSetting('maxAttempts', 5)) {
+        message.status = 'DEAD';
+        message.nextAttemptAt = null;
+      } else {
+        message.nextAttemptAt = new Date(
+          Date.now() + this.getBackoffDelay(message.attempts),
+        );
+      }
+    }
+
+    return this.repository.save(message);
+  }
+
+  /**
+   * Computes the delay before the next attempt
+   *
+   * @param attempts Attempts made so far
+   * @returns Delay in milliseconds, doubling per attempt up to the maximum
+   */
+  protected getBackoffDelay(attempts: number): number {
+    return Math.min(
+      this.getSetting('backoffBase', 30000) * 2 ** (attempts - 1),
+      this.getSetting('backoffMax', 3600000),
+    );
+  }
+
+  /**
+   * Reads a numeric setting from the module options or the `mail` config
+   *
+   * @param key Setting name
+   * @param defaultValue Value used when the setting is absent
+   * @returns Setting value
+   */
+  private getSetting(
+    key: Exclude<keyof MailModuleOptions, 'transport' | 'from'>,
+    defaultValue: number,
+  ): number {
+    return (
+      this.options[key] ??
+      this.configService.get<number>(`mail.${key}`, defaultValue)
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MailMessage } from './mail-message.entity';
+import { MailRelayService } from './mail-relay.service';
+import { MailService } from './mail.service';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  MAIL_TRANSPORT,
+} from './mail.transports';
+import type { MailTransport } from './mail.transports';
+
+/**
+ * Mail Module
+ *
+ * Sends transactional email through an outbox:
+ * - MailService queues messages in `mail_outbox`, within the active
+ *   transaction
+ * - MailRelayService sends them in the background, with retries
+ * - Console and `.eml` file transports for local development
+ *   (MAIL_TRANSPORT); pass `transport` to send through a mail provider
+ */
+@Global()
+@Module({})
+export class MailModule {
+  /**
+   * Configures and returns the mail module
+   *
+   * @param options Optional mail settings (fall back to the `mail` config)
+   * @returns DynamicModule configured mail module
+   */
+  static forRoot(options?: MailModuleOptions): DynamicModule {
+    const providers = [
+      MailService,
+      MailRelayService,
+      {
+        provide: 'MAIL_OPTIONS',
+        useValue: options || {},
+      },
+      {
+        provide: MAIL_TRANSPORT,
+        inject: [ConfigService],
+        useFactory: (configService: ConfigService): MailTransport => {
+          if (options?.transport) {
+            return options.transport;
+          }
+          return configService.get<string>('mail.transport') === 'file'
+            ? new FileMailTransport(
+                configService.get<string>('mail.outputDir', './mail'),
+              )
+            : new ConsoleMailTransport();
+        },
+      },
+    ];
+
+    return {
+      module: MailModule,
+      imports: [TypeOrmModule.forFeature([MailMessage])],
+      providers,
+      exports: [MailService, MailRelayService],
+    };
+  }
+}
+
+/**
+ * Mail Module Configuration Options
+ */
+export interface MailModuleOptions {
+  /**
+   * Transport the relay sends through
+   * Default: console, or `.eml` files with MAIL_TRANSPORT=file
+   */
+  transport?: MailTransport;
+
+  /**
+   * Default sender address
+   * Default: MAIL_FROM
+   */
+  from?: string;
+
+  /**
+   * Interval between relay runs in milliseconds
+   * Default: 5000 (0 disables the schedule)
+   */
+  relayInterval?: number;
+
+  /**
+   * Messages sent per run
+   * Default: 100
+   */
+  batchSize?: number;
+
+  /**
+   * Attempts before a message is given up
+   * Default: 5
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled per attempt
+   * Default: 30000
+   */
+  backoffBase?: number;
+
+  /**
+   * Maximum delay between retries in milliseconds
+   * Default: 3600000 (1 hour)
+   */
+  backoffMax?: number;
+}
+
+/**
+ * Email to queue
+ */
+export interface OutgoingMail {
+  /**
+   * Recipient address
+   */
+  to: string;
+
+  subject: string;
+
+  /**
+   * Plain text body
+   */
+  text: string;
+
+  /**
+   * HTML body
+   */
+  html?: string;
+
+  /**
+   * Sender address
+   * Default: the module default
+   */
+  from?: string;
+}
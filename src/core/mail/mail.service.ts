@@ -0,0 +1,56 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TransactionManagerService } from '../database/transaction-manager.service';
+import { MailMessage } from './mail-message.entity';
+import type { MailModuleOptions, OutgoingMail } from './mail.module';
+
+/**
+ * Mail Service
+ *
+ * Queues emails in the outbox (`mail_outbox`). Inside a transaction the
+ * message is written with it, so emails are only sent for committed
+ * changes; MailRelayService sends them in the background.
+ */
+@Injectable()
+export class MailService {
+  constructor(
+    @InjectRepository(MailMessage)
+    private readonly repository: Repository<MailMessage>,
+    private readonly configService: ConfigService,
+    @Inject('MAIL_OPTIONS')
+    private readonly options: MailModuleOptions = {},
+    @Optional()
+    @Inject(TransactionManagerService)
+    private readonly transactionManager?: TransactionManagerService,
+  ) {}
+
+  /**
+   * Queues an email
+   *
+   * @param mail Recipient, subject and body
+   * @returns Promise resolving to the queued message
+   */
+  async send(mail: OutgoingMail): Promise<MailMessage> {
+    const repository =
+      this.transactionManager?.getManager()?.getRepository(MailMessage) ??
+      this.repository;
+
+    return repository.save(
+      repository.create({
+        from:
+          mail.from ??
+          this.options.from ??
+          this.configService.get<string>('mail.from', 'no-reply@example.com'),
+        to: mail.to,
+        subject: mail.subject,
+        text: mail.text,
+        html: mail.html ?? null,
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      }),
+    );
+  }
+}
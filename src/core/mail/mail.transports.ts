@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage } from './mail-message.entity';
+
+/**
+ * Injection token of the mail transport
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+/**
+ * Delivery backend of the mail outbox
+ *
+ * Implement it to send through a mail provider and pass it as
+ * `MailModuleOptions.transport`. Throwing marks the attempt as failed.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transport printing emails to the console (local development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        `Mail ${message.id}`,
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text ?? '',
+      ].join('\n'),
+    );
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Formats a message as RFC 5322 text
+ */
+const formatMessage = (message: MailMessage): string => {
+  const headers = [
+    `Message-ID: <${message.id}@mail-outbox>`,
+    `Date: ${message.createdAt.toUTCString()}`,
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    'MIME-Version: 1.0',
+  ].map((header) => header.replace(/[\r\n]+/g, ' '));
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text ?? '',
+    ].join('\r\n');
+  }
+
+  const boundary = `mail-${randomBytes(8).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text ?? '',
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+/**
+ * Transport writing emails as `.eml` files (local development)
+ *
+ * Files are named `<created-at>-<id>.eml` and open in any mail client.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const stamp = message.createdAt.toISOString().replace(/[:.]/g, '-');
+    await writeFile(
+      join(this.directory, `${stamp}-${message.id}.eml`),
+      formatMessage(message),
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { RetentionService } from './retention.service';
+
+/**
+ * Retention Module
+ *
+ * Schedules the permanent removal of soft-deleted rows. Every service
+ * extending BaseService is discovered automatically and purged of rows that
+ * have been in the trash longer than the configured retention period.
+ */
+@Module({})
+export class RetentionModule {
+  /**
+   * Configures and returns the retention module
+   *
+   * @param options Optional retention settings (fall back to the `retention` config)
+   * @returns DynamicModule configured retention module
+   */
+  static forRoot(options?: RetentionModuleOptions): DynamicModule {
+    const providers = [
+      RetentionService,
+      {
+        provide: 'RETENTION_OPTIONS',
+        useValue: options || {},
+      },
+    ];
+
+    return {
+      module: RetentionModule,
+      imports: [DiscoveryModule],
+      providers,
+      exports: [RetentionService],
+    };
+  }
+}
+
+/**
+ * Retention Module Configuration Options
+ */
+export interface RetentionModuleOptions {
+  /**
+   * Days soft-deleted rows are kept before being purged.
+   * Services may override this with `softDeleteRetentionDays`.
+   * Default: 30 (0 disables purging)
+   */
+  softDeleteRetentionDays?: number;
+
+  /**
+   * Interval between scheduled purges in milliseconds
+   * Default: 86400000 (24 hours, 0 disables the schedule)
+   */
+  purgeInterval?: number;
+
+  /**
+   * Run a purge when the application starts
+   * Default: false
+   */
+  purgeOnStartup?: boolean;
+}
+
+/**
+ * Result of purging a single service
+ */
+export interface RetentionPurgeResult {
+  /**
+   * Name of the purged service
+   */
+  service: string;
+
+  /**
+   * Number of rows permanently deleted
+   */
+  affected: number;
+
+  /**
+   * Error message if the purge failed
+   */
+  error?: string;
+}
@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService } from '@nestjs/core';
+import { BaseService } from '../base/base.service';
+import { RetentionService } from './retention.service';
+import type { RetentionModuleOptions } from './retention.module';
+
+abstract class CustomerService extends BaseService<any> {}
+abstract class OrderService extends BaseService<any> {}
+
+describe('RetentionService', () => {
+  let customers: CustomerService;
+  let orders: OrderService;
+  let purgeCustomers: jest.Mock;
+  let purgeOrders: jest.Mock;
+
+  const createService = (options: RetentionModuleOptions) =>
+    new RetentionService(
+      new ConfigService({ retention: { softDeleteRetentionDays: 30 } }),
+      {
+        getProviders: () =>
+          [customers, orders, customers, { purgeExpired: jest.fn() }].map(
+            (instance) => ({ instance }),
+          ),
+      } as unknown as DiscoveryService,
+      options,
+    );
+
+  beforeEach(() => {
+    purgeCustomers = jest.fn(() => Promise.resolve({ affected: 2 }));
+    purgeOrders = jest.fn(() => Promise.reject(new Error('lock timeout')));
+    customers = Object.assign(Object.create(CustomerService.prototype), {
+      purgeExpired: purgeCustomers,
+    }) as CustomerService;
+    orders = Object.assign(Object.create(OrderService.prototype), {
+      purgeExpired: purgeOrders,
+    }) as OrderService;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('purges expired rows of every BaseService on schedule', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const retention = createService({
+      purgeInterval: 60000,
+      softDeleteRetentionDays: 7,
+    });
+
+    await retention.onModuleInit();
+    expect(purgeCustomers).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(purgeCustomers).toHaveBeenCalledTimes(1);
+    expect(purgeCustomers).toHaveBeenCalledWith(7);
+    expect(purgeOrders).toHaveBeenCalledWith(7);
+
+    retention.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(120000);
+    expect(purgeCustomers).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports failing services without stopping the others', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const retention = createService({ purgeInterval: 0 });
+
+    await expect(retention.purgeExpired()).resolves.toEqual([
+      { service: 'CustomerService', affected: 2 },
+      { service: 'OrderService', affected: 0, error: 'lock timeout' },
+    ]);
+    expect(purgeCustomers).toHaveBeenCalledWith(30);
+  });
+
+  it('purges on startup when asked to', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const retention = createService({ purgeInterval: 0, purgeOnStartup: true });
+
+    await retention.onModuleInit();
+
+    expect(purgeCustomers).toHaveBeenCalledTimes(1);
+    retention.onModuleDestroy();
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService } from '@nestjs/core';
+import { BaseService } from '../base/base.service';
+import type {
+  RetentionModuleOptions,
+  RetentionPurgeResult,
+} from './retention.module';
+
+/**
+ * Retention Service
+ *
+ * Periodically hard-deletes rows that were soft-deleted longer ago than the
+ * retention period, for every BaseService registered in the application.
+ */
+@Injectable()
+export class RetentionService implements OnModuleInit, OnModuleDestroy {
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private purging = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly discoveryService: DiscoveryService,
+    @Inject('RETENTION_OPTIONS')
+    private readonly options: RetentionModuleOptions = {},
+  ) {}
+
+  /**
+   * Starts the purge schedule
+   */
+  async onModuleInit(): Promise<void> {
+    const interval =
+      this.options.purgeInterval ??
+      this.configService.get<number>('retention.purgeInterval', 86400000);
+
+    if (interval > 0) {
+      this.purgeTimer = setInterval(() => {
+        void this.purgeExpired();
+      }, interval);
+    }
+
+    if (this.options.purgeOnStartup) {
+      await this.purgeExpired();
+    }
+  }
+
+  /**
+   * Stops the purge schedule
+   */
+  onModuleDestroy(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  /**
+   * Purges expired soft-deleted rows from every BaseService
+   *
+   * A failing service does not stop the others; its error is reported in
+   * the result instead. Overlapping runs are skipped.
+   *
+   * @returns Promise resolving to the purge result per service
+   */
+  async purgeExpired(): Promise<RetentionPurgeResult[]> {
+    if (this.purging) {
+      return [];
+    }
+
+    this.purging = true;
+    const retentionDays = this.getRetentionDays();
+    const results: RetentionPurgeResult[] = [];
+
+    try {
+      for (const service of this.getServices()) {
+        const name = service.constructor.name;
+        try {
+          const { affected } = await service.purgeExpired(retentionDays);
+          results.push({ service: name, affected });
+        } catch (error) {
+          console.error(`Soft-delete purge failed for ${name}:`, error);
+          results.push({
+            service: name,
+            affected: 0,
+            error: (error as Error).message,
+          });
+        }
+      }
+    } finally {
+      this.purging = false;
+    }
+
+    return results;
+  }
+
+  /**
+   * Resolves the application-wide retention period
+   *
+   * @returns Retention in days
+   */
+  private getRetentionDays(): number {
+    return (
+      this.options.softDeleteRetentionDays ??
+      this.configService.get<number>('retention.softDeleteRetentionDays', 30)
+    );
+  }
+
+  /**
+   * Finds all BaseService instances registered in the application
+   *
+   * @returns Distinct service instances
+   */
+  private getServices(): BaseService<any>[] {
+    const services = this.discoveryService
+      .getProviders()
+      .map((wrapper) => wrapper.instance as unknown)
+      .filter(
+        (instance): instance is BaseService<any> =>
+          instance instanceof BaseService,
+      );
+
+    return [...new Set(services)];
+  }
+}
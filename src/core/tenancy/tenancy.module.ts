@@ -0,0 +1,80 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { TenantGuard } from './tenant.guard';
+import { TenantService } from './tenant.service';
+
+/**
+ * Tenancy Module
+ *
+ * Provides merchant-level row isolation:
+ * - Tenant resolution from the JWT claim, a tenant header or the subdomain
+ * - TenantGuard storing the tenant in the request context
+ * - `@TenantRequired()` enforcement
+ * - Auditing of cross-tenant access attempts
+ *
+ * Entities marked with `@TenantScoped()` are then scoped to the request
+ * tenant by BaseService. This module is global.
+ */
+@Global()
+@Module({})
+export class TenancyModule {
+  /**
+   * Configures and returns the tenancy module
+   *
+   * @param options Optional tenancy settings (fall back to the `tenancy` config)
+   * @returns DynamicModule configured tenancy module
+   */
+  static forRoot(options?: TenancyModuleOptions): DynamicModule {
+    const providers = [
+      TenantService,
+      TenantGuard,
+      {
+        provide: 'TENANCY_OPTIONS',
+        useValue: options || {},
+      },
+    ];
+
+    return {
+      module: TenancyModule,
+      providers,
+      exports: [TenantService, TenantGuard],
+    };
+  }
+}
+
+/**
+ * Tenancy Module Configuration Options
+ */
+export interface TenancyModuleOptions {
+  /**
+   * Request header naming the tenant
+   * Default: X-Tenant-ID
+   */
+  headerName?: string;
+
+  /**
+   * JWT claim holding the tenant of the user
+   * Default: merchantId
+   */
+  claim?: string;
+
+  /**
+   * Domain whose subdomains name tenants, e.g. example.com for
+   * acme.example.com
+   * Default: none (subdomain resolution disabled)
+   */
+  baseDomain?: string;
+
+  /**
+   * Subdomains that never name a tenant
+   * Default: ['www', 'api']
+   */
+  ignoredSubdomains?: string[];
+
+  /**
+   * Maps a subdomain to a tenant ID, e.g. by merchant slug
+   * Default: the subdomain is the tenant ID
+   */
+  resolveSubdomain?: (
+    subdomain: string,
+  ) => string | undefined | Promise<string | undefined>;
+}
@@ -0,0 +1,62 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { RequestContext } from '../../common/context/request-context';
+import { TENANT_REQUIRED_KEY } from '../../common/decorators/roles.decorator';
+import { TenantService } from './tenant.service';
+
+/**
+ * Tenant Guard
+ *
+ * Resolves the tenant of the request and stores it in the request context,
+ * where BaseService picks it up to scope queries. Rejects requests naming
+ * conflicting tenants, and requests without a tenant on routes marked with
+ * `@TenantRequired()`.
+ *
+ * Must run after authentication so the JWT tenant claim is available.
+ */
+@Injectable()
+export class TenantGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional() private readonly tenantService?: TenantService,
+  ) {}
+
+  /**
+   * Resolves the tenant and enforces `@TenantRequired()`
+   *
+   * @param context The execution context of the request
+   * @returns Promise resolving to true if the request may proceed
+   * @throws ForbiddenException if the tenant is missing or conflicting
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { tenantId?: string }>();
+
+    const { tenantId } = this.tenantService
+      ? await this.tenantService.resolve(request)
+      : {};
+    request.tenantId = tenantId;
+    RequestContext.setTenantId(tenantId);
+
+    const tenantRequired = this.reflector.getAllAndOverride<boolean>(
+      TENANT_REQUIRED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (tenantRequired && !tenantId) {
+      throw new ForbiddenException({
+        message: 'Tenant context is required',
+        code: 'TENANT_REQUIRED',
+      });
+    }
+
+    return true;
+  }
+}
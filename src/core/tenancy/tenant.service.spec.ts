@@ -0,0 +1,65 @@
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException } from '@nestjs/common';
+import { Request } from 'express';
+import { AuditService } from '../audit/audit.service';
+import { TenantService } from './tenant.service';
+
+describe('TenantService', () => {
+  let auditService: { record: jest.Mock };
+  let service: TenantService;
+
+  const request = (
+    user: Record<string, unknown> | undefined,
+    headers: Record<string, string> = {},
+    hostname = 'localhost',
+  ) =>
+    ({
+      user,
+      headers,
+      hostname,
+      method: 'GET',
+      url: '/customers',
+    }) as unknown as Request;
+
+  beforeEach(() => {
+    auditService = { record: jest.fn().mockResolvedValue(null) };
+    service = new TenantService(
+      new ConfigService(),
+      { baseDomain: 'example.com' },
+      auditService as unknown as AuditService,
+    );
+  });
+
+  it('prefers the JWT claim and falls back to the header and subdomain', async () => {
+    await expect(
+      service.resolve(request({ merchantId: 'm1' }, { 'x-tenant-id': 'm1' })),
+    ).resolves.toEqual({ tenantId: 'm1', source: 'jwt' });
+    await expect(
+      service.resolve(request(undefined, { 'x-tenant-id': 'm2' })),
+    ).resolves.toEqual({ tenantId: 'm2', source: 'header' });
+    await expect(
+      service.resolve(request(undefined, {}, 'm3.example.com')),
+    ).resolves.toEqual({ tenantId: 'm3', source: 'subdomain' });
+    await expect(
+      service.resolve(request(undefined, {}, 'www.example.com')),
+    ).resolves.toEqual({});
+  });
+
+  it('audits and rejects a header naming another tenant than the claim', async () => {
+    await expect(
+      service.resolve(request({ merchantId: 'm1' }, { 'x-tenant-id': 'm2' })),
+    ).rejects.toThrow(ForbiddenException);
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'CROSS_TENANT_ACCESS',
+        entityType: 'tenant',
+        metadata: expect.objectContaining({
+          tenantId: 'm1',
+          requestedTenantId: 'm2',
+          source: 'header',
+        }) as Record<string, unknown>,
+      }),
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import { AuditService } from '../audit/audit.service';
+import type { TenancyModuleOptions } from './tenancy.module';
+
+/**
+ * Where the tenant of a request was taken from
+ */
+export type TenantSource = 'jwt' | 'header' | 'subdomain';
+
+/**
+ * Tenant resolved for a request
+ */
+export interface TenantResolution {
+  /**
+   * Tenant ID, undefined if the request names no tenant
+   */
+  tenantId?: string;
+
+  /**
+   * Source of the tenant ID
+   */
+  source?: TenantSource;
+}
+
+/**
+ * Tenant Service
+ *
+ * Resolves the tenant (merchant) of a request. A tenant claim in the JWT is
+ * authoritative: a tenant header or subdomain naming another tenant is a
+ * cross-tenant access attempt, which is audited and rejected. Requests
+ * without a claim act on the tenant named by the header or, failing that,
+ * the subdomain.
+ */
+@Injectable()
+export class TenantService {
+  private readonly headerName: string;
+  private readonly claim: string;
+  private readonly baseDomain?: string;
+  private readonly ignoredSubdomains: string[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject('TENANCY_OPTIONS')
+    private readonly options: TenancyModuleOptions = {},
+    @Optional() private readonly auditService?: AuditService,
+  ) {
+    this.headerName = (
+      options.headerName ??
+      this.configService.get<string>('tenancy.headerName', 'x-tenant-id')
+    ).toLowerCase();
+    this.claim =
+      options.claim ??
+      this.configService.get<string>('tenancy.claim', 'merchantId');
+    this.baseDomain =
+      options.baseDomain ??
+      this.configService.get<string>('tenancy.baseDomain') ??
+      undefined;
+    this.ignoredSubdomains = options.ignoredSubdomains ?? ['www', 'api'];
+  }
+
+  /**
+   * Resolves the tenant of a request
+   *
+   * @param request HTTP request (after authentication)
+   * @returns Promise resolving to the tenant and its source
+   * @throws ForbiddenException if the request names conflicting tenants
+   */
+  async resolve(request: Request): Promise<TenantResolution> {
+    const user = (request as Request & { user?: Record<string, unknown> }).user;
+    const claimed = this.normalize(user?.[this.claim]);
+    const header = this.normalize(request.headers[this.headerName]);
+    const subdomain = await this.getSubdomainTenant(request);
+
+    if (header && subdomain && header !== subdomain) {
+      await this.reject(request, claimed, header, 'header');
+    }
+
+    const requested = header ?? subdomain;
+    const requestedSource: TenantSource = header ? 'header' : 'subdomain';
+
+    if (claimed) {
+      if (requested && requested !== claimed) {
+        await this.reject(request, claimed, requested, requestedSource);
+      }
+      return { tenantId: claimed, source: 'jwt' };
+    }
+
+    return requested ? { tenantId: requested, source: requestedSource } : {};
+  }
+
+  /**
+   * Records a cross-tenant access attempt in the audit trail
+   *
+   * @param entityType Entity table, or 'tenant' for request level attempts
+   * @param tenantId Tenant of the caller
+   * @param requestedTenantId Tenant the caller tried to access
+   * @param metadata Additional details of the attempt
+   */
+  async reportCrossTenantAccess(
+    entityType: string,
+    tenantId: string | undefined,
+    requestedTenantId: string | undefined,
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    await this.auditService?.record({
+      operation: 'CROSS_TENANT_ACCESS',
+      entityType,
+      entityId: (metadata.entityId as string | undefined) ?? null,
+      metadata: { tenantId, requestedTenantId, ...metadata },
+    });
+  }
+
+  /**
+   * Audits and rejects a request naming a tenant it may not access
+   *
+   * @param request HTTP request
+   * @param tenantId Tenant of the caller
+   * @param requestedTenantId Tenant the request names
+   * @param source Where the requested tenant was taken from
+   * @throws ForbiddenException always
+   */
+  private async reject(
+    request: Request,
+    tenantId: string | undefined,
+    requestedTenantId: string,
+    source: TenantSource,
+  ): Promise<never> {
+    await this.reportCrossTenantAccess('tenant', tenantId, requestedTenantId, {
+      source,
+      method: request.method,
+      path: request.originalUrl ?? request.url,
+    });
+
+    throw new ForbiddenException({
+      message: 'Access to another tenant is not allowed',
+      code: 'CROSS_TENANT_ACCESS',
+    });
+  }
+
+  /**
+   * Extracts the tenant from the request host
+   *
+   * @param request HTTP request
+   * @returns Tenant ID mapped from the subdomain of the base domain, if any
+   */
+  private async getSubdomainTenant(
+    request: Request,
+  ): Promise<string | undefined> {
+    if (!this.baseDomain || !request.hostname) {
+      return undefined;
+    }
+
+    const host = request.hostname.toLowerCase();
+    const suffix = `.${this.baseDomain.toLowerCase()}`;
+    if (!host.endsWith(suffix)) {
+      return undefined;
+    }
+
+    const subdomain = host.slice(0, -suffix.length);
+    if (!subdomain || subdomain.includes('.')) {
+      return undefined;
+    }
+    if (this.ignoredSubdomains.includes(subdomain)) {
+      return undefined;
+    }
+
+    return this.options.resolveSubdomain
+      ? this.normalize(await this.options.resolveSubdomain(subdomain))
+      : subdomain;
+  }
+
+  /**
+   * Normalizes a tenant ID value
+   *
+   * @param value Raw claim or header value
+   * @returns Trimmed tenant ID, or undefined if empty
+   */
+  private normalize(value: unknown): string | undefined {
+    const raw = Array.isArray(value) ? (value[0] as unknown) : value;
+    if (typeof raw !== 'string' && typeof raw !== 'number') {
+      return undefined;
+    }
+    const tenantId = String(raw).trim();
+    return tenantId === '' ? undefined : tenantId;
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * State of a webhook delivery
+ *
+ * - PENDING: waiting for its next attempt
+ * - DELIVERED: acknowledged with a 2xx response
+ * - DEAD: attempts exhausted, kept for inspection and manual redelivery
+ */
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'DEAD';
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export interface WebhookAttempt {
+  /**
+   * Time the request was sent
+   */
+  attemptedAt: string;
+
+  /**
+   * Response status, null if no response was received
+   */
+  statusCode: number | null;
+
+  /**
+   * Network error or response excerpt of a failed attempt
+   */
+  error: string | null;
+
+  /**
+   * Request duration in milliseconds
+   */
+  duration: number;
+}
+
+/**
+ * Webhook Delivery Entity
+ *
+ * One domain event to be delivered to one subscription, together with the
+ * log of its attempts. Deliveries are retried with exponential backoff and
+ * dead-lettered once the attempts are exhausted.
+ */
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+@Index(['subscriptionId', 'createdAt'])
+@Index(['subscriptionId', 'eventId'], { unique: true })
+export class WebhookDelivery {
+  @ApiProperty({
+    description: 'Unique identifier for the delivery',
+    format: 'uuid',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  @Column('uuid')
+  subscriptionId: string;
+
+  @ApiProperty({ description: 'Merchant owning the subscription' })
+  @Column({ length: 64 })
+  merchantId: string;
+
+  @ApiProperty({ description: 'Domain event ID', format: 'uuid' })
+  @Column('uuid')
+  eventId: string;
+
+  @ApiProperty({ example: 'customers.created' })
+  @Column({ length: 160 })
+  eventType: string;
+
+  /**
+   * Request body sent on every attempt
+   */
+  @ApiProperty({ description: 'Delivered payload' })
+  @Column({ type: 'simple-json' })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({ enum: ['PENDING', 'DELIVERED', 'DEAD'] })
+  @Column({ length: 16, default: 'PENDING' })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ description: 'Attempts made so far' })
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @ApiProperty({ description: 'Time of the next attempt', required: false })
+  @Column({
+    type: 'timestamp with time zone',
+    precision: 3,
+    nullable: true,
+  })
+  nextAttemptAt?: Date | null;
+
+  @ApiProperty({ required: false })
+  @Column({
+    type: 'timestamp with time zone',
+    precision: 3,
+    nullable: true,
+  })
+  deliveredAt?: Date | null;
+
+  @ApiProperty({ description: 'Last response status', required: false })
+  @Column({ type: 'int', nullable: true })
+  lastStatusCode?: number | null;
+
+  @ApiProperty({ description: 'Last delivery error', required: false })
+  @Column({ length: 1024, nullable: true })
+  lastError?: string | null;
+
+  @ApiProperty({ description: 'Log of the delivery attempts' })
+  @Column({ type: 'simple-json' })
+  log: WebhookAttempt[];
+
+  @ApiProperty()
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+
+  @ApiProperty()
+  @UpdateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,232 @@
+import { ConfigService } from '@nestjs/config';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { DataSource, Repository } from 'typeorm';
+import { OutboundWebhook } from '../../common/decorators/outbound-webhook.decorator';
+import { OutboxEvent } from '../events/outbox-event.entity';
+import { WebhookDelivery } from './webhook-delivery.entity';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookRelayService } from './webhook-relay.service';
+import { signWebhookPayload } from './webhook.signature';
+
+@OutboundWebhook('created')
+class Customer {}
+
+describe('WebhookRelayService', () => {
+  let server: Server;
+  let url: string;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+  let responseStatus: number;
+  let subscriptions: Record<string, jest.Mock>;
+  let deliveries: Record<string, jest.Mock>;
+  let outbox: Record<string, jest.Mock>;
+  let relay: WebhookRelayService;
+
+  const subscription = {
+    id: 'sub-1',
+    merchantId: 'm1',
+    url: '',
+    events: ['customers.*'],
+    secret: 'a'.repeat(64),
+    active: true,
+  };
+
+  const event = (overrides: Partial<OutboxEvent>) =>
+    ({
+      id: 'evt-1',
+      type: 'customers.created',
+      entityType: 'customers',
+      entityId: 'c1',
+      operation: 'CREATE',
+      payload: { before: null, after: { id: 'c1', password: 'hash' } },
+      metadata: { tenantId: 'm1' },
+      occurredAt: new Date('2024-01-01T00:00:00Z'),
+      ...overrides,
+    }) as OutboxEvent;
+
+  const delivery = (attempts = 0) =>
+    ({
+      id: 'del-1',
+      subscriptionId: 'sub-1',
+      merchantId: 'm1',
+      eventId: 'evt-1',
+      eventType: 'customers.created',
+      payload: { id: 'evt-1', type: 'customers.created' },
+      status: 'PENDING',
+      attempts,
+      log: [],
+    }) as unknown as WebhookDelivery;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = responseStatus;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+    subscriptions = {
+      find: jest.fn().mockResolvedValue([{ ...subscription, url }]),
+      findOne: jest.fn().mockResolvedValue({ ...subscription, url }),
+    };
+    deliveries = {
+      create: jest.fn((data: Partial<WebhookDelivery>) => data),
+      save: jest.fn((data: unknown) => Promise.resolve(data)),
+      find: jest.fn(),
+      update: jest.fn(),
+    };
+    outbox = {
+      find: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+
+    const repositories = new Map<unknown, unknown>([
+      [OutboxEvent, outbox],
+      [WebhookSubscription, subscriptions],
+      [WebhookDelivery, deliveries],
+    ]);
+    const manager = {
+      getRepository: (target: unknown) => repositories.get(target),
+    };
+    const dataSource = {
+      entityMetadatas: [{ tableName: 'customers', target: Customer }],
+      transaction: jest.fn((work: (manager: unknown) => Promise<unknown>) =>
+        work(manager),
+      ),
+    } as unknown as DataSource;
+
+    relay = new WebhookRelayService(
+      dataSource,
+      subscriptions as unknown as Repository<WebhookSubscription>,
+      deliveries as unknown as Repository<WebhookDelivery>,
+      new ConfigService(),
+      {
+        maxAttempts: 2,
+        backoffBase: 1000,
+        allowHttp: true,
+        allowPrivateNetworks: true,
+      },
+    );
+  });
+
+  it('relays outbox events of webhook entities to the owning merchant', async () => {
+    outbox.find.mockResolvedValue([
+      event({}),
+      event({ id: 'evt-2', type: 'customers.updated', operation: 'UPDATE' }),
+      event({ id: 'evt-3', metadata: { tenantId: null } }),
+    ]);
+
+    await expect(relay.relayOutbox()).resolves.toBe(3);
+
+    expect(subscriptions.find).toHaveBeenCalledWith({
+      where: { merchantId: 'm1', active: true },
+    });
+    expect(deliveries.save).toHaveBeenCalledWith([
+      expect.objectContaining({
+        subscriptionId: 'sub-1',
+        eventId: 'evt-1',
+        status: 'PENDING',
+        payload: expect.objectContaining({
+          data: expect.objectContaining({
+            after: { id: 'c1' },
+          }) as Record<string, unknown>,
+        }) as Record<string, unknown>,
+      }),
+    ]);
+    expect(outbox.update).toHaveBeenCalledWith(
+      { id: expect.anything() as string },
+      { publishedAt: expect.any(Date) as Date },
+    );
+  });
+
+  it('sends signed payloads and marks them delivered', async () => {
+    const result = await relay.attempt(delivery());
+
+    expect(result).toMatchObject({ status: 'DELIVERED', attempts: 1 });
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['webhook-id']).toBe('evt-1');
+    expect(headers['webhook-signature']).toBe(
+      signWebhookPayload(
+        subscription.secret,
+        Number(headers['webhook-timestamp']),
+        body,
+      ),
+    );
+  });
+
+  it('sends a due delivery only from the relay that claims it', async () => {
+    // Both relays read the due row, the second claim no longer matches it
+    deliveries.find.mockImplementation(() => Promise.resolve([delivery()]));
+    deliveries.update
+      .mockResolvedValueOnce({ affected: 1 })
+      .mockResolvedValueOnce({ affected: 0 });
+
+    await expect(
+      Promise.all([relay.deliverDue(), relay.deliverDue()]),
+    ).resolves.toEqual([1, 0]);
+
+    expect(received).toHaveLength(1);
+    const [criteria, claim] = deliveries.update.mock.calls[0] as [
+      Partial<WebhookDelivery>,
+      Partial<WebhookDelivery>,
+    ];
+    expect(criteria).toMatchObject({ id: 'del-1', status: 'PENDING' });
+    expect(claim.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('retries failures with backoff and dead-letters them', async () => {
+    responseStatus = 503;
+
+    const retried = await relay.attempt(delivery());
+    expect(retried).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      lastStatusCode: 503,
+    });
+    expect(retried.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 900);
+
+    const dead = await relay.attempt(retried);
+    expect(dead).toMatchObject({
+      status: 'DEAD',
+      attempts: 2,
+      nextAttemptAt: null,
+    });
+    expect(dead.log).toHaveLength(2);
+  });
+
+  it('refuses private network endpoints unless they are allowed', async () => {
+    relay = new WebhookRelayService(
+      {} as DataSource,
+      subscriptions as unknown as Repository<WebhookSubscription>,
+      deliveries as unknown as Repository<WebhookDelivery>,
+      new ConfigService({ webhooks: { allowHttp: true } }),
+    );
+
+    const result = await relay.attempt(delivery());
+
+    expect(received).toHaveLength(0);
+    expect(result).toMatchObject({
+      status: 'DEAD',
+      attempts: 1,
+      lastStatusCode: null,
+      lastError:
+        'Subscription URL is not allowed: url must not point to a private network',
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import {
+  DataSource,
+  EntityManager,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { getOutboundWebhookEvents } from '../../common/decorators/outbound-webhook.decorator';
+import { DEFAULT_REDACTED_FIELDS } from '../audit/audit.diff';
+import { OutboxEvent } from '../events/outbox-event.entity';
+import { WebhookDelivery } from './webhook-delivery.entity';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from './webhook.signature';
+import {
+  checkWebhookUrl,
+  createWebhookLookup,
+  getWebhookUrlPolicy,
+} from './webhook.url';
+import type { WebhooksModuleOptions } from './webhooks.module';
+
+/**
+ * Webhook Relay Service
+ *
+ * Moves domain events from the transactional outbox to merchant webhooks:
+ * - Relays unpublished outbox events of `@OutboundWebhook()` entities into
+ *   one delivery per matching subscription of the owning merchant
+ * - Sends due deliveries as HMAC-signed POST requests
+ * - Retries failed deliveries with exponential backoff and dead-letters
+ *   them once the attempts are exhausted
+ *
+ * Deliveries are at least once; receivers deduplicate on the `Webhook-Id`
+ * header.
+ */
+@Injectable()
+export class WebhookRelayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookRelayService.name);
+  private relayTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly configService: ConfigService,
+    @Inject('WEBHOOKS_OPTIONS')
+    private readonly options: WebhooksModuleOptions = {},
+  ) {}
+
+  /**
+   * Starts the relay schedule
+   */
+  onModuleInit(): void {
+    const interval = this.getSetting('relayInterval', 5000);
+
+    if (interval > 0) {
+      this.relayTimer = setInterval(() => {
+        this.run().catch((error) =>
+          this.logger.error(
+            'Webhook relay failed',
+            error instanceof Error ? error.stack : String(error),
+          ),
+        );
+      }, interval);
+    }
+  }
+
+  /**
+   * Stops the relay schedule
+   */
+  onModuleDestroy(): void {
+    if (this.relayTimer) {
+      clearInterval(this.relayTimer);
+      this.relayTimer = null;
+    }
+  }
+
+  /**
+   * Relays pending outbox events and sends due deliveries
+   *
+   * Runs are skipped while the previous one is still in progress.
+   */
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.relayOutbox();
+      await this.deliverDue();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Turns a batch of unpublished outbox events into deliveries
+   *
+   * Events are marked as published in the same transaction as the
+   * deliveries are created; concurrent relays skip locked events.
+   *
+   * @returns Promise resolving to the number of relayed events
+   */
+  async relayOutbox(): Promise<number> {
+    return this.dataSource.transaction(async (manager) => {
+      const outbox = manager.getRepository(OutboxEvent);
+      const events = await outbox.find({
+        where: { publishedAt: IsNull() },
+        order: { occurredAt: 'ASC' },
+        take: this.getSetting('batchSize', 100),
+        lock: { mode: 'pessimistic_write', onLocked: 'skip_locked' },
+      });
+      if (events.length === 0) {
+        return 0;
+      }
+
+      const deliveries: WebhookDelivery[] = [];
+      for (const event of events) {
+        deliveries.push(...(await this.buildDeliveries(event, manager)));
+      }
+      if (deliveries.length > 0) {
+        await manager.getRepository(WebhookDelivery).save(deliveries);
+      }
+
+      await outbox.update(
+        { id: In(events.map((event) => event.id)) },
+        { publishedAt: new Date() },
+      );
+      return events.length;
+    });
+  }
+
+  /**
+   * Sends the deliveries whose next attempt is due
+   *
+   * Each delivery is claimed before it is sent, so relays running on other
+   * instances skip it.
+   *
+   * @returns Promise resolving to the number of attempted deliveries
+   */
+  async deliverDue(): Promise<number> {
+    const deliveries = await this.deliveryRepository.find({
+      where: { status: 'PENDING', nextAttemptAt: LessThanOrEqual(new Date()) },
+      order: { nextAttemptAt: 'ASC' },
+      take: this.getSetting('batchSize', 100),
+    });
+
+    let attempted = 0;
+    for (const delivery of deliveries) {
+      if (await this.claim(delivery)) {
+        await this.attempt(delivery);
+        attempted++;
+      }
+    }
+    return attempted;
+  }
+
+  /**
+   * Claims a due delivery for this relay
+   *
+   * Moves the next attempt past the request timeout with a conditional
+   * update; only the relay whose update matched the still due row sends it.
+   * If the relay stops before recording the outcome, the delivery becomes
+   * due again once the claim expires.
+   *
+   * @param delivery Delivery to claim
+   * @returns Promise resolving to true if the delivery was claimed
+   */
+  private async claim(delivery: WebhookDelivery): Promise<boolean> {
+    const now = Date.now();
+    const { affected } = await this.deliveryRepository.update(
+      {
+        id: delivery.id,
+        status: 'PENDING',
+        nextAttemptAt: LessThanOrEqual(new Date(now)),
+      },
+      {
+        nextAttemptAt: new Date(now + 2 * this.getSetting('timeout', 10000)),
+      },
+    );
+    return affected === 1;
+  }
+
+  /**
+   * Sends one delivery and records the outcome
+   *
+   * @param delivery Delivery to send
+   * @returns Promise resolving to the updated delivery
+   */
+  async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id: delivery.subscriptionId },
+      select: { id: true, url: true, secret: true, active: true },
+    });
+
+    const attemptedAt = new Date();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    // Also refuses subscriptions saved under a more lenient URL policy
+    const rejection =
+      subscription &&
+      checkWebhookUrl(
+        subscription.url,
+        getWebhookUrlPolicy(this.options, this.configService),
+      );
+
+    if (!subscription || !subscription.active) {
+      error = 'Subscription is inactive';
+    } else if (rejection) {
+      error = `Subscription URL is not allowed: ${rejection}`;
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+
+      try {
+        const response = await this.send(subscription.url, body, {
+          'Content-Type': 'application/json',
+          [WEBHOOK_ID_HEADER]: delivery.eventId,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            subscription.secret!,
+            timestamp,
+            body,
+          ),
+        });
+        statusCode = response.statusCode;
+        if (statusCode < 200 || statusCode >= 300) {
+          error = response.text.slice(0, 500) || `HTTP ${statusCode}`;
+        }
+      } catch (requestError) {
+        error =
+          requestError instanceof Error
+            ? requestError.message
+            : String(requestError);
+      }
+    }
+
+    delivery.attempts += 1;
+    delivery.lastStatusCode = statusCode;
+    delivery.lastError = error?.slice(0, 1024) ?? null;
+    delivery.log = [
+      ...(delivery.log ?? []),
+      {
+        attemptedAt: attemptedAt.toISOString(),
+        statusCode,
+        error,
+        duration: Date.now() - attemptedAt.getTime(),
+      },
+    ];
+
+    if (error === null) {
+      delivery.status = 'DELIVERED';
+      delivery.deliveredAt = new Date();
+      delivery.nextAttemptAt = null;
+    } else if (
+      !subscription?.active ||
+      rejection ||
+      delivery.attempts >= this.getSetting('maxAttempts', 8)
+    ) {
+      delivery.status = 'DEAD';
+      delivery.nextAttemptAt = null;
+    } else {
+      delivery.nextAttemptAt = new Date(
+        Date.now() + this.getBackoffDelay(delivery.attempts),
+      );
+    }
+
+    return this.deliveryRepository.save(delivery);
+  }
+
+  /**
+   * Posts a webhook request
+   *
+   * Redirects are not followed, and hosts resolving to non-public addresses
+   * are refused at connection time unless the URL policy allows them.
+   *
+   * @param url Endpoint URL
+   * @param body Request body
+   * @param headers Request headers
+   * @returns Promise resolving to the status code and up to 500 characters of
+   * the response body
+   */
+  private send(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<{ statusCode: number; text: string }> {
+    const send = url.startsWith('https:') ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+      const request = send(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: createWebhookLookup(
+            getWebhookUrlPolicy(this.options, this.configService),
+          ),
+          signal: AbortSignal.timeout(this.getSetting('timeout', 10000)),
+        },
+        (response) => {
+          let text = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => {
+            if (text.length < 500) {
+              text += chunk;
+            }
+          });
+          response.on('end', () =>
+            resolve({ statusCode: response.statusCode ?? 0, text }),
+          );
+          response.on('error', reject);
+        },
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Computes the delay before the next attempt
+   *
+   * @param attempts Attempts made so far
+   * @returns Delay in milliseconds, doubling per attempt up to the maximum
+   */
+  protected getBackoffDelay(attempts: number): number {
+    return Math.min(
+      this.getSetting('backoffBase', 30000) * 2 ** (attempts - 1),
+      this.getSetting('backoffMax', 21600000),
+    );
+  }
+
+  /**
+   * Builds the deliveries of an outbox event
+   *
+   * @param event Outbox event
+   * @param manager Entity manager of the relay transaction
+   * @returns Promise resolving to one delivery per matching subscription
+   */
+  private async buildDeliveries(
+    event: OutboxEvent,
+    manager: EntityManager,
+  ): Promise<WebhookDelivery[]> {
+    const merchantId = event.metadata?.tenantId;
+    const events = this.getWebhookEvents(event.entityType);
+    const name = event.type.slice(event.entityType.length + 1);
+    if (
+      typeof merchantId !== 'string' ||
+      !events ||
+      !(events.includes('*') || events.includes(name))
+    ) {
+      return [];
+    }
+
+    const subscriptions = await manager
+      .getRepository(WebhookSubscription)
+      .find({ where: { merchantId, active: true } });
+    const repository = manager.getRepository(WebhookDelivery);
+
+    return subscriptions
+      .filter((subscription) =>
+        subscription.events.some(
+          (pattern) =>
+            pattern === '*' ||
+            pattern === event.type ||
+            pattern === `${event.entityType}.*`,
+        ),
+      )
+      .map((subscription) =>
+        repository.create({
+          subscriptionId: subscription.id,
+          merchantId,
+          eventId: event.id,
+          eventType: event.type,
+          payload: this.buildPayload(event),
+          status: 'PENDING',
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          log: [],
+        }),
+      );
+  }
+
+  /**
+   * Builds the request body of an event, without sensitive fields
+   *
+   * @param event Outbox event
+   * @returns Webhook payload
+   */
+  private buildPayload(event: OutboxEvent): Record<string, unknown> {
+    const redacted = new Set(
+      (this.options.redactedFields ?? DEFAULT_REDACTED_FIELDS).map((field) =>
+        field.toLowerCase(),
+      ),
+    );
+    const strip = (state: Record<string, unknown> | null) =>
+      state &&
+      Object.fromEntries(
+        Object.entries(state).filter(
+          ([field]) => !redacted.has(field.toLowerCase()),
+        ),
+      );
+
+    return {
+      id: event.id,
+      type: event.type,
+      occurredAt: new Date(event.occurredAt).toISOString(),
+      data: {
+        entityType: event.entityType,
+        entityId: event.entityId,
+        before: strip(event.payload.before),
+        after: strip(event.payload.after),
+      },
+    };
+  }
+
+  /**
+   * Reads the webhook events declared on the entity of a table
+   *
+   * @param entityType Entity table name
+   * @returns Delivered event names, or null if the entity is not delivered
+   */
+  private getWebhookEvents(entityType: string): string[] | null {
+    const metadata = this.dataSource.entityMetadatas.find(
+      (entity) => entity.tableName === entityType,
+    );
+    return metadata ? getOutboundWebhookEvents(metadata.target) : null;
+  }
+
+  /**
+   * Reads a numeric setting from the module options or the `webhooks` config
+   *
+   * @param key Setting name
+   * @param defaultValue Value used when the setting is absent
+   * @returns Setting value
+   */
+  private getSetting(
+    key: Exclude<
+      keyof WebhooksModuleOptions,
+      'redactedFields' | 'allowHttp' | 'allowPrivateNetworks'
+    >,
+    defaultValue: number,
+  ): number {
+    return (
+      this.options[key] ??
+      this.configService.get<number>(`webhooks.${key}`, defaultValue)
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Webhook Subscription Entity
+ *
+ * Endpoint of a merchant receiving the domain events of entities marked
+ * with `@OutboundWebhook()`. Payloads are signed with the subscription
+ * secret, which is only returned when the subscription is created.
+ */
+@Entity('webhook_subscriptions')
+@Index(['merchantId', 'active'])
+export class WebhookSubscription {
+  @ApiProperty({
+    description: 'Unique identifier for the subscription',
+    format: 'uuid',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Merchant owning the subscription' })
+  @Column({ length: 64 })
+  merchantId: string;
+
+  @ApiProperty({
+    description: 'Endpoint receiving the events',
+    example: 'https://merchant.example.com/hooks/loyalty',
+  })
+  @Column({ length: 2048 })
+  url: string;
+
+  @ApiProperty({
+    description:
+      'Event types delivered; customers.* matches every event of an entity, * every event',
+    example: ['customers.created', 'redemptions.*'],
+    type: [String],
+  })
+  @Column({ type: 'simple-array' })
+  events: string[];
+
+  /**
+   * HMAC-SHA256 signing secret
+   */
+  @ApiProperty({
+    description: 'Signing secret, only returned on creation',
+    required: false,
+  })
+  @Column({ type: 'char', length: 64, select: false })
+  secret?: string;
+
+  @ApiProperty({ description: 'Whether events are delivered' })
+  @Column({ default: true })
+  active: boolean;
+
+  @ApiProperty({ required: false })
+  @Column({ length: 255, nullable: true })
+  description?: string | null;
+
+  @ApiProperty()
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+  })
+  createdAt: Date;
+
+  @ApiProperty()
+  @UpdateDateColumn({
+    type: 'timestamp with time zone',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+  })
+  updatedAt: Date;
+}
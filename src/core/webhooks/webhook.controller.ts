@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  AdminOnly,
+  TenantRequired,
+} from '../../common/decorators/roles.decorator';
+import { PaginatedResult } from '../../common/interfaces/pagination.interface';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { TenantGuard } from '../tenancy/tenant.guard';
+import { WebhookDelivery } from './webhook-delivery.entity';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookService } from './webhook.service';
+import type { WebhookSubscriptionInput } from './webhooks.module';
+
+/**
+ * Swagger schema of subscription settings
+ */
+const SUBSCRIPTION_PROPERTIES = {
+  url: {
+    type: 'string',
+    example: 'https://merchant.example.com/hooks/loyalty',
+  },
+  events: {
+    type: 'array',
+    items: { type: 'string' },
+    example: ['customers.created', 'redemptions.*'],
+  },
+  active: { type: 'boolean', example: true },
+  description: { type: 'string', example: 'CRM sync' },
+};
+
+/**
+ * Webhook Controller
+ *
+ * Lets merchant admins manage the webhooks receiving their domain events.
+ *
+ * Endpoints:
+ * - GET /webhooks/subscriptions - List subscriptions
+ * - POST /webhooks/subscriptions - Create a subscription
+ * - PATCH /webhooks/subscriptions/:id - Update a subscription
+ * - DELETE /webhooks/subscriptions/:id - Delete a subscription
+ * - POST /webhooks/subscriptions/:id/rotate-secret - Replace the signing secret
+ * - GET /webhooks/subscriptions/:id/deliveries - Delivery log
+ * - POST /webhooks/deliveries/:id/redeliver - Retry a dead-lettered delivery
+ */
+@ApiTags('webhooks')
+@ApiBearerAuth()
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard, RolesGuard, TenantGuard)
+@AdminOnly()
+@TenantRequired()
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * Lists the subscriptions of the merchant
+   *
+   * @returns Promise resolving to the subscriptions
+   */
+  @Get('subscriptions')
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  @ApiResponse({ status: HttpStatus.OK, type: [WebhookSubscription] })
+  async findSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.webhookService.findSubscriptions();
+  }
+
+  /**
+   * Creates a subscription
+   *
+   * @param input Subscription settings
+   * @returns Promise resolving to the subscription with its signing secret
+   */
+  @Post('subscriptions')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create webhook subscription',
+    description:
+      'Creates a subscription and returns its signing secret, which is not shown again',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['url', 'events'],
+      properties: SUBSCRIPTION_PROPERTIES,
+    },
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: WebhookSubscription })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid URL or event types',
+  })
+  async createSubscription(
+    @Body() input: WebhookSubscriptionInput,
+  ): Promise<WebhookSubscription> {
+    return this.webhookService.createSubscription(input);
+  }
+
+  /**
+   * Updates a subscription
+   *
+   * @param id Subscription ID
+   * @param input Settings to change
+   * @returns Promise resolving to the updated subscription
+   */
+  @Patch('subscriptions/:id')
+  @ApiOperation({ summary: 'Update webhook subscription' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiBody({ schema: { type: 'object', properties: SUBSCRIPTION_PROPERTIES } })
+  @ApiResponse({ status: HttpStatus.OK, type: WebhookSubscription })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async updateSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() input: Partial<WebhookSubscriptionInput>,
+  ): Promise<WebhookSubscription> {
+    return this.webhookService.updateSubscription(id, input);
+  }
+
+  /**
+   * Deletes a subscription and its delivery log
+   *
+   * @param id Subscription ID
+   */
+  @Delete('subscriptions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete webhook subscription' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Deleted' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async removeSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.webhookService.removeSubscription(id);
+  }
+
+  /**
+   * Replaces the signing secret of a subscription
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to the subscription with its new secret
+   */
+  @Post('subscriptions/:id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate signing secret',
+    description:
+      'Replaces the signing secret; later deliveries use the new one',
+  })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: WebhookSubscription })
+  async rotateSecret(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookSubscription> {
+    return this.webhookService.rotateSecret(id);
+  }
+
+  /**
+   * Lists the deliveries of a subscription
+   *
+   * @param id Subscription ID
+   * @param query Raw query parameters
+   * @returns Promise resolving to paginated deliveries
+   */
+  @Get('subscriptions/:id/deliveries')
+  @ApiOperation({
+    summary: 'Webhook delivery log',
+    description:
+      'Lists the deliveries of a subscription with the outcome of every attempt, newest first',
+  })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Deliveries per page (default: 20, max: 100)',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Deliveries retrieved' })
+  async findDeliveries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: Record<string, any>,
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    const page = Number(query.page ?? 1);
+    const limit = Number(query.limit ?? 20);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new BadRequestException('limit must be a positive integer');
+    }
+
+    return this.webhookService.findDeliveries(id, page, limit);
+  }
+
+  /**
+   * Queues a dead-lettered delivery again
+   *
+   * @param id Delivery ID
+   * @returns Promise resolving to the queued delivery
+   */
+  @Post('deliveries/:id/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Redeliver webhook',
+    description: 'Queues a dead-lettered delivery for a new round of attempts',
+  })
+  @ApiParam({ name: 'id', description: 'Delivery ID' })
+  @ApiResponse({ status: HttpStatus.ACCEPTED, type: WebhookDelivery })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Delivery is not dead-lettered',
+  })
+  async redeliver(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookDelivery> {
+    return this.webhookService.redeliver(id);
+  }
+}
@@ -0,0 +1,289 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { Repository } from 'typeorm';
+import { RequestContext } from '../../common/context/request-context';
+import { PaginatedResult } from '../../common/interfaces/pagination.interface';
+import { WebhookDelivery } from './webhook-delivery.entity';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import { checkWebhookUrl, getWebhookUrlPolicy } from './webhook.url';
+import type {
+  WebhooksModuleOptions,
+  WebhookSubscriptionInput,
+} from './webhooks.module';
+
+/**
+ * Event type pattern: `*`, `<entity>.*` or `<entity>.<event>`
+ */
+const EVENT_PATTERN = /^(\*|[a-z0-9_]+\.(\*|[a-z_]+))$/;
+
+/**
+ * Webhook Service
+ *
+ * Manages the webhook subscriptions of the current merchant and exposes
+ * their delivery log. Every operation is limited to the tenant of the
+ * request.
+ */
+@Injectable()
+export class WebhookService {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly configService: ConfigService,
+    @Inject('WEBHOOKS_OPTIONS')
+    private readonly options: WebhooksModuleOptions = {},
+  ) {}
+
+  /**
+   * Lists the subscriptions of the current merchant
+   *
+   * @returns Promise resolving to the subscriptions, newest first
+   */
+  async findSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.subscriptionRepository.find({
+      where: { merchantId: this.getMerchantId() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Creates a subscription with a new signing secret
+   *
+   * @param input Subscription settings
+   * @returns Promise resolving to the subscription, including its secret
+   * @throws BadRequestException if the settings are invalid
+   */
+  async createSubscription(
+    input: WebhookSubscriptionInput,
+  ): Promise<WebhookSubscription> {
+    this.assertSubscriptionInput(input, false);
+
+    const subscription = this.subscriptionRepository.create({
+      merchantId: this.getMerchantId(),
+      url: input.url,
+      events: input.events,
+      active: input.active ?? true,
+      description: input.description ?? null,
+      secret: randomBytes(32).toString('hex'),
+    });
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * Updates the settings of a subscription
+   *
+   * @param id Subscription ID
+   * @param input Settings to change
+   * @returns Promise resolving to the updated subscription
+   * @throws NotFoundException if the subscription does not exist
+   * @throws BadRequestException if the settings are invalid
+   */
+  async updateSubscription(
+    id: string,
+    input: Partial<WebhookSubscriptionInput>,
+  ): Promise<WebhookSubscription> {
+    this.assertSubscriptionInput(input, true);
+    const subscription = await this.findSubscription(id);
+
+    const changes = Object.fromEntries(
+      Object.entries({
+        url: input.url,
+        events: input.events,
+        active: input.active,
+        description: input.description,
+      }).filter(([, value]) => value !== undefined),
+    );
+    this.subscriptionRepository.merge(subscription, changes);
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * Replaces the signing secret of a subscription
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to the subscription, including its new secret
+   * @throws NotFoundException if the subscription does not exist
+   */
+  async rotateSecret(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.findSubscription(id);
+    subscription.secret = randomBytes(32).toString('hex');
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * Deletes a subscription together with its delivery log
+   *
+   * @param id Subscription ID
+   * @throws NotFoundException if the subscription does not exist
+   */
+  async removeSubscription(id: string): Promise<void> {
+    const subscription = await this.findSubscription(id);
+    await this.deliveryRepository.delete({ subscriptionId: subscription.id });
+    await this.subscriptionRepository.delete({ id: subscription.id });
+  }
+
+  /**
+   * Lists the deliveries of a subscription
+   *
+   * @param id Subscription ID
+   * @param page Page number (1-based)
+   * @param limit Deliveries per page (max 100)
+   * @returns Promise resolving to paginated deliveries, newest first
+   * @throws NotFoundException if the subscription does not exist
+   */
+  async findDeliveries(
+    id: string,
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    const subscription = await this.findSubscription(id);
+    const take = Math.min(Math.max(1, limit), 100);
+
+    const [data, total] = await this.deliveryRepository.findAndCount({
+      where: { subscriptionId: subscription.id },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * take,
+      take,
+    });
+
+    const totalPages = Math.ceil(total / take);
+    return {
+      data,
+      pagination: {
+        page,
+        limit: take,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+        startIndex: total === 0 ? 0 : (page - 1) * take + 1,
+        endIndex: (page - 1) * take + data.length,
+        itemCount: data.length,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Queues a dead-lettered delivery for a new round of attempts
+   *
+   * @param id Delivery ID
+   * @returns Promise resolving to the queued delivery
+   * @throws NotFoundException if the delivery does not exist
+   * @throws BadRequestException if the delivery is not dead-lettered
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id, merchantId: this.getMerchantId() },
+    });
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery with ID ${id} not found`);
+    }
+    if (delivery.status !== 'DEAD') {
+      throw new BadRequestException(
+        `Webhook delivery with ID ${id} is not dead-lettered`,
+      );
+    }
+
+    delivery.status = 'PENDING';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    return this.deliveryRepository.save(delivery);
+  }
+
+  /**
+   * Loads a subscription of the current merchant
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to the subscription
+   * @throws NotFoundException if the subscription does not exist
+   */
+  private async findSubscription(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id, merchantId: this.getMerchantId() },
+    });
+    if (!subscription) {
+      throw new NotFoundException(
+        `Webhook subscription with ID ${id} not found`,
+      );
+    }
+    return subscription;
+  }
+
+  /**
+   * Reads the merchant of the current request
+   *
+   * @returns Merchant ID
+   * @throws ForbiddenException if the request has no tenant
+   */
+  private getMerchantId(): string {
+    const merchantId = RequestContext.getTenantId();
+    if (!merchantId) {
+      throw new ForbiddenException({
+        message: 'Tenant context is required',
+        code: 'TENANT_REQUIRED',
+      });
+    }
+    return merchantId;
+  }
+
+  /**
+   * Validates subscription settings
+   *
+   * @param input Settings to validate
+   * @param partial Whether omitted settings are allowed
+   * @throws BadRequestException listing the invalid settings
+   */
+  private assertSubscriptionInput(
+    input: Partial<WebhookSubscriptionInput>,
+    partial: boolean,
+  ): void {
+    const errors: string[] = [];
+
+    if (input.url !== undefined || !partial) {
+      const rejection = checkWebhookUrl(
+        input.url,
+        getWebhookUrlPolicy(this.options, this.configService),
+      );
+      if (rejection) {
+        errors.push(rejection);
+      }
+    }
+
+    if (input.events !== undefined || !partial) {
+      if (
+        !Array.isArray(input.events) ||
+        input.events.length === 0 ||
+        !input.events.every(
+          (event) => typeof event === 'string' && EVENT_PATTERN.test(event),
+        )
+      ) {
+        errors.push(
+          'events must be a non-empty list of event types such as customers.created, customers.* or *',
+        );
+      }
+    }
+
+    if (input.active !== undefined && typeof input.active !== 'boolean') {
+      errors.push('active must be a boolean');
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid webhook subscription',
+        errors,
+      });
+    }
+  }
+}
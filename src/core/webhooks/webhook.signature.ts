@@ -0,0 +1,50 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Webhook Signature
+ *
+ * Headers and HMAC signing of outbound webhook requests. Receivers verify a
+ * request by computing the HMAC-SHA256 of `<timestamp>.<raw body>` with the
+ * subscription secret and comparing it to the `v1` signature, rejecting
+ * timestamps too far in the past to prevent replays.
+ */
+
+/**
+ * Header carrying the domain event ID (stable across retries)
+ */
+export const WEBHOOK_ID_HEADER = 'Webhook-Id';
+
+/**
+ * Header carrying the delivery ID
+ */
+export const WEBHOOK_DELIVERY_HEADER = 'Webhook-Delivery';
+
+/**
+ * Header carrying the event type
+ */
+export const WEBHOOK_EVENT_HEADER = 'Webhook-Event';
+
+/**
+ * Header carrying the signing time in Unix seconds
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'Webhook-Timestamp';
+
+/**
+ * Header carrying the signature, formatted as `v1=<hex digest>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'Webhook-Signature';
+
+/**
+ * Signs a webhook request body
+ *
+ * @param secret Subscription secret
+ * @param timestamp Signing time in Unix seconds
+ * @param body Raw request body
+ * @returns Signature header value
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  `v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
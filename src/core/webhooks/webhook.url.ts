@@ -0,0 +1,176 @@
+import { ConfigService } from '@nestjs/config';
+import { lookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import type { WebhooksModuleOptions } from './webhooks.module';
+
+/**
+ * Webhook URL
+ *
+ * Keeps merchant-controlled webhook URLs from reaching the internal network
+ * (SSRF). Endpoints must use HTTPS and resolve to public addresses; the
+ * addresses are checked when a subscription is saved and again after every
+ * DNS lookup made to deliver a request, so a host cannot be re-pointed at an
+ * internal address later.
+ */
+
+/**
+ * Loopback, private, link-local, shared, multicast and reserved ranges
+ * (IPv4-mapped IPv6 addresses are checked against the IPv4 ranges)
+ */
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Settings deciding which webhook URLs are allowed
+ */
+export interface WebhookUrlPolicy {
+  /**
+   * Whether plain `http:` URLs are allowed
+   */
+  allowHttp: boolean;
+
+  /**
+   * Whether hosts may resolve to loopback, private and link-local addresses
+   */
+  allowPrivateNetworks: boolean;
+}
+
+/**
+ * Reads the URL policy from the module options or the `webhooks` config
+ *
+ * @param options Webhooks module options
+ * @param configService Config service
+ * @returns URL policy, denying plain HTTP and private networks by default
+ */
+export const getWebhookUrlPolicy = (
+  options: WebhooksModuleOptions,
+  configService: ConfigService,
+): WebhookUrlPolicy => ({
+  allowHttp:
+    options.allowHttp ??
+    configService.get<boolean>('webhooks.allowHttp', false),
+  allowPrivateNetworks:
+    options.allowPrivateNetworks ??
+    configService.get<boolean>('webhooks.allowPrivateNetworks', false),
+});
+
+/**
+ * Checks whether an IP address belongs to a non-public network
+ *
+ * @param address IPv4 or IPv6 address
+ * @returns True for loopback, private, link-local and reserved addresses
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return (
+    family === 0 ||
+    PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+};
+
+/**
+ * Validates a webhook URL without resolving its host
+ *
+ * @param url URL to validate
+ * @param policy Allowed protocols and networks
+ * @returns Reason the URL is rejected, or null if it is allowed
+ */
+export const checkWebhookUrl = (
+  url: unknown,
+  policy: WebhookUrlPolicy,
+): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url));
+  } catch {
+    return 'url must be an absolute https URL';
+  }
+
+  if (
+    parsed.protocol !== 'https:' &&
+    !(policy.allowHttp && parsed.protocol === 'http:')
+  ) {
+    return policy.allowHttp
+      ? 'url must be an absolute http(s) URL'
+      : 'url must be an absolute https URL';
+  }
+  if (parsed.username || parsed.password) {
+    return 'url must not contain credentials';
+  }
+
+  const host = parsed.hostname
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '')
+    .toLowerCase();
+  if (!policy.allowPrivateNetworks) {
+    const internal = isIP(host)
+      ? isPrivateAddress(host)
+      : host === 'localhost' || host.endsWith('.localhost');
+    if (internal) {
+      return 'url must not point to a private network';
+    }
+  }
+  return null;
+};
+
+/**
+ * Creates a DNS lookup that refuses hosts resolving to non-public addresses
+ *
+ * Passed to the HTTP client so the check applies to the addresses that are
+ * actually connected to.
+ *
+ * @param policy Allowed networks
+ * @returns Lookup function for `http.request`
+ */
+export const createWebhookLookup =
+  (policy: WebhookUrlPolicy): LookupFunction =>
+  (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+
+      const blocked = policy.allowPrivateNetworks
+        ? undefined
+        : addresses.find(({ address }) => isPrivateAddress(address));
+      if (blocked) {
+        callback(
+          new Error(
+            `${hostname} resolves to the private address ${blocked.address}`,
+          ),
+          '',
+        );
+      } else if (options.all) {
+        callback(null, addresses);
+      } else if (addresses.length === 0) {
+        callback(new Error(`${hostname} has no addresses`), '');
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
@@ -0,0 +1,136 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookDelivery } from './webhook-delivery.entity';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookController } from './webhook.controller';
+import { WebhookRelayService } from './webhook-relay.service';
+import { WebhookService } from './webhook.service';
+
+/**
+ * Webhooks Module
+ *
+ * Delivers domain events to the systems of merchants:
+ * - Webhook subscriptions per merchant, filtered by event type
+ * - Relay of the transactional outbox for `@OutboundWebhook()` entities
+ * - HMAC-SHA256 signed payloads with replay-resistant timestamps
+ * - Retries with exponential backoff and a dead-letter state
+ * - Delivery log with the outcome of every attempt
+ *
+ * Requires the EventsModule, which writes the outbox.
+ */
+@Global()
+@Module({})
+export class WebhooksModule {
+  /**
+   * Configures and returns the webhooks module
+   *
+   * @param options Optional webhook settings (fall back to the `webhooks` config)
+   * @returns DynamicModule configured webhooks module
+   */
+  static forRoot(options?: WebhooksModuleOptions): DynamicModule {
+    const providers = [
+      WebhookService,
+      WebhookRelayService,
+      {
+        provide: 'WEBHOOKS_OPTIONS',
+        useValue: options || {},
+      },
+    ];
+
+    return {
+      module: WebhooksModule,
+      imports: [
+        TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery]),
+      ],
+      controllers: [WebhookController],
+      providers,
+      exports: [WebhookService, WebhookRelayService],
+    };
+  }
+}
+
+/**
+ * Webhooks Module Configuration Options
+ */
+export interface WebhooksModuleOptions {
+  /**
+   * Interval between relay runs in milliseconds
+   * Default: 5000 (0 disables the schedule)
+   */
+  relayInterval?: number;
+
+  /**
+   * Outbox events and deliveries processed per run
+   * Default: 100
+   */
+  batchSize?: number;
+
+  /**
+   * Attempts before a delivery is dead-lettered
+   * Default: 8
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled per attempt
+   * Default: 30000
+   */
+  backoffBase?: number;
+
+  /**
+   * Maximum delay between retries in milliseconds
+   * Default: 21600000 (6 hours)
+   */
+  backoffMax?: number;
+
+  /**
+   * Request timeout in milliseconds
+   * Default: 10000
+   */
+  timeout?: number;
+
+  /**
+   * Whether subscriptions may use plain `http:` URLs
+   * Default: false
+   */
+  allowHttp?: boolean;
+
+  /**
+   * Whether webhook hosts may be loopback, private or link-local addresses
+   * (for local development only)
+   * Default: false
+   */
+  allowPrivateNetworks?: boolean;
+
+  /**
+   * Field names left out of payloads
+   * Default: password, secret, token and similar fields
+   */
+  redactedFields?: string[];
+}
+
+/**
+ * Settings of a webhook subscription
+ */
+export interface WebhookSubscriptionInput {
+  /**
+   * Endpoint receiving the events
+   */
+  url: string;
+
+  /**
+   * Event types to deliver: `<entity>.<event>`, `<entity>.*` or `*`
+   */
+  events: string[];
+
+  /**
+   * Whether events are delivered
+   * Default: true
+   */
+  active?: boolean;
+
+  /**
+   * Free-form note
+   */
+  description?: string | null;
+}
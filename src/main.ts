@@ -6,6 +6,7 @@ import { Logger } from '@nestjs/common';
 import * as compression from 'compression';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
+import { MigrationService } from './core/database/migration.service';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
@@ -32,6 +33,9 @@ async function bootstrap() {
 
     const configService = app.get(ConfigService);
 
+    // Apply or refuse pending migrations before serving requests
+    await app.get(MigrationService).verifyOnStartup();
+
     // Apply global interceptors (order matters)
     app.useGlobalInterceptors(
       new LoggingInterceptor(configService), // First: logging interceptor
@@ -98,11 +102,13 @@ async function bootstrap() {
         'Authorization',
         'X-Correlation-ID',
         'X-API-Key',
+        'Idempotency-Key',
       ]),
       exposedHeaders: configService.get<string[]>('cors.exposedHeaders', [
         'X-Total-Count',
         'X-Page-Count',
         'X-Correlation-ID',
+        'Idempotent-Replayed',
       ]),
       maxAge: configService.get<number>('cors.maxAge', 86400), // 24 hours
     });
@@ -0,0 +1,76 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { MigrationService } from '../core/database/migration.service';
+
+const USAGE = `Usage: migrate <command>
+
+Commands:
+  status                      List executed and pending migrations
+  run                         Run pending migrations
+  revert                      Revert the last executed migration
+  generate <Name> [directory] Generate a migration from entity changes`;
+
+/**
+ * Migration CLI
+ *
+ * Runs migration commands against the configured database, e.g.
+ * `node dist/scripts/migrate.js status` or `npm run db:migrate`.
+ */
+async function migrate() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!['status', 'run', 'revert', 'generate'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+  if (command === 'generate' && !args[0]) {
+    throw new Error('A migration name is required, e.g. AddCustomerTier');
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const migrationService = app.get(MigrationService);
+
+    switch (command) {
+      case 'status': {
+        const { executed, pending } =
+          await migrationService.getMigrationStatus();
+        executed.forEach(({ name }) => console.log(`[X] ${name}`));
+        pending.forEach((name) => console.log(`[ ] ${name}`));
+        console.log(
+          `${executed.length} executed, ${pending.length} pending migration(s)`,
+        );
+        process.exitCode = pending.length > 0 ? 2 : 0;
+        break;
+      }
+      case 'run': {
+        const { executed } = await migrationService.runMigrations();
+        executed.forEach((name) => console.log(`Executed ${name}`));
+        console.log(`${executed.length} migration(s) executed`);
+        break;
+      }
+      case 'revert': {
+        const reverted = await migrationService.revertMigration();
+        console.log(
+          reverted ? 'Reverted the last migration' : 'No migration to revert',
+        );
+        break;
+      }
+      case 'generate': {
+        const path = await migrationService.generateMigration(args[0], args[1]);
+        console.log(`Generated ${path}`);
+        break;
+      }
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+migrate().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});